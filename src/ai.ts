@@ -1,31 +1,29 @@
 // Copyright (c) 2024 Shafil Alam
 
-import ollama, { ModelResponse } from "ollama";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { Ollama, ChatResponse as ChatResponseOllama, ModelResponse, Tool } from "ollama";
+import { Content, GoogleGenerativeAI } from "@google/generative-ai";
+import { AsyncLocalStorage } from "async_hooks";
 import OpenAI from 'openai';
-import { ChatCompletionMessageParam } from "openai/resources";
+import { SchemaObject } from "ajv";
 
 import { VideoGenType } from "./videogen";
-import { INITIAL_AI_PROMPT, messageVideoAIPrompt, quizVideoAIPrompt, rankVideoAIPrompt, ratherVideoAIPrompt, topicVideoAIPrompt } from "./const";
+import { getVideoType } from "./registry";
+import { schemaToGrammar } from "./grammar";
+import { AIAuthError, AIConnectionError, AIModelNotFoundError, AIRefusalError, classifyAIError, createAIResponseError } from "./errors";
+import type { AIUsageTracker } from "./usage";
+import type { AIFallbackOptions, AIRetryPolicy } from "./fallback";
+import type { AIPrompts } from "./prompts";
+import type { DurationTarget } from "./duration";
+import type { UploadPlatform } from "./metadata";
+import type { SourceContext } from "./sources";
 
-/** 
- * Function to convert video type to AI prompt
+/**
+ * Function to convert video type to AI prompt (field prompts of the registered video type)
+ *
+ * @throws Error if the video type is not registered
  */
-export function convertVideoTypeToPrompt(videoType: VideoGenType): any {
-    switch (videoType) {
-        case VideoGenType.TopicVideo:
-            return topicVideoAIPrompt;
-        case VideoGenType.TextMessageVideo:
-            return messageVideoAIPrompt;
-        case VideoGenType.RatherVideo:
-            return ratherVideoAIPrompt;
-        case VideoGenType.RankVideo:
-            return rankVideoAIPrompt;
-        case VideoGenType.QuizVideo:
-            return quizVideoAIPrompt;
-        default:
-            throw Error(`Invalid video type: '${videoType}' (maybe issue due to AI giving invalid video type)`);
-    }
+export function convertVideoTypeToPrompt(videoType: VideoGenType): Record<string, string> {
+    return getVideoType(videoType).fieldPrompts;
 }
 
 /**
@@ -36,6 +34,8 @@ export enum AIGenType {
     GoogleAIGen = "GoogleAIGen",
     AnthropicAIGen = "AnthropicAIGen",
     OllamaAIGen = "OllamaAIGen",
+    OpenAICompatibleAIGen = "OpenAICompatibleAIGen",
+    LlamaCppAIGen = "LlamaCppAIGen",
 }
 
 /**
@@ -45,168 +45,357 @@ export enum AIAPIEnv {
     OpenAIGen = "OPENAI_API_KEY",
     GoogleAIGen = "GOOGLE_AI_API_KEY",
     AnthropicAIGen = "ANTHROPIC_API_KEY",
+    OpenAICompatibleAIGen = "OPENAI_COMPATIBLE_API_KEY",
+}
+
+/**
+ * AI script generation modes
+ */
+export enum AIGenerationMode {
+    /** Ask for each field of the video type in its own request */
+    Field = "field",
+    /** Ask for the entire video object in one request using the provider's structured output */
+    Single = "single",
+}
+
+/**
+ * Features an AI provider supports
+ * (local OpenAI compatible servers often don't support all of them)
+ */
+export interface AICapabilities {
+    /** Provider can be asked to only respond with JSON */
+    jsonMode: boolean;
+    /** Provider supports the 'system' message role (if not, it is merged into the first user message) */
+    systemRole: boolean;
+    /** Provider supports streaming responses */
+    streaming: boolean;
+    /** Provider can force the response to follow a JSON schema (structured output or tool calling) */
+    structuredOutput: boolean;
 }
 
+/** Capabilities of providers unless changed by the provider or AI options */
+export const DEFAULT_AI_CAPABILITIES: AICapabilities = {
+    jsonMode: true,
+    systemRole: true,
+    streaming: true,
+    structuredOutput: true,
+};
+
 export interface AIOptions {
     /** AI model name */
     model?: string;
-    /** API endpoint (used only for OpenAI) */
+    /** API endpoint (used for OpenAI, OpenAI compatible and llama.cpp) */
     endpoint?: string;
+    /** Override provider capabilities */
+    capabilities?: Partial<AICapabilities>;
+    /** Max number of times the AI is asked to repair an invalid field (default: 2) */
+    maxRepairTurns?: number;
+    /** Script generation mode (default: field, single falls back to field if not supported) */
+    mode?: AIGenerationMode;
+    /** Review generated script and ask the AI to revise fields with issues (default: true) */
+    review?: boolean;
+    /** Custom fetch used for all provider HTTP requests (ex. to record or replay fixtures) */
+    fetch?: typeof fetch;
+    /** Tracks tokens, time and cost of every request (one is created if not set) */
+    usage?: AIUsageTracker;
+    /** Providers to fail over to (in order) if the AI type keeps failing */
+    fallbacks?: AIFallbackOptions[];
+    /** Retry policy of each provider (default: 2 retries with exponential backoff from 1s if fallbacks are set) */
+    retry?: Partial<AIRetryPolicy>;
+    /** Prompts of a prompt template (override the built-in system, type and field prompts) */
+    prompts?: AIPrompts;
+    /** Target duration (the AI is asked to expand or trim the script to fit) */
+    duration?: DurationTarget;
+    /** Platforms to make upload metadata for (default: every platform, false to skip) */
+    metadata?: UploadPlatform[] | false;
+    /** Sources to write a topic video from (the AI writes the text and images only from them) */
+    sources?: SourceContext;
+    /** Show the sources as an on-screen caption (if sources are set) */
+    showSources?: boolean;
+    /** Number of alternate search terms for each image (default: 3, 0 or false to skip) */
+    imageAlternates?: number | false;
 }
 
 /**
- * Base class for AI generation
- * @abstract
+ * Chat message sent to an AI provider
  */
-export class AIGen {
-    static async generate(log: (msg: string) => void, systemPrompt: string, userPrompt: string): Promise<string> {
-        throw new Error("Method 'generate' must be implemented");
-    }
+export interface ChatMessage {
+    /** Role of the message author */
+    role: "system" | "user" | "assistant";
+    /** Message text */
+    content: string;
+}
 
-    static async getModels(): Promise<string[]> {
-        throw new Error("Method 'getModels' must be implemented");
-    }
+/**
+ * Options for a single chat request
+ */
+export interface ChatRequestOptions {
+    /** Ask the provider to only respond with JSON (if supported) */
+    json?: boolean;
+    /** JSON schema the response should follow (used by providers that can constrain responses) */
+    schema?: SchemaObject;
+    /** Force the response to follow the schema with structured output or tool calling (if supported) */
+    structured?: boolean;
 }
 
 /**
- * AI generation using OpenAI API
+ * Token counts returned by a provider
  */
-export class OpenAIGen extends AIGen {
-    static DEFAULT_MODEL = "gpt-4o-mini";
-    static DEFAULT_ENDPOINT = "https://api.openai.com/v1/";
+export interface ChatUsage {
+    /** Prompt (input) tokens */
+    promptTokens: number;
+    /** Completion (output) tokens */
+    completionTokens: number;
+}
+
+/**
+ * Response of a single chat request
+ */
+export interface ChatResponse {
+    /** Response text */
+    text: string;
+    /** Token counts (if the provider returns them) */
+    usage?: ChatUsage;
+    /** Provider that produced the response (set by fallback chains) */
+    provider?: string;
+    /** Model that produced the response (set by fallback chains) */
+    model?: string;
+}
+
+/**
+ * Transport used by the script generation driver to talk to an AI provider.
+ * Providers are stateless, the full conversation is sent with every request.
+ */
+export interface ChatProvider {
+    /** Provider name (used for logs) */
+    readonly name: string;
+    /** Model name */
+    readonly model: string;
+    /** Provider capabilities (all assumed supported if not set) */
+    readonly capabilities?: AICapabilities;
 
     /**
-     * Generate AI text using OpenAI API
-     * @param log - Log function
-     * @param systemPrompt - System prompt
-     * @param userPrompt - User prompt
-     * @param apiKey - OpenAI API key
-     * @param options - OpenAI options
-     * @returns AI generated text
-     * @throws Error if API call fails
+     * Send conversation and wait for the full response
+     * @param messages - Conversation messages
+     * @param options - Request options
      */
-    static async generate(log: (msg: string) => void, systemPrompt: string, userPrompt: string, apiKey?: string, options?: AIOptions): Promise<string> {
-        try {
-            const endpoint = options?.endpoint ?? this.DEFAULT_ENDPOINT;
-            const model = options?.model ?? this.DEFAULT_MODEL;
+    send(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse>;
+
+    /**
+     * Send conversation and stream the response
+     * @param messages - Conversation messages
+     * @param onChunk - Called for each response chunk
+     * @param options - Request options
+     * @returns Full response
+     */
+    stream(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse>;
+
+    /**
+     * Get all models of provider
+     */
+    listModels(): Promise<string[]>;
+}
+
+/**
+ * Base class for AI providers
+ * @abstract
+ */
+export abstract class AIGen implements ChatProvider {
+    /** Provider name */
+    public name: string = "AI";
+    /** Model name */
+    public model: string;
+    /** Provider capabilities */
+    public capabilities: AICapabilities;
+    /** API key */
+    protected apiKey?: string;
+    /** AI options */
+    protected options?: AIOptions;
+
+    constructor(model: string, apiKey?: string, options?: AIOptions, capabilities: AICapabilities = DEFAULT_AI_CAPABILITIES) {
+        this.model = options?.model ?? model;
+        this.apiKey = apiKey;
+        this.options = options;
+        this.capabilities = { ...capabilities, ...options?.capabilities };
+    }
+
+    abstract send(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse>;
 
-            log(`Using OpenAI model: ${model}`);
-            log(`Calling OpenAI API with endpoint: ${endpoint}`);
+    abstract listModels(): Promise<string[]>;
 
-            if (apiKey == "" || apiKey == undefined) {
-                log("[*] Warning: OpenAI API key is not set! Set via '--openaiAPIKey' flag or define 'OPENAI_API_KEY' environment variable.");
+    /**
+     * Stream response (sends the request without streaming if the provider does not support it)
+     *
+     * @throws AIError (classified, ex. AIAuthError or AIConnectionError) if the request fails
+     */
+    async stream(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse> {
+        try {
+            if (!this.capabilities.streaming) {
+                const response = await this.send(messages, options);
+                onChunk(response.text);
+                return response;
             }
 
-            const client = new OpenAI({
-                apiKey: apiKey,
-                baseURL: endpoint,
-            });
+            return await this.streamResponse(messages, onChunk, options);
+        } catch (error) {
+            throw classifyAIError(error, this.name);
+        }
+    }
 
-            const messages = [
-                { role: 'user', content: systemPrompt },
-                { role: 'user', content: INITIAL_AI_PROMPT + userPrompt }
-            ];
+    /**
+     * Stream response from provider (default: send the request and give the full response as one chunk)
+     */
+    protected async streamResponse(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse> {
+        const response = await this.send(messages, options);
+        onChunk(response.text);
+        return response;
+    }
 
-            const response = await client.chat.completions.create({
-                max_tokens: 1024,
-                model: model,
-                messages: messages as OpenAI.ChatCompletionMessageParam[],
-                response_format: { "type": "json_object" }
-            });
+    /**
+     * Send HTTP request (with custom fetch from AI options if set)
+     */
+    protected fetch(input: string, init?: RequestInit): Promise<Response> {
+        return (this.options?.fetch ?? fetch)(input, init);
+    }
 
-            let aiResponse = '';
-            let videoType = '';
+    /**
+     * Check if request should use structured output
+     */
+    protected isStructured(options?: ChatRequestOptions): options is ChatRequestOptions & { schema: SchemaObject } {
+        return !!options?.structured && !!options.schema && this.capabilities.structuredOutput;
+    }
 
-            videoType = response.choices[0].message.content ?? "";
+    /**
+     * Merge system messages into the first user message if the provider has no system role
+     */
+    protected formatMessages(messages: ChatMessage[]): ChatMessage[] {
+        if (this.capabilities.systemRole) return messages;
 
-            messages.push({ role: 'assistant', content: videoType });
+        const system = messages.filter((msg) => msg.role == "system").map((msg) => msg.content).join("\n");
+        const rest = messages.filter((msg) => msg.role != "system");
 
-            videoType = videoType.trim();
+        if (!system) return rest;
 
-            // Get video type from AI response
-            // JSON parse "type" and check if it matches any type in VideoGenType enum
-            const videoTypeValues = Object.values<string>(VideoGenType);
-            const videoTypeJson = JSON.parse(videoType)["type"];
-            let matchedType = videoTypeValues.find((val) => val.toLowerCase() === videoTypeJson.toLowerCase());
+        const first = rest.findIndex((msg) => msg.role == "user");
+        if (first == -1) return [{ role: "user", content: system }, ...rest];
 
-            if (!matchedType) {
-                log(`[*] Invalid video type (defaulting to topic): '${videoType}'`);
-                matchedType = VideoGenType.TopicVideo;
-            }
+        return rest.map((msg, i) => i == first ? { role: "user", content: `${system}\n\n${msg.content}` } : msg);
+    }
+}
 
-            log(`(OpenAI ${model}) AI said video type is '${matchedType}'`);
+/**
+ * AI generation using OpenAI API
+ */
+export class OpenAIGen extends AIGen {
+    static DEFAULT_MODEL = "gpt-4o-mini";
+    static DEFAULT_ENDPOINT = "https://api.openai.com/v1/";
 
-            const videoGenType = matchedType as VideoGenType;
+    public name = "OpenAI";
 
-            // Get AI prompts for video type
-            const aiPrompt = convertVideoTypeToPrompt(videoGenType);
+    /** OpenAI client */
+    protected client: OpenAI;
 
-            // Get each prompt from each field and add to JSON
-            const videoJson: any = {};
+    /**
+     * @param apiKey - OpenAI API key
+     * @param options - OpenAI options
+     * @param capabilities - Provider capabilities
+     * @throws AIAuthError if API key is not set
+     */
+    constructor(apiKey?: string, options?: AIOptions, capabilities?: AICapabilities) {
+        super(OpenAIGen.DEFAULT_MODEL, apiKey, options, capabilities);
 
-            videoJson["type"] = videoGenType;
+        // OpenAI client also reads the key from the environment variable
+        if ((apiKey == "" || apiKey == undefined) && !process.env[AIAPIEnv.OpenAIGen]) {
+            throw new AIAuthError("OpenAI API key is not set! Set via '--openaiAPIKey' flag or define 'OPENAI_API_KEY' environment variable.", "OpenAI");
+        }
 
-            for (const [key, value] of Object.entries<string>(aiPrompt)) {
-                const prompt = value;
+        this.client = new OpenAI({
+            apiKey: apiKey,
+            baseURL: options?.endpoint ?? OpenAIGen.DEFAULT_ENDPOINT,
+            fetch: options?.fetch,
+        });
+    }
 
-                log(`(OpenAI ${model}) Will ask AI for field '${key}' with prompt '${prompt}'`);
+    async send(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse> {
+        const response = await this.client.chat.completions.create({
+            max_tokens: 1024,
+            model: await this.getModel(),
+            messages: this.formatMessages(messages),
+            response_format: this.getResponseFormat(options),
+        });
 
-                messages.push({ role: 'user', content: prompt });
-                const response = await client.chat.completions.create({
-                    max_tokens: 1024,
-                    model: model,
-                    messages: messages as OpenAI.ChatCompletionMessageParam[],
-                });
+        const choice = response.choices[0];
 
-                const res = response.choices[0].message.content ?? "";
+        if (choice.message.refusal || choice.finish_reason == "content_filter") {
+            throw new AIRefusalError(choice.message.refusal ?? "Response blocked by content filter", this.name);
+        }
 
-                messages.push({ role: 'assistant', content: res });
+        return { text: choice.message.content ?? "", usage: getOpenAIUsage(response.usage) };
+    }
 
-                // Try to parse JSON response and validate it
-                try {
-                    const jsonRes = JSON.parse(res.trim());
-                    videoJson[key] = jsonRes[key] ?? jsonRes;
-                } catch (error: any) {
-                    console.info(`(OpenAI ${model}) Error parsing JSON response: ${error.message}`);
-                }
+    protected async streamResponse(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse> {
+        const response = await this.client.chat.completions.create({
+            max_tokens: 1024,
+            model: await this.getModel(),
+            messages: this.formatMessages(messages),
+            response_format: this.getResponseFormat(options),
+            stream: true,
+            stream_options: this.getStreamOptions(),
+        });
 
-                log(`(OpenAI ${model}) AI said for field '${key}' is '${res}'`);
-            }
+        let text = '';
+        let refusal = '';
+        let usage: ChatUsage | undefined;
+        for await (const part of response) {
+            const msgChunk = part.choices[0]?.delta?.content ?? "";
+            text += msgChunk;
+            onChunk(msgChunk);
 
-            aiResponse = JSON.stringify(videoJson, null, 2);
+            refusal += part.choices[0]?.delta?.refusal ?? "";
+            if (part.choices[0]?.finish_reason == "content_filter") refusal ||= "Response blocked by content filter";
 
-            return aiResponse;
-        } catch (error: any) {
-            console.log("Error while calling OpenAI API: " + error.message);
+            // Usage is sent in the last chunk (which has no choices)
+            usage = getOpenAIUsage(part.usage) ?? usage;
         }
-        return ""; // Return empty string if error
+
+        if (refusal) throw new AIRefusalError(refusal, this.name);
+
+        return { text, usage };
     }
 
     /**
-     * Get all OpenAI models
-     * @param apiKey - OpenAI API key
-     * @param options - OpenAI options
-     * @returns List of OpenAI models
-     * @throws Error if API call fails
+     * Get response format (JSON schema for structured output, JSON object for JSON mode)
      */
-    static async getModels(apiKey?: string, options?: AIOptions): Promise<string[]> {
-        // Get all OpenAI models
-        const endpoint = options?.endpoint ?? this.DEFAULT_ENDPOINT;
-
-        if (apiKey == "" || apiKey == undefined) {
-            console.info("[*] Warning: OpenAI API key is not set!");
+    protected getResponseFormat(options?: ChatRequestOptions): OpenAI.ResponseFormatJSONSchema | OpenAI.ResponseFormatJSONObject | undefined {
+        if (this.isStructured(options)) {
+            return { type: "json_schema", json_schema: { name: "video", schema: options.schema } };
         }
 
-        const client = new OpenAI({
-            apiKey: apiKey,
-            baseURL: endpoint,
-        });
+        return options?.json && this.capabilities.jsonMode ? { type: "json_object" } : undefined;
+    }
 
-        const response = await client.models.list();
+    /**
+     * Get stream options (ask for token usage in the last chunk)
+     */
+    protected getStreamOptions(): OpenAI.ChatCompletionStreamOptions | undefined {
+        return { include_usage: true };
+    }
 
-        const models = response.data.map((model: any) => model.id);
+    /**
+     * Get model name used for requests
+     */
+    protected async getModel(): Promise<string> {
+        return this.model;
+    }
 
-        return models;
+    /**
+     * Get all OpenAI models
+     * @returns List of OpenAI models
+     * @throws Error if API call fails
+     */
+    async listModels(): Promise<string[]> {
+        const response = await this.client.models.list();
+        return response.data.map((model) => model.id);
     }
 }
 
@@ -217,97 +406,78 @@ export class GoogleAIGen extends AIGen {
     static DEFAULT_MODEL = "gemini-1.5-flash";
     static DEFAULT_ENDPOINT = "https://generativelanguage.googleapis.com/v1beta";
 
+    /** Gemini uses its own schema format, so structured output is not used */
+    static DEFAULT_CAPABILITIES: AICapabilities = {
+        ...DEFAULT_AI_CAPABILITIES,
+        structuredOutput: false,
+    };
+
+    public name = "Google AI";
+
     /**
-     * Generate AI text using Google Gemini API
-     * @param log - Log function
-     * @param systemPrompt - System prompt
-     * @param userPrompt - User prompt
      * @param apiKey - Google Gemini API key
      * @param options - Google Gemini AI options
-     * @returns AI generated text
-     * @throws Error if API call fails
+     * @throws AIAuthError if API key is not set
      */
-    static async generate(log: (msg: string) => void, systemPrompt: string, userPrompt: string, apiKey?: string, options?: AIOptions): Promise<string> {
-        const endpoint = this.DEFAULT_ENDPOINT;
-        const model = options?.model ?? this.DEFAULT_MODEL;
-
-        log(`Using Google AI model: ${model}`);
-        log(`Calling Google AI API with endpoint: ${endpoint}`);
+    constructor(apiKey?: string, options?: AIOptions) {
+        super(GoogleAIGen.DEFAULT_MODEL, apiKey, options, GoogleAIGen.DEFAULT_CAPABILITIES);
 
         if (apiKey == "" || apiKey == undefined) {
-            throw Error("Google AI API key is not set! Set via '--googleaiAPIKey' flag or define 'GOOGLE_AI_API_KEY' environment variable.");
+            throw new AIAuthError("Google AI API key is not set! Set via '--googleaiAPIKey' flag or define 'GOOGLE_AI_API_KEY' environment variable.", "Google AI");
         }
+    }
 
-        let aiResponse = '';
-
-        const ai = new GoogleGenerativeAI(apiKey);
-        const geminiModel = ai.getGenerativeModel({ model: model });
-        const chat = await geminiModel.startChat({
-            history: [
-                { role: "user", parts: [{ text: systemPrompt }] }
-            ]
-        })
+    async send(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse> {
+        const { model, contents } = this.createRequest(messages, options);
+        const result = await withFetch(this.options?.fetch, () => model.generateContent({ contents }));
+        checkGoogleAIRefusal(result.response, this.name);
 
-        const videoTypeResult = await chat.sendMessageStream(INITIAL_AI_PROMPT + userPrompt);
-        let videoType = '';
+        return { text: getGoogleAIText(result.response), usage: getGoogleAIUsage(result.response) };
+    }
 
-        for await (const part of videoTypeResult.stream) {
-            videoType += part.text();
-            log(`AI Response chunk for 'type' -> ${part.text().trim()}`);
-        }
+    protected async streamResponse(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse> {
+        const { model, contents } = this.createRequest(messages, options);
+        const result = await withFetch(this.options?.fetch, () => model.generateContentStream({ contents }));
 
-        videoType = videoType.trim();
+        let text = '';
+        let usage: ChatUsage | undefined;
+        for await (const part of result.stream) {
+            checkGoogleAIRefusal(part, this.name);
 
-        // Get AI prompts for video type
-        // Check if AI string matches any type in VideoGenType enum
-        const videoTypeValues = Object.values<string>(VideoGenType);
-        let matchedType = videoTypeValues.find((val) => val.toLowerCase() === videoType.toLowerCase());
+            const msgChunk = getGoogleAIText(part);
+            text += msgChunk;
+            onChunk(msgChunk);
 
-        if (!matchedType) {
-            log(`[*] Invalid video type (defaulting to topic): '${videoType}'`);
-            matchedType = VideoGenType.TopicVideo;
+            // Every chunk has the usage so far
+            usage = getGoogleAIUsage(part) ?? usage;
         }
 
-        log(`(Google AI ${model}) AI said video type is '${matchedType}'`);
-
-        const videoGenType = matchedType as VideoGenType;
-
-        const aiPrompt = convertVideoTypeToPrompt(videoGenType);
-
-        // Get each prompt from each field and add to JSON
-        const videoJson: any = {};
-
-        videoJson["type"] = videoGenType;
-
-        for (const [key, value] of Object.entries<string>(aiPrompt)) {
-            const prompt = value;
-
-            log(`(Google AI ${model}) Will ask AI for field '${key}' with prompt '${prompt}'`);
-
-            const result = await chat.sendMessageStream(prompt);
-            let res = '';
-            for await (const part of result.stream) {
-                res += part.text();
-                log(`AI Response chunk for '${key}' -> ${part.text().trim()}`);
-            }
-
-            // Try to parse JSON response and validate it
-            try {
-                const jsonRes = JSON.parse(res.trim());
-                videoJson[key] = jsonRes[key] ?? jsonRes;
-            } catch (error: any) {
-                console.info(`(Google AI ${model}) Error parsing JSON response: ${error.message}`);
-            }
+        return { text, usage };
+    }
 
-            log(`(Google AI ${model}) AI said for field '${key}' is '${res}'`);
-        }
+    /**
+     * Convert chat messages to Gemini model and contents
+     * (system messages become the system instruction, assistant messages use the 'model' role)
+     */
+    private createRequest(chatMessages: ChatMessage[], options?: ChatRequestOptions) {
+        const ai = new GoogleGenerativeAI(this.apiKey ?? "");
+        const messages = this.formatMessages(chatMessages);
+        const systemInstruction = messages.filter((msg) => msg.role == "system").map((msg) => msg.content).join("\n");
+
+        const model = ai.getGenerativeModel({
+            model: this.model,
+            systemInstruction: systemInstruction || undefined,
+            generationConfig: options?.json && this.capabilities.jsonMode ? { responseMimeType: "application/json" } : undefined,
+        });
 
-        aiResponse = JSON.stringify(videoJson, null, 2);
+        const contents: Content[] = messages
+            .filter((msg) => msg.role != "system")
+            .map((msg) => ({ role: msg.role == "assistant" ? "model" : "user", parts: [{ text: msg.content }] }));
 
-        return aiResponse;
+        return { model, contents };
     }
 
-    static async getModels(): Promise<string[]> {
+    async listModels(): Promise<string[]> {
         // Return list of Google Gemini AI models
         return [
             "gemini-1.5-flash",
@@ -325,243 +495,442 @@ export class AnthropicAIGen extends AIGen {
     static DEFAULT_MODEL = "claude-3-5-sonnet-20240620";
     static DEFAULT_ENDPOINT = "https://api.anthropic.com/v1";
 
+    public name = "Anthropic";
+
     /**
-     * Generate AI text using Anthropic API
-     * @param log - Log function
-     * @param systemPrompt - System prompt
-     * @param userPrompt - User prompt
      * @param apiKey - Anthropic API key
      * @param options - Anthropic AI options
-     * @returns AI generated text
-     * @throws Error if API call fails
+     * @throws AIAuthError if API key is not set
      */
-    static async generate(log: (msg: string) => void, systemPrompt: string, userPrompt: string, apiKey?: string, options?: AIOptions): Promise<string> {
-        const endpoint = this.DEFAULT_ENDPOINT;
-        const model = options?.model ?? this.DEFAULT_MODEL;
-
-        log(`Using Anthropic AI model: ${model}`);
-        log(`Calling Anthropic AI API with endpoint: ${endpoint}`);
+    constructor(apiKey?: string, options?: AIOptions) {
+        super(AnthropicAIGen.DEFAULT_MODEL, apiKey, options);
 
         if (apiKey == "" || apiKey == undefined) {
-            throw Error("Anthropic AI API key is not set! Set via '--anthropicAPIKey' flag or define 'ANTHROPIC_API_KEY' environment variable.");
+            throw new AIAuthError("Anthropic AI API key is not set! Set via '--anthropicAPIKey' flag or define 'ANTHROPIC_API_KEY' environment variable.", "Anthropic");
         }
+    }
 
+    async send(chatMessages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse> {
+        const messages = this.formatMessages(chatMessages);
         const headers = {
             'Content-Type': 'application/json',
-            'x-api-key': apiKey,
+            'x-api-key': this.apiKey ?? "",
             'anthropic-version': '2023-06-01',
         };
 
-        const messages = [
-            { role: 'user', content: systemPrompt },
-            { role: 'user', content: INITIAL_AI_PROMPT + userPrompt }
-        ]
-
+        // System prompt is a top level field in Anthropic API
         const data = {
-            model: model,
-            messages: messages,
+            model: this.model,
+            max_tokens: 1024,
+            system: messages.filter((msg) => msg.role == "system").map((msg) => msg.content).join("\n"),
+            messages: messages.filter((msg) => msg.role != "system"),
+            // Structured output is done by forcing a tool call with the schema as input
+            ...(this.isStructured(options) && {
+                tools: [{ name: "video", description: "Video data", input_schema: options.schema }],
+                tool_choice: { type: "tool", name: "video" },
+            }),
         };
 
-        const response = await fetch(endpoint + "/messages", {
+        const response = await this.fetch(AnthropicAIGen.DEFAULT_ENDPOINT + "/messages", {
             method: 'POST',
             headers: headers,
             body: JSON.stringify(data),
         });
 
         if (!response.ok) {
-            throw new Error("Failed to call Anthropic AI API: " + response.statusText);
+            throw await createAIResponseError(response, this.name);
         }
 
         const json = await response.json();
+        const usage = json.usage ? { promptTokens: json.usage.input_tokens ?? 0, completionTokens: json.usage.output_tokens ?? 0 } : undefined;
 
-        const videoType = json.content[0].text;
+        const toolUse = json.content.find((content: { type: string }) => content.type == "tool_use");
+        if (toolUse) return { text: JSON.stringify(toolUse.input), usage };
 
-        // Get AI prompts for video type
-        // Check if AI string matches any type in VideoGenType enum
-        const videoTypeValues = Object.values<string>(VideoGenType);
-        let matchedType = videoTypeValues.find((val) => val.toLowerCase() === videoType.toLowerCase());
+        return { text: json.content[0].text, usage };
+    }
 
-        if (!matchedType) {
-            log(`[*] Invalid video type (defaulting to topic): '${videoType}'`);
-            matchedType = VideoGenType.TopicVideo;
-        }
+    async listModels(): Promise<string[]> {
+        // Return list of Anthropic claude AI models
+        return [
+            "claude-3-5-sonnet-20240620",
+            "claude-3-opus-20240229",
+            "claude-3-sonnet-20240229",
+            "claude-3-haiku-20240307"
+        ];
+    }
+}
+
+/**
+ * AI generation using Ollama API
+ */
+export class OllamaAIGen extends AIGen {
+    /** Default model name */
+    static DEFAULT_MODEL = "llama3.2";
 
-        log(`(Anthropic ${model}) AI said video type is '${matchedType}'`);
+    public name = "Ollama";
 
-        const videoGenType = matchedType as VideoGenType;
+    /** Ollama client */
+    private client: Ollama;
 
-        // Get AI prompts for video type
-        const aiPrompt = convertVideoTypeToPrompt(videoGenType);
+    /**
+     * @param options - Ollama AI options
+     */
+    constructor(options?: AIOptions) {
+        super(OllamaAIGen.DEFAULT_MODEL, undefined, options);
+        this.client = new Ollama({ fetch: options?.fetch });
+    }
+
+    async send(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse> {
+        if (this.isStructured(options)) {
+            // Structured output is done by forcing a tool call with the schema as parameters
+            const tool: Tool = {
+                type: "function",
+                function: { name: "video", description: "Video data", parameters: options.schema as Tool["function"]["parameters"] },
+            };
 
-        // Get each prompt from each field and add to JSON
-        const videoJson: any = {};
+            const response = await this.client.chat({ model: this.model, messages: this.formatMessages(messages), tools: [tool] });
+            const toolCall = response.message.tool_calls?.[0];
 
-        videoJson["type"] = videoGenType;
+            return { text: toolCall ? JSON.stringify(toolCall.function.arguments) : response.message.content, usage: getOllamaUsage(response) };
+        }
 
-        for (const [key, value] of Object.entries<string>(aiPrompt)) {
-            const prompt = value;
+        const response = await this.client.chat({ model: this.model, messages: this.formatMessages(messages), format: options?.json && this.capabilities.jsonMode ? 'json' : undefined });
+        return { text: response.message.content, usage: getOllamaUsage(response) };
+    }
 
-            log(`(Anthropic ${model}) Will ask AI for field '${key}' with prompt '${prompt}'`);
+    protected async streamResponse(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse> {
+        // Tool calls are not streamed
+        if (this.isStructured(options)) return await super.streamResponse(messages, onChunk, options);
 
-            messages.push({ role: 'user', content: prompt });
+        const response = await this.client.chat({ model: this.model, messages: this.formatMessages(messages), stream: true, format: options?.json && this.capabilities.jsonMode ? 'json' : undefined });
 
-            const data = {
-                model: model,
-                messages: messages,
-            };
+        let text = '';
+        let usage: ChatUsage | undefined;
+        for await (const part of response) {
+            text += part.message.content;
+            onChunk(part.message.content);
 
-            const response = await fetch(endpoint + "/messages", {
-                method: 'POST',
-                headers: headers,
-                body: JSON.stringify(data),
-            });
+            // Token counts are only in the last part
+            if (part.done) usage = getOllamaUsage(part);
+        }
 
-            if (!response.ok) {
-                throw new Error("Failed to call Anthropic AI API: " + response.statusText);
-            }
+        return { text, usage };
+    }
 
-            const json = await response.json();
+    /**
+     * Get all Ollama models
+     * @returns List of Ollama models
+     * @throws Error if API call fails
+     */
+    async listModels(): Promise<string[]> {
+        const response = await this.client.list();
+        return response.models.map((model: ModelResponse) => model.name);
+    }
+}
 
-            const res: string = json.content[0].text;
+/**
+ * AI generation using any OpenAI compatible server (vLLM, LM Studio, LocalAI, etc.)
+ */
+export class OpenAICompatibleAIGen extends OpenAIGen {
+    /** Most local servers reject 'response_format', so JSON mode and structured output are off unless enabled */
+    static DEFAULT_CAPABILITIES: AICapabilities = {
+        jsonMode: false,
+        systemRole: true,
+        streaming: true,
+        structuredOutput: false,
+    };
 
-            // Try to parse JSON response and validate it
-            try {
-                const jsonRes = JSON.parse(res.trim());
-                videoJson[key] = jsonRes[key] ?? jsonRes;
-            } catch (error: any) {
-                console.info(`(Anthropic AI ${model}) Error parsing JSON response: ${error.message}`);
-            }
+    public name = "OpenAI Compatible";
 
-            log(`(Anthropic ${model}) AI said for field '${key}' is '${res}'`);
+    /**
+     * @param apiKey - API key (optional, most local servers don't need one)
+     * @param options - AI options (endpoint is required)
+     * @throws Error if endpoint is not set
+     */
+    constructor(apiKey?: string, options?: AIOptions) {
+        if (!options?.endpoint) {
+            throw Error("OpenAI compatible endpoint is not set! Set via '--openAIEndpoint' flag.");
         }
 
-        const aiResponse = JSON.stringify(videoJson, null, 2);
+        // OpenAI client requires a key even if the server doesn't
+        super(apiKey || "none", options, OpenAICompatibleAIGen.DEFAULT_CAPABILITIES);
 
-        return aiResponse;
+        this.model = options.model ?? "";
     }
 
-    static async getModels(): Promise<string[]> {
-        // Return list of Anthropic claude AI models
-        return [
-            "claude-3-5-sonnet-20240620",
-            "claude-3-opus-20240229",
-            "claude-3-sonnet-20240229",
-            "claude-3-haiku-20240307"
-        ];
+    /**
+     * Get stream options (not sent, since older servers reject 'stream_options')
+     */
+    protected getStreamOptions(): OpenAI.ChatCompletionStreamOptions | undefined {
+        return undefined;
+    }
+
+    /**
+     * Get model name (first model of server if not set)
+     */
+    protected async getModel(): Promise<string> {
+        if (!this.model) {
+            const models = await this.listModels();
+
+            if (models.length == 0) {
+                throw new AIModelNotFoundError("No models found on OpenAI compatible server! Set model via '--model' flag.", this.name);
+            }
+
+            this.model = models[0];
+        }
+
+        return this.model;
     }
 }
 
 /**
- * AI generation using Ollama API
+ * AI generation using llama.cpp server
+ * JSON responses are constrained with a GBNF grammar made from the schema of each field.
  */
-export class OllamaAIGen extends AIGen {
-    /** Default model name */
-    static DEFAULT_MODEL = "llama3.2";
+export class LlamaCppAIGen extends AIGen {
+    /** Default model name (llama.cpp serves the model it was started with) */
+    static DEFAULT_MODEL = "default";
+    static DEFAULT_ENDPOINT = "http://localhost:8080";
+
+    public name = "llama.cpp";
+
+    /** Server endpoint */
+    private endpoint: string;
 
     /**
-     * Generate AI text using Ollama local API
-     * @param log - Log function
-     * @param systemPrompt - System prompt
-     * @param userPrompt - User prompt
-     * @param options - Ollama AI options
-     * @returns AI generated text
+     * @param options - llama.cpp options
+     */
+    constructor(options?: AIOptions) {
+        super(LlamaCppAIGen.DEFAULT_MODEL, undefined, options);
+        this.endpoint = (options?.endpoint ?? LlamaCppAIGen.DEFAULT_ENDPOINT).replace(/\/+$/, "");
+    }
+
+    async send(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse> {
+        const response = await this.request(messages, false, options);
+        const json = await response.json();
+
+        return { text: json.choices[0].message.content ?? "", usage: getOpenAIUsage(json.usage) };
+    }
+
+    protected async streamResponse(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse> {
+        const response = await this.request(messages, true, options);
+
+        let text = '';
+        let usage: ChatUsage | undefined;
+        await readEventStream(response, (data) => {
+            const json = JSON.parse(data);
+            const msgChunk = json.choices[0]?.delta?.content ?? "";
+            text += msgChunk;
+            onChunk(msgChunk);
+
+            // Newer servers send usage in the last chunk
+            usage = getOpenAIUsage(json.usage) ?? usage;
+        });
+
+        return { text, usage };
+    }
+
+    /**
+     * Send chat completion request to server
+     */
+    private async request(messages: ChatMessage[], stream: boolean, options?: ChatRequestOptions): Promise<Response> {
+        const data = {
+            model: this.model,
+            messages: this.formatMessages(messages),
+            max_tokens: 1024,
+            stream: stream,
+            grammar: this.getGrammar(options),
+        };
+
+        const response = await this.fetch(this.endpoint + "/v1/chat/completions", {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+            throw await createAIResponseError(response, this.name);
+        }
+
+        return response;
+    }
+
+    /**
+     * Get GBNF grammar for request (any JSON if no schema is given)
+     */
+    private getGrammar(options?: ChatRequestOptions): string | undefined {
+        if (this.isStructured(options)) return schemaToGrammar(options.schema);
+        if (!options?.json || !this.capabilities.jsonMode) return undefined;
+
+        return schemaToGrammar(options.schema ?? {});
+    }
+
+    /**
+     * Get models loaded by llama.cpp server
+     * @returns List of models
      * @throws Error if API call fails
      */
-    static async generate(log: (msg: string) => void, systemPrompt: string, userPrompt: string, options?: AIOptions): Promise<string> {
-        const model = options?.model ?? this.DEFAULT_MODEL;
-        log(`Calling Ollama local API with model: ${model}`);
+    async listModels(): Promise<string[]> {
+        const response = await this.fetch(this.endpoint + "/v1/models");
 
-        let aiResponse = '';
-        try {
+        if (!response.ok) {
+            throw await createAIResponseError(response, this.name);
+        }
 
-            let videoType = '';
+        const json = await response.json();
 
-            const messages = [
-                { role: 'user', content: systemPrompt },
-                { role: 'user', content: INITIAL_AI_PROMPT + userPrompt }
-            ];
-            const response = await ollama.chat({ model: model, messages: messages, stream: true })
+        return json.data.map((model: { id: string }) => model.id);
+    }
+}
 
-            for await (const part of response) {
-                const msgChunk = part.message.content;
-                videoType += msgChunk;
-                log(`AI Response chunk for 'type' -> ${msgChunk.trim()}`);
-            }
+/**
+ * Gemini response (only the fields used)
+ */
+interface GoogleAIResponse {
+    candidates?: { content?: { parts?: { text?: string }[] }, finishReason?: string }[];
+    promptFeedback?: { blockReason?: string };
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
 
-            messages.push({ role: 'assistant', content: videoType });
+/**
+ * Get response text of Gemini response
+ */
+function getGoogleAIText(json: GoogleAIResponse): string {
+    return json.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
+}
 
-            videoType = videoType.trim();
+/**
+ * Get token usage of Ollama response
+ */
+function getOllamaUsage(response: ChatResponseOllama): ChatUsage | undefined {
+    if (response.prompt_eval_count == undefined && response.eval_count == undefined) return undefined;
 
-            // Get AI prompts for video type
-            // Check if AI string matches any type in VideoGenType enum
-            const videoTypeValues = Object.values<string>(VideoGenType);
-            let matchedType = videoTypeValues.find((val) => val.toLowerCase() === videoType.toLowerCase());
+    return { promptTokens: response.prompt_eval_count ?? 0, completionTokens: response.eval_count ?? 0 };
+}
 
-            if (!matchedType) {
-                log(`[*] Invalid video type (defaulting to topic): '${videoType}'`);
-                matchedType = VideoGenType.TopicVideo;
-            }
+/** Gemini finish reasons of blocked responses */
+const GOOGLE_AI_BLOCK_REASONS = ["SAFETY", "RECITATION", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII"];
 
-            log(`(Ollama ${model}) AI said video type is '${matchedType}'`);
+/**
+ * Throw error if Gemini REST API blocked the prompt or response
+ * @throws AIRefusalError if blocked
+ */
+function checkGoogleAIRefusal(json: GoogleAIResponse, provider: string) {
+    const reason = json.promptFeedback?.blockReason ?? json.candidates?.find((candidate) => GOOGLE_AI_BLOCK_REASONS.includes(candidate.finishReason ?? ""))?.finishReason;
 
-            const videoGenType = matchedType as VideoGenType;
+    if (reason) {
+        throw new AIRefusalError(`Response blocked (${reason})`, provider);
+    }
+}
 
-            const aiPrompt = convertVideoTypeToPrompt(videoGenType);
+/**
+ * Get token usage of Gemini response
+ */
+function getGoogleAIUsage(json: GoogleAIResponse): ChatUsage | undefined {
+    if (!json.usageMetadata) return undefined;
 
-            // Get each prompt from each field and add to JSON
-            const videoJson: any = {};
+    return { promptTokens: json.usageMetadata.promptTokenCount ?? 0, completionTokens: json.usageMetadata.candidatesTokenCount ?? 0 };
+}
 
-            videoJson["type"] = videoGenType;
+/**
+ * Get token usage of OpenAI style response (also used by llama.cpp)
+ */
+function getOpenAIUsage(usage?: { prompt_tokens?: number; completion_tokens?: number } | null): ChatUsage | undefined {
+    if (!usage) return undefined;
 
-            for (const [key, value] of Object.entries<string>(aiPrompt)) {
-                const prompt = value;
+    return { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 };
+}
 
-                log(`(Ollama ${model}) Will ask AI for field '${key}' with prompt '${prompt}'`);
+/** Custom fetch of the request being sent by an SDK that only uses the global fetch (Gemini SDK) */
+const scopedFetch = new AsyncLocalStorage<typeof fetch>();
 
-                messages.push({ role: 'user', content: prompt });
+/** Global fetch is replaced by one that uses the scoped fetch (done on first use) */
+let globalFetchReplaced = false;
 
-                const response = await ollama.chat({ model: model, messages: messages, stream: true, format: 'json' });
+/**
+ * Run SDK requests with a custom fetch (ex. to record or replay fixtures)
+ *
+ * Only requests made by `run` use the custom fetch, other requests use the global fetch as before.
+ *
+ * @param customFetch - Custom fetch from AI options (if not set, `run` is called as is)
+ * @param run - Function that sends the requests
+ */
+function withFetch<T>(customFetch: typeof fetch | undefined, run: () => Promise<T>): Promise<T> {
+    if (!customFetch) return run();
+
+    if (!globalFetchReplaced) {
+        const baseFetch = globalThis.fetch;
+        globalThis.fetch = (input, init) => {
+            const custom = scopedFetch.getStore();
+            // Requests of the custom fetch itself (ex. when recording) use the global fetch
+            return custom ? scopedFetch.exit(() => custom(input, init)) : baseFetch(input, init);
+        };
+        globalFetchReplaced = true;
+    }
 
-                let res = '';
-                for await (const part of response) {
-                    const msgChunk = part.message.content;
-                    res += msgChunk;
-                    log(`AI Response chunk for '${key}' -> ${msgChunk.trim()}`);
-                }
+    return scopedFetch.run(customFetch, run);
+}
 
-                messages.push({ role: 'assistant', content: res });
+/**
+ * Read server-sent events ('data: ...' lines) from response
+ *
+ * @param response - HTTP response
+ * @param onData - Called with data of each event (except '[DONE]')
+ */
+async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+        throw new AIConnectionError("Failed to stream response: empty body");
+    }
 
-                // Try to parse JSON response and validate it
-                try {
-                    const jsonRes = JSON.parse(res);
-                    videoJson[key] = jsonRes[key] ?? jsonRes;
-                } catch (error: any) {
-                    console.info(`(Ollama ${model}) Error parsing JSON response: ${error.message}`);
-                }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
 
-                log(`(Ollama ${model}) AI said for field '${key}' is '${res}'`);
-            }
+    let buffer = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
 
-            aiResponse = JSON.stringify(videoJson, null, 2);
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
 
-            return aiResponse;
+        const lines = buffer.split("\n");
+        buffer = done ? "" : lines.pop() ?? "";
 
-        } catch (error: any) {
-            log("Error while calling Ollama API: " + error.message);
-            throw new Error("Error while calling Ollama API: " + error.message);
+        for (const line of lines) {
+            if (!line.startsWith("data:")) continue;
+
+            const data = line.substring(5).trim();
+            if (data && data != "[DONE]") onData(data);
         }
-    }
 
-    /**
-     * Get all Ollama models
-     * @returns List of Ollama models
-     * @throws Error if API call fails
-     */
-    static async getModels(): Promise<string[]> {
-        // Get all Ollama models
-        const response = await ollama.list();
-        const models = response.models.map((model: ModelResponse) => model.name);
+        if (done) break;
+    }
+}
 
-        return models;
+/**
+ * Create chat provider based on AI type
+ *
+ * @param aiType - AI type
+ * @param apiKey - API key (if applicable)
+ * @param options - AI options
+ * @returns Chat provider
+ * @throws Error if AI type is invalid
+ */
+export function createChatProvider(aiType: AIGenType, apiKey?: string, options?: AIOptions): ChatProvider {
+    switch (aiType) {
+        case AIGenType.OpenAIGen:
+            return new OpenAIGen(apiKey, options);
+        case AIGenType.GoogleAIGen:
+            return new GoogleAIGen(apiKey, options);
+        case AIGenType.AnthropicAIGen:
+            return new AnthropicAIGen(apiKey, options);
+        case AIGenType.OllamaAIGen:
+            return new OllamaAIGen(options);
+        case AIGenType.OpenAICompatibleAIGen:
+            return new OpenAICompatibleAIGen(apiKey, options);
+        case AIGenType.LlamaCppAIGen:
+            return new LlamaCppAIGen(options);
+        default:
+            throw new Error("Invalid AI type: " + aiType);
     }
 }
@@ -6,12 +6,31 @@ import 'console-info'
 import 'console-error'
 import 'dotenv/config'
 
-import { checkResDir, checkTempDir, genVideo, genVideoDataWithAI, genVideoWithJson, VideoOptions } from ".";
-
-import { AIAPIEnv, AIGenType, AnthropicAIGen, GoogleAIGen, OllamaAIGen, OpenAIGen } from "./ai";
-import { VoiceAPIEnv, VoiceGenType } from "./tts";
-import { ImageAPIEnv, ImageGenType } from "./image";
+import { checkResDir, checkTempDir, genLocalizedVideos, genVideo, genVideoDataWithAI, planVideo, VideoOptions } from ".";
+
+import { AIAPIEnv, AICapabilities, AIGenerationMode, AIGenType, AIOptions, createChatProvider } from "./ai";
+import { VoiceGenType } from "./tts";
+import { IMAGE_CHOICES_FILE, ImageGenType } from "./image";
+import { APIKeys } from "./videogen";
+import { getImageProvider, getImageProviders, getMissingCredentials, getProviderCredentialList, getVoiceProvider, getVoiceProviders, hasImageProvider, hasVoiceProvider, ProviderCredential, ProviderError } from "./providers";
+import { VideoStage } from "./pipeline";
+import { VideoCancelledError, VideoTask } from "./task";
+import { RenderPlan } from "./plan";
+import { loadTimeline, TIMELINE_FILE, TimelineError } from "./timeline";
+import { DEFAULT_ORIENTATION, RESOLUTION_PRESETS } from "./resolution";
+import { DEFAULT_ENCODING_PROFILE, ENCODING_PROFILES, EncodingError, EncodingOptions, EncodingProfile, getEncodingSettings, VideoCodec, VideoContainer } from "./encoding";
 import { runAPIServer } from './server';
+import { AIFixtureMode } from "./fixtures";
+import { AIPriceTable, AIUsage, AIUsageReport, AIUsageTracker, formatUsageReport } from "./usage";
+import { AIFallbackOptions, AIRetryPolicy, parseFallback } from "./fallback";
+import { AIError, AIErrorCode, classifyAIError, VideoDataError } from "./errors";
+import { formatChanges } from "./refine";
+import { AIPrompts, compareVersions, parsePromptVariable, PromptLibrary, PromptVariables, renderPromptTemplate } from "./prompts";
+import { DurationTarget } from "./duration";
+import { DEFAULT_LANGUAGE, getVideoLocale, VIDEO_LOCALES } from "./locale";
+import { PLATFORM_LIMITS, UploadPlatform, VideoMetadata } from "./metadata";
+import { AIModerator, ContentModerator, KeywordModerator, ModerationError, Moderator } from "./moderation";
+import { createHttpSourceFetcher, loadSourceContext, SourceError } from "./sources";
 
 import fs from "fs";
 import path from "path";
@@ -19,10 +38,137 @@ import path from "path";
 import { input, select } from "@inquirer/prompts";
 import commandLineArgs from "command-line-args";
 import commandLineUsage from 'command-line-usage';
-import download from './download';
+import download, { ModelName } from './download';
 
 // TODO: Clean code
 
+/**
+ * How to fix each type of AI error
+ */
+const AI_ERROR_HINTS: Record<AIErrorCode, string | undefined> = {
+    [AIErrorCode.Auth]: "Check the API key of the AI type (ex. '--openaiAPIKey' flag or 'OPENAI_API_KEY' in .env) and that it can use the model.",
+    [AIErrorCode.RateLimit]: "Wait and try again, check the quota of your account or add another provider with '--aiFallback'.",
+    [AIErrorCode.ModelNotFound]: "Check the model name of '--model' (leave it out to pick from a list). For Ollama, download it with 'ollama pull [model]'.",
+    [AIErrorCode.Connection]: "Check that the AI provider is running and reachable (for Ollama run 'ollama serve', for local servers check '--openAIEndpoint'). Use '--aiRetries' or '--aiFallback' for unreliable providers.",
+    [AIErrorCode.MalformedOutput]: "Try again or use a bigger model. '--aiMode single' uses structured output if the provider has it, '--noJsonMode' helps servers that reject JSON mode.",
+    [AIErrorCode.Refusal]: "The AI refused the prompt. Rephrase the prompt or use another model.",
+    [AIErrorCode.Unknown]: undefined,
+};
+
+/**
+ * Print error with a hint on how to fix it
+ */
+function printError(error: unknown) {
+    console.error("Error: " + ((error as Error)?.message ?? String(error)));
+
+    let hint: string | undefined;
+    if (error instanceof AIError) {
+        hint = AI_ERROR_HINTS[error.code];
+    } else if (error instanceof VideoDataError) {
+        hint = "Check the video JSON data (must be valid JSON with a 'type' field, see README for examples).";
+    } else if (error instanceof SourceError) {
+        hint = "Check the source file path or URL (pages must be HTML, feeds must be RSS or Atom).";
+    } else if (error instanceof ProviderError) {
+        hint = "Check the TTS and image type, their options and API keys (see 'TTS Providers' and 'Image Providers' in '--help').";
+    } else if (error instanceof ModerationError) {
+        hint = "Change the prompt or script (use '--noModeration' if the content was flagged by mistake).";
+    } else if (error instanceof EncodingError) {
+        hint = "Check the encoding options (see 'Encoding Options' in '--help', webm needs vp9 video and opus audio).";
+    } else if (error instanceof TimelineError) {
+        hint = `Check the timeline file (start from the '${TIMELINE_FILE}' in the job folder of a render, asset ids must be in 'assets').`;
+    }
+
+    if (hint) console.info("[*] Hint: " + hint);
+}
+
+/**
+ * Print upload metadata of each platform
+ */
+function printMetadata(metadata: VideoMetadata) {
+    for (const [platform, platformMetadata] of Object.entries(metadata)) {
+        console.info(`--> ${PLATFORM_LIMITS[platform as UploadPlatform].name} metadata:`);
+        console.info(`    Title: ${platformMetadata.title}`);
+        console.info(`    Description: ${platformMetadata.description}`);
+        console.info(`    Hashtags: ${platformMetadata.hashtags.join(" ")}`);
+        console.info(`    Pinned comment: ${platformMetadata.pinnedComment}`);
+    }
+}
+
+/**
+ * Print stages and result of a video task (Ctrl+C cancels the video)
+ *
+ * @param task Video task
+ * @param name Name of the video shown in messages (ex. language of a translated video)
+ */
+function watchVideoTask(task: VideoTask, name?: string) {
+    const label = name ? ` (${name})` : "";
+    const cancel = () => {
+        if (task.cancel("interrupted")) console.info(`--> Cancelling video generation${label}...`);
+    };
+
+    process.on('SIGINT', cancel);
+    task.settled.then(() => process.removeListener('SIGINT', cancel));
+
+    task.on('stage-start', (event) => {
+        console.info(`--> Stage '${event.stage}'${label}: ${event.cached ? "unchanged, using files of the last run" : "started"}`);
+    });
+    task.on('stage-end', (event) => {
+        if (!event.cached) console.info(`--> Stage '${event.stage}'${label}: done in ${(event.durationMs / 1000).toFixed(1)}s`);
+    });
+    task.on('error', (error) => {
+        if (error instanceof VideoCancelledError) {
+            console.info(`--> Video generation cancelled${label}. Run the same command again to resume.`);
+        } else {
+            printError(error);
+        }
+        process.exitCode = 1;
+    });
+    task.on('done', (artifacts) => {
+        console.info(`--> Video generation complete${label}! Video saved at: ` + artifacts.video);
+    });
+}
+
+/**
+ * Print render plan of a video as tables (assets, speech and scenes)
+ *
+ * @param plan Render plan
+ */
+function printRenderPlan(plan: RenderPlan) {
+    const seconds = (value: number) => value.toFixed(1) + "s";
+
+    console.info(`--> Render plan of '${plan.type}' video (job ${plan.jobId}):`);
+    console.info(`    Language: ${plan.language}, ${plan.orientation} ${plan.resolution.join("x")}, TTS: ${plan.voiceGenType}, images: ${plan.imageGenType}`);
+    console.info(`    Encoding: ${plan.encoding.name} (${plan.encoding.videoCodec}/${plan.encoding.audioCodec} ${plan.encoding.container}, ${plan.encoding.fps} fps)`);
+    console.info(`    Background video: ${plan.background.video ?? "none"}, music: ${plan.background.music ?? "none"}`);
+    console.info(`    Estimated duration: ${seconds(plan.estimatedSeconds)} (${plan.words} words at ${plan.wordsPerMinute} words per minute)`);
+
+    console.info("--> Assets:");
+    console.table(plan.assets.map((asset) => ({
+        kind: asset.kind, stage: asset.stage, source: asset.source, remote: asset.remote,
+        value: asset.value, alternates: asset.alternates?.join(", ") ?? "",
+    })));
+
+    console.info("--> Speech:");
+    console.table(plan.speech.filter((part) => part.text.trim()).map((part) => ({
+        field: part.field, start: seconds(part.start), duration: seconds(part.duration), text: part.text,
+    })));
+
+    console.info("--> Scenes:");
+    console.table(plan.scenes.flatMap((scene) => scene.elements.map((element) => ({
+        scene: scene.name, type: element.type, start: seconds(element.start), duration: seconds(element.duration), label: element.label,
+    }))));
+}
+
+/**
+ * Get help rows of TTS or image providers (id, description and credentials)
+ */
+function getProviderRows(providers: { id: string, description: string, credentials: ProviderCredential[] }[]) {
+    return providers.map((provider) => ({
+        name: provider.id,
+        summary: provider.description + (provider.credentials.length > 0 ? ` {italic (${provider.credentials.map((credential) => `--${credential.flag} or ${credential.env}`).join(", ")})}` : ""),
+    }));
+}
+
 /**
  * CLI for AutoShorts AI video generator
  */
@@ -58,17 +204,28 @@ async function cli() {
         {
             name: 'ttsType',
             typeLabel: '{underline type}',
-            description: `The TTS provider to use. Can be {italic ${Object.keys(VoiceGenType).join(", ")}.}`
+            description: `The TTS provider to use. Can be {italic ${getVoiceProviders().map((provider) => provider.id).join(", ")}.}`
         },
         {
             name: 'imageType',
             typeLabel: '{underline type}',
-            description: `The image provider to use. Can be {italic ${Object.keys(ImageGenType).join(", ")}.}`
+            description: `The image provider to use. Can be {italic ${getImageProviders().map((provider) => provider.id).join(", ")}.}`
         },
         {
             name: 'orientation',
             typeLabel: '{underline orientation}',
-            description: 'The orientation of the video. {italic (vertical, horizontal)}'
+            description: `The orientation or size of the video. {italic Can be ${Object.keys(RESOLUTION_PRESETS).join(", ")} or a custom size as WIDTHxHEIGHT (ex. 1200x1500).} {bold (default: vertical)}`
+        },
+        {
+            name: 'language',
+            typeLabel: '{underline code}',
+            description: `Language of the video (AI script, voices, subtitles and template strings). {italic Can be ${Object.keys(VIDEO_LOCALES).join(", ")}.} {bold (default: en)}`
+        },
+        {
+            name: 'translate',
+            typeLabel: '{underline code}',
+            multiple: true,
+            description: 'Also make the video in another language (script is translated with AI). {italic Can be set more than once (ex. --translate es --translate fr).}'
         },
         {
             name: 'tempPath',
@@ -93,22 +250,13 @@ async function cli() {
         }
     ];
 
+    // API keys of the TTS and image providers come from the provider registry
     const apiOptions = [
-        {
-            name: 'elevenlabsAPIKey',
+        ...getProviderCredentialList().map((credential) => ({
+            name: credential.flag,
             typeLabel: '{underline key}',
-            description: 'Eleven Labs API key. {italic If applicable.}'
-        },
-        {
-            name: 'pexelsAPIKey',
-            typeLabel: '{underline key}',
-            description: 'Pexels API key. {italic If applicable.}'
-        },
-        {
-            name: 'neetsAPIKey',
-            typeLabel: '{underline key}',
-            description: 'Neets API key. {italic If applicable.}'
-        },
+            description: `${credential.label}. {italic If applicable.}`
+        })),
         {
             name: 'openaiAPIKey',
             typeLabel: '{underline key}',
@@ -123,6 +271,11 @@ async function cli() {
             name: 'anthropicAPIKey',
             typeLabel: '{underline key}',
             description: 'Anthropic AI API key. {italic If applicable.}'
+        },
+        {
+            name: 'openaiCompatibleAPIKey',
+            typeLabel: '{underline key}',
+            description: 'OpenAI compatible server API key. {italic If applicable.}'
         }
     ];
 
@@ -131,13 +284,13 @@ async function cli() {
             name: 'changePhotos',
             type: Boolean,
             defaultValue: true,
-            description: 'Change photos in video. {italic Used to prevent overriding wanted photos} {bold (default: true)}'
+            description: 'Change photos in video. {italic Deprecated: images of a job are cached, use --rerunStage images for new photos} {bold (default: true)}'
         },
         {
             name: 'disableTTS',
             type: Boolean,
             defaultValue: false,
-            description: 'Disable TTS in video. {italic Used to prevent overriding wanted TTS} {bold (default: false)}'
+            description: 'Disable TTS in video. {italic Deprecated: voices of a job are cached and only made again if the script changes} {bold (default: false)}'
         },
         {
             name: 'bgMusic',
@@ -167,6 +320,16 @@ async function cli() {
             defaultValue: false,
             description: 'Use mock JSON data. {bold (default: false)}'
         },
+        {
+            name: 'aiFixture',
+            typeLabel: '{underline path}',
+            description: 'AI fixture file to record AI responses to or replay them from. {italic Replay works offline.}'
+        },
+        {
+            name: 'aiFixtureMode',
+            typeLabel: '{underline mode}',
+            description: `AI fixture mode. Can be {italic ${Object.values(AIFixtureMode).join(", ")}.} {bold (default: replay)}`
+        },
         {
             name: 'disableSubtitles',
             type: Boolean,
@@ -181,12 +344,172 @@ async function cli() {
         {
             name: 'openAIEndpoint',
             typeLabel: '{underline endpoint}',
-            description: 'OpenAI endpoint URL to use. {italic If applicable.}'
+            description: 'OpenAI compatible endpoint URL to use. {italic Used by OpenAIGen, OpenAICompatibleAIGen and LlamaCppAIGen.}'
+        },
+        {
+            name: 'noJsonMode',
+            type: Boolean,
+            description: 'Do not ask the AI provider for JSON responses. {italic For servers that reject JSON mode.}'
+        },
+        {
+            name: 'jsonMode',
+            type: Boolean,
+            description: 'Ask the AI provider for JSON responses. {italic Off by default for OpenAICompatibleAIGen.}'
+        },
+        {
+            name: 'noSystemRole',
+            type: Boolean,
+            description: 'Send system prompt as part of the first user message. {italic For models without a system role.}'
+        },
+        {
+            name: 'noStreaming',
+            type: Boolean,
+            description: 'Disable streaming AI responses.'
         },
         {
             name: 'model',
             typeLabel: '{underline model}',
             description: 'AI model to use. {italic If applicable.}'
+        },
+        {
+            name: 'noReview',
+            type: Boolean,
+            description: 'Do not review the AI script or ask the AI to revise fields with issues (ex. quiz answers too long).'
+        },
+        {
+            name: 'aiMode',
+            typeLabel: '{underline mode}',
+            description: `AI script generation mode. Can be {italic ${Object.values(AIGenerationMode).join(", ")}.} {italic 'single' asks for the whole video in one request (falls back to 'field' if not supported).} {bold (default: field)}`
+        },
+        {
+            name: 'aiPrices',
+            typeLabel: '{underline path}',
+            description: 'JSON file with AI model prices for cost reports. {italic Keys are model names, values have input and output price in USD per 1M tokens.}'
+        },
+        {
+            name: 'aiFallback',
+            typeLabel: '{underline type[:model][@endpoint]}',
+            multiple: true,
+            description: 'AI provider to use if the AI type keeps failing. {italic Can be set more than once, tried in order (ex. --aiFallback OpenAIGen:gpt-4o-mini --aiFallback LlamaCppAIGen@http://localhost:8080).}'
+        },
+        {
+            name: 'aiRetries',
+            type: Number,
+            typeLabel: '{underline count}',
+            description: 'Number of retries of each AI provider before using the next fallback. {bold (default: 2 with fallbacks)}'
+        },
+        {
+            name: 'aiRetryDelay',
+            type: Number,
+            typeLabel: '{underline ms}',
+            description: 'Delay before the first retry in milliseconds (doubles after each retry). {bold (default: 1000)}'
+        },
+        {
+            name: 'duration',
+            type: Number,
+            typeLabel: '{underline seconds}',
+            description: 'Target duration of the video. {italic The AI is asked to expand or trim the script to fit, then the voice is generated to check the duration.}'
+        },
+        {
+            name: 'durationTolerance',
+            type: Number,
+            typeLabel: '{underline percent}',
+            description: 'Allowed difference from the target duration in percent. {bold (default: 15)}'
+        },
+        {
+            name: 'noDurationCheck',
+            type: Boolean,
+            description: 'Only estimate the duration from word count (do not generate the voice to check the duration).'
+        },
+        {
+            name: 'platform',
+            typeLabel: '{underline platform}',
+            multiple: true,
+            description: `Platform to make upload metadata (title, description, hashtags, pinned comment) for. {italic Can be ${Object.values(UploadPlatform).join(", ")}. Can be set more than once.} {bold (default: all)}`
+        },
+        {
+            name: 'noMetadata',
+            type: Boolean,
+            description: 'Do not make upload metadata (saved as metadata.json next to the video).'
+        },
+        {
+            name: 'source',
+            typeLabel: '{underline path|url}',
+            multiple: true,
+            description: 'Write a topic video only from a source: a local file (.txt, .md, .html), an HTML page or an RSS/Atom feed URL. {italic Can be set more than once.}'
+        },
+        {
+            name: 'showSources',
+            type: Boolean,
+            description: 'Show the sources of the video as an on-screen caption (with --source).'
+        },
+        {
+            name: 'imageAlternates',
+            type: Number,
+            typeLabel: '{underline count}',
+            description: 'Number of alternate image search terms the AI writes for each image. {italic Images of every term are ranked and the best one is used. 0 to turn off.} {bold (default: 3)}'
+        },
+        {
+            name: 'imageChoices',
+            typeLabel: '{underline file}',
+            description: `Use the image choices of an earlier render instead of searching again. {italic Change 'selected' in the ${IMAGE_CHOICES_FILE} file next to the video to swap an image.}`
+        },
+        {
+            name: 'timeline',
+            typeLabel: '{underline file}',
+            description: `Render a timeline instead of the one made from the video data. {italic Edit the ${TIMELINE_FILE} in the job folder of a render to move, retime or swap elements.}`
+        },
+        {
+            name: 'jobId',
+            typeLabel: '{underline id}',
+            description: 'Job id (folder in the temp path) to create or resume. {italic Stages with unchanged inputs are skipped.} {bold (default: made from the video data)}'
+        },
+        {
+            name: 'rerunStage',
+            typeLabel: '{underline stage}',
+            multiple: true,
+            description: `Run a stage of the job again even if its inputs are unchanged (${Object.values(VideoStage).join(", ")}). {italic Can be set more than once.}`
+        },
+        {
+            name: 'moderationAI',
+            typeLabel: '{underline type[:model][@endpoint]}',
+            description: 'Also check the prompt and script with an AI classifier (keyword rules are always used). {italic (ex. --moderationAI OllamaAIGen:llama3.1)}'
+        },
+        {
+            name: 'dryRun',
+            type: Boolean,
+            description: 'Print the render plan of the video (assets, speech and scenes with estimated timing) without calling TTS or image APIs or rendering.'
+        },
+        {
+            name: 'noModeration',
+            type: Boolean,
+            description: 'Do not check the prompt and script for content that is not allowed (weapons, self-harm, sexual, hate).'
+        },
+        {
+            name: 'promptTemplate',
+            typeLabel: '{underline name[@version]}',
+            description: 'Prompt template to use from the prompt folder. {italic Uses the latest version if no version is given.}'
+        },
+        {
+            name: 'promptDir',
+            typeLabel: '{underline path}',
+            description: 'Folder with prompt template files (.json). {bold (default: prompts)}'
+        },
+        {
+            name: 'promptChannel',
+            typeLabel: '{underline channel}',
+            description: 'Channel of the prompt template to use (overrides prompts and variables of the template).'
+        },
+        {
+            name: 'promptVar',
+            typeLabel: '{underline name=value}',
+            multiple: true,
+            description: 'Prompt template variable. {italic Can be set more than once (ex. --promptVar tone=funny --promptVar count=5).}'
+        },
+        {
+            name: 'listPromptTemplates',
+            type: Boolean,
+            description: 'List prompt templates in the prompt folder and exit.'
         }
     ];
 
@@ -254,6 +577,50 @@ async function cli() {
         }
     ];
 
+    const encodingOptions = [
+        {
+            name: 'encoding',
+            typeLabel: '{underline profile}',
+            description: `Encoding profile of the video. {italic Can be ${Object.keys(ENCODING_PROFILES).join(", ")}.} {bold (default: ${DEFAULT_ENCODING_PROFILE})}`
+        },
+        {
+            name: 'fps',
+            type: Number,
+            description: 'Frame rate override.'
+        },
+        {
+            name: 'crf',
+            type: Number,
+            description: 'Quality (constant rate factor) override. {italic Lower is better: 0-51 for h264, 0-63 for vp9.}'
+        },
+        {
+            name: 'videoBitrate',
+            typeLabel: '{underline bitrate}',
+            description: 'Average video bitrate (ex. 4M), used instead of the quality.'
+        },
+        {
+            name: 'audioBitrate',
+            typeLabel: '{underline bitrate}',
+            description: 'Audio bitrate override (ex. 128k).'
+        },
+        {
+            name: 'videoCodec',
+            typeLabel: '{underline codec}',
+            description: `Video codec override. {italic Can be ${Object.values(VideoCodec).join(", ")}.}`
+        },
+        {
+            name: 'container',
+            typeLabel: '{underline container}',
+            description: `Container of the video file. {italic Can be ${Object.values(VideoContainer).join(", ")} (webm uses vp9 and opus).}`
+        },
+        {
+            name: 'targetSize',
+            type: Number,
+            typeLabel: '{underline MB}',
+            description: 'Encode in two passes to fit the video in a file size in MB. {italic For platforms with file size limits.}'
+        }
+    ];
+
     const sections = [
         {
             header: 'AutoShorts AI video generator (CLI Edition)',
@@ -267,14 +634,26 @@ async function cli() {
             header: 'TTS Options',
             optionList: ttsOptions
         },
+        {
+            header: 'TTS Providers',
+            content: getProviderRows(getVoiceProviders())
+        },
         {
             header: 'Image Options',
             optionList: imgOptions
         },
+        {
+            header: 'Image Providers',
+            content: getProviderRows(getImageProviders())
+        },
         {
             header: 'Subtitle Options',
             optionList: subOptions
         },
+        {
+            header: 'Encoding Options',
+            optionList: encodingOptions
+        },
         {
             header: 'Advanced Options',
             optionList: advancedOptions,
@@ -290,12 +669,16 @@ async function cli() {
 
     const usage = commandLineUsage(sections)
 
-    const optionDefinitions = [...mainOptions, ...advancedOptions, ...subOptions, ...imgOptions, ...ttsOptions, ...apiOptions];
+    const optionDefinitions = [...mainOptions, ...advancedOptions, ...subOptions, ...imgOptions, ...ttsOptions, ...encodingOptions, ...apiOptions];
 
     const options = commandLineArgs(optionDefinitions)
 
     // Handle download option
     if (options.download) {
+        // Languages other than English need the multilingual whisper model
+        const languages: string[] = [options.language ?? DEFAULT_LANGUAGE, ...(options.translate ?? [])];
+        const models: ModelName[] = languages.some((language) => getVideoLocale(language).code != DEFAULT_LANGUAGE) ? ["base.en", "base"] : ["base.en"];
+
         let resPath = options.resPath ?? path.resolve(process.cwd(), 'res');
         if (!options.resPath) {
             // Ask user if they want to use default res path
@@ -305,7 +688,7 @@ async function cli() {
             }
             console.info("[*] Resource path not found (--resPath). Using './res' directory.");
         }
-        await download(resPath);
+        await download(resPath, models);
         return;
     }
 
@@ -353,15 +736,15 @@ async function cli() {
         return;
     }
 
-    if (!(ttsType in VoiceGenType)) {
+    if (!hasVoiceProvider(ttsType)) {
         console.error("Error: Invalid TTS type. Exiting...");
-        console.info("Valid TTS types: " + Object.keys(VoiceGenType).join(", "));
+        console.info("Valid TTS types: " + getVoiceProviders().map((provider) => provider.id).join(", "));
         return;
     }
 
-    if (!(imageType in ImageGenType)) {
+    if (!hasImageProvider(imageType)) {
         console.error("Error: Invalid image type. Exiting...");
-        console.info("Valid image types: " + Object.keys(ImageGenType).join(", "));
+        console.info("Valid image types: " + getImageProviders().map((provider) => provider.id).join(", "));
         return;
     }
 
@@ -371,7 +754,7 @@ async function cli() {
     let disableSubtitles = options.disableSubtitles ?? false;
     let bgVideo = options.bgVideo ?? null;
     let bgMusic = options.bgMusic ?? null;
-    let orientation = options.orientation ?? "vertical";
+    let orientation = options.orientation ?? DEFAULT_ORIENTATION;
     let noBgVideo = options.noBgVideo ?? false;
     let noBgMusic = options.noBgMusic ?? false;
 
@@ -394,6 +777,26 @@ async function cli() {
 
     const useMock = options.useMock ?? false;
 
+    const aiFixturePath = options.aiFixture ?? undefined;
+    const aiFixtureMode: string = options.aiFixtureMode ?? AIFixtureMode.Replay;
+
+    if (!Object.values<string>(AIFixtureMode).includes(aiFixtureMode)) {
+        console.error("Error: Invalid AI fixture mode. Exiting...");
+        console.info("Valid AI fixture modes: " + Object.values(AIFixtureMode).join(", "));
+        return;
+    }
+
+    let aiPrices: AIPriceTable | undefined;
+
+    if (options.aiPrices) {
+        if (!fs.existsSync(options.aiPrices)) {
+            console.error("Error: AI prices file not found. Exiting...");
+            return;
+        }
+
+        aiPrices = JSON.parse(fs.readFileSync(options.aiPrices, 'utf8'));
+    }
+
     const tempPath = options.tempPath ?? path.resolve(process.cwd(), 'video_temp');
 
     const resPath = options.resPath ?? path.resolve(process.cwd(), 'res');
@@ -401,23 +804,168 @@ async function cli() {
     const userPrompt = options.prompt ?? null;
 
     const promptOverride = options.systemPromptOverride ?? null;
-    const elevenLabsAPIKey = options.elevenlabsAPIKey ?? process.env[VoiceAPIEnv.ElevenLabs] ?? null;
-    const pexelsAPIKey = options.pexelsAPIKey ?? process.env[ImageAPIEnv.PexelsAPIKey] ?? null;
-    const neetsAPIKey = options.neetsAPIKey ?? process.env[VoiceAPIEnv.NeetsTTS] ?? null;
+    // API keys of the TTS and image providers (by credential name)
+    const providerAPIKeys: APIKeys = Object.fromEntries(getProviderCredentialList().map((credential) => [credential.name, options[credential.flag] ?? process.env[credential.env]]));
 
     const openaiAPIKey = options.openaiAPIKey ?? process.env[AIAPIEnv.OpenAIGen] ?? null;
     const googleaiAPIKey = options.googleaiAPIKey ?? process.env[AIAPIEnv.GoogleAIGen] ?? null;
     const anthropicAPIKey = options.anthropicAPIKey ?? process.env[AIAPIEnv.AnthropicAIGen] ?? null;
+    const openaiCompatibleAPIKey = options.openaiCompatibleAPIKey ?? process.env[AIAPIEnv.OpenAICompatibleAIGen] ?? null;
+
+    const openAIEndpoint = options.openAIEndpoint ?? undefined;
 
-    const openAIEndpoint = options.openAIEndpoint ?? OpenAIGen.DEFAULT_ENDPOINT;
+    // AI capability overrides (provider defaults are used if not set)
+    const aiCapabilities: Partial<AICapabilities> = {};
+    if (options.jsonMode) aiCapabilities.jsonMode = true;
+    if (options.noJsonMode) aiCapabilities.jsonMode = false;
+    if (options.noSystemRole) aiCapabilities.systemRole = false;
+    if (options.noStreaming) aiCapabilities.streaming = false;
 
     let aiModel = options.model ?? null;
 
+    const aiMode: string = options.aiMode ?? AIGenerationMode.Field;
+
+    if (!Object.values<string>(AIGenerationMode).includes(aiMode)) {
+        console.error("Error: Invalid AI mode. Exiting...");
+        console.info("Valid AI modes: " + Object.values(AIGenerationMode).join(", "));
+        return;
+    }
+
+    // Fallback providers use the same API keys as the AI type
+    const aiAPIKeys: Partial<Record<AIGenType, string>> = {
+        [AIGenType.OpenAIGen]: openaiAPIKey ?? undefined,
+        [AIGenType.GoogleAIGen]: googleaiAPIKey ?? undefined,
+        [AIGenType.AnthropicAIGen]: anthropicAPIKey ?? undefined,
+        [AIGenType.OpenAICompatibleAIGen]: openaiCompatibleAPIKey ?? undefined,
+    };
+
+    let aiFallbacks: AIFallbackOptions[] = [];
+
+    try {
+        aiFallbacks = (options.aiFallback ?? []).map((str: string) => {
+            const fallback = parseFallback(str);
+            return { ...fallback, apiKey: aiAPIKeys[fallback.type] };
+        });
+    } catch (e) {
+        console.error(`Error: ${(e as Error).message}. Exiting...`);
+        return;
+    }
+
+    // AI classifier of moderation (uses the same API keys as the AI type)
+    let moderationAI: AIFallbackOptions | undefined;
+
+    try {
+        if (options.moderationAI) {
+            moderationAI = parseFallback(options.moderationAI);
+            moderationAI.apiKey = aiAPIKeys[moderationAI.type];
+        }
+    } catch (e) {
+        console.error(`Error: ${(e as Error).message}. Exiting...`);
+        return;
+    }
+
+    // Retry policy overrides (default policy is used if not set)
+    const aiRetry: Partial<AIRetryPolicy> = {};
+    if (options.aiRetries != undefined) aiRetry.retries = options.aiRetries;
+    if (options.aiRetryDelay != undefined) aiRetry.initialDelayMs = options.aiRetryDelay;
+
+    // Video language and languages to translate to
+    const language: string = options.language ?? DEFAULT_LANGUAGE;
+    const translateLanguages: string[] = options.translate ?? [];
+
+    try {
+        [language, ...translateLanguages].forEach((code) => getVideoLocale(code));
+    } catch (e) {
+        console.error(`Error: ${(e as Error).message}. Exiting...`);
+        return;
+    }
+
+    // Target duration (not set if no duration is given)
+    let aiDuration: DurationTarget | undefined;
+    if (options.duration != undefined) {
+        if (!(options.duration > 0)) {
+            console.error(`Error: Invalid duration '${options.duration}' (must be more than 0 seconds). Exiting...`);
+            return;
+        }
+
+        aiDuration = { seconds: options.duration, verify: !options.noDurationCheck };
+        if (options.durationTolerance != undefined) aiDuration.tolerance = options.durationTolerance / 100;
+    }
+
+    if (options.imageAlternates != undefined && !(options.imageAlternates >= 0)) {
+        console.error(`Error: Invalid image alternates '${options.imageAlternates}' (must be 0 or more). Exiting...`);
+        return;
+    }
+
+    // Encoding profile and overrides (checked before anything is generated)
+    const encoding: EncodingOptions = {
+        profile: options.encoding, fps: options.fps, crf: options.crf, videoBitrate: options.videoBitrate, audioBitrate: options.audioBitrate,
+        videoCodec: options.videoCodec, container: options.container, targetSizeMB: options.targetSize,
+    };
+    let encodingSettings: EncodingProfile;
+    try {
+        encodingSettings = getEncodingSettings(encoding);
+    } catch (error) {
+        printError(error);
+        return;
+    }
+
+    // Platforms to make upload metadata for (false to skip)
+    let aiMetadata: UploadPlatform[] | false | undefined;
+    if (options.noMetadata) {
+        aiMetadata = false;
+    } else if (options.platform) {
+        const platforms: string[] = options.platform;
+        const unknown = platforms.filter((platform) => !Object.values(UploadPlatform).includes(platform as UploadPlatform));
+
+        if (unknown.length > 0) {
+            console.error(`Error: Unknown platform(s) ${unknown.join(", ")} (platforms: ${Object.values(UploadPlatform).join(", ")}). Exiting...`);
+            return;
+        }
+
+        aiMetadata = platforms as UploadPlatform[];
+    }
+
     if (options.help) {
         console.log(usage);
         return;
     }
 
+    // Load prompt templates (only needed if a template is used or listed)
+    const promptDir = options.promptDir ?? path.resolve(process.cwd(), 'prompts');
+    let aiPrompts: AIPrompts | undefined;
+
+    if (options.promptTemplate || options.listPromptTemplates) {
+        if (!fs.existsSync(promptDir)) {
+            console.error(`Error: Prompt folder '${promptDir}' not found (set with --promptDir). Exiting...`);
+            return;
+        }
+
+        try {
+            const library = PromptLibrary.load(promptDir);
+
+            if (options.listPromptTemplates) {
+                console.info(`Prompt templates in '${promptDir}':`);
+                for (const template of library.list()) {
+                    const versions = library.templates.filter((other) => other.name == template.name).map((other) => other.version).sort(compareVersions);
+                    const channels = Object.keys(template.channels ?? {});
+                    console.info(`  ${template.name}@${template.version}${template.description ? ` - ${template.description}` : ""}`);
+                    console.info(`    versions: ${versions.join(", ")}${channels.length > 0 ? `, channels: ${channels.join(", ")}` : ""}`);
+                }
+                return;
+            }
+
+            const variables: PromptVariables = Object.fromEntries((options.promptVar ?? []).map(parsePromptVariable));
+            if (aiDuration && variables.duration == undefined) variables.duration = aiDuration.seconds;
+            if (variables.language == undefined) variables.language = getVideoLocale(language).name;
+
+            aiPrompts = renderPromptTemplate(library.get(options.promptTemplate), { channel: options.promptChannel, variables });
+        } catch (e) {
+            console.error(`Error: ${(e as Error).message}. Exiting...`);
+            return;
+        }
+    }
+
     // Welcome message
     console.info("Welcome to AutoShorts AI video generator v0.2.0-dev!");
 
@@ -440,6 +988,9 @@ async function cli() {
     console.info("TTS Type: " + ttsType);
     console.info("Image API Type: " + imageType);
     console.info("Orientation: " + orientation);
+    console.info(`Encoding: ${encodingSettings.name} (${encodingSettings.videoCodec}/${encodingSettings.audioCodec} ${encodingSettings.container}, ${encodingSettings.fps} fps, `
+        + (encodingSettings.targetSizeMB ? `fit to ${encodingSettings.targetSizeMB} MB)` : encodingSettings.videoBitrate ? `${encodingSettings.videoBitrate})` : `crf ${encodingSettings.crf})`));
+    console.info("Language: " + getVideoLocale(language).name + (translateLanguages.length > 0 ? ` (translate to: ${translateLanguages.join(", ")})` : ""));
     console.info("Temp path: " + tempPath);
     console.info("Res path: " + resPath);
     console.info("Prompt: " + (userPrompt ?? "None (will be asked later)"));
@@ -470,32 +1021,41 @@ async function cli() {
     if (options.disableSubtitles) console.info("Disable subtitles: " + disableSubtitles);
 
     if (promptOverride) console.info("System prompt override: " + promptOverride);
-    if (elevenLabsAPIKey) console.info("Eleven Labs API key: present");
-    if (pexelsAPIKey) console.info("Pexels API key: present");
-    if (neetsAPIKey) console.info("Neets API key: present");
+    if (aiDuration) console.info(`Target duration: ${aiDuration.seconds}s (${aiDuration.verify ? "checked with TTS" : "estimated"})`);
+    if (aiPrompts) console.info("Prompt template: " + aiPrompts.template + (options.promptChannel ? ` (channel: ${options.promptChannel})` : ""));
+    for (const credential of getProviderCredentialList()) {
+        if (providerAPIKeys[credential.name]) console.info(`${credential.label}: present`);
+    }
     if (openaiAPIKey) console.info("OpenAI API key: present");
     if (googleaiAPIKey) console.info("Google AI API key: present");
     if (anthropicAPIKey) console.info("Anthropic API key: present");
+    if (openaiCompatibleAPIKey) console.info("OpenAI compatible API key: present");
     if (options.model) console.info("AI override model: " + aiModel);
-    if (options.openAIEndpoint && aiType == AIGenType.OpenAIGen) console.info("OpenAI endpoint: " + openAIEndpoint);
-    if (options.openAIEndpoint && aiType != AIGenType.OpenAIGen) console.info("OpenAI endpoint: present but not used for current AI type.");
+    if (options.aiMode) console.info("AI mode: " + aiMode);
+    if (aiFixturePath) console.info(`AI fixture (${aiFixtureMode}): ${aiFixturePath}`);
+    if (options.aiPrices) console.info("AI prices: " + options.aiPrices);
+    if (aiFallbacks.length > 0) console.info("AI fallbacks: " + aiFallbacks.map((fallback) => fallback.type + (fallback.model ? `:${fallback.model}` : "")).join(" -> "));
+    if (Object.keys(aiRetry).length > 0) console.info("AI retry policy: " + JSON.stringify(aiRetry));
+    if (options.jobId) console.info("Job id: " + options.jobId);
+    if (options.timeline) console.info("Timeline: " + options.timeline);
+    if (options.rerunStage) console.info("Rerun stages: " + options.rerunStage.join(", "));
+    if (options.noModeration) console.info("Moderation: disabled");
+    if (options.dryRun) console.info("Dry run: the render plan is printed, nothing is rendered");
+    else if (moderationAI) console.info("Moderation AI: " + moderationAI.type + (moderationAI.model ? `:${moderationAI.model}` : ""));
+    const usesEndpoint = aiType == AIGenType.OpenAIGen || aiType == AIGenType.OpenAICompatibleAIGen || aiType == AIGenType.LlamaCppAIGen;
+    if (options.openAIEndpoint && usesEndpoint) console.info("OpenAI endpoint: " + openAIEndpoint);
+    if (options.openAIEndpoint && !usesEndpoint) console.info("OpenAI endpoint: present but not used for current AI type.");
+    if (Object.keys(aiCapabilities).length > 0) console.info("AI capability overrides: " + JSON.stringify(aiCapabilities));
 
     if (options.noBgVideo) console.info("No background video enabled!");
     if (options.noBgMusic) console.info("No background music enabled!");
 
     // Check API keys (checked again later)
-    if (ttsType == VoiceGenType.ElevenLabs && !elevenLabsAPIKey) {
-        console.error("Error: Eleven Labs API key not found. Exiting...");
-        return;
-    }
-
-    if (imageType == ImageGenType.GoogleScraper && !pexelsAPIKey) {
-        console.error("Error: Pexels API key not found. Exiting...");
-        return;
-    }
-
-    if (ttsType == VoiceGenType.NeetsTTS && !neetsAPIKey) {
-        console.error("Error: Neets API key not found. Exiting...");
+    const missingCredentials = [...getMissingCredentials(getVoiceProvider(ttsType), providerAPIKeys), ...getMissingCredentials(getImageProvider(imageType), providerAPIKeys)];
+    if (missingCredentials.length > 0) {
+        for (const credential of missingCredentials) {
+            console.error(`Error: ${credential.label} not found (set '--${credential.flag}' or '${credential.env}'). Exiting...`);
+        }
         return;
     }
 
@@ -505,28 +1065,42 @@ async function cli() {
         if (aiType == AIGenType.OllamaAIGen) {
             aiModel = await select({
                 message: 'Select Ollama model',
-                choices: (await OllamaAIGen.getModels()).map((model: string) => {
+                choices: (await createChatProvider(AIGenType.OllamaAIGen).listModels()).map((model: string) => {
                     return { title: model, value: model };
                 }),
             });
         } else if (aiType == AIGenType.OpenAIGen) {
             aiModel = await select({
                 message: 'Select OpenAI model',
-                choices: (await OpenAIGen.getModels(openaiAPIKey, { endpoint: openAIEndpoint })).map((model: string) => {
+                choices: (await createChatProvider(AIGenType.OpenAIGen, openaiAPIKey ?? undefined, { endpoint: openAIEndpoint }).listModels()).map((model: string) => {
                     return { title: model, value: model };
                 }),
             });
         } else if (aiType == AIGenType.GoogleAIGen) {
             aiModel = await select({
                 message: 'Select Google AI model',
-                choices: (await GoogleAIGen.getModels()).map((model: string) => {
+                choices: (await createChatProvider(AIGenType.GoogleAIGen, googleaiAPIKey ?? undefined).listModels()).map((model: string) => {
                     return { title: model, value: model };
                 }),
             });
         } else if (aiType == AIGenType.AnthropicAIGen) {
             aiModel = await select({
                 message: 'Select Anthropic model',
-                choices: (await AnthropicAIGen.getModels()).map((model: string) => {
+                choices: (await createChatProvider(AIGenType.AnthropicAIGen, anthropicAPIKey ?? undefined).listModels()).map((model: string) => {
+                    return { title: model, value: model };
+                }),
+            });
+        } else if (aiType == AIGenType.OpenAICompatibleAIGen) {
+            aiModel = await select({
+                message: 'Select OpenAI compatible model',
+                choices: (await createChatProvider(AIGenType.OpenAICompatibleAIGen, openaiCompatibleAPIKey ?? undefined, { endpoint: openAIEndpoint }).listModels()).map((model: string) => {
+                    return { title: model, value: model };
+                }),
+            });
+        } else if (aiType == AIGenType.LlamaCppAIGen) {
+            aiModel = await select({
+                message: 'Select llama.cpp model',
+                choices: (await createChatProvider(AIGenType.LlamaCppAIGen, undefined, { endpoint: openAIEndpoint }).listModels()).map((model: string) => {
                     return { title: model, value: model };
                 }),
             });
@@ -640,25 +1214,24 @@ async function cli() {
         imageType = await select({
             message: 'Select image API type',
             choices:
-                Object.keys(ImageGenType).map((key) => {
-                    return { title: key, value: key };
+                getImageProviders().map((provider) => {
+                    return { name: provider.name, value: provider.id, description: provider.description };
                 }),
         });
 
         ttsType = await select({
             message: 'Select AI type',
             choices:
-                Object.keys(VoiceGenType).map((key) => {
-                    return { title: key, value: key };
+                getVoiceProviders().map((provider) => {
+                    return { name: provider.name, value: provider.id, description: provider.description };
                 }),
         });
 
         orientation = await select({
             message: 'Select video orientation',
-            choices: [
-                { name: 'Vertical', value: 'vertical' },
-                { name: 'Horizontal', value: 'horizontal' },
-            ],
+            choices: Object.values(RESOLUTION_PRESETS).map((preset) => {
+                return { name: `${preset.name} (${preset.width}x${preset.height})`, value: preset.name, description: preset.description };
+            }),
         });
 
         // Select AI model
@@ -823,8 +1396,10 @@ async function cli() {
     if (!aiModel) {
         try {
             aiModel = await getAIModel();
-        } catch (e: any) {
-            console.info("[*] IMPORTANT: Error getting AI models (check if using correct AI type, if using Ollama - check if running). Error message: " + e.message);
+        } catch (e) {
+            const error = classifyAIError(e);
+            console.info("[*] IMPORTANT: Error getting AI models (check if using correct AI type, if using Ollama - check if running). Error message: " + error.message);
+            if (AI_ERROR_HINTS[error.code]) console.info("[*] Hint: " + AI_ERROR_HINTS[error.code]);
         }
     }
 
@@ -846,18 +1421,18 @@ async function cli() {
     const vidOptions: VideoOptions = {
         tempPath: tempPath,
         resPath: resPath,
-        voiceGenType: VoiceGenType[ttsType as keyof typeof VoiceGenType],
-        imageGenType: ImageGenType[imageType as keyof typeof ImageGenType],
+        voiceGenType: ttsType as VoiceGenType,
+        imageGenType: imageType as ImageGenType,
         orientation: orientation,
-        apiKeys: {
-            elevenLabsAPIKey: elevenLabsAPIKey ?? process.env[VoiceAPIEnv.ElevenLabs],
-            pexelsAPIKey: pexelsAPIKey ?? process.env[ImageAPIEnv.PexelsAPIKey],
-            neetsAPIKey: neetsAPIKey ?? process.env[VoiceAPIEnv.NeetsTTS],
-        },
+        language: language,
+        apiKeys: providerAPIKeys,
+        jobId: options.jobId,
+        rerunStages: options.rerunStage,
         vidPath: bgVideo,
         bgPath: bgMusic,
         useBgMusic: !noBgMusic,
         useBgVideo: !noBgVideo,
+        encoding: encoding,
         subtitleOptions: {
             maxLen: subtitleLen, fontName: subFontName, fontSize: subFontSize,
             fontColor: subFontColor, strokeColor: subStrokeColor, strokeWidth: subStrokeWidth
@@ -867,31 +1442,33 @@ async function cli() {
         },
         internalOptions: {
             debug: true,
-            changePhotos: changePhotos, disableTTS: disableTTS, useMock: useMock, disableSubtitles: disableSubtitles
+            changePhotos: changePhotos, disableTTS: disableTTS, useMock: useMock, disableSubtitles: disableSubtitles,
+            aiFixturePath: aiFixturePath, aiFixtureMode: aiFixtureMode as AIFixtureMode
         },
     };
-    // Check if user wants to use json file
-    if (options.jsonFile) {
-        const jsonFile = options.jsonFile;
-        if (!fs.existsSync(jsonFile)) {
-            console.error("Error: JSON file not found. Exiting...");
+
+    // Image choices of an earlier render (images are not searched again)
+    if (options.imageChoices) {
+        if (!fs.existsSync(options.imageChoices)) {
+            console.error("Error: Image choices file not found. Exiting...");
             return;
         }
 
-        const data = fs.readFileSync(jsonFile);
-        const jsonData = JSON.parse(data.toString());
-
-        const task = await genVideoWithJson(jsonData, vidOptions);
-
-        task.on('done', (output) => {
-            console.info("--> Video generation complete! Video saved at: " + output);
-        });
+        vidOptions.imageChoices = JSON.parse(fs.readFileSync(options.imageChoices, 'utf8'));
+    }
 
-        return;
+    // Edited timeline of an earlier render (rendered instead of the one made from the video data)
+    if (options.timeline) {
+        try {
+            vidOptions.timeline = loadTimeline(options.timeline);
+        } catch (error) {
+            printError(error);
+            return;
+        }
     }
 
     // Get AI API key based on type
-    let aiAPIKey;
+    let aiAPIKey: string | undefined;
     switch (aiType) {
         case AIGenType.OpenAIGen:
             aiAPIKey = openaiAPIKey;
@@ -902,6 +1479,76 @@ async function cli() {
         case AIGenType.AnthropicAIGen:
             aiAPIKey = anthropicAPIKey;
             break;
+        case AIGenType.OpenAICompatibleAIGen:
+            aiAPIKey = openaiCompatibleAPIKey;
+            break;
+    }
+
+    // Track tokens, time and cost of each AI request
+    const aiUsage = new AIUsageTracker(aiPrices);
+    aiUsage.emitter.on('usage', (call: AIUsage) => {
+        console.info(`[*] AI usage (${call.label}): ${call.promptTokens} prompt + ${call.completionTokens} completion tokens${call.estimated ? " (estimated)" : ""}, ${call.durationMs}ms`);
+    });
+
+    // Moderation (keyword rules and optional AI classifier) checks the prompt and script
+    if (options.noModeration) {
+        vidOptions.moderation = false;
+    } else {
+        const moderators: Moderator[] = [new KeywordModerator()];
+        if (moderationAI) {
+            moderators.push(new AIModerator(createChatProvider(moderationAI.type, moderationAI.apiKey, { model: moderationAI.model, endpoint: moderationAI.endpoint }), { usage: aiUsage }));
+        }
+        vidOptions.moderation = new ContentModerator(moderators);
+    }
+
+    const aiOptions: AIOptions = { model: aiModel, endpoint: openAIEndpoint, capabilities: aiCapabilities, mode: aiMode as AIGenerationMode, review: !options.noReview, usage: aiUsage, fallbacks: aiFallbacks, retry: Object.keys(aiRetry).length > 0 ? aiRetry : undefined, prompts: aiPrompts, duration: aiDuration, metadata: aiMetadata, imageAlternates: options.imageAlternates };
+
+    // Generate video (and translated videos if languages to translate to are set)
+    async function makeVideos(videoJson: string, usageReport?: AIUsageReport, metadata?: VideoMetadata) {
+        if (options.dryRun) {
+            if (translateLanguages.length > 0) console.info("--> Dry run: only the video in the source language is planned.");
+            printRenderPlan(await planVideo(videoJson, { ...vidOptions, metadata }));
+            return;
+        }
+
+        if (translateLanguages.length == 0) {
+            const task = await genVideo(videoJson, { ...vidOptions, aiUsage: usageReport, metadata });
+            watchVideoTask(task);
+            return;
+        }
+
+        console.info(`--> Translating video to ${translateLanguages.map((code) => getVideoLocale(code).name).join(", ")}...`);
+
+        const videos = await genLocalizedVideos(JSON.parse(videoJson), [language, ...translateLanguages], AIGenType[aiType as keyof typeof AIGenType], { ...vidOptions, metadata }, aiAPIKey, aiOptions);
+
+        for (const [code, task] of Object.entries(videos)) {
+            watchVideoTask(task, getVideoLocale(code).name);
+        }
+    }
+
+    // Check if user wants to use json file
+    if (options.jsonFile) {
+        const jsonFile = options.jsonFile;
+        if (!fs.existsSync(jsonFile)) {
+            console.error("Error: JSON file not found. Exiting...");
+            return;
+        }
+
+        const data = fs.readFileSync(jsonFile);
+        await makeVideos(data.toString());
+
+        return;
+    }
+
+    // Load sources (the AI writes the video only from them, local servers are allowed like local files)
+    if (options.source) {
+        aiOptions.sources = await loadSourceContext(options.source, { fetcher: createHttpSourceFetcher({ allowPrivateHosts: true }) });
+        aiOptions.showSources = options.showSources;
+
+        console.info(`--> Loaded ${aiOptions.sources.citations.length} source(s) in ${aiOptions.sources.chunks.length} chunk(s):`);
+        for (const citation of aiOptions.sources.citations) {
+            console.info(`    ${citation.title} (${citation.url})`);
+        }
     }
 
     const aiResponse = await genVideoDataWithAI(
@@ -909,26 +1556,107 @@ async function cli() {
         AIGenType[aiType as keyof typeof AIGenType],
         vidOptions,
         aiAPIKey,
-        { model: aiModel, endpoint: openAIEndpoint },
+        aiOptions,
         promptOverride,
     );
 
-    // Ask user if they want to generate video based on AI response
-    const genVideoRep = await input({ message: `Generate video based on AI response? (y/n) -> ` });
+    console.info(`--> AI usage: ${formatUsageReport(aiResponse.usage)}`);
 
-    if (genVideoRep == "n") {
-        console.info("Exiting...");
-        return;
+    // Show which provider made each field if more than one was used
+    const providers = new Set(Object.values(aiResponse.provenance).map((source) => `${source.provider} ${source.model}`));
+    if (providers.size > 1) {
+        for (const [field, source] of Object.entries(aiResponse.provenance)) {
+            console.info(`    '${field}' by ${source.provider} ${source.model}`);
+        }
     }
 
-    const task = await genVideo(
-        aiResponse,
-        vidOptions
-    );
+    for (const [provider, total] of Object.entries(aiResponse.usage.providers)) {
+        console.info(`    ${provider}: ${total.calls} request(s), ${total.promptTokens + total.completionTokens} tokens, $${total.cost.toFixed(4)}`);
+    }
 
-    task.on('done', (output) => {
-        console.info("--> Video generation complete! Video saved at: " + output);
-    });
+    if (aiResponse.usage.unpriced.length > 0) {
+        console.info(`[*] No price for model(s) ${aiResponse.usage.unpriced.join(", ")} (counted as free, set with '--aiPrices')`);
+    }
+
+    // Show what the review stage fixed
+    for (const fix of aiResponse.review.fixed) {
+        console.info(`[*] Review revised '${fix.field}': ${fix.issues.map((issue) => issue.message).join("; ")}`);
+    }
+
+    for (const issue of aiResponse.review.remaining) {
+        console.info(`[!] Review issue not fixed: ${issue.message}`);
+    }
+
+    // Show how close the script is to the target duration
+    if (aiResponse.duration) {
+        const report = aiResponse.duration;
+        const measured = report.measuredSeconds != undefined ? `, measured ${Math.round(report.measuredSeconds)}s` : "";
+        console.info(`--> Duration: estimated ${Math.round(report.estimatedSeconds)}s${measured} (target ${report.target}s, ${Math.round(report.wordsPerMinute)} words per minute, ${report.turns} AI revision(s))`);
+
+        if (!report.withinTarget) {
+            console.info(`[!] Script is not within tolerance of target duration (change '--durationTolerance' or refine the script)`);
+        }
+    }
+
+    if (aiResponse.metadata) printMetadata(aiResponse.metadata);
+
+    // Ask user if they want to generate video based on AI response (or refine it until satisfied)
+    let videoJson = aiResponse.json;
+    let usageReport = aiResponse.usage;
+    let metadata = aiResponse.metadata;
+    let refined = false;
+
+    for (;;) {
+        const canRefine = aiResponse.conversation != undefined;
+        const genVideoRep = (await input({ message: `Generate video based on AI response? (y/n${canRefine ? ", or type a change (ex. 'make question 3 harder')" : ""}) -> ` })).trim();
+
+        if (genVideoRep == "n") {
+            console.info("Exiting...");
+            return;
+        }
+
+        if (genVideoRep == "y" || genVideoRep == "" || !aiResponse.conversation) break;
+
+        try {
+            const refinement = await aiResponse.conversation.refine(genVideoRep);
+            videoJson = JSON.stringify(refinement.data, null, 2);
+            usageReport = aiResponse.conversation.usage;
+            refined = true;
+
+            console.info(`--> Refined video (${refinement.changes.length} change(s)):`);
+            for (const line of formatChanges(refinement.changes)) {
+                console.info(`    ${line}`);
+            }
+
+            for (const issue of refinement.issues) {
+                console.info(`[!] Review issue: ${issue.message}`);
+            }
+
+            console.info(`--> AI usage: ${formatUsageReport(usageReport)}`);
+        } catch (error) {
+            // Keep the last valid script, the user can try another change
+            printError(error);
+        }
+    }
+
+    // Metadata is made again for the refined script
+    if (refined && aiResponse.conversation && aiMetadata !== false) {
+        try {
+            console.info("--> Generating upload metadata for refined video...");
+            metadata = await aiResponse.conversation.generateMetadata(aiMetadata, getVideoLocale(language));
+            usageReport = aiResponse.conversation.usage;
+            printMetadata(metadata);
+        } catch (error) {
+            // Metadata of the first script would not match the video
+            printError(error);
+            metadata = undefined;
+        }
+    }
+
+    await makeVideos(videoJson, usageReport, metadata);
 }
 
-cli();
+cli().catch((error) => {
+    printError(error);
+    process.exitCode = 1;
+});
@@ -1,11 +1,12 @@
 // Copyright (c) 2024 Shafil Alam
 
 // Import all AI prompt from each video type to export
-import { topicVideoAIPrompt } from "./types/topicVid";
-import { messageVideoAIPrompt } from "./types/msgVid";
-import { ratherVideoAIPrompt } from "./types/ratherVid";
-import { rankVideoAIPrompt } from "./types/rankVid";
-import { quizVideoAIPrompt } from "./types/quizVid";
+import { topicVideoAIPrompt, topicVideoSchema, topicVideoSpeech } from "./types/topicVid";
+import { messageVideoAIPrompt, messageVideoSchema, messageVideoSpeech } from "./types/msgVid";
+import { ratherVideoAIPrompt, ratherVideoReviewRules, ratherVideoSchema, ratherVideoSpeech } from "./types/ratherVid";
+import { rankVideoAIPrompt, rankVideoReviewRules, rankVideoSchema, rankVideoSpeech } from "./types/rankVid";
+import { quizVideoAIPrompt, quizVideoReviewRules, quizVideoSchema, quizVideoSpeech } from "./types/quizVid";
+import type { AIPriceTable } from "./usage";
 
 // Export all AI prompts for each video type
 export {
@@ -16,6 +17,52 @@ export {
     quizVideoAIPrompt
 };
 
+// Export all JSON schemas for each video type
+export {
+    topicVideoSchema,
+    messageVideoSchema,
+    ratherVideoSchema,
+    rankVideoSchema,
+    quizVideoSchema
+};
+
+// Export review rules for video types that have them
+export {
+    ratherVideoReviewRules,
+    rankVideoReviewRules,
+    quizVideoReviewRules
+};
+
+// Export spoken parts of each video type (used to plan video duration)
+export {
+    topicVideoSpeech,
+    messageVideoSpeech,
+    ratherVideoSpeech,
+    rankVideoSpeech,
+    quizVideoSpeech
+};
+
+/**
+ * Default AI model prices in USD per 1 million tokens (prompt / completion).
+ * Models not in this table (ex. local Ollama or llama.cpp models) are counted as free.
+ * Override or add prices with the 'prices' option of AIUsageTracker.
+ */
+export const DEFAULT_AI_PRICES: AIPriceTable = {
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4-turbo": { input: 10, output: 30 },
+    "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+    "o1-preview": { input: 15, output: 60 },
+    "o1-mini": { input: 3, output: 12 },
+    "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+    "gemini-1.5-pro": { input: 1.25, output: 5 },
+    "gemini-1.0-pro": { input: 0.5, output: 1.5 },
+    "claude-3-5-sonnet": { input: 3, output: 15 },
+    "claude-3-opus": { input: 15, output: 75 },
+    "claude-3-sonnet": { input: 3, output: 15 },
+    "claude-3-haiku": { input: 0.25, output: 1.25 },
+};
+
 /**
  * Default built-in AI system prompt for AutoShorts.
  * This prompt is used to introduce the AI system to the user and script.
@@ -39,8 +86,8 @@ Your name is AutoShorts. You can make short 60 second videos (unless told differ
 `;
 
 /**
- * Initial AI prompt that asks for the type requested by the user.
- * Be sure to update type list if new types are added.
+ * Initial AI prompt that asks for the type requested by the user (built-in types only).
+ * The prompt actually sent is built from the registered types with buildVideoTypePrompt (see registry.ts).
  */
 export const INITIAL_AI_PROMPT = `
 I will give you the prompt asked by the user. You must respond with the type of the video that user wants. Give your response with just one word. No commas, colon, etc. No extra info, meta-commentary, notes or spaces! Once the script gets the type, more questions will be asked to make video. If you are confused, set the type to topic and try your best to answer the questions that will be asked.
@@ -27,7 +27,13 @@ export const GGML_MODELS = {
 
 export type ModelName = keyof typeof GGML_MODELS;
 
-export default async function download(resPath: string) {
+/**
+ * Download resources and whisper models
+ *
+ * @param resPath Resource path
+ * @param models Whisper models to download (default: 'base.en')
+ */
+export default async function download(resPath: string, models: ModelName[] = ["base.en"]) {
     resPath = path.resolve(resPath);
 
     console.info(`Downloading resources to ${resPath}`);
@@ -45,19 +51,19 @@ export default async function download(resPath: string) {
         console.info(`Created models directory: ${modelsDir}`);
     }
 
-    await download_ggml(resPath);
+    for (const model of models) {
+        await download_ggml(resPath, model);
+    }
 
     await download_res_zip(resPath);
 }
 
 const pipelineAsync = promisify(pipeline);
 
-async function download_ggml(resPath: string) {
-    let url = "";
-
-    url = GGML_MODELS["base.en"];
+async function download_ggml(resPath: string, model: ModelName) {
+    const url = GGML_MODELS[model];
 
-    console.info(`Downloading GGML model 'base.en' for whisper subtitles...`);
+    console.info(`Downloading GGML model '${model}' for whisper subtitles...`);
 
     if (!url) {
         throw new Error(`Invalid model URL: ${url}`);
@@ -71,7 +77,7 @@ async function download_ggml(resPath: string) {
     const totalSize = (parseInt(res.headers.get('content-length') || '0', 10));
     const totalSizeMB = (totalSize / (1024 * 1024)).toFixed(2);
     console.info(`File size is ${totalSizeMB} MB...`);
-    const filePath = path.join(resPath, "models", "ggml-base.en.bin");
+    const filePath = path.join(resPath, "models", `ggml-${model}.bin`);
     const stream = fs.createWriteStream(filePath);
 
     const progressBar = new cliProgress.Bar({
@@ -102,7 +108,7 @@ async function download_ggml(resPath: string) {
     await pipelineAsync(nodeStream, stream);
 
     progressBar.stop();
-    console.info(`Downloaded model to 'models/ggml-base.en.bin'`);
+    console.info(`Downloaded model to 'models/ggml-${model}.bin'`);
 }
 
 async function download_res_zip(resPath: string) {
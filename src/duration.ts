@@ -0,0 +1,199 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { VideoDataType } from "./videogen";
+import { DEFAULT_SPEAKING_RATE, VoiceGenType } from "./tts";
+import { getVoiceProvider, hasVoiceProvider } from "./providers";
+import { getVideoType, hasVideoType } from "./registry";
+import { getVideoLocale, VideoLocale } from "./locale";
+
+/** Default tolerance of target duration (15%) */
+export const DEFAULT_DURATION_TOLERANCE = 0.15;
+/** Default number of times the AI is asked to expand or trim the script */
+export const DEFAULT_DURATION_TURNS = 2;
+
+/**
+ * Text spoken in the video (one TTS request)
+ */
+export interface SpeechPart {
+    /** Top level field the text comes from (ex. 'questions') */
+    field: string;
+    /** Spoken text */
+    text: string;
+    /** Voice of the text (default: male) */
+    voice?: "male" | "female";
+    /** Sound played after the text (ex. clock of quiz questions) in seconds */
+    pauseSeconds?: number;
+}
+
+/**
+ * Spoken parts of video data in order (template strings come from the locale)
+ */
+export type VideoSpeech<T> = (data: T, locale: VideoLocale) => SpeechPart[];
+
+/**
+ * Target duration of a video
+ */
+export interface DurationTarget {
+    /** Target duration in seconds */
+    seconds: number;
+    /** Allowed difference as a fraction of the target (default: 0.15) */
+    tolerance?: number;
+    /** Max number of times the AI is asked to expand or trim the script (default: 2) */
+    maxTurns?: number;
+    /** Generate the voice to measure the real duration and fit again if needed (default: true) */
+    verify?: boolean;
+}
+
+/**
+ * Duration estimate of video data
+ */
+export interface DurationEstimate {
+    /** Estimated duration in seconds (speech and pauses) */
+    seconds: number;
+    /** Spoken words */
+    words: number;
+    /** Seconds of sounds between speech (ex. quiz clock) */
+    pauseSeconds: number;
+    /** Spoken words of each field */
+    fields: Record<string, number>;
+}
+
+/**
+ * Report of fitting a script to the target duration
+ */
+export interface DurationReport {
+    /** Target duration in seconds */
+    target: number;
+    /** Estimated duration of the final script in seconds */
+    estimatedSeconds: number;
+    /** Duration of the generated voice in seconds (if verified with TTS) */
+    measuredSeconds?: number;
+    /** Speaking rate used for estimates (words per minute, measured if verified) */
+    wordsPerMinute: number;
+    /** Number of times the AI was asked to expand or trim the script */
+    turns: number;
+    /** Duration is within tolerance of the target */
+    withinTarget: boolean;
+}
+
+/**
+ * Estimates speech duration of video data from word count and the
+ * speaking rate of the voice
+ *
+ * @example
+ * ```typescript
+ * const planner = new DurationPlanner({ seconds: 60 }, VoiceGenType.ElevenLabs);
+ * const { seconds } = planner.estimate(videoData);
+ * ```
+ */
+export class DurationPlanner {
+    /** Target duration */
+    public target: Required<DurationTarget>;
+    /** Speaking rate (words per minute) */
+    public wordsPerMinute: number;
+    /** Locale of the video language (template strings are counted as spoken words) */
+    public locale: VideoLocale = getVideoLocale();
+
+    /**
+     * @param target - Target duration
+     * @param voiceGenType - Voice generation type (sets the speaking rate)
+     * @param wordsPerMinute - Speaking rate override
+     */
+    constructor(target: DurationTarget, voiceGenType?: VoiceGenType, wordsPerMinute?: number) {
+        if (!(target.seconds > 0)) {
+            throw Error(`Invalid target duration: ${target.seconds} (must be more than 0 seconds)`);
+        }
+
+        this.target = {
+            seconds: target.seconds,
+            tolerance: target.tolerance ?? DEFAULT_DURATION_TOLERANCE,
+            maxTurns: target.maxTurns ?? DEFAULT_DURATION_TURNS,
+            verify: target.verify ?? true,
+        };
+        this.wordsPerMinute = wordsPerMinute ?? (voiceGenType && hasVoiceProvider(voiceGenType) ? getVoiceProvider(voiceGenType).capabilities.speakingRate : undefined) ?? DEFAULT_SPEAKING_RATE;
+    }
+
+    /**
+     * Estimate duration of video data
+     */
+    estimate(data: VideoDataType): DurationEstimate {
+        const parts = getSpeechParts(data, this.locale);
+        const fields: Record<string, number> = {};
+
+        for (const part of parts) {
+            fields[part.field] = (fields[part.field] ?? 0) + countWords(part.text);
+        }
+
+        const words = Object.values(fields).reduce((a, b) => a + b, 0);
+        const pauseSeconds = parts.reduce((sum, part) => sum + (part.pauseSeconds ?? 0), 0);
+
+        return { seconds: this.wordsToSeconds(words) + pauseSeconds, words, pauseSeconds, fields };
+    }
+
+    /**
+     * Check if duration is within tolerance of the target
+     */
+    isWithinTarget(seconds: number): boolean {
+        return Math.abs(seconds - this.target.seconds) <= this.target.seconds * this.target.tolerance;
+    }
+
+    /**
+     * Number of spoken words that fit the target (time of pauses is taken out)
+     */
+    targetWords(pauseSeconds: number = 0): number {
+        return Math.max(Math.round((this.target.seconds - pauseSeconds) / 60 * this.wordsPerMinute), 1);
+    }
+
+    /**
+     * Set speaking rate from words and measured speech time (ex. after TTS)
+     *
+     * @param words - Spoken words
+     * @param speechSeconds - Measured duration of speech without pauses
+     */
+    calibrate(words: number, speechSeconds: number) {
+        if (words > 0 && speechSeconds > 0) {
+            this.wordsPerMinute = words / speechSeconds * 60;
+        }
+    }
+
+    /**
+     * Convert words to seconds of speech
+     */
+    wordsToSeconds(words: number): number {
+        return words / this.wordsPerMinute * 60;
+    }
+}
+
+/**
+ * Get spoken parts of video data in order
+ *
+ * @param data - Video data
+ * @param locale - Locale of the video language (default: English)
+ * @returns Spoken parts (empty for unknown types)
+ */
+export function getSpeechParts(data: VideoDataType, locale: VideoLocale = getVideoLocale()): SpeechPart[] {
+    const speech = hasVideoType(data.type) ? getVideoType(data.type).speech : undefined;
+    return speech ? speech(data, locale) : [];
+}
+
+/**
+ * Count words of text
+ */
+export function countWords(text: string): number {
+    return text.split(/\s+/).filter((word) => /\w/.test(word)).length;
+}
+
+/**
+ * Build prompt asking the AI to expand or trim spoken fields to fit the target duration
+ *
+ * @param fields - Current values of spoken fields
+ * @param estimate - Estimate of current script
+ * @param planner - Duration planner
+ */
+export function buildDurationPrompt(fields: Record<string, unknown>, estimate: DurationEstimate, planner: DurationPlanner): string {
+    const words = planner.targetWords(estimate.pauseSeconds);
+    const action = estimate.words < words ? "Expand" : "Trim";
+    const current = JSON.stringify(fields);
+
+    return `The video is about ${Math.round(estimate.seconds)} seconds long when spoken (${estimate.words} words), but it must be about ${planner.target.seconds} seconds. ${action} the spoken text of ${Object.keys(fields).map((field) => `'${field}'`).join(", ")} to about ${words} words in total. Keep the same format and meaning. Current value: ${current}. Respond with only valid JSON in the same format.`;
+}
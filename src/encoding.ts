@@ -0,0 +1,306 @@
+// Copyright (c) 2024 Shafil Alam
+
+/**
+ * Video codecs
+ */
+export enum VideoCodec {
+    /** H.264 (libx264), plays everywhere */
+    H264 = "h264",
+    /** VP9 (libvpx-vp9), smaller files for the web */
+    VP9 = "vp9",
+}
+
+/**
+ * Audio codecs
+ */
+export enum AudioCodec {
+    /** AAC */
+    AAC = "aac",
+    /** Opus */
+    Opus = "opus",
+}
+
+/**
+ * Video containers (file extension of the video)
+ */
+export enum VideoContainer {
+    /** MP4 */
+    MP4 = "mp4",
+    /** WebM */
+    WebM = "webm",
+}
+
+/** x264 speed presets (slower is smaller at the same quality) */
+export const ENCODING_PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'] as const;
+
+/**
+ * x264 speed preset
+ */
+export type EncodingPreset = typeof ENCODING_PRESETS[number];
+
+/**
+ * Encoding profile (codec, quality and container of the rendered video)
+ */
+export interface EncodingProfile {
+    /** Profile name */
+    name: string;
+    /** What the profile is for */
+    description: string;
+    /** Container of the video file */
+    container: VideoContainer;
+    /** Video codec */
+    videoCodec: VideoCodec;
+    /** Audio codec */
+    audioCodec: AudioCodec;
+    /** Frames per second */
+    fps: number;
+    /** Constant rate factor (quality, lower is better: 0-51 for H.264, 0-63 for VP9) */
+    crf: number;
+    /** Average video bitrate (ex. '4M', used instead of the CRF) */
+    videoBitrate?: string;
+    /** Audio bitrate (ex. '128k') */
+    audioBitrate: string;
+    /** x264 speed preset (H.264 only) */
+    preset: EncodingPreset;
+    /** Target file size in MB (two-pass encoding at the bitrate that fits the size, used instead of the CRF and bitrate) */
+    targetSizeMB?: number;
+}
+
+/**
+ * Encoding options of a video (a profile and settings that change it)
+ *
+ * @example
+ * ```typescript
+ * // WebM with a higher frame rate
+ * { profile: "webm", fps: 60 }
+ * // Shorts profile that fits in 50 MB
+ * { profile: "shorts", targetSizeMB: 50 }
+ * ```
+ */
+export type EncodingOptions = Partial<Omit<EncodingProfile, "name" | "description">> & {
+    /** Name of the encoding profile the options change (default: 'default') */
+    profile?: string;
+};
+
+/**
+ * Error of an unknown encoding profile or invalid encoding options
+ */
+export class EncodingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "EncodingError";
+    }
+}
+
+/** Default encoding profile */
+export const DEFAULT_ENCODING_PROFILE = "default";
+
+/**
+ * Encoding profiles by name
+ */
+export const ENCODING_PROFILES: Record<string, EncodingProfile> = {
+    default: {
+        name: "default", description: "H.264 MP4, balanced quality and size",
+        container: VideoContainer.MP4, videoCodec: VideoCodec.H264, audioCodec: AudioCodec.AAC,
+        fps: 30, crf: 20, audioBitrate: "128k", preset: "medium",
+    },
+    shorts: {
+        name: "shorts", description: "H.264 MP4 for YouTube Shorts, TikTok and Reels (high quality upload, re-encoded by the platform)",
+        container: VideoContainer.MP4, videoCodec: VideoCodec.H264, audioCodec: AudioCodec.AAC,
+        fps: 30, crf: 18, audioBitrate: "192k", preset: "slow",
+    },
+    preview: {
+        name: "preview", description: "Small and fast H.264 MP4 to check a video",
+        container: VideoContainer.MP4, videoCodec: VideoCodec.H264, audioCodec: AudioCodec.AAC,
+        fps: 24, crf: 30, audioBitrate: "96k", preset: "ultrafast",
+    },
+    archive: {
+        name: "archive", description: "High quality H.264 MP4 to keep or edit (large files)",
+        container: VideoContainer.MP4, videoCodec: VideoCodec.H264, audioCodec: AudioCodec.AAC,
+        fps: 60, crf: 14, audioBitrate: "320k", preset: "slower",
+    },
+    webm: {
+        name: "webm", description: "VP9 and Opus WebM for the web",
+        container: VideoContainer.WebM, videoCodec: VideoCodec.VP9, audioCodec: AudioCodec.Opus,
+        fps: 30, crf: 32, audioBitrate: "128k", preset: "medium",
+    },
+};
+
+/** Codecs each container can hold */
+const CONTAINER_CODECS: Record<VideoContainer, { video: VideoCodec[], audio: AudioCodec[] }> = {
+    [VideoContainer.MP4]: { video: [VideoCodec.H264, VideoCodec.VP9], audio: [AudioCodec.AAC, AudioCodec.Opus] },
+    [VideoContainer.WebM]: { video: [VideoCodec.VP9], audio: [AudioCodec.Opus] },
+};
+
+/** Share of a size-targeted file kept for the container (headers, index) */
+const CONTAINER_OVERHEAD = 0.02;
+
+/** Lowest video bitrate a size-targeted video is encoded at (in kbit/s) */
+const MIN_TARGET_BITRATE = 100;
+
+/**
+ * Get the encoding settings of a video
+ *
+ * If only the container is changed, the codecs of the container are used (ex. VP9 and Opus for WebM).
+ *
+ * @param options Encoding options (default: the default profile)
+ * @returns Encoding profile with the options applied
+ * @throws EncodingError if the profile is unknown or an option is invalid
+ */
+export function getEncodingSettings(options: EncodingOptions = {}): EncodingProfile {
+    const { profile: profileName = DEFAULT_ENCODING_PROFILE, ...overrides } = options;
+    const profile = ENCODING_PROFILES[profileName];
+    if (!profile) {
+        throw new EncodingError(`Unknown encoding profile: ${profileName} (use ${Object.keys(ENCODING_PROFILES).join(", ")})`);
+    }
+
+    const settings: EncodingProfile = { ...profile };
+    for (const [key, value] of Object.entries(overrides)) {
+        if (value != undefined) Object.assign(settings, { [key]: value });
+    }
+
+    const codecs = CONTAINER_CODECS[settings.container];
+    if (!codecs) {
+        throw new EncodingError(`Unknown container: ${settings.container} (use ${Object.values(VideoContainer).join(", ")})`);
+    }
+    if (options.container && options.container != profile.container) {
+        settings.videoCodec = options.videoCodec ?? codecs.video[0];
+        settings.audioCodec = options.audioCodec ?? codecs.audio[0];
+    }
+
+    if (!Object.values(VideoCodec).includes(settings.videoCodec)) {
+        throw new EncodingError(`Unknown video codec: ${settings.videoCodec} (use ${Object.values(VideoCodec).join(", ")})`);
+    }
+    if (!Object.values(AudioCodec).includes(settings.audioCodec)) {
+        throw new EncodingError(`Unknown audio codec: ${settings.audioCodec} (use ${Object.values(AudioCodec).join(", ")})`);
+    }
+    if (!codecs.video.includes(settings.videoCodec) || !codecs.audio.includes(settings.audioCodec)) {
+        throw new EncodingError(`${settings.container} can't hold ${settings.videoCodec} video with ${settings.audioCodec} audio`);
+    }
+
+    const maxCrf = settings.videoCodec == VideoCodec.VP9 ? 63 : 51;
+    if (!Number.isInteger(settings.crf) || settings.crf < 0 || settings.crf > maxCrf) {
+        throw new EncodingError(`Invalid CRF: ${settings.crf} (0-${maxCrf} for ${settings.videoCodec})`);
+    }
+    if (!Number.isInteger(settings.fps) || settings.fps < 1 || settings.fps > 120) {
+        throw new EncodingError(`Invalid frame rate: ${settings.fps} (1-120)`);
+    }
+    if (!ENCODING_PRESETS.includes(settings.preset)) {
+        throw new EncodingError(`Invalid preset: ${settings.preset} (use ${ENCODING_PRESETS.join(", ")})`);
+    }
+    for (const bitrate of [settings.videoBitrate, settings.audioBitrate]) {
+        if (bitrate != undefined) parseBitrate(bitrate);
+    }
+    if (settings.targetSizeMB != undefined && !(settings.targetSizeMB > 0)) {
+        throw new EncodingError(`Invalid target size: ${settings.targetSizeMB} MB`);
+    }
+
+    return settings;
+}
+
+/**
+ * Parse a bitrate
+ *
+ * @param bitrate Bitrate in bit/s, or with a 'k' or 'M' suffix (ex. '128k', '2.5M')
+ * @returns Bitrate in kbit/s
+ * @throws EncodingError if the bitrate is invalid
+ */
+export function parseBitrate(bitrate: string): number {
+    const match = bitrate.match(/^(\d+(?:\.\d+)?)([kM]?)$/);
+    if (!match || parseFloat(match[1]) <= 0) {
+        throw new EncodingError(`Invalid bitrate: ${bitrate} (ex. 128k, 2.5M)`);
+    }
+
+    const value = parseFloat(match[1]);
+    return match[2] == "M" ? value * 1000 : match[2] == "k" ? value : value / 1000;
+}
+
+/**
+ * Get the video bitrate that fits a size-targeted video in its target size
+ *
+ * @param settings Encoding settings with a target size
+ * @param duration Duration of the video in seconds
+ * @returns Video bitrate in kbit/s
+ * @throws EncodingError if the target size is too small for the duration
+ */
+export function getTargetBitrate(settings: EncodingProfile, duration: number): number {
+    if (settings.targetSizeMB == undefined) {
+        throw new EncodingError("Encoding settings have no target size");
+    }
+
+    const totalBitrate = settings.targetSizeMB * 1024 * 1024 * 8 * (1 - CONTAINER_OVERHEAD) / 1000 / duration;
+    const videoBitrate = Math.floor(totalBitrate - parseBitrate(settings.audioBitrate));
+
+    if (videoBitrate < MIN_TARGET_BITRATE) {
+        throw new EncodingError(`Target size of ${settings.targetSizeMB} MB is too small for a ${Math.round(duration)} second video (lower the audio bitrate or raise the size)`);
+    }
+
+    return videoBitrate;
+}
+
+/**
+ * Check if the renderer can encode a video directly
+ *
+ * The renderer only writes H.264 with AAC in one pass, other codecs and size-targeted videos are
+ * rendered to a high quality H.264 master and encoded again with `getEncoderOptions`.
+ *
+ * @param settings Encoding settings
+ */
+export function canRenderDirectly(settings: EncodingProfile): boolean {
+    return settings.videoCodec == VideoCodec.H264 && settings.audioCodec == AudioCodec.AAC && settings.targetSizeMB == undefined;
+}
+
+/**
+ * Get encoding settings of the master video that is encoded again (keeps the quality for the second encode)
+ *
+ * @param settings Encoding settings of the video
+ */
+export function getMasterSettings(settings: EncodingProfile): EncodingProfile {
+    return {
+        ...ENCODING_PROFILES[DEFAULT_ENCODING_PROFILE],
+        name: "master",
+        fps: settings.fps,
+        crf: 12,
+        audioBitrate: "320k",
+        preset: "veryfast",
+    };
+}
+
+/**
+ * Get ffmpeg output options of the video and audio codecs
+ *
+ * @param settings Encoding settings
+ * @param pass Pass of a two-pass encode (1 writes only the pass log, no audio)
+ * @param passLogFile Pass log file prefix of a two-pass encode
+ * @param videoBitrate Video bitrate in kbit/s (default: the bitrate of the settings, or the CRF)
+ * @returns ffmpeg output options
+ */
+export function getEncoderOptions(settings: EncodingProfile, pass?: 1 | 2, passLogFile?: string, videoBitrate?: number): string[] {
+    const bitrate = videoBitrate != undefined ? `${videoBitrate}k` : settings.videoBitrate;
+    const options: string[] = ['-map_metadata', '-1', '-map_chapters', '-1'];
+
+    if (settings.videoCodec == VideoCodec.VP9) {
+        // VP9 is constant quality with a bitrate of 0, bitrate sets the average
+        options.push('-c:v', 'libvpx-vp9', '-row-mt', '1', '-deadline', 'good', '-cpu-used', '2');
+        options.push(...(bitrate ? ['-b:v', bitrate] : ['-crf', `${settings.crf}`, '-b:v', '0']));
+    } else {
+        options.push('-c:v', 'libx264', '-profile:v', 'high', '-preset', settings.preset);
+        options.push(...(bitrate ? ['-b:v', bitrate] : ['-crf', `${settings.crf}`]));
+    }
+
+    options.push('-pix_fmt', 'yuv420p', '-r', `${settings.fps}`);
+
+    if (pass) {
+        options.push('-pass', `${pass}`);
+        if (passLogFile) options.push('-passlogfile', passLogFile);
+    }
+
+    if (pass == 1) {
+        options.push('-an', '-f', 'null');
+    } else {
+        options.push('-c:a', settings.audioCodec == AudioCodec.Opus ? 'libopus' : 'aac', '-b:a', settings.audioBitrate);
+        if (settings.container == VideoContainer.MP4) options.push('-movflags', '+faststart');
+    }
+
+    return options;
+}
@@ -0,0 +1,222 @@
+// Copyright (c) 2024 Shafil Alam
+
+import OpenAI from 'openai';
+
+/**
+ * AI error codes (one for each error class)
+ */
+export enum AIErrorCode {
+    /** API key is missing or not accepted */
+    Auth = "auth",
+    /** Too many requests or quota used up */
+    RateLimit = "rate_limit",
+    /** Model does not exist on the provider */
+    ModelNotFound = "model_not_found",
+    /** Provider could not be reached (not running, network down, timeout) */
+    Connection = "connection",
+    /** AI response could not be turned into valid video data */
+    MalformedOutput = "malformed_output",
+    /** AI refused to respond (safety filter or refusal message) */
+    Refusal = "refusal",
+    /** Any other provider error */
+    Unknown = "unknown",
+}
+
+/**
+ * Base class for errors of AI providers
+ */
+export class AIError extends Error {
+    /** Error code */
+    public code: AIErrorCode = AIErrorCode.Unknown;
+    /** Provider name (if known) */
+    public provider?: string;
+    /** HTTP status of provider response (if any) */
+    public status?: number;
+    /** Request may succeed if sent again */
+    public retryable: boolean = false;
+
+    /**
+     * @param message - Error message
+     * @param provider - Provider name
+     * @param status - HTTP status of provider response
+     */
+    constructor(message: string, provider?: string, status?: number) {
+        super(provider ? `${provider}: ${message}` : message);
+        this.name = "AIError";
+        this.provider = provider;
+        this.status = status;
+    }
+}
+
+/**
+ * API key is missing or was not accepted by the provider
+ */
+export class AIAuthError extends AIError {
+    constructor(message: string, provider?: string, status?: number) {
+        super(message, provider, status);
+        this.name = "AIAuthError";
+        this.code = AIErrorCode.Auth;
+    }
+}
+
+/**
+ * Provider rate limited the request or the quota is used up
+ */
+export class AIRateLimitError extends AIError {
+    /** Time to wait before sending again (if the provider said) */
+    public retryAfterMs?: number;
+
+    constructor(message: string, provider?: string, status?: number, retryAfterMs?: number) {
+        super(message, provider, status);
+        this.name = "AIRateLimitError";
+        this.code = AIErrorCode.RateLimit;
+        this.retryable = true;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Model does not exist on the provider (or is not pulled for Ollama)
+ */
+export class AIModelNotFoundError extends AIError {
+    constructor(message: string, provider?: string, status?: number) {
+        super(message, provider, status);
+        this.name = "AIModelNotFoundError";
+        this.code = AIErrorCode.ModelNotFound;
+    }
+}
+
+/**
+ * Provider could not be reached or had a server error
+ */
+export class AIConnectionError extends AIError {
+    constructor(message: string, provider?: string, status?: number) {
+        super(message, provider, status);
+        this.name = "AIConnectionError";
+        this.code = AIErrorCode.Connection;
+        this.retryable = true;
+    }
+}
+
+/**
+ * AI response could not be turned into valid video data
+ */
+export class AIMalformedOutputError extends AIError {
+    constructor(message: string, provider?: string) {
+        super(message, provider);
+        this.name = "AIMalformedOutputError";
+        this.code = AIErrorCode.MalformedOutput;
+    }
+}
+
+/**
+ * AI refused to respond (blocked by a safety filter or answered with a refusal)
+ */
+export class AIRefusalError extends AIError {
+    constructor(message: string, provider?: string) {
+        super(message, provider);
+        this.name = "AIRefusalError";
+        this.code = AIErrorCode.Refusal;
+    }
+}
+
+/**
+ * Video data given to `genVideo` is empty or invalid
+ */
+export class VideoDataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "VideoDataError";
+    }
+}
+
+/** Start of common refusal responses (ex. "I'm sorry, but I can't help with that") */
+const REFUSAL_REGEX = /^\W*(I'?m sorry|I am sorry|I apologi[sz]e|I can(no|')t (help|assist|create|provide|do)|I('m| am) (not able|unable) to|As an AI)/i;
+
+/**
+ * Check if AI response is a refusal instead of an answer
+ */
+export function isRefusal(text: string): boolean {
+    return REFUSAL_REGEX.test(text);
+}
+
+/**
+ * Create error for HTTP status of provider response
+ *
+ * @param status - HTTP status
+ * @param message - Error message (ex. error of response body)
+ * @param provider - Provider name
+ * @param retryAfterMs - Retry-After of response in milliseconds (for rate limits)
+ */
+export function createAIStatusError(status: number, message: string, provider?: string, retryAfterMs?: number): AIError {
+    if (status == 401 || status == 403) return new AIAuthError(message, provider, status);
+    if (status == 404) return new AIModelNotFoundError(message, provider, status);
+    if (status == 429) return new AIRateLimitError(message, provider, status, retryAfterMs);
+    if (status == 408 || status >= 500) return new AIConnectionError(message, provider, status);
+
+    return new AIError(message, provider, status);
+}
+
+/**
+ * Create error from failed provider HTTP response (uses error message of body if any)
+ *
+ * @param response - Failed HTTP response
+ * @param provider - Provider name
+ */
+export async function createAIResponseError(response: Response, provider: string): Promise<AIError> {
+    let message = response.statusText ? `${response.status} ${response.statusText}` : `${response.status}`;
+
+    try {
+        const body = await response.text();
+        const json = JSON.parse(body);
+        const error = json.error?.message ?? json.error ?? json.message;
+        if (error) message += `: ${typeof error == "string" ? error : JSON.stringify(error)}`;
+    } catch {
+        // No JSON body, use status only
+    }
+
+    return createAIStatusError(response.status, message, provider, parseRetryAfter(response.headers.get('retry-after')));
+}
+
+/**
+ * Classify any error thrown while calling a provider
+ * (SDK errors, fetch errors and errors that already are AIError)
+ *
+ * @param error - Thrown error
+ * @param provider - Provider name
+ * @returns AI error (only network errors, timeouts, rate limits and server errors are retryable)
+ */
+export function classifyAIError(error: unknown, provider?: string): AIError {
+    if (error instanceof AIError) return error;
+
+    const message = (error as Error)?.message ?? String(error);
+
+    if (error instanceof OpenAI.APIConnectionError) {
+        return new AIConnectionError(message, provider);
+    }
+
+    // OpenAI SDK errors have 'status', Ollama errors have 'status_code'
+    const { status, status_code, headers } = (error ?? {}) as { status?: unknown, status_code?: unknown, headers?: Record<string, string> };
+    const code = typeof status == "number" ? status : status_code;
+
+    if (typeof code == "number") {
+        return createAIStatusError(code, message, provider, parseRetryAfter(headers?.['retry-after']));
+    }
+
+    // Node fetch puts the system error (ex. ECONNREFUSED) in 'cause'
+    const cause = (error as { cause?: { code?: string } })?.cause?.code ?? "";
+    if (/fetch failed|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|EAI_AGAIN|UND_ERR_\w*TIMEOUT|socket hang up|timed out/i.test(`${message} ${cause}`) || (error as Error)?.name == "TimeoutError") {
+        return new AIConnectionError(cause ? `${message} (${cause})` : message, provider);
+    }
+
+    // Other errors are bugs or bad input, which do not go away when retried
+    return new AIError(message, provider);
+}
+
+/**
+ * Parse Retry-After header (seconds) to milliseconds
+ */
+function parseRetryAfter(value?: string | null): number | undefined {
+    const seconds = Number(value);
+    return value && !isNaN(seconds) ? seconds * 1000 : undefined;
+}
@@ -0,0 +1,329 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { AICapabilities, AIGenType, AIOptions, ChatMessage, ChatProvider, ChatRequestOptions, ChatResponse, createChatProvider } from "./ai";
+import { AIError, AIErrorCode, AIRateLimitError, classifyAIError } from "./errors";
+
+/**
+ * Retry policy of an AI provider
+ */
+export interface AIRetryPolicy {
+    /** Number of retries after the first request fails */
+    retries: number;
+    /** Delay before the first retry in milliseconds */
+    initialDelayMs: number;
+    /** Max delay between retries in milliseconds */
+    maxDelayMs: number;
+    /** Delay is multiplied by this after each retry */
+    factor: number;
+}
+
+/** Retry policy used when none is set */
+export const DEFAULT_AI_RETRY_POLICY: AIRetryPolicy = {
+    retries: 2,
+    initialDelayMs: 1000,
+    maxDelayMs: 10000,
+    factor: 2,
+};
+
+/**
+ * AI provider in a fallback chain
+ */
+export interface AIFallbackOptions {
+    /** AI type */
+    type: AIGenType;
+    /** AI model name (default model of provider if not set) */
+    model?: string;
+    /** API key (if applicable) */
+    apiKey?: string;
+    /** API endpoint (for OpenAI, OpenAI compatible and llama.cpp) */
+    endpoint?: string;
+    /** Retry policy (default: retry policy of AI options) */
+    retry?: Partial<AIRetryPolicy>;
+}
+
+/**
+ * Provider that produced a response or field
+ */
+export interface AIProvenance {
+    /** Provider name (ex. 'OpenAI') */
+    provider: string;
+    /** Model name */
+    model: string;
+}
+
+/**
+ * Last error of a provider in a fallback chain
+ */
+export interface AIProviderFailure extends AIProvenance {
+    /** Error message */
+    error: string;
+    /** Error code */
+    code: AIErrorCode;
+}
+
+/**
+ * Error thrown when every provider of a fallback chain failed
+ * (code, status and retryable are of the last provider's error)
+ */
+export class AIFallbackError extends AIError {
+    /** Last error of each provider */
+    public failures: AIProviderFailure[];
+
+    constructor(failures: AIProviderFailure[], lastError?: AIError) {
+        const list = failures.map((failure) => `${failure.provider} ${failure.model} (${failure.error})`).join(", ");
+        super(`All AI providers failed: ${list}`, undefined, lastError?.status);
+        this.name = "AIFallbackError";
+        this.failures = failures;
+        this.code = lastError?.code ?? AIErrorCode.Unknown;
+        this.retryable = lastError?.retryable ?? false;
+    }
+}
+
+/**
+ * Provider of a fallback chain that is created on first use
+ * (a fallback that can't be created, ex. without an API key, only fails the chain if it is needed)
+ */
+export interface LazyChatProvider {
+    /** Provider name until it is created (ex. AI type) */
+    name: string;
+    /** Model name until it is created */
+    model: string;
+    /** Create the provider */
+    create: () => ChatProvider;
+}
+
+/**
+ * Provider in a fallback chain with its retry policy
+ */
+interface FallbackEntry {
+    /** Provider (not set until a lazy provider is created) */
+    provider?: ChatProvider;
+    /** Lazy provider */
+    lazy?: LazyChatProvider;
+    retry: AIRetryPolicy;
+}
+
+/**
+ * Chat provider that fails over to the next provider of a chain
+ *
+ * Each request is retried with exponential backoff (errors that won't go away,
+ * like a bad API key, are not retried), then sent to the next provider. Once a
+ * provider fails over, the chain keeps using the provider that worked.
+ * Responses are tagged with the provider and model that produced them.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FallbackChatProvider([new OllamaAIGen(), new OpenAIGen(apiKey)]);
+ * const data = await new ScriptDriver(provider).generate(systemPrompt, prompt);
+ * ```
+ */
+export class FallbackChatProvider implements ChatProvider {
+    /** Providers in order */
+    private entries: FallbackEntry[];
+    /** Index of provider that is used first */
+    private current = 0;
+    /** Log function */
+    private log: (msg: string) => void;
+    /** Wait function (used for backoff) */
+    private sleep: (ms: number) => Promise<void>;
+
+    /**
+     * @param providers - Providers in order (with optional retry policy for each, lazy providers are created on first use)
+     * @param log - Log function
+     * @param sleep - Wait function (default: setTimeout)
+     */
+    constructor(providers: (ChatProvider | { provider: ChatProvider | LazyChatProvider, retry?: Partial<AIRetryPolicy> })[], log: (msg: string) => void = () => {}, sleep: (ms: number) => Promise<void> = wait) {
+        if (providers.length == 0) {
+            throw Error("AI fallback chain needs at least one provider!");
+        }
+
+        this.entries = providers.map((entry) => {
+            if (!("provider" in entry)) return { provider: entry, retry: DEFAULT_AI_RETRY_POLICY };
+
+            const retry = { ...DEFAULT_AI_RETRY_POLICY, ...entry.retry };
+            return "create" in entry.provider ? { lazy: entry.provider, retry } : { provider: entry.provider, retry };
+        });
+        this.log = log;
+        this.sleep = sleep;
+    }
+
+    /** Name of provider in use */
+    get name(): string {
+        const entry = this.entries[this.current];
+        return (entry.provider ?? entry.lazy)?.name ?? "";
+    }
+
+    /** Model of provider in use */
+    get model(): string {
+        const entry = this.entries[this.current];
+        return (entry.provider ?? entry.lazy)?.model ?? "";
+    }
+
+    /** Capabilities of provider in use */
+    get capabilities(): AICapabilities | undefined {
+        return this.entries[this.current].provider?.capabilities;
+    }
+
+    /** Providers of the chain in order (lazy providers that are not created yet are left out) */
+    get providers(): ChatProvider[] {
+        return this.entries.flatMap((entry) => entry.provider ? [entry.provider] : []);
+    }
+
+    async send(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse> {
+        return await this.run((provider) => provider.send(messages, options));
+    }
+
+    async stream(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse> {
+        return await this.run((provider) => provider.stream(messages, onChunk, options));
+    }
+
+    /**
+     * Get models of provider in use
+     */
+    async listModels(): Promise<string[]> {
+        return await this.getProvider(this.entries[this.current]).listModels();
+    }
+
+    /**
+     * Get provider of an entry (lazy providers are created on first use)
+     *
+     * @throws Error of the provider constructor (ex. AIAuthError if the API key is not set)
+     */
+    private getProvider(entry: FallbackEntry): ChatProvider {
+        if (!entry.provider) {
+            entry.provider = entry.lazy!.create();
+        }
+
+        return entry.provider;
+    }
+
+    /**
+     * Run request on each provider (from the one in use) until one succeeds
+     *
+     * @throws AIFallbackError if every provider failed
+     */
+    private async run(request: (provider: ChatProvider) => Promise<ChatResponse>): Promise<ChatResponse> {
+        const failures: AIProviderFailure[] = [];
+        let lastError: AIError | undefined;
+
+        for (let i = this.current; i < this.entries.length; i++) {
+            const entry = this.entries[i];
+            const { retry } = entry;
+
+            // A provider that can't be created is a failure of that provider
+            let provider: ChatProvider;
+            try {
+                provider = this.getProvider(entry);
+            } catch (error) {
+                const name = entry.lazy?.name ?? "";
+                const model = entry.lazy?.model ?? "";
+                lastError = classifyAIError(error, name);
+                this.log(`[*] ${name} ${model} could not be used: ${lastError.message}`);
+                failures.push({ provider: name, model, error: lastError.message, code: lastError.code });
+                continue;
+            }
+
+            let delay = retry.initialDelayMs;
+
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    const response = await request(provider);
+
+                    if (i != this.current) {
+                        this.log(`[*] Switched AI provider to ${provider.name} ${provider.model}`);
+                        this.current = i;
+                    }
+
+                    return { ...response, provider: response.provider ?? provider.name, model: response.model ?? provider.model };
+                } catch (error) {
+                    lastError = classifyAIError(error, provider.name);
+
+                    if (attempt >= retry.retries || !lastError.retryable) {
+                        this.log(`[*] ${provider.name} ${provider.model} failed: ${lastError.message}`);
+                        failures.push({ provider: provider.name, model: provider.model, error: lastError.message, code: lastError.code });
+                        break;
+                    }
+
+                    // Wait as long as the provider asked if rate limited
+                    const retryAfter = lastError instanceof AIRateLimitError ? lastError.retryAfterMs ?? 0 : 0;
+                    const waitMs = Math.min(Math.max(delay, retryAfter), retry.maxDelayMs);
+
+                    this.log(`[*] ${provider.name} ${provider.model} failed (retry ${attempt + 1}/${retry.retries} in ${waitMs}ms): ${lastError.message}`);
+
+                    await this.sleep(waitMs);
+                    delay = Math.min(delay * retry.factor, retry.maxDelayMs);
+                }
+            }
+        }
+
+        throw new AIFallbackError(failures, lastError);
+    }
+}
+
+/**
+ * Create provider for AI options (a fallback chain if fallbacks or a retry policy are set)
+ *
+ * @param aiType - AI type of the first provider
+ * @param apiKey - API key of the first provider
+ * @param options - AI options
+ * @param log - Log function
+ * @returns Chat provider
+ */
+export function createFallbackProvider(aiType: AIGenType, apiKey?: string, options?: AIOptions, log: (msg: string) => void = () => {}): ChatProvider {
+    if (!options?.fallbacks?.length && !options?.retry) {
+        return createChatProvider(aiType, apiKey, options);
+    }
+
+    // Providers of the chain share every option except model and endpoint
+    // (fallbacks are created when they are needed, so one without an API key does not stop the first provider)
+    const entries = [
+        { provider: createChatProvider(aiType, apiKey, options), retry: options.retry },
+        ...(options.fallbacks ?? []).map((fallback) => ({
+            provider: {
+                name: fallback.type,
+                model: fallback.model ?? "default",
+                create: () => createChatProvider(fallback.type, fallback.apiKey, { ...options, model: fallback.model, endpoint: fallback.endpoint }),
+            },
+            retry: { ...options.retry, ...fallback.retry },
+        })),
+    ];
+
+    return new FallbackChatProvider(entries, log);
+}
+
+/**
+ * Parse fallback provider (ex. 'OpenAIGen:gpt-4o-mini', 'OllamaAIGen' or 'LlamaCppAIGen@http://localhost:8080')
+ *
+ * @param str - AI type, optional model after ':' and optional endpoint after '@'
+ * @returns Fallback options
+ * @throws Error if AI type is invalid
+ */
+export function parseFallback(str: string): AIFallbackOptions {
+    const [spec, ...endpoint] = str.split("@");
+    const [typeStr, ...model] = spec.split(":");
+
+    if (!Object.keys(AIGenType).includes(typeStr)) {
+        throw Error(`Invalid fallback AI type: '${typeStr}' (valid: ${Object.keys(AIGenType).join(", ")})`);
+    }
+
+    return {
+        type: AIGenType[typeStr as keyof typeof AIGenType],
+        model: model.length > 0 ? model.join(":") : undefined,
+        endpoint: endpoint.length > 0 ? endpoint.join("@") : undefined,
+    };
+}
+
+/**
+ * Check if request error may go away when retried
+ * (network errors, timeouts, rate limits and server errors)
+ */
+export function isRetryableError(error: unknown): boolean {
+    return classifyAIError(error).retryable;
+}
+
+/**
+ * Wait for given milliseconds
+ */
+function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
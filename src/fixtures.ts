@@ -0,0 +1,159 @@
+// Copyright (c) 2024 Shafil Alam
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * AI fixture modes
+ */
+export enum AIFixtureMode {
+    /** Send requests to the AI provider and save every response */
+    Record = "record",
+    /** Serve saved responses without network access */
+    Replay = "replay",
+}
+
+/**
+ * Saved AI provider request and response
+ */
+export interface AIFixture {
+    /** Request sent to the provider (API keys are in headers, which are not saved) */
+    request: {
+        method: string;
+        url: string;
+        body: string;
+    };
+    /** Response of the provider */
+    response: {
+        status: number;
+        statusText: string;
+        contentType: string | null;
+        body: string;
+    };
+}
+
+/**
+ * AI fixture file
+ */
+export interface AIFixtureFile {
+    /** Fixture file format version */
+    version: number;
+    /** Fixtures keyed by request hash */
+    fixtures: Record<string, AIFixture>;
+}
+
+/**
+ * Record and replay AI provider HTTP requests
+ *
+ * Every request is keyed by a hash of its method, URL and body (which holds
+ * the prompts), so a replay only matches if the same conversation is sent.
+ *
+ * @example
+ * ```typescript
+ * const fixtures = new AIFixtures("fixtures/ai.json", AIFixtureMode.Replay);
+ * const provider = createChatProvider(AIGenType.OpenAIGen, "key", { fetch: fixtures.fetch });
+ * ```
+ */
+export class AIFixtures {
+    /** Fixture file format version */
+    static VERSION = 1;
+
+    /** Path of fixture file */
+    public filePath: string;
+    /** Fixture mode */
+    public mode: AIFixtureMode;
+    /** Loaded fixtures */
+    public fixtures: Record<string, AIFixture> = {};
+
+    /** Fetch used to send requests when recording */
+    private baseFetch: typeof fetch;
+
+    /**
+     * @param filePath - Path of fixture file
+     * @param mode - Record or replay
+     * @param baseFetch - Fetch used when recording (default: global fetch)
+     * @throws Error if replaying and the fixture file does not exist
+     */
+    constructor(filePath: string, mode: AIFixtureMode, baseFetch: typeof fetch = fetch) {
+        this.filePath = filePath;
+        this.mode = mode;
+        this.baseFetch = baseFetch;
+
+        if (fs.existsSync(filePath)) {
+            const file: AIFixtureFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            this.fixtures = file.fixtures ?? {};
+        } else if (mode == AIFixtureMode.Replay) {
+            throw Error(`AI fixture file not found: '${filePath}'`);
+        }
+    }
+
+    /**
+     * Fetch that records or replays requests (pass as `fetch` in AI options)
+     */
+    fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+        const request = {
+            method: init?.method ?? "GET",
+            url: input instanceof Request ? input.url : input.toString(),
+            body: typeof init?.body == "string" ? init.body : "",
+        };
+        const key = AIFixtures.hash(request);
+
+        if (this.mode == AIFixtureMode.Replay) {
+            const fixture = this.fixtures[key];
+
+            if (!fixture) {
+                throw Error(`No AI fixture found for ${request.method} ${request.url} (key: ${key}) in '${this.filePath}'`);
+            }
+
+            return AIFixtures.toResponse(fixture);
+        }
+
+        const response = await this.baseFetch(input, init);
+
+        const fixture: AIFixture = {
+            request,
+            response: {
+                status: response.status,
+                statusText: response.statusText,
+                contentType: response.headers.get('content-type'),
+                body: await response.text(),
+            },
+        };
+
+        this.fixtures[key] = fixture;
+        this.save();
+
+        return AIFixtures.toResponse(fixture);
+    };
+
+    /**
+     * Save fixtures to file
+     */
+    save() {
+        const file: AIFixtureFile = { version: AIFixtures.VERSION, fixtures: this.fixtures };
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2));
+    }
+
+    /**
+     * Get key of request
+     */
+    static hash(request: AIFixture["request"]): string {
+        return crypto.createHash('sha256').update(`${request.method} ${request.url}\n${request.body}`).digest('hex');
+    }
+
+    /**
+     * Create HTTP response from fixture
+     */
+    private static toResponse(fixture: AIFixture): Response {
+        const headers = fixture.response.contentType ? { 'content-type': fixture.response.contentType } : undefined;
+
+        return new Response(fixture.response.body, {
+            status: fixture.response.status,
+            statusText: fixture.response.statusText,
+            headers: headers,
+        });
+    }
+}
@@ -0,0 +1,103 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { SchemaObject } from "ajv";
+
+/**
+ * Primitive GBNF rules shared by every grammar
+ */
+const PRIMITIVE_RULES: Record<string, string> = {
+    "ws": `[ \\t\\n]*`,
+    "char": `[^"\\\\\\x7F\\x00-\\x1F] | "\\\\" (["\\\\/bfnrt] | "u" [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F])`,
+    "string": `"\\"" char* "\\"" ws`,
+    "nonempty-string": `"\\"" char+ "\\"" ws`,
+    "integer": `"-"? ([0-9] | [1-9] [0-9]*) ws`,
+    "number": `"-"? ([0-9] | [1-9] [0-9]*) ("." [0-9]+)? ([eE] [-+]? [0-9]+)? ws`,
+    "boolean": `("true" | "false") ws`,
+    "null": `"null" ws`,
+    "value": `object | array | string | number | boolean | null`,
+    "object": `"{" ws (string ":" ws value ("," ws string ":" ws value)*)? "}" ws`,
+    "array": `"[" ws (value ("," ws value)*)? "]" ws`,
+};
+
+/**
+ * Convert JSON schema to a GBNF grammar (used by llama.cpp to constrain responses)
+ *
+ * Only the keywords used by the video schemas are supported (type, properties,
+ * items, enum, const, minLength and minItems). Object properties are always
+ * generated in schema order and unknown schemas accept any JSON value.
+ *
+ * @param schema - JSON schema
+ * @returns GBNF grammar with 'root' as the start rule
+ */
+export function schemaToGrammar(schema: SchemaObject): string {
+    const rules: Record<string, string> = {};
+
+    const root = convertSchema(schema, "root", rules);
+
+    return Object.entries({ root, ...rules, ...PRIMITIVE_RULES })
+        .map(([name, rule]) => `${name} ::= ${rule}`)
+        .join("\n");
+}
+
+/**
+ * Convert a schema to a rule body, adding rules for nested schemas
+ */
+function convertSchema(schema: SchemaObject, name: string, rules: Record<string, string>): string {
+    if (schema.const !== undefined) {
+        return `${literal(schema.const)} ws`;
+    }
+
+    if (Array.isArray(schema.enum)) {
+        return `(${schema.enum.map(literal).join(" | ")}) ws`;
+    }
+
+    switch (schema.type) {
+        case "object": {
+            const properties = Object.entries<SchemaObject>(schema.properties ?? {});
+
+            if (properties.length == 0) return "object";
+
+            const fields = properties.map(([key, value]) => {
+                const rule = addRule(`${name}-${key}`, convertSchema(value, `${name}-${key}`, rules), rules);
+                return `${literal(key)} ws ":" ws ${rule}`;
+            });
+
+            return `"{" ws ${fields.join(` "," ws `)} "}" ws`;
+        }
+        case "array": {
+            const item = addRule(`${name}-item`, convertSchema(schema.items ?? {}, `${name}-item`, rules), rules);
+            const list = `${item} ("," ws ${item})*`;
+
+            return `"[" ws ${(schema.minItems ?? 0) > 0 ? list : `(${list})?`} "]" ws`;
+        }
+        case "string":
+            return (schema.minLength ?? 0) > 0 ? "nonempty-string" : "string";
+        case "integer":
+            return "integer";
+        case "number":
+            return "number";
+        case "boolean":
+            return "boolean";
+        default:
+            return "value";
+    }
+}
+
+/**
+ * Add rule (if the body is not just another rule name) and return the name to reference
+ */
+function addRule(name: string, body: string, rules: Record<string, string>): string {
+    if (body in PRIMITIVE_RULES) return body;
+
+    const ruleName = name.replace(/[^a-zA-Z0-9-]/g, "-").toLowerCase();
+    rules[ruleName] = body;
+
+    return ruleName;
+}
+
+/**
+ * Convert JSON value to GBNF literal (ex. 'male' -> "\"male\"")
+ */
+function literal(value: unknown): string {
+    return JSON.stringify(JSON.stringify(value));
+}
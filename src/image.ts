@@ -1,11 +1,17 @@
 // Copyright (c) 2024 Shafil Alam
 
 import { VideoGen } from "./videogen";
+import type { ImageProvider } from "./providers";
 import { Client } from "node-pexels";
 import puppeteer from "puppeteer";
 import axios from "axios";
+import crypto from "crypto";
 import fs from "fs";
-import path from "path";
+
+/** Number of search results fetched for each query */
+export const DEFAULT_IMAGE_CANDIDATES = 5;
+/** Name of the file with the image choices (saved with the video) */
+export const IMAGE_CHOICES_FILE = "images.json";
 
 /**
  * Image generation types
@@ -43,6 +49,44 @@ export interface AIImageGenOptions {
     suffixPrompt: string;
 }
 
+/**
+ * Image found by a search
+ */
+export interface ImageCandidate {
+    /** Unique id of the image (used to find duplicates, ex. 'pexels:123') */
+    id: string;
+    /** Image URL (or data URL) */
+    url: string;
+    /** Query that found the image */
+    query: string;
+    /** Position in the search results of all queries (0 is the first result of the main query) */
+    rank: number;
+    /** Width in pixels (if known) */
+    width?: number;
+    /** Height in pixels (if known) */
+    height?: number;
+    /** Score from 0 to 1 (set when ranked) */
+    score?: number;
+}
+
+/**
+ * Image picked for a video with the candidates it was picked from
+ *
+ * Change `selected` and render again with the choices to swap an image.
+ */
+export interface ImageChoice {
+    /** Image file name (ex. 'image-0.png') */
+    file: string;
+    /** Image search term of the script */
+    query: string;
+    /** Alternate search terms from the AI */
+    alternates: string[];
+    /** Index of the chosen candidate */
+    selected: number;
+    /** Candidates (best first) */
+    candidates: ImageCandidate[];
+}
+
 /**
  * Base class for image generation
  * @abstract
@@ -64,49 +108,33 @@ export class PexelsImageGen extends ImageGen {
     public static styleType: ImageStyleType = ImageStyleType.Search;
 
     /**
-     * Generate images using Pexels API
-     * @param images - List of image queries
-     * @param tempPath - Temporary path to save images
-     * @param changePhotos - Change photos or not
+     * Search images using Pexels API
+     * @param queries - Image queries (main query first)
+     * @param count - Number of images for each query
      * @param apiKey - Pexels API key (required)
-     * @param filePrefix - File prefix for images
-     * @returns List of image paths
+     * @returns Images of every query
      */
-    static async generateImages(gen: VideoGen, images: string[], tempPath: string, changePhotos: boolean, apiKey?: string, filePrefix?: string): Promise<string[]> {
+    static async searchImages(gen: VideoGen, queries: string[], count: number, apiKey?: string): Promise<ImageCandidate[]> {
         if (!apiKey) {
             throw new Error("Pexels API key required");
         }
 
         const client = new Client({ apiKey: apiKey });
-        const imgs: string[] = [];
-
-        for (const [index, _] of images.entries()) {
-            if (changePhotos) {
-                const query = images[index];
-                gen.log(`Searching for images for rank ${index + 1} with query: ${query}`);
-
-                const r_images_rep = await client.v1.photos.search(query, { perPage: 1, page: 1 });
-                const r_image1 = r_images_rep.photos[0].src.large;
-
-                // Download images with axios
-                const r_image_path = path.join(tempPath, `image-${filePrefix ?? index}.png`);
-
-                const image_response = await axios.get(r_image1, { responseType: 'arraybuffer' });
-                fs.writeFileSync(r_image_path, image_response.data);
+        const candidates: ImageCandidate[] = [];
 
-                imgs.push(r_image_path);
+        for (const query of queries) {
+            gen.log(`Searching for images with query: ${query}`);
 
-                gen.log(`Image for rank ${index + 1} downloaded successfully at ${r_image_path}`);
-            } else {
-                const r_image_path = path.join(tempPath, `image-${filePrefix ?? index}.png`);
+            const res = await client.v1.photos.search(query, { perPage: count, page: 1 });
 
-                imgs.push(r_image_path);
-
-                gen.log(`Image for rank ${index + 1} downloaded successfully at ${r_image_path}`);
+            for (const photo of res.photos) {
+                // 'large2x' is the photo resized to fit 1880x1300
+                const scale = Math.min(1, 1880 / photo.width, 1300 / photo.height);
+                candidates.push({ id: `pexels:${photo.url}`, url: photo.src.large2x, query, rank: candidates.length, width: Math.round(photo.width * scale), height: Math.round(photo.height * scale) });
             }
         }
 
-        return imgs;
+        return candidates;
     }
 }
 
@@ -118,46 +146,22 @@ export class GoogleScraperImageGen extends ImageGen {
     public static styleType: ImageStyleType = ImageStyleType.Search;
 
     /**
-     * Generate images using Google
-     * @param images - List of image queries
-     * @param tempPath - Temporary path to save images
-     * @param changePhotos - Change photos or not
-     * @param filePrefix - File prefix for images
-     * @returns List of image paths
+     * Search images using Google
+     * @param queries - Image queries (main query first)
+     * @param count - Number of images for each query
+     * @returns Images of every query (thumbnails as data URLs)
      */
-    static async generateImages(gen: VideoGen, images: string[], tempPath: string, changePhotos: boolean, filePrefix?: string): Promise<string[]> {
-        const imgs: string[] = [];
-
-        if (changePhotos) {
-            const urls = await this.imgScrape(images);
-            for (const [index, url] of urls?.entries() ?? []) {
-                const img_path = path.join(tempPath, `image-${filePrefix ?? index}.png`);
-
-                const base64Data = url.replace(/^data:image\/(png|jpeg|gif);base64,/, '');
-                fs.writeFileSync(img_path, base64Data, 'base64');
-
-                gen.log(`Image generated: ${img_path} - GoogleScraperImageGen`);
-
-                imgs.push(img_path);
-            }
-        } else {
-            for (const [index, _] of images.entries()) {
-                const img_path = path.join(tempPath, `image-${filePrefix ?? index}.png`);
-                gen.log(`Image added: ${img_path}`);
-                imgs.push(img_path);
-            }
-        }
-
-        return imgs;
-    }
+    static async searchImages(gen: VideoGen, queries: string[], count: number): Promise<ImageCandidate[]> {
+        const candidates: ImageCandidate[] = [];
+        const browser = await puppeteer.launch({ headless: true });
 
-    private static async imgScrape(queries: string[]) {
         try {
-            const browser = await puppeteer.launch({ headless: true });
             const page = await browser.newPage();
-            const images = [];
+
             for (const query of queries) {
-                await page.goto(`https://www.google.com/search?tbm=isch&q=${query}`);
+                gen.log(`Searching for images with query: ${query} - GoogleScraperImageGen`);
+
+                await page.goto(`https://www.google.com/search?tbm=isch&q=${encodeURIComponent(query)}`);
 
                 // Scroll to the bottom of the page to load more images
                 await page.evaluate(async () => {
@@ -172,26 +176,26 @@ export class GoogleScraperImageGen extends ImageGen {
 
                 // Extract image URLs
                 const urls = await page.evaluate(() => {
-                    const imageElements = document.querySelectorAll('img');
                     const urls: string[] = [];
-                    imageElements.forEach(img => {
-                        const url = img.src;
-                        if (url.startsWith('data')) {
-                            urls.push(url);
+                    document.querySelectorAll('img').forEach(img => {
+                        if (img.src.startsWith('data')) {
+                            urls.push(img.src);
                         }
                     });
-                    return urls.slice(0, 1); // Limit to first 1 image URLs
+                    return urls;
                 });
 
-                images.push(...urls);
+                for (const url of urls.slice(0, count)) {
+                    const size = getImageSize(Buffer.from(url.replace(/^data:image\/\w+;base64,/, ''), 'base64'));
+                    const id = crypto.createHash('sha1').update(url).digest('hex');
+                    candidates.push({ id: `google:${id}`, url, query, rank: candidates.length, ...size });
+                }
             }
-
+        } finally {
             await browser.close();
-            return images;
-
-        } catch (err) {
-            console.error('An error occurred:', err);
         }
+
+        return candidates;
     }
 }
 
@@ -216,3 +220,186 @@ export class FluxAIImageGen extends ImageGen {
         return [];
     }
 }
+
+/** Google image search provider */
+export const googleScraperImageProvider: ImageProvider = {
+    id: ImageGenType.GoogleScraper,
+    name: "Google Search",
+    description: "Google image search (scraping) (local/free)",
+    credentials: [],
+    optionsSchema: { type: "object" },
+    capabilities: { style: ImageStyleType.Search, local: true },
+    searchImages: (gen, queries, count) => GoogleScraperImageGen.searchImages(gen, queries, count),
+};
+
+/** Pexels image search provider */
+export const pexelsImageProvider: ImageProvider = {
+    id: ImageGenType.Pexels,
+    name: "Pexels",
+    description: "Pexels image search (API key required)",
+    credentials: [{ name: "pexelsAPIKey", env: ImageAPIEnv.PexelsAPIKey, flag: "pexelsAPIKey", label: "Pexels API key" }],
+    optionsSchema: { type: "object" },
+    capabilities: { style: ImageStyleType.Search, local: false },
+    searchImages: (gen, queries, count, credentials) => PexelsImageGen.searchImages(gen, queries, count, credentials.pexelsAPIKey),
+};
+
+/** Flux AI image provider */
+export const fluxAIImageProvider: ImageProvider = {
+    id: ImageGenType.FluxAI,
+    name: "Flux",
+    description: "Flux AI image gen (API key required)",
+    credentials: [],
+    optionsSchema: {
+        type: "object",
+        properties: { modelName: { type: "string" }, suffixPrompt: { type: "string" } },
+        additionalProperties: false,
+    },
+    capabilities: { style: ImageStyleType.AI, local: false },
+    generateImages: (gen, request) => FluxAIImageGen.generateImages(gen, request.images, request.tempPath, true, request.imageOptions, request.filePrefix),
+};
+
+/**
+ * Score an image for a video (resolution and aspect fit, earlier search results are preferred)
+ *
+ * @param candidate - Image
+ * @param resolution - Video resolution (width, height)
+ * @returns Score from 0 to 1
+ */
+export function scoreImageCandidate(candidate: ImageCandidate, resolution: [number, number]): number {
+    const [width, height] = resolution;
+    const relevance = 1 / (1 + candidate.rank * 0.2);
+
+    // Size is unknown for some sources, so they get an average score
+    if (!candidate.width || !candidate.height) {
+        return 0.5 * 0.8 + relevance * 0.2;
+    }
+
+    // How much of the frame the image can cover without upscaling
+    const sharpness = Math.min(1, candidate.width / width, candidate.height / height);
+    const aspect = candidate.width / candidate.height;
+    const aspectFit = Math.min(aspect, width / height) / Math.max(aspect, width / height);
+
+    return sharpness * 0.4 + aspectFit * 0.4 + relevance * 0.2;
+}
+
+/**
+ * Picks the best image for each query of a video
+ *
+ * The same image is not used twice in one video, and choices
+ * recorded earlier are used again instead of picking a new image.
+ *
+ * @example
+ * ```typescript
+ * const selector = new ImageSelector([1080, 1920]);
+ * const choice = selector.choose("image-0.png", "pizza", ["pepperoni pizza"], candidates);
+ * const image = choice.candidates[choice.selected];
+ * ```
+ */
+export class ImageSelector {
+    /** Choices of the video so far */
+    public choices: ImageChoice[] = [];
+    /** Ids of images used in the video */
+    private used = new Set<string>();
+
+    /**
+     * @param resolution - Video resolution (width, height)
+     * @param recorded - Choices of an earlier render (ex. from 'images.json')
+     */
+    constructor(public resolution: [number, number], private recorded: ImageChoice[] = []) {}
+
+    /**
+     * Get choice of an earlier render for the same file and query
+     */
+    getRecorded(file: string, query: string): ImageChoice | undefined {
+        const choice = this.recorded.find((choice) => choice.file == file && choice.query == query);
+        return choice?.candidates[choice.selected] ? choice : undefined;
+    }
+
+    /**
+     * Rank candidates and pick the best one not used yet
+     *
+     * @param file - Image file name
+     * @param query - Image search term
+     * @param alternates - Alternate search terms
+     * @param candidates - Images found for the search terms
+     * @returns Choice (recorded in `choices`)
+     * @throws Error if there are no candidates
+     */
+    choose(file: string, query: string, alternates: string[], candidates: ImageCandidate[]): ImageChoice {
+        const unique = candidates.filter((candidate, i) => candidates.findIndex((other) => other.id == candidate.id) == i);
+
+        if (unique.length == 0) {
+            throw new Error(`No images found for '${query}'`);
+        }
+
+        const ranked = unique
+            .map((candidate) => ({ ...candidate, score: Math.round(scoreImageCandidate(candidate, this.resolution) * 1000) / 1000 }))
+            .sort((a, b) => b.score - a.score);
+
+        // A duplicate is only used if every candidate is already in the video
+        const selected = Math.max(ranked.findIndex((candidate) => !this.used.has(candidate.id)), 0);
+
+        return this.record({ file, query, alternates, selected, candidates: ranked });
+    }
+
+    /**
+     * Record a choice of the video
+     */
+    record(choice: ImageChoice): ImageChoice {
+        this.choices = [...this.choices.filter((other) => other.file != choice.file), choice];
+        this.used.add(choice.candidates[choice.selected].id);
+        return choice;
+    }
+}
+
+/**
+ * Save image of a candidate to a file
+ *
+ * @param candidate - Image
+ * @param filePath - Output file
+ */
+export async function saveImageCandidate(candidate: ImageCandidate, filePath: string) {
+    if (candidate.url.startsWith('data:')) {
+        fs.writeFileSync(filePath, candidate.url.replace(/^data:image\/\w+;base64,/, ''), 'base64');
+        return;
+    }
+
+    const res = await axios.get(candidate.url, { responseType: 'arraybuffer' });
+    fs.writeFileSync(filePath, res.data);
+}
+
+/**
+ * Read width and height of PNG, GIF or JPEG image data
+ *
+ * @param data - Image data
+ * @returns Size (undefined for other formats)
+ */
+export function getImageSize(data: Buffer): { width: number, height: number } | undefined {
+    // PNG: size is in the IHDR chunk
+    if (data.length >= 24 && data.readUInt32BE(0) == 0x89504e47) {
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+
+    // GIF: logical screen size
+    if (data.length >= 10 && data.toString('ascii', 0, 3) == 'GIF') {
+        return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+    }
+
+    // JPEG: size is in the start of frame segment
+    if (data.length >= 4 && data.readUInt16BE(0) == 0xffd8) {
+        let offset = 2;
+
+        while (offset + 9 < data.length && data[offset] == 0xff) {
+            const marker = data[offset + 1];
+            const length = data.readUInt16BE(offset + 2);
+
+            if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+                return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+            }
+
+            offset += 2 + length;
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,86 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { SchemaObject } from "ajv";
+
+import { VideoDataType } from "./videogen";
+import { parseJsonResponse, validateSchema } from "./schema";
+import { getVideoType, hasVideoType } from "./registry";
+
+/** Default number of alternate search terms for each image */
+export const DEFAULT_IMAGE_ALTERNATES = 3;
+
+/**
+ * Alternate search terms of each image search term of a video
+ * (saved as `imageAlternates` in the video data, ex. `{"pizza": ["pepperoni pizza slice", "italian pizza"]}`)
+ */
+export type ImageAlternates = Record<string, string[]>;
+
+/** JSON schema of the alternate search terms in an AI response */
+export const imageAlternatesSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        alternates: {
+            type: "array",
+            items: { type: "array", items: { type: "string", minLength: 1 } },
+        },
+    },
+    required: ["alternates"],
+};
+
+/**
+ * Get image search terms of video data in order (duplicates are removed)
+ *
+ * @param data - Video data
+ * @returns Search terms (empty for types without images)
+ */
+export function getImageQueries(data: VideoDataType): string[] {
+    const imageQueries = hasVideoType(data.type) ? getVideoType(data.type).imageQueries : undefined;
+    const queries = imageQueries ? imageQueries(data) : [];
+
+    return [...new Set(queries.filter((query) => query?.trim()))];
+}
+
+/**
+ * Parse and validate AI response with alternate search terms
+ *
+ * @param response - AI response
+ * @param queries - Search terms that were sent (in order)
+ * @returns Alternates of each search term (the search term itself and duplicates are removed) or errors
+ */
+export function parseImageAlternates(response: string, queries: string[]): { value?: ImageAlternates, errors: string[] } {
+    let json: unknown;
+
+    try {
+        json = parseJsonResponse(response);
+    } catch (error) {
+        return { errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    const errors = validateSchema(imageAlternatesSchema, json);
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    const alternates = (json as { alternates: string[][] }).alternates;
+    if (alternates.length != queries.length) {
+        return { errors: [`'alternates' must have one list for each of the ${queries.length} search terms (got ${alternates.length})`] };
+    }
+
+    const value: ImageAlternates = {};
+    for (const [i, query] of queries.entries()) {
+        const terms = alternates[i].map((term) => term.trim()).filter((term) => term && term.toLowerCase() != query.toLowerCase());
+        value[query] = [...new Set(terms)];
+    }
+
+    return { value, errors: [] };
+}
+
+/**
+ * Build prompt asking the AI for alternate image search terms
+ *
+ * @param queries - Image search terms of the video
+ * @param count - Number of alternates for each search term
+ */
+export function buildImageAlternatesPrompt(queries: string[], count: number): string {
+    return `These are the image search terms of the video: ${JSON.stringify(queries)}. For each search term, write ${count} alternate search terms that find a fitting stock photo. Alternates must be specific and visual (name the subject, setting or style, ex. "pizza" -> "pepperoni pizza slice close up"), in English, and different from each other. Use this template with one list for each search term, in the same order: {"alternates": [["", ""]]}. Only valid JSON, no extra info.`;
+}
@@ -6,27 +6,112 @@
  * @packageDocumentation
  */
 
-import { EventEmitter } from 'events';
 import fs from 'fs';
 import path from 'path';
 
-import { AIGenType, AnthropicAIGen, GoogleAIGen, OllamaAIGen, OpenAIGen, AIOptions } from './ai';
-import { VideoDataType, VideoGenType, VideoOptions, InternalVideoOptions, SubtitleOptions } from './videogen';
+import { AIGenType, AIOptions } from './ai';
+import { AIOutputError, AIFieldError, ScriptDriver } from './scriptgen';
+import { AIFixtureMode, AIFixtures } from './fixtures';
+import { createReviewReport, ReviewIssue, ReviewReport, reviewVideoData } from './review';
+import { AIPriceTable, AIUsage, AIUsageReport, AIUsageTracker, formatUsageReport } from './usage';
+import { AIFallbackError, AIFallbackOptions, AIProvenance, AIRetryPolicy, createFallbackProvider } from './fallback';
+import { AIAuthError, AIConnectionError, AIError, AIErrorCode, AIMalformedOutputError, AIModelNotFoundError, AIRateLimitError, AIRefusalError, VideoDataError } from './errors';
+import { ScriptConversation, ScriptRefinement, VideoDataChange } from './refine';
+import { AIPrompts, PromptLibrary, PromptTemplate, PromptTemplateError, PromptVariables, renderPromptTemplate } from './prompts';
+import { DurationPlanner, DurationReport, DurationTarget, getSpeechParts } from './duration';
+import { PLATFORM_LIMITS, PlatformMetadata, UploadPlatform, VideoMetadata } from './metadata';
+import { chunkSources, createHttpSourceFetcher, HttpSourceOptions, httpSourceFetcher, isPublicAddress, loadSource, loadSourceContext, SourceChunk, SourceCitation, SourceContext, SourceEntry, SourceError, SourceFetcher, SourceOptions, SourceType } from './sources';
+import { AIModerator, ContentModerator, DEFAULT_MODERATION_RULES, KeywordModerator, ModerationCategory, ModerationError, ModerationFlag, ModerationResult, ModerationRule, ModerationStage, Moderator } from './moderation';
+import { buildLanguagePrompt, DEFAULT_LANGUAGE, getVideoLocale, VideoLocale, VIDEO_LOCALES } from './locale';
+import { VideoDataType, VideoGen, VideoGenType, VideoOptions, InternalVideoOptions, SubtitleOptions, RegisteredVideoData } from './videogen';
+import { buildVideoTypePrompt, DEFAULT_VIDEO_TYPE, getVideoType, getVideoTypeNames, getVideoTypes, hasVideoType, registerVideoType, unregisterVideoType, VideoGenClass, VideoTypeDefinition, VideoTypeForm } from './registry';
 
-import { TopicVideo } from "./types/topicVid";
-import { MsgVideo } from './types/msgVid';
-import { RatherVideo } from './types/ratherVid';
-import { RankVideo } from './types/rankVid';
-import { QuizVideo } from './types/quizVid';
 
 import { BUILTIN_AI_SYSTEM_PROMPT, MockAIData } from "./const";
 
 import { APIVoiceOptions, VoiceGenOptions, VoiceGenType } from './tts';
-import { AIImageGenOptions, ImageGenType } from './image';
+import { AIImageGenOptions, getImageSize, IMAGE_CHOICES_FILE, ImageCandidate, ImageChoice, ImageGenType, ImageSelector, scoreImageCandidate } from './image';
+import { DEFAULT_IMAGE_ALTERNATES, getImageQueries, ImageAlternates } from './imagequery';
+import { getImageProvider, getImageProviders, getMissingCredentials, getProviderCredentials, getVoiceProvider, getVoiceProviders, hasImageProvider, hasVoiceProvider, ImageCapabilities, ImageProvider, ImageRequest, ProviderCredential, ProviderCredentials, ProviderError, registerImageProvider, registerVoiceProvider, unregisterImageProvider, unregisterVoiceProvider, VoiceCapabilities, VoiceProvider } from './providers';
+import { validateSchema, validateVideoData } from './schema';
+import { createJobId, hashStageInputs, isJobId, JOB_MANIFEST_FILE, JobManifest, StageOptions, StageRecord, StageStatus, VideoJob, VideoStage } from './pipeline';
+import { StageEndEvent, StageProgressEvent, StageStartEvent, VideoArtifacts, VideoCancelledError, VideoTask, VideoTaskEvents } from './task';
+import { DEFAULT_ORIENTATION, getResolutionOf, LAYOUT_BASE_SIZE, RESOLUTION_PRESETS, ResolutionPreset, VideoLayout } from './resolution';
+import { AudioCodec, canRenderDirectly, DEFAULT_ENCODING_PROFILE, ENCODING_PRESETS, ENCODING_PROFILES, EncodingError, EncodingOptions, EncodingPreset, EncodingProfile, getEncoderOptions, getEncodingSettings, getTargetBitrate, parseBitrate, VideoCodec, VideoContainer } from './encoding';
+import { createRenderPlan, PlanAsset, PlanAssetKind, PlanElement, PlannedSpeech, PlanScene, RenderPlan } from './plan';
+import { addTimelineAsset, loadTimeline, renderTimeline, saveTimeline, TIMELINE_FILE, TIMELINE_VERSION, TimelineAlbumElement, TimelineDocument, TimelineElement, TimelineError, TimelineImageElement, TimelineLayer, TimelineScene, TimelineSubtitlesElement, TimelineTextElement, TimelineTextStyle, TimelineVideoElement, timelineSchema, validateTimeline } from './timeline';
 
 export { 
     AIGenType, 
+    AIFixtureMode,
+    ReviewIssue,
+    ReviewReport,
+    AIUsage,
+    AIUsageReport,
+    AIUsageTracker,
+    AIPriceTable,
+    AIFallbackOptions,
+    AIRetryPolicy,
+    AIProvenance,
+    AIFallbackError,
+    AIError,
+    AIErrorCode,
+    AIAuthError,
+    AIRateLimitError,
+    AIModelNotFoundError,
+    AIConnectionError,
+    AIMalformedOutputError,
+    AIRefusalError,
+    VideoDataError,
+    AIOutputError,
+    AIFieldError,
+    ScriptConversation,
+    ScriptRefinement,
+    VideoDataChange,
+    AIPrompts,
+    PromptLibrary,
+    PromptTemplate,
+    PromptTemplateError,
+    PromptVariables,
+    renderPromptTemplate,
+    DurationPlanner,
+    DurationTarget,
+    DurationReport,
+    VideoLocale,
+    VIDEO_LOCALES,
+    UploadPlatform,
+    PlatformMetadata,
+    VideoMetadata,
+    PLATFORM_LIMITS,
+    ContentModerator,
+    KeywordModerator,
+    AIModerator,
+    Moderator,
+    ModerationRule,
+    ModerationFlag,
+    ModerationResult,
+    ModerationError,
+    ModerationCategory,
+    ModerationStage,
+    DEFAULT_MODERATION_RULES,
+    loadSourceContext,
+    loadSource,
+    chunkSources,
+    httpSourceFetcher,
+    createHttpSourceFetcher,
+    HttpSourceOptions,
+    isPublicAddress,
+    SourceContext,
+    SourceChunk,
+    SourceCitation,
+    SourceEntry,
+    SourceError,
+    SourceFetcher,
+    SourceOptions,
+    SourceType,
+    getVideoLocale,
     VideoDataType, 
+    VideoGen,
     VideoGenType, 
     VideoOptions, 
     InternalVideoOptions,
@@ -35,9 +120,135 @@ export {
     APIVoiceOptions,
     AIImageGenOptions,
     SubtitleOptions,
-    ImageGenType
+    ImageGenType,
+    ImageCandidate,
+    ImageChoice,
+    ImageSelector,
+    IMAGE_CHOICES_FILE,
+    scoreImageCandidate,
+    getImageSize,
+    ImageAlternates,
+    DEFAULT_IMAGE_ALTERNATES,
+    getImageQueries,
+    registerVideoType,
+    unregisterVideoType,
+    getVideoType,
+    getVideoTypes,
+    getVideoTypeNames,
+    hasVideoType,
+    buildVideoTypePrompt,
+    VideoTypeDefinition,
+    VideoTypeForm,
+    VideoGenClass,
+    RegisteredVideoData,
+    DEFAULT_VIDEO_TYPE,
+    registerVoiceProvider,
+    registerImageProvider,
+    unregisterVoiceProvider,
+    unregisterImageProvider,
+    getVoiceProvider,
+    getImageProvider,
+    getVoiceProviders,
+    getImageProviders,
+    hasVoiceProvider,
+    hasImageProvider,
+    getProviderCredentials,
+    getMissingCredentials,
+    VoiceProvider,
+    ImageProvider,
+    ImageRequest,
+    VoiceCapabilities,
+    ImageCapabilities,
+    ProviderCredential,
+    ProviderCredentials,
+    ProviderError,
+    VideoJob,
+    VideoStage,
+    StageStatus,
+    StageOptions,
+    StageRecord,
+    JobManifest,
+    JOB_MANIFEST_FILE,
+    createJobId,
+    isJobId,
+    hashStageInputs,
+    VideoTask,
+    VideoTaskEvents,
+    VideoArtifacts,
+    VideoCancelledError,
+    StageStartEvent,
+    StageProgressEvent,
+    StageEndEvent,
+    RenderPlan,
+    PlanAsset,
+    PlanAssetKind,
+    PlanElement,
+    PlanScene,
+    PlannedSpeech,
+    TimelineDocument,
+    TimelineScene,
+    TimelineLayer,
+    TimelineElement,
+    TimelineVideoElement,
+    TimelineImageElement,
+    TimelineAlbumElement,
+    TimelineTextElement,
+    TimelineSubtitlesElement,
+    TimelineTextStyle,
+    TimelineError,
+    TIMELINE_FILE,
+    TIMELINE_VERSION,
+    timelineSchema,
+    validateTimeline,
+    loadTimeline,
+    saveTimeline,
+    renderTimeline,
+    addTimelineAsset,
+    ResolutionPreset,
+    RESOLUTION_PRESETS,
+    DEFAULT_ORIENTATION,
+    LAYOUT_BASE_SIZE,
+    getResolutionOf,
+    VideoLayout,
+    EncodingProfile,
+    EncodingOptions,
+    EncodingPreset,
+    EncodingError,
+    VideoCodec,
+    AudioCodec,
+    VideoContainer,
+    ENCODING_PROFILES,
+    ENCODING_PRESETS,
+    DEFAULT_ENCODING_PROFILE,
+    getEncodingSettings,
+    getEncoderOptions,
+    getTargetBitrate,
+    canRenderDirectly,
+    parseBitrate
 };
 
+/**
+ * Video data generated by AI
+ */
+export interface AIVideoData {
+    /** Video data JSON */
+    json: string;
+    /** Review report (issues found and fields revised by the AI) */
+    review: ReviewReport;
+    /** Tokens, time and cost of every AI request */
+    usage: AIUsageReport;
+    /** Provider and model that produced each field (differs between fields if a fallback provider was used) */
+    provenance: Record<string, AIProvenance>;
+    /** Conversation with the AI provider to refine the script (not set if mock data is used) */
+    conversation?: ScriptConversation;
+    /** Prompt template used (ex. 'quiz@1.1.0', not set if the built-in prompts were used) */
+    template?: string;
+    /** Estimated and measured duration (if a target duration was set) */
+    duration?: DurationReport;
+    /** Upload metadata of each platform (not set if skipped or the AI could not produce it) */
+    metadata?: VideoMetadata;
+}
+
 /**
  * Generate video data based on user comment and AI response
  * 
@@ -46,7 +257,12 @@ export {
  * @param options Video options
  * @param aiAPIKey AI API key (optional)
  * @param aiOptions AI options (optional)
- * @param customSystemPrompt Custom system prompt to override built-in prompt (optional)
+ * @param customSystemPrompt Custom system prompt to override built-in prompt and system prompt of template (optional)
+ * @returns Video data JSON (validated against the schema of the video type), review report, usage report and conversation to refine the script
+ * @throws AIOutputError if the AI could not produce some fields (lists each field and its errors)
+ * @throws AIFallbackError if every provider of the fallback chain failed
+ * @throws AIError (ex. AIAuthError, AIRateLimitError, AIRefusalError) if the AI provider fails
+ * @throws ModerationError if the prompt or video data is flagged by moderation
  * 
  * @example
  * ```typescript
@@ -62,44 +278,301 @@ export {
  *  });
  * ```
  */
-export async function genVideoDataWithAI(prompt: string, aiType: AIGenType, options: VideoOptions, aiAPIKey?: string, aiOptions?: AIOptions, customSystemPrompt?: string,) : Promise<string> {
+export async function genVideoDataWithAI(prompt: string, aiType: AIGenType, options: VideoOptions, aiAPIKey?: string, aiOptions?: AIOptions, customSystemPrompt?: string,) : Promise<AIVideoData> {
     const log = (msg: string) => {
         if (options.internalOptions?.debug) console.info(msg);
     }
 
+    // Check user prompt before anything is sent to the AI
+    const moderation = getModeration(options);
+    if (moderation) {
+        log("Checking prompt with moderation...");
+        await moderation.checkPrompt(prompt);
+    }
+
     // Add user comment to system prompt
-    const systemPrompt = customSystemPrompt ? customSystemPrompt : BUILTIN_AI_SYSTEM_PROMPT;
+    let systemPrompt = customSystemPrompt || aiOptions?.prompts?.system || BUILTIN_AI_SYSTEM_PROMPT;
+
+    // Ask for the script in the language of the video
+    const locale = getVideoLocale(options.language);
+    if (locale.code != DEFAULT_LANGUAGE) {
+        systemPrompt += `\n${buildLanguagePrompt(locale)}`;
+    }
+
+    if (aiOptions?.duration) {
+        systemPrompt += `\nThe video must be about ${aiOptions.duration.seconds} seconds long when spoken.`;
+    }
+
+    if (aiOptions?.prompts?.template) log(`Using prompt template: ${aiOptions.prompts.template}`);
     let aiResponse = '';
 
-    async function genAI(): Promise<string> {
-        switch (aiType) {
-            case AIGenType.OllamaAIGen:
-                return await OllamaAIGen.generate(log, systemPrompt, prompt, aiOptions);
-            case AIGenType.OpenAIGen:
-                return await OpenAIGen.generate(log, systemPrompt, prompt, aiAPIKey, aiOptions);
-            case AIGenType.GoogleAIGen:
-                return await GoogleAIGen.generate(log, systemPrompt, prompt, aiAPIKey, aiOptions);
-            case AIGenType.AnthropicAIGen:
-                return await AnthropicAIGen.generate(log, systemPrompt, prompt, aiAPIKey, aiOptions);
-            default:
-                throw new Error("Invalid AI type: " + aiType);
+    // Record or replay AI provider responses
+    const fixturePath = options.internalOptions?.aiFixturePath;
+    if (fixturePath) {
+        const fixtures = new AIFixtures(fixturePath, options.internalOptions?.aiFixtureMode ?? AIFixtureMode.Replay);
+        aiOptions = { ...aiOptions, fetch: fixtures.fetch };
+        log(`Using AI fixtures (${fixtures.mode}): ${fixturePath}`);
+    }
+
+    // Every request is tracked (listen to 'usage' events of the tracker for live updates)
+    const usage = aiOptions?.usage ?? new AIUsageTracker();
+    aiOptions = { ...aiOptions, usage };
+
+    // Check a script with moderation (the same script is not checked twice)
+    let moderatedData: VideoDataType | undefined;
+    async function moderateScript(data: VideoDataType) {
+        if (!moderation || data === moderatedData) return;
+
+        log("Checking video script with moderation...");
+        await moderation.checkVideoData(data);
+        moderatedData = data;
+    }
+
+    // Generate the voice of the script to measure how long it really is
+    // (scripts rewritten by the AI are checked before they are sent to TTS)
+    async function measureSpeech(data: VideoDataType): Promise<number> {
+        await moderateScript(data);
+
+        const gen = new VideoGen(options, data);
+        gen.tempPath = fs.mkdtempSync(path.join(options.tempPath, 'duration-'));
+
+        try {
+            return await gen.measureSpeech(getSpeechParts(data, locale));
+        } finally {
+            fs.rmSync(gen.tempPath, { recursive: true, force: true });
+        }
+    }
+
+    // Fit script to target duration (estimated from words, then verified with TTS)
+    async function fitDuration(driver: ScriptDriver, data: VideoDataType, target: DurationTarget): Promise<{ data: VideoDataType, report: DurationReport }> {
+        const planner = new DurationPlanner(target, options.voiceGenType);
+        planner.locale = locale;
+
+        let fit = await driver.fitDuration(data, planner);
+        let turns = fit.turns;
+        let measured: number | undefined;
+
+        const verify = planner.target.verify && !options.internalOptions?.disableTTS;
+
+        for (let round = 0; verify; round++) {
+            const speech = await measureSpeech(fit.data);
+            measured = speech + fit.estimate.pauseSeconds;
+            log(`Measured duration is ${Math.round(measured)}s (estimated ${Math.round(fit.estimate.seconds)}s, target ${planner.target.seconds}s)`);
+
+            if (planner.isWithinTarget(measured) || round >= planner.target.maxTurns) break;
+
+            // Estimate again with the speaking rate of the voice
+            planner.calibrate(fit.estimate.words, speech);
+            log(`Measured speaking rate is ${Math.round(planner.wordsPerMinute)} words per minute, fitting script again...`);
+
+            fit = await driver.fitDuration(fit.data, planner);
+            turns += fit.turns;
+
+            if (fit.turns == 0) break;
+        }
+
+        const seconds = measured ?? fit.estimate.seconds;
+
+        return {
+            data: fit.data,
+            report: {
+                target: planner.target.seconds,
+                estimatedSeconds: fit.estimate.seconds,
+                measuredSeconds: measured,
+                wordsPerMinute: planner.wordsPerMinute,
+                turns,
+                withinTarget: planner.isWithinTarget(seconds),
+            }
+        };
+    }
+
+    async function genAI(): Promise<{ data: VideoDataType, review: ReviewReport, driver: ScriptDriver, duration?: DurationReport }> {
+        const provider = createFallbackProvider(aiType, aiAPIKey, aiOptions, log);
+        const driver = new ScriptDriver(provider, log, aiOptions);
+        let data = aiOptions?.sources ? await driver.generateFromSources(systemPrompt, prompt, aiOptions.sources) : await driver.generate(systemPrompt, prompt);
+        let review: ReviewReport;
+
+        if (aiOptions?.review === false) {
+            review = createReviewReport(data);
+        } else {
+            log("Reviewing video script...");
+            const result = await driver.review(data);
+            data = result.data;
+            review = result.report;
+        }
+
+        // Script is checked before any voice is made
+        await moderateScript(data);
+
+        if (!aiOptions?.duration) {
+            return { data, review, driver };
+        }
+
+        log("Fitting video script to target duration...");
+        const fit = await fitDuration(driver, data, aiOptions.duration);
+        await moderateScript(fit.data);
+        return { data: fit.data, review: { ...review, remaining: reviewVideoData(fit.data) }, driver, duration: fit.report };
+    }
+
+    let review: ReviewReport;
+    let provenance: Record<string, AIProvenance> = {};
+    let conversation: ScriptConversation | undefined;
+    let duration: DurationReport | undefined;
+    let metadata: VideoMetadata | undefined;
+
+    // Ask for upload metadata of the final script (the script is kept if the AI can not produce it)
+    async function genMetadata(driver: ScriptDriver, data: VideoDataType): Promise<VideoMetadata | undefined> {
+        if (aiOptions?.metadata === false) return undefined;
+
+        log("Generating upload metadata...");
+
+        try {
+            return await driver.generateMetadata(data, aiOptions?.metadata, locale);
+        } catch (error) {
+            if (!(error instanceof AIOutputError)) throw error;
+            log(`Skipping upload metadata: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    // Ask for alternate image search terms of the final script (the script is kept if the AI can not produce them)
+    async function genImageAlternates(driver: ScriptDriver, data: VideoDataType): Promise<VideoDataType> {
+        if (aiOptions?.imageAlternates === false || aiOptions?.imageAlternates === 0) return data;
+
+        try {
+            const imageAlternates = await driver.generateImageAlternates(data, aiOptions?.imageAlternates);
+            return Object.keys(imageAlternates).length > 0 ? { ...data, imageAlternates } as VideoDataType : data;
+        } catch (error) {
+            if (!(error instanceof AIOutputError)) throw error;
+            log(`Skipping image alternates: ${error.message}`);
+            return data;
         }
     }
 
     if (!options.internalOptions?.useMock) {
         log("Generating video script...");
-        aiResponse = await genAI();
+        const result = await genAI();
+        log("Generating alternate image search terms...");
+        result.data = await genImageAlternates(result.driver, result.data);
+        aiResponse = JSON.stringify(result.data, null, 2);
+        review = result.review;
+        provenance = result.driver.provenance;
+        duration = result.duration;
+        metadata = await genMetadata(result.driver, result.data);
+        // Keep the conversation so the script can be refined (refined scripts are moderated too)
+        conversation = new ScriptConversation(result.driver, result.data, moderation);
     } else {
         aiResponse = MockAIData;
+        review = createReviewReport(JSON.parse(MockAIData));
     }
 
     // Debug print
     log(`Final response: \n${aiResponse}`);
+    log(`Review: ${review.issues.length} issue(s) found, ${review.fixed.length} field(s) revised, ${review.remaining.length} issue(s) remaining`);
+
+    const usageReport = usage.report();
+    usage.emitter.emit('report', usageReport);
+    log(`Usage: ${formatUsageReport(usageReport)}`);
 
     log("Video script generated successfully!");
 
     // Return JSON data
-    return aiResponse;
+    return { json: aiResponse, review, usage: usageReport, provenance, conversation, template: aiOptions.prompts?.template, duration, metadata };
+}
+
+/**
+ * Video data translated to other languages
+ */
+export interface AITranslations {
+    /** Video data of each language (language code to video data) */
+    translations: Record<string, VideoDataType>;
+    /** Upload metadata of each translation (not set if skipped) */
+    metadata: Record<string, VideoMetadata>;
+    /** Usage report of the translation requests */
+    usage: AIUsageReport;
+}
+
+/**
+ * Translate video data to other languages with AI
+ *
+ * @param data Video data (in the language of `sourceLanguage`)
+ * @param languages Language codes to translate to (ex. ['es', 'fr'])
+ * @param aiType AI type (ex. OllamaAIGen)
+ * @param aiAPIKey AI API key (optional)
+ * @param aiOptions AI options (optional)
+ * @param sourceLanguage Language of the video data (default: 'en', not translated if listed in languages)
+ * @returns Translated video data, upload metadata of each language and usage report
+ * @throws Error if a language is not supported
+ * @throws AIOutputError if the AI could not produce a valid translation
+ *
+ * @example
+ * ```typescript
+ * const { translations } = await translateVideoData(videoData, ["es", "fr"], AIGenType.OllamaAIGen);
+ * await genVideoWithJson(translations.es, { ...options, language: "es" });
+ * ```
+ */
+export async function translateVideoData(data: VideoDataType, languages: string[], aiType: AIGenType, aiAPIKey?: string, aiOptions?: AIOptions, sourceLanguage: string = DEFAULT_LANGUAGE): Promise<AITranslations> {
+    // Check every language before any request is made
+    const source = getVideoLocale(sourceLanguage);
+    const locales = languages.map((language) => getVideoLocale(language));
+
+    const usage = aiOptions?.usage ?? new AIUsageTracker();
+    aiOptions = { ...aiOptions, usage };
+
+    const provider = createFallbackProvider(aiType, aiAPIKey, aiOptions);
+    const translations: Record<string, VideoDataType> = {};
+    const metadata: Record<string, VideoMetadata> = {};
+
+    for (const locale of locales) {
+        if (locale.code == source.code) {
+            translations[locale.code] = data;
+            continue;
+        }
+
+        // Each language is a new conversation (earlier translations are not sent again)
+        const driver = new ScriptDriver(provider, undefined, aiOptions);
+        translations[locale.code] = await driver.translate(data, locale);
+
+        // Translated videos get metadata in their own language (skipped if the AI can not produce it)
+        if (aiOptions.metadata !== false) {
+            try {
+                metadata[locale.code] = await driver.generateMetadata(translations[locale.code], aiOptions.metadata, locale);
+            } catch (error) {
+                if (!(error instanceof AIOutputError)) throw error;
+            }
+        }
+    }
+
+    return { translations, metadata, usage: usage.report() };
+}
+
+/**
+ * Generate a video for each language from one video data (translated with AI)
+ *
+ * @param data Video data (in the language of `options.language`)
+ * @param languages Language codes of the videos (ex. ['en', 'es', 'fr'])
+ * @param aiType AI type (ex. OllamaAIGen)
+ * @param options Video options (language is set for each video)
+ * @param aiAPIKey AI API key (optional)
+ * @param aiOptions AI options (optional, set `usage` to the tracker that made the script to save the usage of both with each video)
+ * @returns Task of each video (language code to task, videos are made one after another)
+ * @throws Error if a language is not supported
+ * @throws AIOutputError if the AI could not produce a valid translation
+ */
+export async function genLocalizedVideos(data: VideoDataType, languages: string[], aiType: AIGenType, options: VideoOptions, aiAPIKey?: string, aiOptions?: AIOptions): Promise<Record<string, VideoTask>> {
+    const { translations, metadata, usage } = await translateVideoData(data, languages, aiType, aiAPIKey, aiOptions, options.language);
+    const videos: Record<string, VideoTask> = {};
+    let previous: VideoTask | undefined;
+
+    // Videos are made one after another (rendering uses a lot of memory)
+    for (const [language, translated] of Object.entries(translations)) {
+        // Metadata of the source language comes from the options
+        // Each language gets its own job (a set job id is used as a prefix)
+        const jobId = options.jobId ? `${options.jobId}-${language}` : undefined;
+        previous = videos[language] = await genVideoWithJson(translated, { ...options, language, jobId, aiUsage: usage, metadata: metadata[language] ?? (translated == data ? options.metadata : undefined) }, previous);
+    }
+
+    return videos;
 }
 
 /**
@@ -128,11 +601,11 @@ export async function genVideoDataWithAI(prompt: string, aiType: AIGenType, opti
  *  });
  * ```
  */
-export async function genVideoWithAI(prompt: string, aiType: AIGenType, options: VideoOptions, aiAPIKey?: string, aiOptions?: AIOptions, customSystemPrompt?: string,) : Promise<EventEmitter> {
+export async function genVideoWithAI(prompt: string, aiType: AIGenType, options: VideoOptions, aiAPIKey?: string, aiOptions?: AIOptions, customSystemPrompt?: string,) : Promise<VideoTask> {
     const aiResponse = await genVideoDataWithAI(prompt, aiType, options, aiAPIKey, aiOptions, customSystemPrompt);
 
-    // Generate video based on AI response
-    return await genVideo(aiResponse, options);
+    // Generate video based on AI response (usage report and metadata are saved with the video)
+    return await genVideo(aiResponse.json, { ...options, aiUsage: aiResponse.usage, metadata: aiResponse.metadata });
 }
 
 /** 
@@ -140,6 +613,8 @@ export async function genVideoWithAI(prompt: string, aiType: AIGenType, options:
  * 
  * @param data JSON data for video
  * @param options Video options
+ * @param after Task to wait for before starting (optional, ex. to render videos one after another)
+ * @returns Task of the video (started after listeners can be added)
  * 
  * @example
  * ```typescript
@@ -162,11 +637,11 @@ export async function genVideoWithAI(prompt: string, aiType: AIGenType, options:
  * });
  * ```
  */
-export async function genVideoWithJson(data: VideoDataType, options: VideoOptions) : Promise<EventEmitter> {
+export async function genVideoWithJson(data: VideoDataType, options: VideoOptions, after?: VideoTask) : Promise<VideoTask> {
     // Convert video data to JSON string type safely
     const jsonDataStr: string = JSON.stringify(data);
 
-    return await genVideo(jsonDataStr, options);   
+    return await genVideo(jsonDataStr, options, after);   
 }
 
 /** 
@@ -174,56 +649,145 @@ export async function genVideoWithJson(data: VideoDataType, options: VideoOption
  * 
  * @param jsonDataStr JSON data for video
  * @param options Video options
+ * @param after Task to wait for before starting (optional)
+ * @returns Task of the video (errors of TTS, images and rendering are emitted as 'error')
+ * @throws VideoDataError if JSON data is empty, invalid or has an invalid type
+ * @throws ProviderError if the TTS or image type is not registered or its options are invalid
+ * @throws ModerationError if the video data is flagged by moderation
+ * @throws TimelineError if the timeline in the options is invalid
  * 
  */
-export async function genVideo(jsonDataStr: string, options: VideoOptions) : Promise<EventEmitter> {
+export async function genVideo(jsonDataStr: string, options: VideoOptions, after?: VideoTask) : Promise<VideoTask> {
+    const jsonData = parseVideoJson(jsonDataStr);
+
+    // Nothing flagged reaches TTS or rendering
+    await getModeration(options)?.checkVideoData(jsonData);
+
+    const vid = createVideo(jsonData, options);
+
+    // Generation starts after the task is returned, so no event is missed
+    vid.emitter.start(() => vid.generateVideo(), after);
+    return vid.emitter;
+}
+
+/**
+ * Plan video based on JSON data without rendering (dry run)
+ *
+ * Nothing is sent to TTS or image APIs. The plan lists the background files that would be picked,
+ * every asset that would be made or fetched and every scene with its estimated timing.
+ *
+ * @param jsonDataStr JSON data for video
+ * @param options Video options
+ * @returns Render plan of the video
+ * @throws VideoDataError if JSON data is empty, invalid, has an invalid type or does not match the schema of its type
+ * @throws ProviderError if the TTS or image type is not registered or its options are invalid
+ *
+ * @example
+ * ```typescript
+ * const plan = await planVideo(JSON.stringify(data), options);
+ * console.log(`${plan.estimatedSeconds}s, ${plan.assets.length} assets`);
+ * ```
+ */
+export async function planVideo(jsonDataStr: string, options: VideoOptions) : Promise<RenderPlan> {
+    const jsonData = parseVideoJson(jsonDataStr);
+    const vid = createVideo(jsonData, options);
+
+    const errors = validateVideoData(jsonData);
+    if (errors.length > 0) {
+        throw new VideoDataError(`Invalid JSON data! ${errors.join(", ")}`);
+    }
+
+    return createRenderPlan(vid, jsonData, options);
+}
+
+/**
+ * Parse JSON data of a video
+ *
+ * @throws VideoDataError if JSON data is empty, invalid or is missing the type
+ */
+function parseVideoJson(jsonDataStr: string): VideoDataType {
     // Check JSON data
     if (!jsonDataStr) {
-        throw new Error("Empty JSON data!");
+        throw new VideoDataError("Empty JSON data!");
     }
 
     let jsonData;
 
     try {
         jsonData = JSON.parse(jsonDataStr);
-    } catch (e: any) {
-        console.error("Invalid JSON data: " + (e.message ?? e));
-        throw new Error("Invalid JSON data!");
+    } catch (e) {
+        throw new VideoDataError("Invalid JSON data! " + (e as Error).message);
     }
 
     if (jsonData["type"] == undefined) {
-        throw new Error("Invalid JSON data! Missing 'type' field.");
+        throw new VideoDataError("Invalid JSON data! Missing 'type' field.");
+    }
+
+    return jsonData;
+}
+
+/**
+ * Create video class of the registered video type
+ *
+ * @throws VideoDataError if the video type is not registered
+ * @throws ProviderError if the TTS or image type is not registered or its options are invalid
+ * @throws TimelineError if the timeline in the options is invalid
+ * @throws Error if the orientation is not a size preset or a valid size
+ * @throws EncodingError if the encoding profile is unknown or an encoding option is invalid
+ */
+function createVideo(jsonData: VideoDataType, options: VideoOptions): VideoGen {
+    checkProviderOptions(options);
+
+    // Invalid sizes and encodings fail before anything is sent to TTS or image APIs
+    getResolutionOf(options.orientation);
+    getEncodingSettings(options.encoding);
+
+    if (options.timeline) {
+        const errors = validateTimeline(options.timeline);
+        if (errors.length > 0) {
+            throw new TimelineError("Invalid timeline", errors);
+        }
     }
 
     checkResDir(options.resPath);
 
     const type = jsonData["type"];
 
-    let vid;
-    switch (type) {
-        case VideoGenType.TopicVideo:
-            vid = new TopicVideo(options, jsonData);
-            await vid.generateVideo();
-            return vid.emitter;
-        case VideoGenType.TextMessageVideo:
-            vid = new MsgVideo(options, jsonData);
-            await vid.generateVideo();
-            return vid.emitter;
-        case VideoGenType.RatherVideo:
-            vid = new RatherVideo(options, jsonData);
-            await vid.generateVideo();
-            return vid.emitter;
-        case VideoGenType.RankVideo:
-            vid = new RankVideo(options, jsonData);
-            await vid.generateVideo();
-            return vid.emitter;
-        case VideoGenType.QuizVideo:
-            vid = new QuizVideo(options, jsonData);
-            await vid.generateVideo();
-            return vid.emitter;
-        default:
-            throw Error("Invalid video type!");
+    if (!hasVideoType(type)) {
+        throw new VideoDataError(`Invalid video type! (type=${type})`);
     }
+
+    // Video class of the registered type (built-in or added with registerVideoType)
+    const VideoClass = getVideoType(type).videoClass;
+    return new VideoClass(options, jsonData);
+}
+
+/**
+ * Check TTS and image options against the options schema of their providers
+ *
+ * @throws ProviderError if a provider is not registered or its options are invalid
+ */
+function checkProviderOptions(options: VideoOptions) {
+    const checks: [VoiceProvider | ImageProvider, object][] = [
+        [getVoiceProvider(options.voiceGenType), options.ttsOptions ?? {}],
+        [getImageProvider(options.imageGenType), options.imageOptions ?? {}],
+    ];
+
+    for (const [provider, providerOptions] of checks) {
+        // Options that are not set (ex. empty CLI flags) are left out
+        const setOptions = Object.fromEntries(Object.entries(providerOptions).filter(([, value]) => value != null));
+        const errors = validateSchema(provider.optionsSchema, setOptions);
+        if (errors.length > 0) {
+            throw new ProviderError(`Invalid options of provider '${provider.id}': ${errors.join("; ")}`);
+        }
+    }
+}
+
+/**
+ * Get moderation of video options (keyword rules if not set)
+ */
+function getModeration(options: VideoOptions): ContentModerator | undefined {
+    return options.moderation === false ? undefined : options.moderation ?? new ContentModerator();
 }
 
 /**
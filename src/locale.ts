@@ -0,0 +1,169 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { APIVoiceOptions, VoiceGenType } from "./tts";
+
+/** Language used if none is set */
+export const DEFAULT_LANGUAGE = "en";
+
+/**
+ * Template strings spoken or shown in videos
+ *
+ * Strings can use values with `{{name}}` (ex. `{{number}}`).
+ */
+export interface LocaleStrings {
+    /** Quiz question (values: number, question) */
+    quizQuestion: string;
+    /** "Would you rather" question (values: option1, option2) */
+    ratherQuestion: string;
+}
+
+/**
+ * Language of a video
+ */
+export interface VideoLocale {
+    /** Language code (ISO 639-1, also used as whisper language) */
+    code: string;
+    /** Language name (used in AI prompts) */
+    name: string;
+    /** Template strings */
+    strings: LocaleStrings;
+    /** Voices of each voice type (default voices are used if not set) */
+    voices?: Partial<Record<VoiceGenType, APIVoiceOptions>>;
+}
+
+/** ElevenLabs model that speaks every supported language */
+const ELEVENLABS_MULTILINGUAL_MODEL = "eleven_turbo_v2_5";
+
+/**
+ * Locale table (language code to locale)
+ *
+ * Add a locale to support another language:
+ * @example
+ * ```typescript
+ * VIDEO_LOCALES.nl = {
+ *     code: "nl",
+ *     name: "Dutch",
+ *     strings: { quizQuestion: "Vraag {{number}}: {{question}}", ratherQuestion: "Wat heb je liever, {{option1}} of {{option2}}?" },
+ * };
+ * ```
+ */
+export const VIDEO_LOCALES: Record<string, VideoLocale> = {
+    en: {
+        code: "en",
+        name: "English",
+        strings: {
+            quizQuestion: "Question {{number}}: {{question}}",
+            ratherQuestion: "Would you rather {{option1}} or {{option2}}?",
+        },
+    },
+    es: {
+        code: "es",
+        name: "Spanish",
+        strings: {
+            quizQuestion: "Pregunta {{number}}: {{question}}",
+            ratherQuestion: "¿Prefieres {{option1}} o {{option2}}?",
+        },
+        voices: {
+            [VoiceGenType.ElevenLabs]: { voiceModel: ELEVENLABS_MULTILINGUAL_MODEL },
+            [VoiceGenType.BuiltinTTS]: { maleVoice: "Jorge", femaleVoice: "Monica" },
+        },
+    },
+    fr: {
+        code: "fr",
+        name: "French",
+        strings: {
+            quizQuestion: "Question {{number}} : {{question}}",
+            ratherQuestion: "Tu préfères {{option1}} ou {{option2}} ?",
+        },
+        voices: {
+            [VoiceGenType.ElevenLabs]: { voiceModel: ELEVENLABS_MULTILINGUAL_MODEL },
+            [VoiceGenType.BuiltinTTS]: { maleVoice: "Thomas", femaleVoice: "Amelie" },
+        },
+    },
+    de: {
+        code: "de",
+        name: "German",
+        strings: {
+            quizQuestion: "Frage {{number}}: {{question}}",
+            ratherQuestion: "Würdest du lieber {{option1}} oder {{option2}}?",
+        },
+        voices: {
+            [VoiceGenType.ElevenLabs]: { voiceModel: ELEVENLABS_MULTILINGUAL_MODEL },
+            [VoiceGenType.BuiltinTTS]: { maleVoice: "Markus", femaleVoice: "Anna" },
+        },
+    },
+    it: {
+        code: "it",
+        name: "Italian",
+        strings: {
+            quizQuestion: "Domanda {{number}}: {{question}}",
+            ratherQuestion: "Preferiresti {{option1}} o {{option2}}?",
+        },
+        voices: {
+            [VoiceGenType.ElevenLabs]: { voiceModel: ELEVENLABS_MULTILINGUAL_MODEL },
+            [VoiceGenType.BuiltinTTS]: { maleVoice: "Luca", femaleVoice: "Alice" },
+        },
+    },
+    pt: {
+        code: "pt",
+        name: "Portuguese",
+        strings: {
+            quizQuestion: "Pergunta {{number}}: {{question}}",
+            ratherQuestion: "Você prefere {{option1}} ou {{option2}}?",
+        },
+        voices: {
+            [VoiceGenType.ElevenLabs]: { voiceModel: ELEVENLABS_MULTILINGUAL_MODEL },
+            [VoiceGenType.BuiltinTTS]: { maleVoice: "Felipe", femaleVoice: "Luciana" },
+        },
+    },
+    ja: {
+        code: "ja",
+        name: "Japanese",
+        strings: {
+            quizQuestion: "問題{{number}}：{{question}}",
+            ratherQuestion: "{{option1}}と{{option2}}、どっちがいい？",
+        },
+        voices: {
+            [VoiceGenType.ElevenLabs]: { voiceModel: ELEVENLABS_MULTILINGUAL_MODEL },
+            [VoiceGenType.BuiltinTTS]: { maleVoice: "Otoya", femaleVoice: "Kyoko" },
+        },
+    },
+};
+
+/**
+ * Get locale of a language
+ *
+ * @param language - Language code (ex. 'es' or 'es-MX', default: 'en')
+ * @returns Locale of the language (regional codes use the locale of the language)
+ * @throws Error if the language is not in the locale table
+ */
+export function getVideoLocale(language: string = DEFAULT_LANGUAGE): VideoLocale {
+    const code = language.trim().toLowerCase().split(/[-_]/)[0];
+    const locale = VIDEO_LOCALES[code];
+
+    if (!locale) {
+        throw new Error(`Unsupported language: '${language}' (supported: ${Object.keys(VIDEO_LOCALES).join(", ")})`);
+    }
+
+    return locale;
+}
+
+/**
+ * Fill in the values of a template string (ex. 'Question {{number}}')
+ *
+ * @param template - Template string
+ * @param values - Values of the template
+ * @returns String with values filled in (unknown values are left as is)
+ */
+export function formatLocaleString(template: string, values: Record<string, string | number>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] == undefined ? match : String(values[name]));
+}
+
+/**
+ * Build system prompt asking the AI to write the script in a language
+ *
+ * @param locale - Locale of the video
+ */
+export function buildLanguagePrompt(locale: VideoLocale): string {
+    return `Write every spoken and on-screen text of the video in ${locale.name}. Keep the JSON field names, the 'type' value and image search terms in English.`;
+}
@@ -0,0 +1,192 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { SchemaObject } from "ajv";
+
+import { VideoDataType } from "./videogen";
+import { parseJsonResponse, validateSchema } from "./schema";
+import { VideoLocale } from "./locale";
+
+/**
+ * Platforms to make upload metadata for
+ */
+export enum UploadPlatform {
+    YouTubeShorts = "youtube",
+    TikTok = "tiktok",
+    InstagramReels = "instagram",
+}
+
+/**
+ * Length limits of a platform (characters, hashtags are counted with '#')
+ */
+export interface PlatformLimits {
+    /** Platform name (used in AI prompts) */
+    name: string;
+    /** Max length of title */
+    title: number;
+    /** Max length of description */
+    description: number;
+    /** Max number of hashtags */
+    hashtags: number;
+    /** Max length of pinned comment */
+    pinnedComment: number;
+    /** Max length of title, description and hashtags together (if the platform only has a caption) */
+    caption?: number;
+}
+
+/**
+ * Length limits of each platform
+ *
+ * TikTok and Instagram have no title, so the title is the first line of the caption.
+ * The hashtag limit of TikTok is a recommendation (more hashtags are allowed but hurt reach).
+ */
+export const PLATFORM_LIMITS: Record<UploadPlatform, PlatformLimits> = {
+    [UploadPlatform.YouTubeShorts]: { name: "YouTube Shorts", title: 100, description: 5000, hashtags: 15, pinnedComment: 10000 },
+    [UploadPlatform.TikTok]: { name: "TikTok", title: 100, description: 2200, hashtags: 5, pinnedComment: 150, caption: 2200 },
+    [UploadPlatform.InstagramReels]: { name: "Instagram Reels", title: 100, description: 2200, hashtags: 30, pinnedComment: 2200, caption: 2200 },
+};
+
+/**
+ * Upload metadata of one platform
+ */
+export interface PlatformMetadata {
+    /** Video title */
+    title: string;
+    /** Video description */
+    description: string;
+    /** Hashtags (with '#') */
+    hashtags: string[];
+    /** Text of comment to pin under the video */
+    pinnedComment: string;
+}
+
+/**
+ * Upload metadata of each platform (saved as 'metadata.json' with the video)
+ */
+export type VideoMetadata = Partial<Record<UploadPlatform, PlatformMetadata>>;
+
+/** JSON schema of the metadata of one platform */
+export const platformMetadataSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        title: { type: "string", minLength: 1 },
+        description: { type: "string" },
+        hashtags: { type: "array", items: { type: "string", minLength: 1 } },
+        pinnedComment: { type: "string" },
+    },
+    required: ["title", "description", "hashtags", "pinnedComment"],
+};
+
+/**
+ * Parse and validate AI response with the metadata of one platform
+ *
+ * @param response - AI response
+ * @returns Metadata (hashtags start with '#') or errors
+ */
+export function parsePlatformMetadata(response: string): { value?: PlatformMetadata, errors: string[] } {
+    let json: unknown;
+
+    try {
+        json = parseJsonResponse(response);
+    } catch (error) {
+        return { errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    const errors = validateSchema(platformMetadataSchema, json);
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    const metadata = json as PlatformMetadata;
+    return { value: { ...metadata, hashtags: normalizeHashtags(metadata.hashtags) }, errors: [] };
+}
+
+/**
+ * Check metadata against the length limits of a platform
+ *
+ * @param platform - Upload platform
+ * @param metadata - Metadata of the platform
+ * @returns Issues (empty if within limits)
+ */
+export function checkPlatformMetadata(platform: UploadPlatform, metadata: PlatformMetadata): string[] {
+    const limits = PLATFORM_LIMITS[platform];
+    const issues: string[] = [];
+
+    if (metadata.title.length > limits.title) issues.push(`title is too long (${metadata.title.length}/${limits.title} characters)`);
+    if (metadata.description.length > limits.description) issues.push(`description is too long (${metadata.description.length}/${limits.description} characters)`);
+    if (metadata.hashtags.length > limits.hashtags) issues.push(`too many hashtags (${metadata.hashtags.length}/${limits.hashtags})`);
+    if (metadata.pinnedComment.length > limits.pinnedComment) issues.push(`pinned comment is too long (${metadata.pinnedComment.length}/${limits.pinnedComment} characters)`);
+
+    const captionLength = getCaption(metadata).length;
+    if (limits.caption && captionLength > limits.caption) issues.push(`caption (title, description and hashtags) is too long (${captionLength}/${limits.caption} characters)`);
+
+    return issues;
+}
+
+/**
+ * Cut metadata to the length limits of a platform
+ * (used if the AI could not keep to the limits)
+ *
+ * @param platform - Upload platform
+ * @param metadata - Metadata of the platform
+ * @returns Metadata within limits
+ */
+export function fitPlatformMetadata(platform: UploadPlatform, metadata: PlatformMetadata): PlatformMetadata {
+    const limits = PLATFORM_LIMITS[platform];
+
+    const fitted = {
+        title: truncate(metadata.title, limits.title),
+        description: truncate(metadata.description, limits.description),
+        hashtags: normalizeHashtags(metadata.hashtags).slice(0, limits.hashtags),
+        pinnedComment: truncate(metadata.pinnedComment, limits.pinnedComment),
+    };
+
+    // Description is cut to fit the caption (title and hashtags are kept)
+    if (limits.caption) {
+        const overflow = getCaption(fitted).length - limits.caption;
+        if (overflow > 0) fitted.description = truncate(fitted.description, Math.max(fitted.description.length - overflow, 0));
+    }
+
+    return fitted;
+}
+
+/**
+ * Get caption of a platform without a title field (title, description and hashtags on separate lines)
+ */
+export function getCaption(metadata: PlatformMetadata): string {
+    return [metadata.title, metadata.description, metadata.hashtags.join(" ")].filter((part) => part).join("\n\n");
+}
+
+/**
+ * Build prompt asking the AI for the upload metadata of a platform
+ *
+ * @param videoData - Video data
+ * @param platform - Upload platform
+ * @param locale - Locale of the video language
+ */
+export function buildMetadataPrompt(videoData: VideoDataType, platform: UploadPlatform, locale: VideoLocale): string {
+    const limits = PLATFORM_LIMITS[platform];
+    const caption = limits.caption ? ` Title, description and hashtags together are the caption and must be at most ${limits.caption} characters.` : "";
+
+    return `Write upload metadata for this video on ${limits.name} in ${locale.name}: a catchy title (at most ${limits.title} characters), a description (at most ${limits.description} characters), at most ${limits.hashtags} relevant hashtags and a comment to pin under the video (at most ${limits.pinnedComment} characters).${caption} Video: ${JSON.stringify(videoData)}. Use this template: {"title": "", "description": "", "hashtags": ["#"], "pinnedComment": ""}. Only valid JSON, no extra info.`;
+}
+
+/**
+ * Add '#' to hashtags and remove spaces and duplicates
+ */
+function normalizeHashtags(hashtags: string[]): string[] {
+    const tags = hashtags
+        .map((tag) => tag.replace(/\s+/g, "").replace(/^#*/, ""))
+        .filter((tag) => tag.length > 0)
+        .map((tag) => `#${tag}`);
+
+    return [...new Set(tags)];
+}
+
+/**
+ * Cut text to a max length (ends with '…' if cut)
+ */
+function truncate(text: string, maxLength: number): string {
+    if (text.length <= maxLength) return text;
+    if (maxLength <= 0) return "";
+    return text.substring(0, maxLength - 1).trimEnd() + "…";
+}
@@ -0,0 +1,404 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { SchemaObject } from "ajv";
+
+import { AIOptions, ChatProvider } from "./ai";
+import { ScriptDriver } from "./scriptgen";
+import { parseJsonResponse, validateSchema } from "./schema";
+import { AIMalformedOutputError } from "./errors";
+import { VideoDataType } from "./videogen";
+
+/** Max number of checked texts kept in the cache of a moderator (least recently used is removed first) */
+const MAX_MODERATION_CACHE = 200;
+
+/**
+ * Kind of content that is not allowed
+ */
+export enum ModerationCategory {
+    Violence = "violence",
+    Hate = "hate",
+    Sexual = "sexual",
+    SelfHarm = "self-harm",
+    Illegal = "illegal",
+}
+
+/**
+ * When content is checked
+ */
+export enum ModerationStage {
+    /** User prompt (before the AI is asked) */
+    Prompt = "prompt",
+    /** Video data (before TTS and rendering) */
+    Script = "script",
+}
+
+/**
+ * Text to check
+ */
+export interface ModerationText {
+    /** Path of the text (ex. 'prompt' or 'questions.0.question') */
+    path: string;
+    /** Text */
+    text: string;
+}
+
+/**
+ * Text that is not allowed
+ */
+export interface ModerationFlag {
+    /** Path of the text (ex. 'questions.0.question') */
+    path: string;
+    /** Category of the content */
+    category: ModerationCategory;
+    /** Rule name (ex. 'weapon-instructions', or 'classifier' for the AI moderator) */
+    rule: string;
+    /** Name of the moderator that flagged the text */
+    moderator: string;
+    /** Readable reason */
+    message: string;
+}
+
+/**
+ * Result of a moderation check
+ */
+export interface ModerationResult {
+    /** Stage of the check */
+    stage: ModerationStage;
+    /** Content can be used (no flags) */
+    allowed: boolean;
+    /** Flagged texts */
+    flags: ModerationFlag[];
+}
+
+/**
+ * Moderator that checks texts (ex. keyword rules or an AI classifier)
+ */
+export interface Moderator {
+    /** Moderator name (used in flags) */
+    name: string;
+
+    /**
+     * Check texts
+     * @returns Flagged texts (empty if allowed)
+     */
+    check(texts: ModerationText[]): Promise<ModerationFlag[]>;
+}
+
+/**
+ * Keyword or regex rule
+ */
+export interface ModerationRule {
+    /** Rule name (ex. 'weapon-instructions') */
+    name: string;
+    /** Category of content the rule finds */
+    category: ModerationCategory;
+    /** Words or phrases to find (whole words, case insensitive) */
+    keywords?: string[];
+    /** Pattern to find */
+    pattern?: RegExp;
+}
+
+/**
+ * Error thrown when a prompt or video data is rejected by moderation
+ */
+export class ModerationError extends Error {
+    /** Rejection reason (stage and flagged texts) */
+    public result: ModerationResult;
+
+    constructor(result: ModerationResult) {
+        const reasons = result.flags.map((flag) => `'${flag.path}' (${flag.category}: ${flag.message})`);
+        super(`Content rejected by moderation at ${result.stage} stage: ${reasons.join("; ")}`);
+        this.name = "ModerationError";
+        this.result = result;
+    }
+}
+
+/**
+ * Rules of the keyword moderator (kept narrow to not block normal topics like history or crime news)
+ */
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+    {
+        name: "weapon-instructions",
+        category: ModerationCategory.Violence,
+        pattern: /\b(how to|steps to|instructions (for|to)|guide to) (make|build|assemble|create) (a |an )?(pipe )?(bomb|explosive|ied|molotov|nerve agent|bioweapon|chemical weapon|ghost gun)s?\b/i,
+    },
+    {
+        name: "self-harm-instructions",
+        category: ModerationCategory.SelfHarm,
+        pattern: /\b(how to|best way to|ways to|painless way to) (kill|hurt|harm|starve) (myself|yourself|themselves)\b|\bsuicide (methods?|instructions|guide)\b/i,
+    },
+    {
+        name: "drug-synthesis",
+        category: ModerationCategory.Illegal,
+        pattern: /\b(how to|steps to|recipe for|guide to) (make|cook|synthesi[sz]e|produce) (meth|methamphetamine|fentanyl|heroin|crack cocaine)\b/i,
+    },
+    {
+        name: "sexual-minors",
+        category: ModerationCategory.Sexual,
+        pattern: /\b(child|underage|minor|preteen)s? ?(porn\w*|nudes?|sex|erotica)\b/i,
+    },
+    {
+        name: "explicit-sexual",
+        category: ModerationCategory.Sexual,
+        keywords: ["porn", "pornography", "pornographic", "hentai", "xxx"],
+    },
+    {
+        name: "violent-hate",
+        category: ModerationCategory.Hate,
+        pattern: /\b(kill|exterminate|eradicate|gas|lynch) (all|every|the) (jews|muslims|christians|black people|white people|asians|gays|immigrants|women|men)\b/i,
+    },
+];
+
+/**
+ * Moderator with local keyword and regex rules
+ *
+ * @example
+ * ```typescript
+ * const moderator = new KeywordModerator([...DEFAULT_MODERATION_RULES, { name: "brand", category: ModerationCategory.Illegal, keywords: ["acme"] }]);
+ * ```
+ */
+export class KeywordModerator implements Moderator {
+    /** Moderator name */
+    public name = "keywords";
+    /** Rules */
+    public rules: ModerationRule[];
+
+    /**
+     * @param rules - Rules to check (default: built-in rules)
+     */
+    constructor(rules: ModerationRule[] = DEFAULT_MODERATION_RULES) {
+        this.rules = rules;
+    }
+
+    async check(texts: ModerationText[]): Promise<ModerationFlag[]> {
+        const flags: ModerationFlag[] = [];
+
+        for (const { path, text } of texts) {
+            for (const rule of this.rules) {
+                const match = findRuleMatch(rule, text);
+                if (match) {
+                    flags.push({ path, category: rule.category, rule: rule.name, moderator: this.name, message: `matches rule '${rule.name}' ('${match}')` });
+                }
+            }
+        }
+
+        return flags;
+    }
+}
+
+/** JSON schema of the AI classifier response */
+const classifierSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        flagged: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    path: { type: "string" },
+                    category: { enum: Object.values(ModerationCategory) },
+                    reason: { type: "string" },
+                },
+                required: ["path", "category", "reason"],
+            },
+        },
+    },
+    required: ["flagged"],
+};
+
+/**
+ * Moderator that asks an AI model to classify texts
+ * (works with any chat provider, ex. a small local model with Ollama)
+ *
+ * @example
+ * ```typescript
+ * const moderator = new AIModerator(createChatProvider(AIGenType.OllamaAIGen, undefined, { model: "llama3.1" }));
+ * ```
+ */
+export class AIModerator implements Moderator {
+    /** Moderator name */
+    public name: string;
+
+    /** AI provider */
+    protected provider: ChatProvider;
+    /** AI options (usage tracker, repair turns) */
+    protected options?: AIOptions;
+
+    /**
+     * @param provider - AI provider
+     * @param options - AI options (set `usage` to track classifier requests)
+     */
+    constructor(provider: ChatProvider, options?: AIOptions) {
+        this.provider = provider;
+        this.options = options;
+        this.name = `ai:${provider.name} ${provider.model}`;
+    }
+
+    /**
+     * @throws AIMalformedOutputError if the AI response is not a valid classification
+     */
+    async check(texts: ModerationText[]): Promise<ModerationFlag[]> {
+        if (texts.length == 0) return [];
+
+        // Each check is a new conversation
+        const driver = new ScriptDriver(this.provider, undefined, this.options);
+        const res = await driver.ask(buildClassifierPrompt(texts), { json: true, schema: classifierSchema }, "moderation");
+
+        let json: unknown;
+        try {
+            json = parseJsonResponse(res);
+        } catch (error) {
+            throw new AIMalformedOutputError(`Moderation response is not valid JSON: ${(error as Error).message}`, this.provider.name);
+        }
+
+        const errors = validateSchema(classifierSchema, json);
+        if (errors.length > 0) {
+            throw new AIMalformedOutputError(`Invalid moderation response: ${errors.join("; ")}`, this.provider.name);
+        }
+
+        // Unknown paths are flagged on the whole content
+        const paths = texts.map((text) => text.path);
+        const flagged = (json as { flagged: { path: string, category: ModerationCategory, reason: string }[] }).flagged;
+
+        return flagged.map((flag) => ({
+            path: paths.includes(flag.path) ? flag.path : "*",
+            category: flag.category,
+            rule: "classifier",
+            moderator: this.name,
+            message: flag.reason,
+        }));
+    }
+}
+
+/**
+ * Moderation stage (runs every moderator before the AI is asked and before TTS and rendering)
+ *
+ * Results of the last checked texts are cached, so checking the same video data again
+ * (ex. when the script is rendered after generation) does not ask the AI again.
+ *
+ * @example
+ * ```typescript
+ * const moderation = new ContentModerator([new KeywordModerator(), new AIModerator(provider)]);
+ * await genVideoWithAI(prompt, AIGenType.OpenAIGen, { ...options, moderation }, apiKey);
+ * ```
+ */
+export class ContentModerator {
+    /** Moderators (every moderator checks every text) */
+    public moderators: Moderator[];
+
+    /** Flags of texts already checked */
+    private cache = new Map<string, ModerationFlag[]>();
+
+    /**
+     * @param moderators - Moderators (default: keyword moderator with built-in rules)
+     */
+    constructor(moderators: Moderator[] = [new KeywordModerator()]) {
+        this.moderators = moderators;
+    }
+
+    /**
+     * Check texts with every moderator
+     *
+     * @param stage - Stage of the check
+     * @param texts - Texts to check
+     * @returns Moderation result
+     */
+    async check(stage: ModerationStage, texts: ModerationText[]): Promise<ModerationResult> {
+        const key = JSON.stringify(texts);
+        let flags = this.cache.get(key);
+
+        if (!flags) {
+            flags = [];
+            for (const moderator of this.moderators) {
+                flags.push(...await moderator.check(texts));
+            }
+        }
+
+        // Move to end, so the texts in use are removed last
+        this.cache.delete(key);
+        this.cache.set(key, flags);
+
+        while (this.cache.size > MAX_MODERATION_CACHE) {
+            this.cache.delete(this.cache.keys().next().value as string);
+        }
+
+        return { stage, allowed: flags.length == 0, flags };
+    }
+
+    /**
+     * Check user prompt
+     *
+     * @throws ModerationError if the prompt is flagged
+     */
+    async checkPrompt(prompt: string): Promise<ModerationResult> {
+        return assertAllowed(await this.check(ModerationStage.Prompt, [{ path: "prompt", text: prompt }]));
+    }
+
+    /**
+     * Check every text of video data
+     *
+     * @throws ModerationError if any text is flagged
+     */
+    async checkVideoData(data: VideoDataType): Promise<ModerationResult> {
+        return assertAllowed(await this.check(ModerationStage.Script, getModerationTexts(data)));
+    }
+}
+
+/**
+ * Get every text of video data with its path (ex. 'questions.0.answer')
+ */
+export function getModerationTexts(data: VideoDataType): ModerationText[] {
+    const texts: ModerationText[] = [];
+
+    const visit = (value: unknown, path: string[]) => {
+        if (typeof value == "string") {
+            if (value.trim()) texts.push({ path: path.join("."), text: value });
+        } else if (Array.isArray(value)) {
+            value.forEach((item, i) => visit(item, [...path, String(i)]));
+        } else if (typeof value == "object" && value != null) {
+            Object.entries(value).forEach(([key, item]) => visit(item, [...path, key]));
+        }
+    };
+
+    Object.entries(data).filter(([key]) => key != "type").forEach(([key, value]) => visit(value, [key]));
+
+    return texts;
+}
+
+/**
+ * Build prompt asking the AI to classify texts
+ */
+export function buildClassifierPrompt(texts: ModerationText[]): string {
+    const lines = texts.map((text) => `${text.path}: ${JSON.stringify(text.text)}`).join("\n");
+
+    return `You are a content moderator for short videos. Flag texts that contain or ask for ${Object.values(ModerationCategory).join(", ")} content that is not allowed on video platforms (ex. instructions for weapons or self-harm, sexual content, hate against a group). Normal topics like history, news, crime stories or jokes are allowed. Texts:\n${lines}\nUse this template: {"flagged": [{"path": "", "category": "", "reason": ""}]} with an empty list if every text is allowed. Only valid JSON, no extra info.`;
+}
+
+/**
+ * Throw if the result is not allowed
+ *
+ * @throws ModerationError if the result has flags
+ */
+function assertAllowed(result: ModerationResult): ModerationResult {
+    if (!result.allowed) throw new ModerationError(result);
+    return result;
+}
+
+/**
+ * Find text that matches a rule
+ * @returns Matched text or undefined
+ */
+function findRuleMatch(rule: ModerationRule, text: string): string | undefined {
+    const lower = text.toLowerCase();
+    const keyword = rule.keywords?.find((keyword) => new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`).test(lower));
+    if (keyword) return keyword;
+
+    return rule.pattern ? text.match(rule.pattern)?.[0] : undefined;
+}
+
+/**
+ * Escape special characters of a regex
+ */
+function escapeRegExp(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
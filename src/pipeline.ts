@@ -0,0 +1,330 @@
+// Copyright (c) 2024 Shafil Alam
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+import type { VideoArtifacts } from "./task";
+
+/** Name of the job manifest file (saved in the job folder) */
+export const JOB_MANIFEST_FILE = "job.json";
+
+/**
+ * Video pipeline stages of the built-in video types (in run order)
+ * Video types can use other stage names.
+ */
+export enum VideoStage {
+    /** Text to speech of the script */
+    Voice = "voice",
+    /** Background music mix (and 16k audio for whisper) */
+    Audio = "audio",
+    /** Image search or generation */
+    Images = "images",
+    /** Whisper subtitles */
+    Subtitles = "subtitles",
+    /** Video rendering */
+    Render = "render",
+}
+
+/**
+ * Status of a stage in the job manifest
+ */
+export enum StageStatus {
+    Running = "running",
+    Done = "done",
+    Failed = "failed",
+}
+
+/**
+ * Stage run saved in the job manifest
+ */
+export interface StageRecord {
+    /** Stage name */
+    name: string;
+    /** Status of the last run */
+    status: StageStatus;
+    /** Hash of the stage inputs (the stage runs again if it changes) */
+    inputHash: string;
+    /** Files the stage made (relative to the job folder, the stage runs again if one is missing) */
+    outputs: string[];
+    /** Result of the stage (JSON, returned instead of running the stage again) */
+    result?: unknown;
+    /** Start time (ISO 8601) */
+    startedAt: string;
+    /** End time (ISO 8601) */
+    finishedAt?: string;
+    /** Error message if the stage failed */
+    error?: string;
+}
+
+/**
+ * Job manifest (saved as 'job.json' in the job folder)
+ */
+export interface JobManifest {
+    /** Job id (name of the job folder) */
+    id: string;
+    /** Video type */
+    type: string;
+    /** Creation time (ISO 8601) */
+    createdAt: string;
+    /** Last update time (ISO 8601) */
+    updatedAt: string;
+    /** Stages in the order they last ran */
+    stages: StageRecord[];
+}
+
+/**
+ * Inputs of a stage
+ */
+export interface StageOptions<T = unknown> {
+    /** Values the stage depends on (JSON, hashed) */
+    inputs: unknown;
+    /** Stages the stage depends on (their input hashes are part of the hash) */
+    after?: string[];
+    /** Files the stage makes (from the result of the stage) */
+    outputs?: (result: T) => string[];
+}
+
+/**
+ * Hash of stage inputs (object keys are sorted, so key order does not change the hash)
+ *
+ * @param value - JSON value
+ * @returns SHA-256 hash (hex)
+ */
+export function hashStageInputs(value: unknown): string {
+    return crypto.createHash("sha256").update(stableStringify(value) ?? "").digest("hex");
+}
+
+/**
+ * Create job id of video data (same data gives the same job, so a job is resumed by running it again)
+ *
+ * @param type - Video type
+ * @param data - Video data
+ */
+export function createJobId(type: string, data: unknown): string {
+    return `${type}-${hashStageInputs(data).substring(0, 12)}`;
+}
+
+/**
+ * Check if a value is a plain job id (letters, numbers, '_' and '-', so it can not point outside the temp folder)
+ *
+ * @param id - Job id (ex. from a request)
+ */
+export function isJobId(id: unknown): id is string {
+    return typeof id == "string" && /^[\w-]+$/.test(id);
+}
+
+/**
+ * Video job with a persisted manifest of its stages
+ *
+ * A stage is skipped if it finished before with the same input hash and its output
+ * files still exist, so a failed job resumes from the stage that failed.
+ *
+ * @example
+ * ```typescript
+ * const job = VideoJob.open("video_temp/topic-1a2b3c", "topic");
+ * const voice = await job.run("voice", { inputs: { text } }, async () => {
+ *     await makeVoice(text, "voice.wav");
+ *     return "voice.wav";
+ * });
+ * ```
+ */
+export class VideoJob {
+    /** Job folder */
+    public readonly dir: string;
+    /** Job manifest */
+    public manifest: JobManifest;
+    /** Stages that run even if their inputs are unchanged */
+    private rerun: Set<string>;
+    /** Input hashes of the stages of this run */
+    private hashes = new Map<string, string>();
+
+    constructor(dir: string, manifest: JobManifest, rerun: string[] = []) {
+        this.dir = dir;
+        this.manifest = manifest;
+        this.rerun = new Set(rerun);
+    }
+
+    /**
+     * Open job folder (created with an empty manifest if it does not exist)
+     *
+     * @param dir - Job folder
+     * @param type - Video type
+     * @param rerun - Stages to run even if their inputs are unchanged
+     * @throws Error if the manifest is not valid JSON
+     */
+    static open(dir: string, type: string, rerun: string[] = []): VideoJob {
+        const manifestPath = path.join(dir, JOB_MANIFEST_FILE);
+
+        if (fs.existsSync(manifestPath)) {
+            const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as JobManifest;
+            return new VideoJob(dir, manifest, rerun);
+        }
+
+        fs.mkdirSync(dir, { recursive: true });
+
+        const now = new Date().toISOString();
+        const job = new VideoJob(dir, { id: path.basename(dir), type, createdAt: now, updatedAt: now, stages: [] }, rerun);
+        job.save();
+
+        return job;
+    }
+
+    /**
+     * Get the last run of a stage
+     */
+    getStage(name: string): StageRecord | undefined {
+        return this.manifest.stages.find((stage) => stage.name == name);
+    }
+
+    /**
+     * Hash inputs of a stage (input hashes of the stages it depends on are included)
+     *
+     * @throws Error if a stage it depends on has not run
+     */
+    hashInputs(name: string, options: StageOptions<never>): string {
+        const after = (options.after ?? []).map((stage) => {
+            const hash = this.hashes.get(stage) ?? this.getStage(stage)?.inputHash;
+            if (!hash) throw new Error(`Stage '${name}' depends on stage '${stage}' which has not run`);
+            return [stage, hash];
+        });
+
+        return hashStageInputs({ name, inputs: options.inputs, after });
+    }
+
+    /**
+     * Check if a stage can be skipped (done with the same input hash and all outputs exist)
+     */
+    isCached(name: string, inputHash: string): boolean {
+        const stage = this.getStage(name);
+
+        return !this.rerun.has(name)
+            && stage?.status == StageStatus.Done
+            && stage.inputHash == inputHash
+            && stage.outputs.every((output) => fs.existsSync(path.join(this.dir, output)));
+    }
+
+    /**
+     * Mark stage as running
+     */
+    start(name: string, inputHash: string) {
+        this.hashes.set(name, inputHash);
+        this.setStage({ name, status: StageStatus.Running, inputHash, outputs: [], startedAt: new Date().toISOString() });
+    }
+
+    /**
+     * Mark running stage as done
+     *
+     * @param outputs - Files the stage made (absolute or relative to the job folder)
+     * @param result - Result of the stage (JSON)
+     */
+    complete(name: string, outputs: string[] = [], result?: unknown) {
+        this.updateStage(name, {
+            status: StageStatus.Done,
+            outputs: outputs.map((output) => path.relative(this.dir, path.resolve(this.dir, output))),
+            result,
+            finishedAt: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Mark running stage as failed
+     */
+    fail(name: string, error: unknown) {
+        this.updateStage(name, {
+            status: StageStatus.Failed,
+            error: (error as Error)?.message ?? JSON.stringify(error),
+            finishedAt: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Run a stage (or return the result of the last run if the stage is cached)
+     *
+     * @param name - Stage name
+     * @param options - Stage inputs
+     * @param stage - Function that runs the stage
+     * @returns Result of the stage
+     * @throws Error of the stage (the stage is marked as failed)
+     */
+    async run<T>(name: string, options: StageOptions<T>, stage: () => Promise<T>): Promise<T> {
+        const inputHash = this.hashInputs(name, options);
+
+        if (this.isCached(name, inputHash)) {
+            this.hashes.set(name, inputHash);
+            return this.getStage(name)!.result as T;
+        }
+
+        this.start(name, inputHash);
+
+        let result: T;
+        try {
+            result = await stage();
+        } catch (error) {
+            this.fail(name, error);
+            throw error;
+        }
+
+        this.complete(name, options.outputs?.(result) ?? [], result);
+        return result;
+    }
+
+    /**
+     * Get files of the job
+     *
+     * @param video - Video file
+     */
+    getArtifacts(video: string): VideoArtifacts {
+        return {
+            video,
+            jobDir: this.dir,
+            manifest: path.join(this.dir, JOB_MANIFEST_FILE),
+            stages: Object.fromEntries(this.manifest.stages.map((stage) => [stage.name, stage.outputs])),
+        };
+    }
+
+    /**
+     * Save manifest to the job folder
+     */
+    save() {
+        this.manifest.updatedAt = new Date().toISOString();
+        fs.writeFileSync(path.join(this.dir, JOB_MANIFEST_FILE), JSON.stringify(this.manifest, null, 2));
+    }
+
+    /**
+     * Add or replace the record of a stage
+     */
+    private setStage(record: StageRecord) {
+        this.manifest.stages = [...this.manifest.stages.filter((stage) => stage.name != record.name), record];
+        this.save();
+    }
+
+    /**
+     * Update the record of a stage
+     */
+    private updateStage(name: string, update: Partial<StageRecord>) {
+        const stage = this.getStage(name);
+        if (!stage) throw new Error(`Stage '${name}' has not started`);
+
+        Object.assign(stage, update);
+        this.save();
+    }
+}
+
+/**
+ * JSON string with sorted object keys (undefined values are left out like in JSON.stringify)
+ */
+function stableStringify(value: unknown): string | undefined {
+    if (value === undefined || typeof value == "function") return undefined;
+    if (value === null || typeof value != "object") return JSON.stringify(value);
+
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => stableStringify(item) ?? "null").join(",")}]`;
+    }
+
+    const entries = Object.keys(value).sort()
+        .map((key) => [key, stableStringify((value as Record<string, unknown>)[key])])
+        .filter(([, item]) => item !== undefined);
+
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${item}`).join(",")}}`;
+}
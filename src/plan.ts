@@ -0,0 +1,184 @@
+// Copyright (c) 2024 Shafil Alam
+
+import type { VideoDataType, VideoGen, VideoOptions } from "./videogen";
+import { countWords, getSpeechParts, SpeechPart } from "./duration";
+import { getImageQueries } from "./imagequery";
+import { getVideoLocale } from "./locale";
+import { createJobId, VideoStage } from "./pipeline";
+import { getImageProvider, getVoiceProvider } from "./providers";
+import { EncodingProfile, getEncodingSettings } from "./encoding";
+
+/**
+ * Spoken part with its estimated timing
+ */
+export interface PlannedSpeech extends SpeechPart {
+    /** Estimated start in seconds */
+    start: number;
+    /** Estimated duration in seconds (speech and pause) */
+    duration: number;
+}
+
+/**
+ * Kind of asset a video needs
+ */
+export enum PlanAssetKind {
+    /** TTS of a spoken part */
+    Voice = "voice",
+    /** Image search or AI image */
+    Image = "image",
+    /** Background music */
+    Music = "music",
+    /** Background video */
+    Video = "video",
+}
+
+/**
+ * Asset that would be made or fetched for the video
+ */
+export interface PlanAsset {
+    /** Kind of asset */
+    kind: PlanAssetKind;
+    /** Stage that makes the asset */
+    stage: string;
+    /** TTS or image provider id, or 'resources' for local files */
+    source: string;
+    /** Spoken text, image query or file path */
+    value: string;
+    /** Alternate image queries (searched too, the best image is used) */
+    alternates?: string[];
+    /** Asset is made by a remote API (needs credentials, may cost money) */
+    remote: boolean;
+}
+
+/**
+ * Element shown in a scene
+ */
+export interface PlanElement {
+    /** Element type (ex. 'image', 'text', 'subtitles', 'video') */
+    type: string;
+    /** What the element shows (ex. image query or text) */
+    label: string;
+    /** Start in seconds (from the start of the video) */
+    start: number;
+    /** Duration in seconds */
+    duration: number;
+}
+
+/**
+ * Scene of the video
+ */
+export interface PlanScene {
+    /** Scene name */
+    name: string;
+    /** Start in seconds */
+    start: number;
+    /** Duration in seconds */
+    duration: number;
+    /** Elements of the scene */
+    elements: PlanElement[];
+}
+
+/**
+ * Render plan of a video (what would be made, without calling TTS, image APIs or rendering)
+ */
+export interface RenderPlan {
+    /** Job id the video would use */
+    jobId: string;
+    /** Video type */
+    type: string;
+    /** Language code */
+    language: string;
+    /** Video orientation (size preset or 'WIDTHxHEIGHT') */
+    orientation: string;
+    /** Video resolution (width, height) */
+    resolution: [number, number];
+    /** Encoding settings of the video */
+    encoding: EncodingProfile;
+    /** TTS provider id */
+    voiceGenType: string;
+    /** Image provider id */
+    imageGenType: string;
+    /** Background files that would be used (random picks are made now) */
+    background: {
+        /** Background video file */
+        video?: string;
+        /** Background music file */
+        music?: string;
+    };
+    /** Estimated duration in seconds (from word count and the speaking rate of the TTS provider) */
+    estimatedSeconds: number;
+    /** Spoken words */
+    words: number;
+    /** Speaking rate used for the estimate (words per minute) */
+    wordsPerMinute: number;
+    /** Spoken parts with estimated timing */
+    speech: PlannedSpeech[];
+    /** Assets that would be made or fetched */
+    assets: PlanAsset[];
+    /** Scenes and their elements with estimated timing */
+    scenes: PlanScene[];
+}
+
+/**
+ * Create render plan of a video (dry run)
+ *
+ * Durations are estimated from the text, so they differ a little from the rendered video.
+ *
+ * @param gen - Video generation class of the video type
+ * @param data - Video data
+ * @param options - Video options
+ * @returns Render plan
+ * @throws ProviderError if the TTS or image type is not registered
+ * @throws EncodingError if the encoding options are invalid
+ */
+export function createRenderPlan(gen: VideoGen, data: VideoDataType, options: VideoOptions): RenderPlan {
+    const locale = getVideoLocale(options.language);
+    const voiceProvider = getVoiceProvider(options.voiceGenType);
+    const imageProvider = getImageProvider(options.imageGenType);
+    const wordsPerMinute = voiceProvider.capabilities.speakingRate;
+
+    // Timing of each spoken part (empty parts are kept so types can find parts by index)
+    let time = 0;
+    const speech: PlannedSpeech[] = getSpeechParts(data, locale).map((part) => {
+        const words = part.text.trim() ? countWords(part.text) : 0;
+        const duration = words / wordsPerMinute * 60 + (part.pauseSeconds ?? 0);
+        const planned = { ...part, start: time, duration };
+        time += duration;
+        return planned;
+    });
+
+    const background = {
+        video: options.useBgVideo ? gen.getRandomBgVideo() : undefined,
+        music: options.useBgMusic ? gen.getRandomBgMusic() : undefined,
+    };
+
+    const alternates: Record<string, string[]> = (data as { imageAlternates?: Record<string, string[]> }).imageAlternates ?? {};
+    const assets: PlanAsset[] = [
+        ...speech.filter((part) => part.text.trim()).map((part) => ({
+            kind: PlanAssetKind.Voice, stage: VideoStage.Voice, source: voiceProvider.id, value: part.text, remote: !voiceProvider.capabilities.local,
+        })),
+        ...getImageQueries(data).map((query) => ({
+            kind: PlanAssetKind.Image, stage: VideoStage.Images, source: imageProvider.id, value: query, alternates: alternates[query], remote: !imageProvider.capabilities.local,
+        })),
+        ...(background.music ? [{ kind: PlanAssetKind.Music, stage: VideoStage.Audio, source: "resources", value: background.music, remote: false }] : []),
+        ...(background.video ? [{ kind: PlanAssetKind.Video, stage: VideoStage.Render, source: "resources", value: background.video, remote: false }] : []),
+    ];
+
+    return {
+        jobId: options.jobId ?? createJobId(data.type, data),
+        type: data.type,
+        language: locale.code,
+        orientation: options.orientation,
+        resolution: gen.getResolution(),
+        encoding: getEncodingSettings(options.encoding),
+        voiceGenType: voiceProvider.id,
+        imageGenType: imageProvider.id,
+        background,
+        estimatedSeconds: time,
+        words: speech.reduce((sum, part) => sum + (part.text.trim() ? countWords(part.text) : 0), 0),
+        wordsPerMinute,
+        speech,
+        assets,
+        scenes: gen.planScenes(speech, time),
+    };
+}
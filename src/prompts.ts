@@ -0,0 +1,350 @@
+// Copyright (c) 2024 Shafil Alam
+
+import fs from 'fs';
+import path from 'path';
+
+import { SchemaObject } from "ajv";
+
+import { convertVideoTypeToPrompt } from "./ai";
+import { VideoGenType } from "./videogen";
+import { getVideoTypeNames, hasVideoType } from "./registry";
+import { validateSchema } from "./schema";
+
+/**
+ * Values of template variables (ex. `{ tone: "funny", count: 5 }`)
+ *
+ * Common variables are 'tone', 'audience', 'language', 'duration' (seconds)
+ * and 'count' (number of items), but templates can use any name.
+ */
+export type PromptVariables = Record<string, string | number>;
+
+/** Field prompts for each video type (field name to prompt, types can be registered ones) */
+export type FieldPrompts = Partial<Record<string, Record<string, string>>>;
+
+/**
+ * Prompts a template (or a channel of a template) overrides
+ */
+export interface PromptOverrides {
+    /** System prompt (replaces the built-in system prompt) */
+    system?: string;
+    /** Prompt asking for the video type (the user prompt is added to the end) */
+    typePrompt?: string;
+    /** Field prompts for each video type (fields not set use the built-in prompt) */
+    fields?: FieldPrompts;
+    /** Default values of variables */
+    variables?: PromptVariables;
+}
+
+/**
+ * Prompt template (one file of a prompt library)
+ *
+ * Prompts can use variables with `{{name}}`. Channels override the
+ * prompts and variables of the template (ex. a channel for kids).
+ *
+ * @example
+ * ```json
+ * {
+ *   "name": "quiz",
+ *   "version": "1.1.0",
+ *   "variables": { "count": 5, "audience": "everyone" },
+ *   "fields": { "quiz": { "questions": "Generate {{count}} questions for {{audience}}. Use this template: {\"questions\": [{\"question\": \"\", \"answer\": \"\"}]}" } },
+ *   "channels": { "kids": { "variables": { "audience": "kids under 10" } } }
+ * }
+ * ```
+ */
+export interface PromptTemplate extends PromptOverrides {
+    /** Template name */
+    name: string;
+    /** Template version (ex. '1.2.0', the latest version is used if none is selected) */
+    version: string;
+    /** What the template is for */
+    description?: string;
+    /** Overrides for each channel */
+    channels?: Record<string, PromptOverrides>;
+}
+
+/**
+ * Prompts of a template with variables filled in (used by the script driver)
+ */
+export interface AIPrompts {
+    /** Template used (ex. 'quiz@1.1.0') */
+    template?: string;
+    /** System prompt */
+    system?: string;
+    /** Prompt asking for the video type */
+    typePrompt?: string;
+    /** Field prompts for each video type */
+    fields?: FieldPrompts;
+}
+
+/**
+ * Error thrown when a prompt template is invalid, not found or missing a variable
+ */
+export class PromptTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PromptTemplateError";
+    }
+}
+
+/** JSON schema of the prompts a template overrides */
+const promptOverridesSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        system: { type: "string" },
+        typePrompt: { type: "string" },
+        fields: {
+            type: "object",
+            additionalProperties: { type: "object", additionalProperties: { type: "string" } },
+        },
+        variables: { type: "object", additionalProperties: { type: ["string", "number"] } },
+    },
+};
+
+/** JSON schema of a prompt template file */
+const promptTemplateSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        ...promptOverridesSchema.properties,
+        name: { type: "string", pattern: "^[\\w.-]+$" },
+        version: { type: "string", pattern: "^\\d+(\\.\\d+)*$" },
+        description: { type: "string" },
+        channels: { type: "object", additionalProperties: promptOverridesSchema },
+    },
+    required: ["name", "version"],
+};
+
+/** Variable in a prompt (ex. '{{tone}}') */
+const VARIABLE_REGEX = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Library of versioned prompt templates
+ *
+ * @example
+ * ```typescript
+ * const library = PromptLibrary.load("prompts");
+ * const prompts = renderPromptTemplate(library.get("quiz@1.1.0"), { channel: "kids", variables: { count: 3 } });
+ * await genVideoDataWithAI("make a quiz about space", AIGenType.OllamaAIGen, options, undefined, { prompts });
+ * ```
+ */
+export class PromptLibrary {
+    /** Templates (every version) */
+    public templates: PromptTemplate[] = [];
+
+    /**
+     * @param templates - Templates to add
+     */
+    constructor(templates: PromptTemplate[] = []) {
+        for (const template of templates) {
+            this.add(template);
+        }
+    }
+
+    /**
+     * Load every template file (.json) in a folder
+     *
+     * @param dir - Folder with template files
+     * @returns Prompt library
+     * @throws PromptTemplateError if a file is not a valid template
+     */
+    static load(dir: string): PromptLibrary {
+        const library = new PromptLibrary();
+
+        for (const file of fs.readdirSync(dir).filter((file) => file.endsWith(".json")).sort()) {
+            const filePath = path.join(dir, file);
+
+            let json: unknown;
+            try {
+                json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            } catch (error) {
+                throw new PromptTemplateError(`Invalid prompt template file '${filePath}': ${(error as Error).message}`);
+            }
+
+            library.add(validatePromptTemplate(json, filePath));
+        }
+
+        return library;
+    }
+
+    /**
+     * Add template (checked first)
+     *
+     * @throws PromptTemplateError if the template is invalid or the version already exists
+     */
+    add(template: PromptTemplate) {
+        validatePromptTemplate(template);
+
+        if (this.templates.some((other) => other.name == template.name && compareVersions(other.version, template.version) == 0)) {
+            throw new PromptTemplateError(`Prompt template '${template.name}@${template.version}' already exists`);
+        }
+
+        this.templates.push(template);
+    }
+
+    /**
+     * Get template by name (latest version) or by name and version (ex. 'quiz@1.1.0')
+     *
+     * @param selector - Template name with optional version after '@'
+     * @throws PromptTemplateError if no template matches
+     */
+    get(selector: string): PromptTemplate {
+        const [name, version] = selector.split("@");
+        const versions = this.templates
+            .filter((template) => template.name == name)
+            .sort((a, b) => compareVersions(b.version, a.version));
+
+        const template = version ? versions.find((template) => compareVersions(template.version, version) == 0) : versions[0];
+
+        if (!template) {
+            const available = versions.length > 0 ? versions.map((template) => template.version).join(", ") : this.list().map((template) => template.name).join(", ");
+            throw new PromptTemplateError(`Prompt template '${selector}' not found (available: ${available || "none"})`);
+        }
+
+        return template;
+    }
+
+    /**
+     * Get latest version of each template (sorted by name)
+     */
+    list(): PromptTemplate[] {
+        const names = [...new Set(this.templates.map((template) => template.name))].sort();
+        return names.map((name) => this.get(name));
+    }
+}
+
+/**
+ * Check that a value is a valid prompt template
+ * (field prompts can only override fields of the video type)
+ *
+ * @param template - Template to check
+ * @param source - File of the template (used in errors)
+ * @returns Template
+ * @throws PromptTemplateError if the template is invalid
+ */
+export function validatePromptTemplate(template: unknown, source?: string): PromptTemplate {
+    const where = source ? ` '${source}'` : "";
+    const errors = validateSchema(promptTemplateSchema, template);
+
+    if (errors.length > 0) {
+        throw new PromptTemplateError(`Invalid prompt template${where}: ${errors.join("; ")}`);
+    }
+
+    const valid = template as PromptTemplate;
+    const overrides = [valid, ...Object.values(valid.channels ?? {})];
+
+    for (const fields of overrides.map((override) => override.fields ?? {})) {
+        for (const [type, prompts] of Object.entries(fields)) {
+            if (!hasVideoType(type)) {
+                throw new PromptTemplateError(`Invalid prompt template${where}: unknown video type '${type}' (types: ${getVideoTypeNames().join(", ")})`);
+            }
+
+            const known = Object.keys(convertVideoTypeToPrompt(type as VideoGenType));
+            const unknown = Object.keys(prompts ?? {}).filter((field) => !known.includes(field));
+
+            if (unknown.length > 0) {
+                throw new PromptTemplateError(`Invalid prompt template${where}: ${type} video has no field(s) ${unknown.join(", ")} (fields: ${known.join(", ")})`);
+            }
+        }
+    }
+
+    return valid;
+}
+
+/**
+ * Fill in the prompts of a template for a channel
+ *
+ * Variables given here override the variables of the channel, which
+ * override the variables of the template.
+ *
+ * @param template - Prompt template
+ * @param options - Channel and variables
+ * @returns Prompts with variables filled in
+ * @throws PromptTemplateError if the channel does not exist or a variable has no value
+ */
+export function renderPromptTemplate(template: PromptTemplate, options: { channel?: string, variables?: PromptVariables } = {}): AIPrompts {
+    const channel = options.channel ? template.channels?.[options.channel] : {};
+
+    if (!channel) {
+        throw new PromptTemplateError(`Prompt template '${template.name}@${template.version}' has no channel '${options.channel}' (channels: ${Object.keys(template.channels ?? {}).join(", ") || "none"})`);
+    }
+
+    const variables = { ...template.variables, ...channel.variables, ...options.variables };
+    const render = (prompt?: string) => prompt == undefined ? undefined : renderPrompt(prompt, variables);
+
+    // Field prompts of the channel are added to the field prompts of the template
+    const fields: FieldPrompts = {};
+    for (const type of getVideoTypeNames()) {
+        const prompts = { ...template.fields?.[type], ...channel.fields?.[type] };
+        if (Object.keys(prompts).length == 0) continue;
+
+        fields[type] = Object.fromEntries(Object.entries(prompts).map(([field, prompt]) => [field, renderPrompt(prompt, variables)]));
+    }
+
+    return {
+        template: `${template.name}@${template.version}`,
+        system: render(channel.system ?? template.system),
+        typePrompt: render(channel.typePrompt ?? template.typePrompt),
+        fields,
+    };
+}
+
+/**
+ * Fill in the variables of a prompt (ex. 'Make it {{tone}}')
+ *
+ * @param prompt - Prompt with variables
+ * @param variables - Values of variables
+ * @returns Prompt with variables filled in
+ * @throws PromptTemplateError if a variable has no value
+ */
+export function renderPrompt(prompt: string, variables: PromptVariables): string {
+    const missing = [...prompt.matchAll(VARIABLE_REGEX)].map((match) => match[1]).filter((name) => variables[name] == undefined);
+
+    if (missing.length > 0) {
+        throw new PromptTemplateError(`Prompt variable(s) ${[...new Set(missing)].join(", ")} have no value (set with the variables of the template or '--promptVar name=value')`);
+    }
+
+    return prompt.replace(VARIABLE_REGEX, (_, name: string) => String(variables[name]));
+}
+
+/**
+ * Get prompts for each field of a video type (built-in prompts with template overrides)
+ *
+ * @param videoType - Video type
+ * @param prompts - Prompts of a template
+ * @returns Field name to prompt
+ */
+export function getFieldPrompts(videoType: VideoGenType, prompts?: AIPrompts): Record<string, string> {
+    return { ...convertVideoTypeToPrompt(videoType), ...prompts?.fields?.[videoType] };
+}
+
+/**
+ * Parse variable (ex. 'tone=funny')
+ *
+ * @throws PromptTemplateError if there is no '='
+ */
+export function parsePromptVariable(str: string): [string, string] {
+    const index = str.indexOf("=");
+
+    if (index <= 0) {
+        throw new PromptTemplateError(`Invalid prompt variable '${str}' (use name=value)`);
+    }
+
+    return [str.substring(0, index).trim(), str.substring(index + 1).trim()];
+}
+
+/**
+ * Compare versions (ex. '1.10.0' is after '1.9.2')
+ *
+ * @returns Negative if a is before b, positive if after, 0 if same
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split(".").map(Number);
+    const partsB = b.split(".").map(Number);
+
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+        if (diff != 0) return diff;
+    }
+
+    return 0;
+}
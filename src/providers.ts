@@ -0,0 +1,283 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { SchemaObject } from "ajv";
+
+import type { VideoGen } from "./videogen";
+import type { VoiceGenOptions } from "./tts";
+import type { AIImageGenOptions, ImageCandidate, ImageStyleType } from "./image";
+import { builtinTTSVoiceProvider, elevenLabsVoiceProvider, neetsTTSVoiceProvider } from "./tts";
+import { fluxAIImageProvider, googleScraperImageProvider, pexelsImageProvider } from "./image";
+
+/**
+ * Error of a TTS or image provider (unknown provider, missing credentials or invalid options)
+ */
+export class ProviderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ProviderError";
+    }
+}
+
+/**
+ * Credential a provider needs (ex. API key)
+ */
+export interface ProviderCredential {
+    /** Key in the API keys of the video options (ex. 'pexelsAPIKey') */
+    name: string;
+    /** Environment variable used if the key is not set (ex. 'PEXELS_API_KEY') */
+    env: string;
+    /** CLI flag (ex. 'pexelsAPIKey') */
+    flag: string;
+    /** Shown in CLI help and errors (ex. 'Pexels API key') */
+    label: string;
+}
+
+/**
+ * Credential values of a provider (credential name to value)
+ */
+export type ProviderCredentials = Partial<Record<string, string>>;
+
+/**
+ * What a TTS provider can do
+ */
+export interface VoiceCapabilities {
+    /** Speaking rate of the default voices in words per minute (used to estimate video duration) */
+    speakingRate: number;
+    /** Runs locally without an account */
+    local: boolean;
+}
+
+/**
+ * What an image provider can do
+ */
+export interface ImageCapabilities {
+    /** Image style (search or AI generated) */
+    style: ImageStyleType;
+    /** Runs locally without an account */
+    local: boolean;
+}
+
+/**
+ * Info shared by TTS and image providers
+ */
+interface ProviderInfo {
+    /** Provider id (value of 'voiceGenType' or 'imageGenType' in the video options, ex. 'Pexels') */
+    id: string;
+    /** Name shown in the CLI and UI */
+    name: string;
+    /** Short description shown in the CLI and UI */
+    description: string;
+    /** Credentials the provider needs (empty if none) */
+    credentials: ProviderCredential[];
+    /** JSON schema of the provider options ('ttsOptions' or 'imageOptions' of the video options) */
+    optionsSchema: SchemaObject;
+}
+
+/**
+ * TTS provider
+ */
+export interface VoiceProvider extends ProviderInfo {
+    /** What the provider can do */
+    capabilities: VoiceCapabilities;
+    /** Generate voice of one text and save it to 'options.filename' */
+    generateVoice: (gen: VideoGen, options: VoiceGenOptions, credentials: ProviderCredentials) => Promise<void>;
+}
+
+/**
+ * Images an image provider is asked to generate
+ */
+export interface ImageRequest {
+    /** Image queries (or prompts of AI images) */
+    images: string[];
+    /** Temporary path to save images */
+    tempPath: string;
+    /** File prefix for images */
+    filePrefix?: string;
+    /** AI image generation options */
+    imageOptions?: AIImageGenOptions;
+}
+
+/**
+ * Image provider
+ *
+ * Search providers implement `searchImages` (candidates are ranked and picked by the video),
+ * AI providers implement `generateImages`.
+ */
+export interface ImageProvider extends ProviderInfo {
+    /** What the provider can do */
+    capabilities: ImageCapabilities;
+    /** Search images for each query */
+    searchImages?: (gen: VideoGen, queries: string[], count: number, credentials: ProviderCredentials) => Promise<ImageCandidate[]>;
+    /** Generate images and save them to the temporary path */
+    generateImages?: (gen: VideoGen, request: ImageRequest, credentials: ProviderCredentials) => Promise<string[]>;
+}
+
+/** Registered TTS providers (in registration order) */
+const voiceProviders = new Map<string, VoiceProvider>();
+/** Registered image providers (in registration order) */
+const imageProviders = new Map<string, ImageProvider>();
+
+/**
+ * Add a TTS provider
+ *
+ * @param provider - TTS provider
+ * @param replace - Replace a provider with the same id (ex. to change a built-in provider)
+ * @throws ProviderError if the id is taken
+ */
+export function registerVoiceProvider(provider: VoiceProvider, replace: boolean = false) {
+    checkProvider(provider, voiceProviders, replace);
+    voiceProviders.set(provider.id, provider);
+}
+
+/**
+ * Add an image provider
+ *
+ * @param provider - Image provider
+ * @param replace - Replace a provider with the same id (ex. to change a built-in provider)
+ * @throws ProviderError if the id is taken or the provider can neither search nor generate images
+ */
+export function registerImageProvider(provider: ImageProvider, replace: boolean = false) {
+    checkProvider(provider, imageProviders, replace);
+
+    if (!provider.searchImages && !provider.generateImages) {
+        throw new ProviderError(`Image provider '${provider.id}' must have 'searchImages' or 'generateImages'`);
+    }
+
+    imageProviders.set(provider.id, provider);
+}
+
+/**
+ * Remove a registered TTS provider
+ *
+ * @returns True if the provider was registered
+ */
+export function unregisterVoiceProvider(id: string): boolean {
+    return voiceProviders.delete(id);
+}
+
+/**
+ * Remove a registered image provider
+ *
+ * @returns True if the provider was registered
+ */
+export function unregisterImageProvider(id: string): boolean {
+    return imageProviders.delete(id);
+}
+
+/**
+ * Get a registered TTS provider
+ *
+ * @param id - Provider id (ex. 'ElevenLabs')
+ * @throws ProviderError if the provider is not registered
+ */
+export function getVoiceProvider(id: string): VoiceProvider {
+    const provider = voiceProviders.get(id);
+
+    if (!provider) {
+        throw new ProviderError(`Invalid voice generation type: '${id}' (types: ${[...voiceProviders.keys()].join(", ")})`);
+    }
+
+    return provider;
+}
+
+/**
+ * Get a registered image provider
+ *
+ * @param id - Provider id (ex. 'Pexels')
+ * @throws ProviderError if the provider is not registered
+ */
+export function getImageProvider(id: string): ImageProvider {
+    const provider = imageProviders.get(id);
+
+    if (!provider) {
+        throw new ProviderError(`Invalid image generation type: '${id}' (types: ${[...imageProviders.keys()].join(", ")})`);
+    }
+
+    return provider;
+}
+
+/**
+ * Check if a TTS provider is registered
+ */
+export function hasVoiceProvider(id: string): boolean {
+    return voiceProviders.has(id);
+}
+
+/**
+ * Check if an image provider is registered
+ */
+export function hasImageProvider(id: string): boolean {
+    return imageProviders.has(id);
+}
+
+/**
+ * Get all registered TTS providers (in registration order)
+ */
+export function getVoiceProviders(): VoiceProvider[] {
+    return [...voiceProviders.values()];
+}
+
+/**
+ * Get all registered image providers (in registration order)
+ */
+export function getImageProviders(): ImageProvider[] {
+    return [...imageProviders.values()];
+}
+
+/**
+ * Get credentials of every registered provider (duplicates are removed, ex. for CLI flags)
+ */
+export function getProviderCredentialList(): ProviderCredential[] {
+    const credentials = new Map<string, ProviderCredential>();
+
+    for (const provider of [...getVoiceProviders(), ...getImageProviders()]) {
+        for (const credential of provider.credentials) {
+            if (!credentials.has(credential.name)) credentials.set(credential.name, credential);
+        }
+    }
+
+    return [...credentials.values()];
+}
+
+/**
+ * Get credential values of a provider (from the API keys, or the environment variable if not set)
+ *
+ * @param provider - TTS or image provider
+ * @param apiKeys - API keys of the video options
+ */
+export function getProviderCredentials(provider: ProviderInfo, apiKeys: ProviderCredentials = {}): ProviderCredentials {
+    return Object.fromEntries(provider.credentials.map((credential) => [credential.name, apiKeys[credential.name] || process.env[credential.env] || undefined]));
+}
+
+/**
+ * Get credentials of a provider that have no value
+ *
+ * @param provider - TTS or image provider
+ * @param apiKeys - API keys of the video options
+ * @returns Missing credentials (empty if all are set)
+ */
+export function getMissingCredentials(provider: ProviderInfo, apiKeys: ProviderCredentials = {}): ProviderCredential[] {
+    const credentials = getProviderCredentials(provider, apiKeys);
+    return provider.credentials.filter((credential) => !credentials[credential.name]);
+}
+
+/**
+ * Check id of a provider before it is registered
+ */
+function checkProvider(provider: ProviderInfo, providers: Map<string, ProviderInfo>, replace: boolean) {
+    if (!/^[A-Za-z][A-Za-z0-9]*$/.test(provider.id)) {
+        throw new ProviderError(`Invalid provider id: '${provider.id}' (must be letters and numbers only)`);
+    }
+
+    if (providers.has(provider.id) && !replace) {
+        throw new ProviderError(`Provider '${provider.id}' is already registered`);
+    }
+}
+
+/** Built-in TTS providers (the first one is the default) */
+export const BUILTIN_VOICE_PROVIDERS: VoiceProvider[] = [builtinTTSVoiceProvider, elevenLabsVoiceProvider, neetsTTSVoiceProvider];
+/** Built-in image providers (the first one is the default) */
+export const BUILTIN_IMAGE_PROVIDERS: ImageProvider[] = [googleScraperImageProvider, pexelsImageProvider, fluxAIImageProvider];
+
+BUILTIN_VOICE_PROVIDERS.forEach((provider) => registerVoiceProvider(provider));
+BUILTIN_IMAGE_PROVIDERS.forEach((provider) => registerImageProvider(provider));
@@ -0,0 +1,183 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { randomUUID } from "crypto";
+
+import type { ScriptDriver } from "./scriptgen";
+import type { ContentModerator } from "./moderation";
+import { VideoDataType } from "./videogen";
+import { ReviewIssue, reviewVideoData } from "./review";
+import { AIUsageReport } from "./usage";
+import { AIProvenance } from "./fallback";
+import { UploadPlatform, VideoMetadata } from "./metadata";
+import { VideoLocale } from "./locale";
+
+/**
+ * Value changed by a refinement
+ */
+export interface VideoDataChange {
+    /** Path of the value (ex. 'questions.2.question') */
+    path: string;
+    /** Value before (undefined if added) */
+    before?: unknown;
+    /** Value after (undefined if removed) */
+    after?: unknown;
+}
+
+/**
+ * Result of a refinement instruction
+ */
+export interface ScriptRefinement {
+    /** Instruction of the user (ex. 'make question 3 harder') */
+    instruction: string;
+    /** Refined video data */
+    data: VideoDataType;
+    /** Values changed by the AI */
+    changes: VideoDataChange[];
+    /** Review issues of the refined data (not revised automatically) */
+    issues: ReviewIssue[];
+}
+
+/**
+ * Conversation with the AI provider that is kept alive after the script is generated,
+ * so the user can refine the script with instructions (ex. 'shorter intro')
+ *
+ * Every refinement is sent in the same conversation, so the AI knows about
+ * earlier instructions.
+ *
+ * @example
+ * ```typescript
+ * const { conversation } = await genVideoDataWithAI("make a quiz about space", AIGenType.OllamaAIGen, options);
+ * const { data, changes } = await conversation.refine("make question 3 harder");
+ * ```
+ */
+export class ScriptConversation {
+    /** Conversation id (used by the server to continue the conversation) */
+    public id: string = randomUUID();
+    /** Current video data */
+    public data: VideoDataType;
+    /** Refinements in order */
+    public history: ScriptRefinement[] = [];
+    /** Time of last use (ms since epoch) */
+    public lastUsed: number = Date.now();
+
+    /** Driver that holds the conversation */
+    private driver: ScriptDriver;
+    /** Moderation of refined video data (none if undefined) */
+    private moderation?: ContentModerator;
+
+    /**
+     * @param driver - Driver that generated the video data
+     * @param data - Generated video data
+     * @param moderation - Moderation of refined video data
+     */
+    constructor(driver: ScriptDriver, data: VideoDataType, moderation?: ContentModerator) {
+        this.driver = driver;
+        this.data = data;
+        this.moderation = moderation;
+    }
+
+    /** Usage of every request of the conversation (generation included) */
+    get usage(): AIUsageReport {
+        return this.driver.usage.report();
+    }
+
+    /** Provider and model that last produced each field */
+    get provenance(): Record<string, AIProvenance> {
+        return this.driver.provenance;
+    }
+
+    /**
+     * Ask the AI to change the video data
+     *
+     * @param instruction - What to change (ex. 'make question 3 harder')
+     * @returns Refined video data and changed values
+     * @throws AIOutputError if the AI could not produce valid video data
+     * @throws ModerationError if the instruction or the refined video data is flagged (the video data is kept)
+     */
+    async refine(instruction: string): Promise<ScriptRefinement> {
+        this.lastUsed = Date.now();
+
+        if (this.moderation) await this.moderation.checkPrompt(instruction);
+
+        const turn = this.driver.messages.length;
+        const data = await this.driver.refine(this.data, instruction);
+
+        if (this.moderation) {
+            // Flagged reply is removed from the conversation, so later refinements do not build on it
+            await this.moderation.checkVideoData(data).catch((error) => {
+                this.driver.messages.splice(turn);
+                throw error;
+            });
+        }
+
+        const refinement = { instruction, data, changes: diffVideoData(this.data, data), issues: reviewVideoData(data) };
+
+        this.data = data;
+        this.history.push(refinement);
+
+        return refinement;
+    }
+
+    /**
+     * Ask the AI for upload metadata of the current video data (ex. after refinements)
+     *
+     * @param platforms - Platforms to make metadata for (default: every platform)
+     * @param locale - Locale of the video language (default: English)
+     * @returns Metadata of each platform
+     * @throws AIOutputError if the AI could not produce valid metadata for a platform
+     */
+    async generateMetadata(platforms?: UploadPlatform[], locale?: VideoLocale): Promise<VideoMetadata> {
+        this.lastUsed = Date.now();
+        return await this.driver.generateMetadata(this.data, platforms, locale);
+    }
+}
+
+/**
+ * Find every value that differs between two video data objects
+ *
+ * @param before - Video data before
+ * @param after - Video data after
+ * @returns Changed values (objects and arrays are compared by their items)
+ */
+export function diffVideoData(before: VideoDataType, after: VideoDataType): VideoDataChange[] {
+    const changes: VideoDataChange[] = [];
+    diffValue(before, after, "", changes);
+    return changes;
+}
+
+/**
+ * Format changes to show the user (one line for each change)
+ */
+export function formatChanges(changes: VideoDataChange[]): string[] {
+    return changes.map((change) => {
+        if (change.before === undefined) return `+ ${change.path}: ${JSON.stringify(change.after)}`;
+        if (change.after === undefined) return `- ${change.path}: ${JSON.stringify(change.before)}`;
+        return `~ ${change.path}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`;
+    });
+}
+
+/**
+ * Add changes between two values (compares items of objects and arrays)
+ */
+function diffValue(before: unknown, after: unknown, path: string, changes: VideoDataChange[]) {
+    if (isContainer(before) && isContainer(after) && Array.isArray(before) == Array.isArray(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+        for (const key of keys) {
+            diffValue((before as Record<string, unknown>)[key], (after as Record<string, unknown>)[key], path ? `${path}.${key}` : key, changes);
+        }
+
+        return;
+    }
+
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ path, before, after });
+    }
+}
+
+/**
+ * Check if value is an object or array
+ */
+function isContainer(value: unknown): value is object {
+    return typeof value == "object" && value != null;
+}
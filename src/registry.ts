@@ -0,0 +1,173 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { SchemaObject } from "ajv";
+
+import type { VideoGen, VideoOptions } from "./videogen";
+import type { ReviewRule } from "./review";
+import type { VideoSpeech } from "./duration";
+import { topicVideoType } from "./types/topicVid";
+import { messageVideoType } from "./types/msgVid";
+import { ratherVideoType } from "./types/ratherVid";
+import { rankVideoType } from "./types/rankVid";
+import { quizVideoType } from "./types/quizVid";
+
+/** Video type used if the AI gives an unknown type */
+export const DEFAULT_VIDEO_TYPE = "topic";
+
+/**
+ * Info shown in the UI for a video type
+ */
+export interface VideoTypeForm {
+    /** Name of the type (ex. 'Quiz') */
+    label: string;
+    /** Short description (ex. 'Create a quiz video') */
+    description: string;
+    /** Icon name from react-icons/fa (ex. 'FaQuestion') */
+    icon?: string;
+}
+
+/**
+ * Video generation class of a video type
+ */
+export type VideoGenClass = new (options: VideoOptions, jsonData: unknown) => VideoGen;
+
+/**
+ * Everything needed to make a video type (AI prompts, schema, rendering and UI info)
+ *
+ * @example
+ * ```typescript
+ * registerVideoType({
+ *     name: "fact",
+ *     description: "Make a video with one surprising fact.",
+ *     fieldPrompts: { fact: 'Write a surprising fact. Use this template: {"fact": ""}' },
+ *     schema: { type: "object", properties: { type: { const: "fact" }, fact: { type: "string", minLength: 1 } }, required: ["type", "fact"] },
+ *     videoClass: FactVideo,
+ *     speech: (data) => [{ field: "fact", text: data.fact }],
+ *     form: { label: "Fact", description: "Create a fact video" },
+ * });
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface VideoTypeDefinition<T = any> {
+    /** Type name (value of 'type' in the video data, letters only so the AI can answer with it) */
+    name: string;
+    /** What the type is for (given to the AI to pick the type of a prompt) */
+    description: string;
+    /** AI prompt of each JSON field (the AI is asked for the fields in this order) */
+    fieldPrompts: Record<string, string>;
+    /** JSON schema of the video data */
+    schema: SchemaObject;
+    /** Video generation class */
+    videoClass: VideoGenClass;
+    /** Rules the AI should revise after generating the data (optional) */
+    reviewRules?: ReviewRule<T>[];
+    /** Spoken parts in order (used to plan video duration, optional) */
+    speech?: VideoSpeech<T>;
+    /** Image search terms in order (used for image alternates, optional) */
+    imageQueries?: (data: T) => string[];
+    /** Info shown in the UI */
+    form: VideoTypeForm;
+}
+
+/** Registered video types (in registration order) */
+const videoTypes = new Map<string, VideoTypeDefinition>();
+
+/**
+ * Add a video type (ex. from another package)
+ *
+ * @param definition - Video type
+ * @param replace - Replace a type with the same name (ex. to change a built-in type)
+ * @throws Error if the definition is invalid or the name is taken
+ */
+export function registerVideoType<T>(definition: VideoTypeDefinition<T>, replace: boolean = false) {
+    const { name } = definition;
+
+    if (!/^[a-z]+$/.test(name)) {
+        throw new Error(`Invalid video type name: '${name}' (must be lowercase letters only)`);
+    }
+
+    if (videoTypes.has(name) && !replace) {
+        throw new Error(`Video type '${name}' is already registered`);
+    }
+
+    const properties = definition.schema.properties ?? {};
+    const unknown = Object.keys(definition.fieldPrompts).filter((field) => !(field in properties));
+    if (unknown.length > 0) {
+        throw new Error(`Video type '${name}' has prompts for field(s) not in its schema: ${unknown.join(", ")}`);
+    }
+
+    videoTypes.set(name, definition);
+}
+
+/**
+ * Remove a registered video type
+ *
+ * @returns True if the type was registered
+ */
+export function unregisterVideoType(name: string): boolean {
+    return videoTypes.delete(name);
+}
+
+/**
+ * Get a registered video type
+ *
+ * @param name - Type name (ex. 'quiz')
+ * @throws Error if the type is not registered
+ */
+export function getVideoType(name: string): VideoTypeDefinition {
+    const definition = videoTypes.get(name);
+
+    if (!definition) {
+        throw new Error(`Invalid video type: '${name}' (types: ${getVideoTypeNames().join(", ")})`);
+    }
+
+    return definition;
+}
+
+/**
+ * Check if a video type is registered
+ */
+export function hasVideoType(name: string): boolean {
+    return videoTypes.has(name);
+}
+
+/**
+ * Get all registered video types (in registration order)
+ */
+export function getVideoTypes(): VideoTypeDefinition[] {
+    return [...videoTypes.values()];
+}
+
+/**
+ * Get names of all registered video types
+ */
+export function getVideoTypeNames(): string[] {
+    return [...videoTypes.keys()];
+}
+
+/**
+ * Build prompt asking the AI for the type of video the user wants (the user prompt is added after it)
+ */
+export function buildVideoTypePrompt(): string {
+    const types = getVideoTypes();
+
+    return `
+I will give you the prompt asked by the user. You must respond with the type of the video that user wants. Give your response with just one word. No commas, colon, etc. No extra info, meta-commentary, notes or spaces! Once the script gets the type, more questions will be asked to make video. If you are confused, set the type to ${DEFAULT_VIDEO_TYPE} and try your best to answer the questions that will be asked.
+
+Supported types: ${types.map((type) => `'${type.name}'`).join(", ")}.
+
+${types.map((type) => `'${type.name}' type: ${type.description}`).join("\n")}
+
+If none of the types match, set the type to '${DEFAULT_VIDEO_TYPE}'
+
+Example responce: '${DEFAULT_VIDEO_TYPE}'
+
+User prompt:
+
+`;
+}
+
+/** Built-in video types (in the order given to the AI) */
+export const BUILTIN_VIDEO_TYPES: VideoTypeDefinition[] = [topicVideoType, messageVideoType, ratherVideoType, rankVideoType, quizVideoType];
+
+BUILTIN_VIDEO_TYPES.forEach((definition) => registerVideoType(definition));
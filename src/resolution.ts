@@ -0,0 +1,108 @@
+// Copyright (c) 2024 Shafil Alam
+
+/**
+ * Video size preset
+ */
+export interface ResolutionPreset {
+    /** Preset name (used as the video orientation, ex. 'square') */
+    name: string;
+    /** What the preset is for */
+    description: string;
+    /** Width in pixels */
+    width: number;
+    /** Height in pixels */
+    height: number;
+}
+
+/** Default video orientation */
+export const DEFAULT_ORIENTATION = "vertical";
+
+/** Short side of the video size layouts are made for (sizes are scaled from it) */
+export const LAYOUT_BASE_SIZE = 1080;
+
+/**
+ * Video size presets by name
+ */
+export const RESOLUTION_PRESETS: Record<string, ResolutionPreset> = {
+    vertical: { name: "vertical", description: "9:16 (YouTube Shorts, TikTok, Reels)", width: 1080, height: 1920 },
+    horizontal: { name: "horizontal", description: "16:9 (YouTube)", width: 1920, height: 1080 },
+    square: { name: "square", description: "1:1 (Instagram feed)", width: 1080, height: 1080 },
+    portrait: { name: "portrait", description: "4:5 (Instagram feed portrait)", width: 1080, height: 1350 },
+    "vertical-720p": { name: "vertical-720p", description: "9:16 draft", width: 720, height: 1280 },
+    "horizontal-720p": { name: "horizontal-720p", description: "16:9 draft", width: 1280, height: 720 },
+    "vertical-480p": { name: "vertical-480p", description: "9:16 quick preview", width: 480, height: 854 },
+    "horizontal-480p": { name: "horizontal-480p", description: "16:9 quick preview", width: 854, height: 480 },
+};
+
+/**
+ * Get video size of an orientation
+ *
+ * @param orientation - Preset name (ex. 'vertical', 'square', 'vertical-720p') or custom size as 'WIDTHxHEIGHT' (ex. '1200x1500')
+ * @returns Resolution as a tuple of numbers (width, height)
+ * @throws Error if the orientation is not a preset or a valid size (width and height must be even for the video encoder)
+ */
+export function getResolutionOf(orientation: string): [number, number] {
+    const preset = RESOLUTION_PRESETS[orientation];
+    if (preset) {
+        return [preset.width, preset.height];
+    }
+
+    const match = orientation.match(/^(\d+)x(\d+)$/);
+    if (!match) {
+        throw new Error(`Invalid orientation: ${orientation} (use ${Object.keys(RESOLUTION_PRESETS).join(", ")} or WIDTHxHEIGHT)`);
+    }
+
+    const width = parseInt(match[1]);
+    const height = parseInt(match[2]);
+
+    if (width < 2 || height < 2 || width % 2 != 0 || height % 2 != 0) {
+        throw new Error(`Invalid video size: ${orientation} (width and height must be even numbers)`);
+    }
+
+    return [width, height];
+}
+
+/**
+ * Layout of a video canvas
+ *
+ * Positions are fractions of the canvas (0 to 1), so a layout fits every aspect ratio.
+ * Sizes (font sizes, strokes, image sizes) are given for a 1080 pixel short side and scaled to the canvas.
+ *
+ * @example
+ * ```typescript
+ * const layout = new VideoLayout(720, 1280);
+ * layout.x(0.5); // 360
+ * layout.size(90); // 60
+ * ```
+ */
+export class VideoLayout {
+    /** Scale of sizes (1 for a 1080 pixel short side) */
+    public readonly scale: number;
+
+    constructor(public readonly width: number, public readonly height: number) {
+        this.scale = Math.min(width, height) / LAYOUT_BASE_SIZE;
+    }
+
+    /**
+     * X position of a fraction of the width
+     */
+    x(fraction: number): number {
+        return Math.round(this.width * fraction);
+    }
+
+    /**
+     * Y position of a fraction of the height
+     */
+    y(fraction: number): number {
+        return Math.round(this.height * fraction);
+    }
+
+    /**
+     * Size scaled to the canvas
+     *
+     * @param size - Size for a 1080 pixel short side
+     */
+    size(size: number): number {
+        return Math.round(size * this.scale);
+    }
+}
@@ -0,0 +1,103 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { VideoDataType } from "./videogen";
+import { getVideoType, hasVideoType } from "./registry";
+
+/**
+ * Problem found in generated video data
+ */
+export interface ReviewIssue {
+    /** Top level field to revise (ex. 'questions') */
+    field: string;
+    /** Path of the value with the problem (ex. 'questions.0.answer') */
+    path: string;
+    /** Rule name (ex. 'answer-length') */
+    rule: string;
+    /** Readable message (also given to the AI) */
+    message: string;
+}
+
+/**
+ * Field revised by the AI
+ */
+export interface ReviewFix {
+    /** Field name */
+    field: string;
+    /** Issues that were fixed */
+    issues: ReviewIssue[];
+    /** Value before revision */
+    before: unknown;
+    /** Value after revision */
+    after: unknown;
+}
+
+/**
+ * Report of the review stage
+ */
+export interface ReviewReport {
+    /** Issues found in the generated data */
+    issues: ReviewIssue[];
+    /** Fields revised by the AI */
+    fixed: ReviewFix[];
+    /** Issues still in the final data */
+    remaining: ReviewIssue[];
+}
+
+/**
+ * Review rule for video data
+ * @returns Issues found (empty if none)
+ */
+export type ReviewRule<T> = (data: T) => ReviewIssue[];
+
+/** Words not allowed in any text of a video */
+const PROFANITY_REGEX = /\b(fuck\w*|shit\w*|bitch\w*|bastards?|assholes?|cunts?|motherfuck\w*)\b/i;
+
+/**
+ * Find profanity in every text of the video data
+ */
+export function findProfanity(data: VideoDataType): ReviewIssue[] {
+    const issues: ReviewIssue[] = [];
+
+    const visit = (value: unknown, path: string[]) => {
+        if (typeof value == "string") {
+            const match = value.match(PROFANITY_REGEX);
+            if (match) {
+                issues.push({ field: path[0], path: path.join("."), rule: "profanity", message: `'${path.join(".")}' contains profanity ('${match[0]}')` });
+            }
+        } else if (Array.isArray(value)) {
+            value.forEach((item, i) => visit(item, [...path, String(i)]));
+        } else if (typeof value == "object" && value != null) {
+            Object.entries(value).forEach(([key, item]) => visit(item, [...path, key]));
+        }
+    };
+
+    Object.entries(data).forEach(([key, value]) => visit(value, [key]));
+
+    return issues;
+}
+
+/**
+ * Run review rules of video type and profanity check
+ *
+ * @param data - Video data
+ * @returns Issues found (empty if none)
+ */
+export function reviewVideoData(data: VideoDataType): ReviewIssue[] {
+    return [...runTypeRules(data), ...findProfanity(data)];
+}
+
+/**
+ * Create report without revisions (ex. for data that was not generated by AI)
+ */
+export function createReviewReport(data: VideoDataType): ReviewReport {
+    const issues = reviewVideoData(data);
+    return { issues, fixed: [], remaining: issues };
+}
+
+/**
+ * Run review rules of the video type
+ */
+function runTypeRules(data: VideoDataType): ReviewIssue[] {
+    const rules = hasVideoType(data.type) ? getVideoType(data.type).reviewRules ?? [] : [];
+    return rules.flatMap((rule) => rule(data));
+}
@@ -0,0 +1,173 @@
+// Copyright (c) 2024 Shafil Alam
+
+import Ajv, { ErrorObject, SchemaObject, ValidateFunction } from "ajv";
+
+import { VideoDataType, VideoGenType } from "./videogen";
+import { getVideoType } from "./registry";
+
+/** Shared validator instance (compiled schemas are cached by Ajv) */
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/**
+ * Compiled validator of a video type (or one of its fields)
+ */
+interface CachedValidator {
+    /** Schema of the registered video type it was made from */
+    typeSchema: SchemaObject;
+    /** Compiled schema */
+    schema: SchemaObject;
+    /** Validate function */
+    validate: ValidateFunction;
+}
+
+/** Validators by video type and field (Ajv caches by schema object, so schemas made per call are never freed) */
+const validators = new Map<string, CachedValidator>();
+
+/** Field schemas by video type and field */
+const fieldSchemas = new Map<string, { typeSchema: SchemaObject, schema: SchemaObject }>();
+
+/**
+ * Get the compiled validator of a video type or field
+ * (compiled again if the video type was registered again with another schema)
+ *
+ * @param key Video type, or video type and field
+ * @param typeSchema Schema of the registered video type
+ * @param schema Schema to compile
+ */
+function getValidator(key: string, typeSchema: SchemaObject, schema: SchemaObject): ValidateFunction {
+    const cached = validators.get(key);
+    if (cached?.typeSchema === typeSchema) {
+        return cached.validate;
+    }
+
+    if (cached) ajv.removeSchema(cached.schema);
+
+    const validate = ajv.compile(schema);
+    validators.set(key, { typeSchema, schema, validate });
+    return validate;
+}
+
+/**
+ * Function to convert video type to JSON schema (schema of the registered video type)
+ *
+ * @throws Error if the video type is not registered
+ */
+export function convertVideoTypeToSchema(videoType: VideoGenType): SchemaObject {
+    return getVideoType(videoType).schema;
+}
+
+/**
+ * Get the schema of a single field wrapped in an object (ex. `{"title": ""}`)
+ * This matches the template given to the AI for each field prompt.
+ *
+ * @param videoType Video type
+ * @param field Field name
+ * @returns JSON schema for the field object
+ */
+export function getFieldSchema(videoType: VideoGenType, field: string): SchemaObject {
+    const typeSchema = convertVideoTypeToSchema(videoType);
+    const key = `${videoType}:${field}`;
+    const cached = fieldSchemas.get(key);
+    if (cached?.typeSchema === typeSchema) {
+        return cached.schema;
+    }
+
+    const schema = {
+        type: "object",
+        properties: { [field]: typeSchema.properties?.[field] ?? {} },
+        required: [field],
+    };
+    fieldSchemas.set(key, { typeSchema, schema });
+    return schema;
+}
+
+/**
+ * Validate a single field value against the schema of the video type
+ *
+ * @param videoType Video type
+ * @param field Field name
+ * @param value Field value
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateVideoField(videoType: VideoGenType, field: string, value: unknown): string[] {
+    const validate = getValidator(`${videoType}:${field}`, convertVideoTypeToSchema(videoType), getFieldSchema(videoType, field));
+
+    if (validate({ [field]: value })) {
+        return [];
+    }
+
+    return formatErrors(validate.errors, field);
+}
+
+/**
+ * Validate full video data against the schema of its type
+ *
+ * @param data Video data
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateVideoData(data: VideoDataType): string[] {
+    const typeSchema = convertVideoTypeToSchema(data.type as VideoGenType);
+    const validate = getValidator(data.type, typeSchema, typeSchema);
+
+    if (validate(data)) {
+        return [];
+    }
+
+    return formatErrors(validate.errors);
+}
+
+/**
+ * Validate any value against a JSON schema
+ *
+ * @param schema JSON schema
+ * @param value Value to validate
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateSchema(schema: SchemaObject, value: unknown): string[] {
+    const validate = ajv.compile(schema);
+
+    if (validate(value)) {
+        return [];
+    }
+
+    return formatErrors(validate.errors);
+}
+
+/**
+ * Parse JSON from an AI response
+ *
+ * Models often wrap JSON in markdown code blocks or add text around it,
+ * so the first JSON object or array in the response is used.
+ *
+ * @param response AI response
+ * @returns Parsed JSON
+ * @throws Error if no valid JSON is found
+ */
+export function parseJsonResponse(response: string): unknown {
+    const text = response.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        // Try again with the outermost JSON object or array in the text
+        const start = text.search(/[{[]/);
+        const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+
+        if (start == -1 || end <= start) {
+            throw error;
+        }
+
+        return JSON.parse(text.substring(start, end + 1));
+    }
+}
+
+/**
+ * Convert Ajv errors to readable messages
+ */
+function formatErrors(errors: ErrorObject[] | null | undefined, root?: string): string[] {
+    return (errors ?? []).map((error) => {
+        const where = error.instancePath ? error.instancePath.substring(1).replace(/\//g, ".") : (root ?? "data");
+        const allowed = error.params?.allowedValues ? ` (${error.params.allowedValues.join(", ")})` : "";
+        return `'${where}' ${error.message}${allowed}`;
+    });
+}
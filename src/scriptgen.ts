@@ -0,0 +1,737 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { AIGenerationMode, AIOptions, ChatMessage, ChatProvider, ChatRequestOptions } from "./ai";
+import { VideoDataType, VideoGenType } from "./videogen";
+import { buildVideoTypePrompt, DEFAULT_VIDEO_TYPE, getVideoTypeNames } from "./registry";
+import { convertVideoTypeToSchema, getFieldSchema, parseJsonResponse, validateVideoData, validateVideoField } from "./schema";
+import { ReviewFix, ReviewIssue, ReviewReport, reviewVideoData } from "./review";
+import { AIUsageTracker, estimateMessageTokens, estimateTokens } from "./usage";
+import { AIProvenance } from "./fallback";
+import { AIMalformedOutputError, AIRefusalError, classifyAIError, isRefusal } from "./errors";
+import { diffVideoData } from "./refine";
+import { getFieldPrompts } from "./prompts";
+import { buildDurationPrompt, DurationEstimate, DurationPlanner } from "./duration";
+import { getVideoLocale, VideoLocale } from "./locale";
+import { buildSourcePrompt, SourceContext } from "./sources";
+import type { TopicVideoData } from "./types/topicVid";
+import { buildImageAlternatesPrompt, DEFAULT_IMAGE_ALTERNATES, getImageQueries, ImageAlternates, imageAlternatesSchema, parseImageAlternates } from "./imagequery";
+import { buildMetadataPrompt, checkPlatformMetadata, fitPlatformMetadata, parsePlatformMetadata, platformMetadataSchema, UploadPlatform, VideoMetadata } from "./metadata";
+
+/** Default number of repair turns for each field */
+export const DEFAULT_MAX_REPAIR_TURNS = 2;
+
+/**
+ * Field that the AI could not produce
+ */
+export interface AIFieldError {
+    /** Field name */
+    field: string;
+    /** Validation errors of the last response */
+    errors: string[];
+    /** Last AI response for the field */
+    response: string;
+}
+
+/**
+ * Error thrown when the AI response could not be turned into valid video data
+ */
+export class AIOutputError extends AIMalformedOutputError {
+    /** Video type that was requested */
+    public videoType: VideoGenType;
+    /** Fields that could not be produced */
+    public fields: AIFieldError[];
+
+    constructor(videoType: VideoGenType, fields: AIFieldError[]) {
+        const list = fields.map((field) => `'${field.field}' (${field.errors.join("; ")})`).join(", ");
+        super(`AI could not produce valid data for ${videoType} video field(s): ${list}`);
+        this.name = "AIOutputError";
+        this.videoType = videoType;
+        this.fields = fields;
+    }
+}
+
+/**
+ * Provider-agnostic script generation driver
+ *
+ * Asks the AI provider for the video type, then for each field of the type
+ * in the same conversation. Every field is validated with the JSON schema of
+ * the video type and invalid responses are sent back to be repaired.
+ *
+ * In single mode the whole video object is asked for in one request using the
+ * provider's structured output (falls back to asking for each field).
+ *
+ * @example
+ * ```typescript
+ * const driver = new ScriptDriver(new OllamaAIGen(), console.info);
+ * const data = await driver.generate(BUILTIN_AI_SYSTEM_PROMPT, "make a quiz about space");
+ * ```
+ */
+export class ScriptDriver {
+    /** Conversation with the AI provider */
+    public messages: ChatMessage[] = [];
+    /** Tokens, time and cost of every request */
+    public usage: AIUsageTracker;
+    /** Provider and model that produced each field (changes if a fallback chain fails over) */
+    public provenance: Record<string, AIProvenance> = {};
+
+    /** Provider and model of the last response */
+    protected lastProvenance?: AIProvenance;
+
+    /** AI provider */
+    protected provider: ChatProvider;
+    /** Log function */
+    protected log: (msg: string) => void;
+    /** AI options */
+    protected options?: AIOptions;
+
+    /**
+     * @param provider - AI provider
+     * @param log - Log function
+     * @param options - AI options
+     */
+    constructor(provider: ChatProvider, log: (msg: string) => void = () => {}, options?: AIOptions) {
+        this.provider = provider;
+        this.log = log;
+        this.options = options;
+        this.usage = options?.usage ?? new AIUsageTracker();
+    }
+
+    /** Label of provider used for logs (ex. 'OpenAI gpt-4o-mini') */
+    get label(): string {
+        return `${this.provider.name} ${this.provider.model}`;
+    }
+
+    /**
+     * Generate video data from user prompt
+     *
+     * @param systemPrompt - System prompt
+     * @param userPrompt - User prompt
+     * @returns Validated video data
+     * @throws AIOutputError if any field could not be produced
+     */
+    async generate(systemPrompt: string, userPrompt: string): Promise<VideoDataType> {
+        this.log(`Using ${this.provider.name} model: ${this.provider.model}`);
+
+        this.messages = [{ role: "system", content: systemPrompt }];
+        this.provenance = {};
+
+        const videoType = await this.askVideoType(userPrompt);
+
+        if (this.options?.mode == AIGenerationMode.Single) {
+            if (this.provider.capabilities?.structuredOutput === false) {
+                this.log(`[*] ${this.provider.name} does not support structured output, asking for each field instead`);
+            } else {
+                const videoData = await this.askVideo(videoType);
+                if (videoData) return videoData;
+
+                this.log(`[*] (${this.label}) Could not generate full video in one request, asking for each field instead`);
+            }
+        }
+
+        return await this.askFields(videoType);
+    }
+
+    /**
+     * Send prompt in the current conversation
+     * (usage is recorded, token counts are estimated if the provider gives none)
+     *
+     * @param prompt - User prompt
+     * @param options - Request options
+     * @param label - What the request asks for (used in usage report)
+     * @returns AI response
+     * @throws AIError (classified, ex. AIRateLimitError) if the request fails
+     */
+    async ask(prompt: string, options?: ChatRequestOptions, label: string = "prompt"): Promise<string> {
+        this.messages.push({ role: "user", content: prompt });
+
+        const start = Date.now();
+
+        const response = await this.provider.stream(this.messages, (chunk) => {
+            if (chunk.trim()) this.log(`AI Response chunk -> ${chunk.trim()}`);
+        }, options).catch((error) => {
+            throw classifyAIError(error, this.provider.name);
+        });
+
+        this.lastProvenance = { provider: response.provider ?? this.provider.name, model: response.model ?? this.provider.model };
+
+        this.usage.record({
+            ...this.lastProvenance,
+            label: label,
+            promptTokens: response.usage?.promptTokens ?? estimateMessageTokens(this.messages),
+            completionTokens: response.usage?.completionTokens ?? estimateTokens(response.text),
+            estimated: !response.usage,
+            durationMs: Date.now() - start,
+        });
+
+        this.messages.push({ role: "assistant", content: response.text });
+
+        return response.text;
+    }
+
+    /**
+     * Generate a topic video from sources (the AI writes the text and images only from the sources)
+     *
+     * @param systemPrompt - System prompt
+     * @param userPrompt - User prompt
+     * @param sources - Source chunks and citations
+     * @returns Validated topic video data with the citations in 'sources' (shown on screen if `showSources` of the AI options is set)
+     * @throws AIOutputError if any field could not be produced
+     */
+    async generateFromSources(systemPrompt: string, userPrompt: string, sources: SourceContext): Promise<VideoDataType> {
+        this.log(`Using ${this.provider.name} model: ${this.provider.model}`);
+        this.log(`(${this.label}) Writing topic video from ${sources.citations.length} source(s)`);
+
+        // The user prompt is part of the system prompt, so every field is asked the same way as without sources
+        this.messages = [{ role: "system", content: `${systemPrompt}
+${buildSourcePrompt(sources)}
+
+The user asked for: ${userPrompt}` }];
+        this.provenance = {};
+
+        const videoData = await this.askFields(VideoGenType.TopicVideo) as TopicVideoData;
+
+        return { ...videoData, sources: sources.citations, ...(this.options?.showSources ? { showSources: true } : {}) };
+    }
+
+    /**
+     * Ask the AI for the type of video the user wants
+     *
+     * @param userPrompt - User prompt
+     * @returns Video type (defaults to topic if AI gives an invalid type)
+     * @throws AIRefusalError if the AI refuses the prompt
+     */
+    async askVideoType(userPrompt: string): Promise<VideoGenType> {
+        const res = await this.ask((this.options?.prompts?.typePrompt ?? buildVideoTypePrompt()) + userPrompt, undefined, "type");
+
+        let videoType = parseVideoType(res);
+
+        if (!videoType && isRefusal(res)) {
+            throw new AIRefusalError(`AI refused the prompt: '${res.trim()}'`, this.provider.name);
+        }
+
+        if (!videoType) {
+            this.log(`[*] Invalid video type (defaulting to ${DEFAULT_VIDEO_TYPE}): '${res.trim()}'`);
+            videoType = DEFAULT_VIDEO_TYPE as VideoGenType;
+        }
+
+        this.log(`(${this.label}) AI said video type is '${videoType}'`);
+        this.setProvenance(["type"]);
+
+        return videoType;
+    }
+
+    /**
+     * Ask the AI for the whole video object in one request with structured output
+     *
+     * @param videoGenType - Video type
+     * @returns Validated video data or undefined if the AI could not produce it
+     */
+    async askVideo(videoGenType: VideoGenType): Promise<VideoDataType | undefined> {
+        const prompt = buildVideoPrompt(getFieldPrompts(videoGenType, this.options?.prompts));
+        const maxRepairTurns = this.options?.maxRepairTurns ?? DEFAULT_MAX_REPAIR_TURNS;
+        const requestOptions = { json: true, structured: true, schema: convertVideoTypeToSchema(videoGenType) };
+
+        this.log(`(${this.label}) Will ask AI for full ${videoGenType} video`);
+
+        let res = await this.ask(prompt, requestOptions, "video");
+
+        for (let turn = 0; ; turn++) {
+            this.log(`(${this.label}) AI said video is '${res}'`);
+
+            const video = parseVideo(videoGenType, res);
+
+            if (video.errors.length == 0) {
+                this.setProvenance(Object.keys(video.value ?? {}).filter((key) => key != "type"));
+                return video.value;
+            }
+
+            if (turn >= maxRepairTurns) {
+                this.log(`(${this.label}) Giving up on full video: ${video.errors.join("; ")}`);
+                return undefined;
+            }
+
+            this.log(`(${this.label}) Invalid response for video (repair ${turn + 1}/${maxRepairTurns}): ${video.errors.join("; ")}`);
+
+            res = await this.ask(buildRepairPrompt("video", prompt, video.errors), requestOptions, "repair:video");
+        }
+    }
+
+    /**
+     * Review generated video data and ask the AI to revise fields with issues
+     * (ex. quiz answers too long for the screen, rankings and images of different length)
+     *
+     * Only fields with issues are sent back and a revision is only kept if it
+     * is valid and has fewer issues.
+     *
+     * @param videoData - Validated video data
+     * @returns Revised video data and review report
+     */
+    async review(videoData: VideoDataType): Promise<ScriptReview> {
+        const videoGenType = videoData.type as VideoGenType;
+        const maxTurns = Math.max(this.options?.maxRepairTurns ?? DEFAULT_MAX_REPAIR_TURNS, 1);
+
+        const issues = reviewVideoData(videoData);
+        const fixed: ReviewFix[] = [];
+
+        let data = videoData;
+
+        for (const field of new Set(issues.map((issue) => issue.field))) {
+            let fieldIssues = issues.filter((issue) => issue.field == field);
+            const before = (data as unknown as Record<string, unknown>)[field];
+
+            this.log(`(${this.label}) Review found issues in field '${field}': ${fieldIssues.map((issue) => issue.message).join("; ")}`);
+
+            for (let turn = 1; fieldIssues.length > 0 && turn <= maxTurns; turn++) {
+                const current = (data as unknown as Record<string, unknown>)[field];
+                const res = await this.ask(buildRevisePrompt(field, current, fieldIssues), { json: true, schema: getFieldSchema(videoGenType, field) }, `review:${field}`);
+
+                const revision = parseVideoField(videoGenType, field, res);
+                if (revision.errors.length > 0) {
+                    this.log(`(${this.label}) Invalid revision for field '${field}' (${turn}/${maxTurns}): ${revision.errors.join("; ")}`);
+                    continue;
+                }
+
+                const revised = { ...data, [field]: revision.value } as VideoDataType;
+                const revisedIssues = reviewVideoData(revised).filter((issue) => issue.field == field);
+
+                if (revisedIssues.length >= fieldIssues.length) {
+                    this.log(`(${this.label}) Revision for field '${field}' did not fix issues (${turn}/${maxTurns})`);
+                    continue;
+                }
+
+                data = revised;
+                fieldIssues = revisedIssues;
+                this.setProvenance([field]);
+            }
+
+            const after = (data as unknown as Record<string, unknown>)[field];
+
+            if (after !== before) {
+                const fixedIssues = issues.filter((issue) => issue.field == field && !fieldIssues.some((left) => left.path == issue.path && left.rule == issue.rule));
+                fixed.push({ field, issues: fixedIssues, before, after });
+                this.log(`(${this.label}) Revised field '${field}' (fixed ${fixedIssues.length} issue(s))`);
+            }
+        }
+
+        return { data, report: { issues, fixed, remaining: reviewVideoData(data) } };
+    }
+
+    /**
+     * Ask the AI to expand or trim spoken fields until the estimated duration
+     * is within tolerance of the target (a revision is only kept if it is valid
+     * and closer to the target)
+     *
+     * @param videoData - Validated video data
+     * @param planner - Duration planner with target and speaking rate
+     * @returns Fitted video data, its estimate and number of turns
+     */
+    async fitDuration(videoData: VideoDataType, planner: DurationPlanner): Promise<DurationFit> {
+        const videoGenType = videoData.type as VideoGenType;
+        const properties = convertVideoTypeToSchema(videoGenType).properties ?? {};
+
+        let data = videoData;
+        let estimate = planner.estimate(data);
+        let turns = 0;
+
+        while (!planner.isWithinTarget(estimate.seconds) && turns < planner.target.maxTurns) {
+            turns++;
+
+            const fields = Object.keys(estimate.fields).filter((field) => field in properties);
+            const current = Object.fromEntries(fields.map((field) => [field, (data as unknown as Record<string, unknown>)[field]]));
+            const schema = { type: "object", properties: Object.fromEntries(fields.map((field) => [field, properties[field]])), required: fields };
+
+            this.log(`(${this.label}) Estimated duration is ${Math.round(estimate.seconds)}s (target ${planner.target.seconds}s), asking AI to fit fields ${fields.join(", ")} (${turns}/${planner.target.maxTurns})`);
+
+            const res = await this.ask(buildDurationPrompt(current, estimate, planner), { json: true, schema }, "duration");
+
+            const revisions = fields.map((field) => ({ field, ...parseVideoField(videoGenType, field, res) }));
+            const errors = revisions.flatMap((revision) => revision.errors);
+
+            if (errors.length > 0) {
+                this.log(`(${this.label}) Invalid duration revision (${turns}/${planner.target.maxTurns}): ${errors.join("; ")}`);
+                continue;
+            }
+
+            const revised = { ...data, ...Object.fromEntries(revisions.map((revision) => [revision.field, revision.value])) } as VideoDataType;
+            const revisedEstimate = planner.estimate(revised);
+
+            if (Math.abs(revisedEstimate.seconds - planner.target.seconds) >= Math.abs(estimate.seconds - planner.target.seconds)) {
+                this.log(`(${this.label}) Duration revision is not closer to target (${Math.round(revisedEstimate.seconds)}s), keeping script`);
+                continue;
+            }
+
+            data = revised;
+            estimate = revisedEstimate;
+            this.setProvenance(fields);
+        }
+
+        this.log(`(${this.label}) Estimated duration is ${Math.round(estimate.seconds)}s (${estimate.words} words at ${Math.round(planner.wordsPerMinute)} words per minute)`);
+
+        return { data, estimate, turns };
+    }
+
+    /**
+     * Ask the AI to change the video data with an instruction of the user
+     * (sent in the same conversation, so earlier instructions are kept)
+     *
+     * @param videoData - Current video data
+     * @param instruction - What to change (ex. 'make question 3 harder')
+     * @returns Refined video data
+     * @throws AIOutputError if the AI could not produce valid video data
+     * @throws AIRefusalError if the AI refuses the instruction
+     */
+    async refine(videoData: VideoDataType, instruction: string): Promise<VideoDataType> {
+        this.log(`(${this.label}) Will ask AI to refine video: '${instruction}'`);
+        return await this.reviseVideo(videoData, buildRefinePrompt(videoData, instruction), "refine");
+    }
+
+    /**
+     * Ask the AI to translate the spoken and on-screen text of the video data
+     * (image search terms are kept in English)
+     *
+     * @param videoData - Video data
+     * @param locale - Locale of the language to translate to
+     * @returns Translated video data
+     * @throws AIOutputError if the AI could not produce valid video data
+     * @throws AIRefusalError if the AI refuses to translate
+     */
+    async translate(videoData: VideoDataType, locale: VideoLocale): Promise<VideoDataType> {
+        this.log(`(${this.label}) Will ask AI to translate video to ${locale.name}`);
+        return await this.reviseVideo(videoData, buildTranslatePrompt(videoData, locale), "translate");
+    }
+
+    /**
+     * Ask the AI for the upload metadata (title, description, hashtags and pinned comment) of each platform
+     *
+     * Metadata over the length limits of a platform is sent back to the AI,
+     * and cut to the limits if the AI can not fix it.
+     *
+     * @param videoData - Final video data
+     * @param platforms - Platforms to make metadata for (default: every platform)
+     * @param locale - Locale of the video language (default: English)
+     * @returns Metadata of each platform
+     * @throws AIOutputError if the AI could not produce valid metadata for a platform
+     */
+    async generateMetadata(videoData: VideoDataType, platforms: UploadPlatform[] = Object.values(UploadPlatform), locale: VideoLocale = getVideoLocale()): Promise<VideoMetadata> {
+        const maxRepairTurns = this.options?.maxRepairTurns ?? DEFAULT_MAX_REPAIR_TURNS;
+        const requestOptions = { json: true, schema: platformMetadataSchema };
+        const metadata: VideoMetadata = {};
+
+        for (const platform of platforms) {
+            const label = `metadata:${platform}`;
+            const prompt = buildMetadataPrompt(videoData, platform, locale);
+
+            let res = await this.ask(prompt, requestOptions, label);
+
+            for (let turn = 0; ; turn++) {
+                this.log(`(${this.label}) AI said ${platform} metadata is '${res}'`);
+
+                const parsed = parsePlatformMetadata(res);
+                const errors = parsed.value ? checkPlatformMetadata(platform, parsed.value) : parsed.errors;
+
+                if (parsed.value && (errors.length == 0 || turn >= maxRepairTurns)) {
+                    if (errors.length > 0) this.log(`(${this.label}) Cutting ${platform} metadata to fit limits: ${errors.join("; ")}`);
+                    metadata[platform] = fitPlatformMetadata(platform, parsed.value);
+                    break;
+                }
+
+                if (turn >= maxRepairTurns) {
+                    throw new AIOutputError(videoData.type as VideoGenType, [{ field: label, errors, response: res }]);
+                }
+
+                this.log(`(${this.label}) Invalid ${platform} metadata (repair ${turn + 1}/${maxRepairTurns}): ${errors.join("; ")}`);
+
+                res = await this.ask(buildRepairPrompt(label, prompt, errors), requestOptions, `repair:${label}`);
+            }
+        }
+
+        return metadata;
+    }
+
+    /**
+     * Ask the AI for alternate search terms of each image search term
+     * (the image stage searches every term and picks the best image)
+     *
+     * @param videoData - Final video data
+     * @param count - Number of alternates for each search term (default: 3)
+     * @returns Alternates of each search term (empty if the video has no images)
+     * @throws AIOutputError if the AI could not produce valid alternates
+     */
+    async generateImageAlternates(videoData: VideoDataType, count: number = DEFAULT_IMAGE_ALTERNATES): Promise<ImageAlternates> {
+        const queries = getImageQueries(videoData);
+        if (queries.length == 0) return {};
+
+        const maxRepairTurns = this.options?.maxRepairTurns ?? DEFAULT_MAX_REPAIR_TURNS;
+        const requestOptions = { json: true, schema: imageAlternatesSchema };
+        const label = "imageAlternates";
+        const prompt = buildImageAlternatesPrompt(queries, count);
+
+        let res = await this.ask(prompt, requestOptions, label);
+
+        for (let turn = 0; ; turn++) {
+            this.log(`(${this.label}) AI said image alternates are '${res}'`);
+
+            const parsed = parseImageAlternates(res, queries);
+            if (parsed.value) {
+                return parsed.value;
+            }
+
+            if (turn >= maxRepairTurns) {
+                throw new AIOutputError(videoData.type as VideoGenType, [{ field: label, errors: parsed.errors, response: res }]);
+            }
+
+            this.log(`(${this.label}) Invalid image alternates (repair ${turn + 1}/${maxRepairTurns}): ${parsed.errors.join("; ")}`);
+
+            res = await this.ask(buildRepairPrompt(label, prompt, parsed.errors), requestOptions, `repair:${label}`);
+        }
+    }
+
+    /**
+     * Ask the AI for a revised version of the whole video data
+     * (invalid responses are repaired)
+     *
+     * @param videoData - Current video data
+     * @param prompt - Prompt asking for the revised video
+     * @param label - Label of the request (ex. 'refine')
+     */
+    private async reviseVideo(videoData: VideoDataType, prompt: string, label: string): Promise<VideoDataType> {
+        const videoGenType = videoData.type as VideoGenType;
+        const maxRepairTurns = this.options?.maxRepairTurns ?? DEFAULT_MAX_REPAIR_TURNS;
+        const requestOptions = {
+            json: true,
+            structured: this.provider.capabilities?.structuredOutput !== false,
+            schema: convertVideoTypeToSchema(videoGenType)
+        };
+
+        let res = await this.ask(prompt, requestOptions, label);
+
+        for (let turn = 0; ; turn++) {
+            this.log(`(${this.label}) AI said ${label} video is '${res}'`);
+
+            const video = parseVideo(videoGenType, res);
+
+            if (video.errors.length == 0 && video.value) {
+                // Only fields that changed were produced by this response
+                const changed = diffVideoData(videoData, video.value).map((change) => change.path.split(".")[0]);
+                this.setProvenance([...new Set(changed)]);
+                return video.value;
+            }
+
+            if (isRefusal(res)) {
+                throw new AIRefusalError(`AI refused to ${label} the video: '${res.trim()}'`, this.provider.name);
+            }
+
+            if (turn >= maxRepairTurns) {
+                throw new AIOutputError(videoGenType, [{ field: "video", errors: video.errors, response: res }]);
+            }
+
+            this.log(`(${this.label}) Invalid ${label} video (repair ${turn + 1}/${maxRepairTurns}): ${video.errors.join("; ")}`);
+
+            res = await this.ask(buildRepairPrompt("video", prompt, video.errors), requestOptions, `repair:${label}`);
+        }
+    }
+
+    /**
+     * Ask the AI for each field of the video type
+     *
+     * @param videoGenType - Video type
+     * @returns Validated video data
+     * @throws AIOutputError if any field could not be produced
+     * @throws AIRefusalError if the AI refuses to answer a field
+     */
+    async askFields(videoGenType: VideoGenType): Promise<VideoDataType> {
+        const aiPrompt = getFieldPrompts(videoGenType, this.options?.prompts);
+        const maxRepairTurns = this.options?.maxRepairTurns ?? DEFAULT_MAX_REPAIR_TURNS;
+
+        // Get each prompt from each field and add to JSON
+        const videoJson: Record<string, unknown> = {};
+        const failedFields: AIFieldError[] = [];
+
+        videoJson["type"] = videoGenType;
+
+        for (const [key, prompt] of Object.entries(aiPrompt)) {
+            this.log(`(${this.label}) Will ask AI for field '${key}' with prompt '${prompt}'`);
+
+            const requestOptions = { json: true, schema: getFieldSchema(videoGenType, key) };
+
+            let res = await this.ask(prompt, requestOptions, `field:${key}`);
+            this.log(`(${this.label}) AI said for field '${key}' is '${res}'`);
+
+            let field = parseVideoField(videoGenType, key, res);
+
+            for (let turn = 1; field.errors.length > 0 && turn <= maxRepairTurns; turn++) {
+                this.log(`(${this.label}) Invalid response for field '${key}' (repair ${turn}/${maxRepairTurns}): ${field.errors.join("; ")}`);
+
+                res = await this.ask(buildRepairPrompt(key, prompt, field.errors), requestOptions, `repair:${key}`);
+                this.log(`(${this.label}) AI said for field '${key}' is '${res}'`);
+
+                field = parseVideoField(videoGenType, key, res);
+            }
+
+            if (field.errors.length > 0 && isRefusal(res)) {
+                throw new AIRefusalError(`AI refused to answer field '${key}': '${res.trim()}'`, this.provider.name);
+            }
+
+            if (field.errors.length > 0) {
+                this.log(`(${this.label}) Giving up on field '${key}': ${field.errors.join("; ")}`);
+                failedFields.push({ field: key, errors: field.errors, response: res });
+                continue;
+            }
+
+            videoJson[key] = field.value;
+            this.setProvenance([key]);
+        }
+
+        if (failedFields.length > 0) {
+            throw new AIOutputError(videoGenType, failedFields);
+        }
+
+        const videoData = videoJson as unknown as VideoDataType;
+        const errors = validateVideoData(videoData);
+
+        if (errors.length > 0) {
+            throw new AIOutputError(videoGenType, [{ field: "type", errors, response: JSON.stringify(videoJson) }]);
+        }
+
+        return videoData;
+    }
+
+    /**
+     * Record that the last response produced the given fields
+     */
+    protected setProvenance(fields: string[]) {
+        if (!this.lastProvenance) return;
+
+        for (const field of fields) {
+            this.provenance[field] = this.lastProvenance;
+        }
+    }
+}
+
+/**
+ * Result of the review stage
+ */
+export interface ScriptReview {
+    /** Revised video data */
+    data: VideoDataType;
+    /** Report of what was found and fixed */
+    report: ReviewReport;
+}
+
+/**
+ * Result of fitting video data to a target duration
+ */
+export interface DurationFit {
+    /** Fitted video data */
+    data: VideoDataType;
+    /** Duration estimate of fitted video data */
+    estimate: DurationEstimate;
+    /** Number of times the AI was asked to expand or trim the script */
+    turns: number;
+}
+
+/**
+ * Parse video type from AI response
+ * The response can be a single word (ex. 'quiz') or JSON (ex. `{"type": "quiz"}`).
+ *
+ * @param res - AI response
+ * @returns Video type or undefined if no type matches
+ */
+export function parseVideoType(res: string): VideoGenType | undefined {
+    let typeStr = res;
+
+    try {
+        const json = parseJsonResponse(res);
+        if (typeof json == "object" && json != null && "type" in json) {
+            typeStr = String(json.type);
+        }
+    } catch {
+        // Not JSON, use response as is
+    }
+
+    // Check if AI string matches any registered video type
+    const word = typeStr.trim().replace(/[^a-zA-Z]/g, "").toLowerCase();
+
+    return getVideoTypeNames().find((val) => val === word) as VideoGenType | undefined;
+}
+
+/**
+ * Parse and validate the AI response for a single field
+ * The response can either be the field template (ex. `{"title": ""}`) or the raw value.
+ */
+function parseVideoField(videoGenType: VideoGenType, key: string, res: string): { value?: unknown, errors: string[] } {
+    let jsonRes: unknown;
+
+    try {
+        jsonRes = parseJsonResponse(res);
+    } catch (error) {
+        return { errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    const isTemplate = typeof jsonRes == "object" && jsonRes != null && !Array.isArray(jsonRes) && key in jsonRes;
+    const value = isTemplate ? (jsonRes as Record<string, unknown>)[key] : jsonRes;
+
+    return { value, errors: validateVideoField(videoGenType, key, value) };
+}
+
+/**
+ * Parse and validate the AI response for the whole video object
+ */
+function parseVideo(videoGenType: VideoGenType, res: string): { value?: VideoDataType, errors: string[] } {
+    let jsonRes: unknown;
+
+    try {
+        jsonRes = parseJsonResponse(res);
+    } catch (error) {
+        return { errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    if (typeof jsonRes != "object" || jsonRes == null || Array.isArray(jsonRes)) {
+        return { errors: ["Response must be a JSON object"] };
+    }
+
+    // Type is already known, so it doesn't matter if the AI left it out
+    const value = { ...jsonRes, type: videoGenType } as VideoDataType;
+
+    return { value, errors: validateVideoData(value) };
+}
+
+/**
+ * Build prompt asking the AI for the whole video object (from the prompt of each field)
+ */
+function buildVideoPrompt(fieldPrompts: Record<string, string>): string {
+    const fields = Object.entries(fieldPrompts)
+        .map(([key, prompt]) => `- '${key}': ${prompt}`)
+        .join("\n");
+
+    return `Generate the whole video as one JSON object with the following fields. Only valid JSON, no extra info.\n${fields}`;
+}
+
+/**
+ * Build prompt asking the AI to change the whole video with an instruction of the user
+ */
+function buildRefinePrompt(videoData: VideoDataType, instruction: string): string {
+    return `Change the video as the user asks: '${instruction}'. Only change what the user asks for and keep everything else the same. Current video: ${JSON.stringify(videoData)}. Respond with the whole video as one JSON object with the same fields. Only valid JSON, no extra info.`;
+}
+
+/**
+ * Build prompt asking the AI to translate the whole video
+ */
+function buildTranslatePrompt(videoData: VideoDataType, locale: VideoLocale): string {
+    return `Translate the video to ${locale.name}. Translate every spoken and on-screen text, but keep the JSON field names, the 'type' value, numbers and image search terms the same. Current video: ${JSON.stringify(videoData)}. Respond with the whole video as one JSON object with the same fields. Only valid JSON, no extra info.`;
+}
+
+/**
+ * Build prompt asking the AI to revise a field with review issues
+ */
+function buildRevisePrompt(key: string, value: unknown, issues: ReviewIssue[]): string {
+    const current = JSON.stringify({ [key]: value });
+    return `Revise '${key}' to fix these issues: ${issues.map((issue) => issue.message).join("; ")}. Keep everything else the same. Current value: ${current}. Respond with only valid JSON in the same format.`;
+}
+
+/**
+ * Build prompt asking the AI to fix an invalid field
+ */
+function buildRepairPrompt(key: string, prompt: string, errors: string[]): string {
+    return `Your response for '${key}' is invalid: ${errors.join("; ")}. Respond again with only valid JSON that fixes these errors. Original request: ${prompt}`;
+}
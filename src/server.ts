@@ -8,12 +8,33 @@ import cors from 'cors';
 import fs from 'fs';
 import path from 'path';
 
-import { AIGenType, genVideoDataWithAI, genVideoWithJson, ImageGenType, VoiceGenType } from '.';
-import { AIAPIEnv, AnthropicAIGen, GoogleAIGen, OllamaAIGen, OpenAIGen } from './ai';
+import { AIGenType, genVideoDataWithAI, genVideoWithJson, ImageGenType, planVideo, VideoOptions, VoiceGenType } from '.';
+import { AIAPIEnv, AICapabilities, createChatProvider } from './ai';
 
-import { APIVoiceOptions, VoiceAPIEnv } from './tts';
-import { AIImageGenOptions, ImageAPIEnv } from './image';
+import { APIVoiceOptions } from './tts';
+import { AIImageGenOptions, IMAGE_CHOICES_FILE, ImageChoice } from './image';
 import { SubtitleOptions } from './videogen';
+import { AIPriceTable, AIUsageReport, AIUsageTracker } from './usage';
+import { AIRetryPolicy, parseFallback } from './fallback';
+import { AIError, AIErrorCode, AIRateLimitError, classifyAIError, VideoDataError } from './errors';
+import { ScriptConversation } from './refine';
+import { compareVersions, PromptLibrary, PromptTemplateError, PromptVariables, renderPromptTemplate } from './prompts';
+import { DurationTarget } from './duration';
+import { getVideoLocale, VIDEO_LOCALES } from './locale';
+import { RESOLUTION_PRESETS } from './resolution';
+import { ENCODING_PROFILES, EncodingError, EncodingOptions, VideoContainer } from './encoding';
+import { PLATFORM_LIMITS, UploadPlatform, VideoMetadata } from './metadata';
+import { AIModerator, ContentModerator, KeywordModerator, ModerationError, Moderator } from './moderation';
+import { loadSourceContext, SourceError } from './sources';
+import { getVideoTypes } from './registry';
+import { getImageProviders, getMissingCredentials, getVoiceProviders, ImageProvider, ProviderError, VoiceProvider } from './providers';
+import { isJobId, JOB_MANIFEST_FILE, JobManifest } from './pipeline';
+import { VideoCancelledError } from './task';
+
+/** Max number of AI conversations kept for refinement (oldest is removed first) */
+const MAX_CONVERSATIONS = 100;
+/** Time after which an unused AI conversation is removed (1 hour) */
+const CONVERSATION_TTL_MS = 60 * 60 * 1000;
 
 /**
  * Frontend model for video options
@@ -27,12 +48,36 @@ export interface FrontendVideoOptions {
     aiModel: string;
     /** OpenAI Endpoint */
     openAIEndpoint?: string;
+    /** AI capability overrides (for OpenAI compatible servers) */
+    aiCapabilities?: Partial<AICapabilities>;
+    /** AI providers to use if the AI type keeps failing (in order) */
+    aiFallbacks?: FrontendAIFallback[];
+    /** AI retry policy overrides */
+    aiRetry?: Partial<AIRetryPolicy>;
+    /** Prompt template (name with optional version, ex. 'quiz@1.1.0') */
+    promptTemplate?: string;
+    /** Channel of prompt template */
+    promptChannel?: string;
+    /** Prompt template variables */
+    promptVariables?: PromptVariables;
+    /** Target duration of the video (the AI fits the script to it) */
+    duration?: DurationTarget;
+    /** Platforms to make upload metadata for (default: every platform, false to skip) */
+    metadataPlatforms?: UploadPlatform[] | false;
+    /** URLs of HTML pages or RSS/Atom feeds to write a topic video from (local files are not allowed) */
+    sources?: string[];
+    /** Show the sources as an on-screen caption */
+    showSources?: boolean;
+    /** Number of alternate search terms for each image (default: 3, 0 to skip) */
+    imageAlternates?: number;
     /** Voice generation type */
     voiceGenType: string; // TODO: Fix typing
     /** Image generation type */
     imageGenType: string; // TODO: Fix typing
     /** Video orientation */
     orientation: string;
+    /** Language of the video (ex. 'es', default: 'en') */
+    language?: string;
     /** Custom background video path */
     vidPath?: string;
     /** Custom background music path */
@@ -49,6 +94,20 @@ export interface FrontendVideoOptions {
     imageOptions?: AIImageGenOptions; // Frontend and backend model is same
     /** TTS options */
     ttsOptions?: APIVoiceOptions; // Frontend and backend model is same
+    /** Encoding profile and settings (ex. { profile: 'webm' } or { profile: 'shorts', targetSizeMB: 50 }) */
+    encoding?: EncodingOptions; // Frontend and backend model is same
+}
+
+/**
+ * Frontend model for fallback AI provider
+ */
+export interface FrontendAIFallback {
+    /** AI Type */
+    aiType: string;
+    /** AI Model */
+    aiModel?: string;
+    /** OpenAI Endpoint */
+    openAIEndpoint?: string;
 }
 
 /**
@@ -73,6 +132,129 @@ export interface APIVideoData {
     options: FrontendVideoOptions;
     /** Video data */
     data: any; // TODO: Fix typing
+    /** Usage report from /generateAIJSON (saved with the video) */
+    usage?: AIUsageReport;
+    /** Upload metadata from /generateAIJSON or /generateMetadata (saved as 'metadata.json' with the video) */
+    metadata?: VideoMetadata;
+    /** Image choices of an earlier render from /getImageChoices (images are not searched again) */
+    imageChoices?: ImageChoice[];
+    /** Job id of an earlier render to resume (default: made from the video data) */
+    jobId?: string;
+    /** Stages to run again even if their inputs are unchanged (ex. ['images']) */
+    rerunStages?: string[];
+}
+
+/**
+ * Model for refining video data of an earlier /generateAIJSON request
+ */
+export interface APIRefineData {
+    /** Conversation id returned by /generateAIJSON */
+    conversationId: string;
+    /** What to change (ex. 'make question 3 harder') */
+    instruction: string;
+}
+
+/**
+ * Model for making upload metadata of the video data of an earlier /generateAIJSON request (ex. after refinements)
+ */
+export interface APIMetadataData {
+    /** Conversation id returned by /generateAIJSON */
+    conversationId: string;
+    /** Platforms to make metadata for (default: every platform) */
+    platforms?: UploadPlatform[];
+    /** Language of the video (ex. 'es', default: 'en') */
+    language?: string;
+}
+
+/**
+ * Get platforms that are not upload platforms
+ */
+function getUnknownPlatforms(platforms?: UploadPlatform[] | false): string[] {
+    return (platforms || []).filter((platform) => !Object.values(UploadPlatform).includes(platform));
+}
+
+/**
+ * Get job folder of a video id from a request
+ * (undefined if the id is not a plain job id, so files outside the temp folder can not be read)
+ */
+function getJobFolder(tempPath: string, videoId: unknown): string | undefined {
+    return isJobId(videoId) ? path.join(tempPath, videoId) : undefined;
+}
+
+/**
+ * Get HTTP status of error
+ * (AI errors are mapped by error code, invalid video data is a bad request, moderated content is unprocessable)
+ */
+function getErrorStatus(err: unknown): number {
+    if (err instanceof VideoDataError || err instanceof PromptTemplateError || err instanceof SourceError || err instanceof ProviderError || err instanceof EncodingError) return 400;
+    if (err instanceof ModerationError) return 422;
+    if (!(err instanceof AIError)) return 500;
+
+    switch (err.code) {
+        case AIErrorCode.Auth:
+            return 401;
+        case AIErrorCode.RateLimit:
+            return 429;
+        case AIErrorCode.ModelNotFound:
+            return 404;
+        case AIErrorCode.Connection:
+            return 503;
+        case AIErrorCode.Refusal:
+            return 422;
+        default:
+            return 502;
+    }
+}
+
+/**
+ * Send error response with HTTP status and error code of error
+ */
+function sendError(res: express.Response, err: unknown) {
+    if (err instanceof AIRateLimitError && err.retryAfterMs) {
+        res.setHeader('Retry-After', Math.ceil(err.retryAfterMs / 1000));
+    }
+
+    res.status(getErrorStatus(err)).json({
+        error: "Internal server error: " + ((err as Error).message ?? String(err)),
+        code: err instanceof AIError ? err.code : undefined,
+        rejection: err instanceof ModerationError ? err.result : undefined
+    });
+}
+
+/**
+ * Get video options of a video request (background files are resolved in the res folder)
+ */
+function getVideoOptions(data: APIVideoData, resPath: string, moderation: ContentModerator): VideoOptions {
+    const options = data.options;
+    return {
+        tempPath: 'video_temp',
+        resPath: 'res',
+        voiceGenType: options.voiceGenType as VoiceGenType,
+        imageGenType: options.imageGenType as ImageGenType,
+        orientation: options.orientation,
+        language: options.language,
+        moderation: moderation,
+        vidPath: options.vidPath == undefined ? undefined : path.join(resPath, 'vid', options.vidPath ?? ""),
+        bgPath: options.bgPath == undefined ? undefined : path.join(resPath, 'music', options.bgPath ?? ""),
+        useBgMusic: options.useBgMusic,
+        useBgVideo: options.useBgVideo,
+        subtitleOptions: options.subtitleOptions,
+        imageOptions: options.imageOptions,
+        ttsOptions: options.ttsOptions,
+        encoding: options.encoding,
+        aiUsage: data.usage,
+        metadata: data.metadata,
+        imageChoices: data.imageChoices,
+        jobId: data.jobId,
+        rerunStages: data.rerunStages,
+        internalOptions: {
+            debug: false,
+            changePhotos: options.internalOptions?.changePhotos ?? true,
+            disableTTS: options.internalOptions?.disableTTS ?? false,
+            disableSubtitles: options.internalOptions?.disableSubtitles ?? false,
+            useMock: options.internalOptions?.useMock ?? false
+        }
+    };
 }
 
 export async function runAPIServer() {
@@ -81,6 +263,9 @@ export async function runAPIServer() {
 
     console.info('[*] Note: Make sure to set the following environment variables (in .env):');
     console.info('SERVER_IP', 'SERVER_PORT', 'SERVER_RES_PATH', 'SERVER_TEMP_PATH');
+    console.info('(Optional) SERVER_AI_PRICES_PATH: JSON file with AI model prices for cost reports');
+    console.info('(Optional) SERVER_PROMPTS_PATH: Folder with prompt template files');
+    console.info('(Optional) SERVER_MODERATION_AI: AI classifier for moderation (ex. OllamaAIGen:llama3.1, keyword rules are always used)');
 
     const ip = process.env.SERVER_IP;
     const portStr = process.env.SERVER_PORT;
@@ -134,6 +319,59 @@ export async function runAPIServer() {
         return;
     }
 
+    // Load AI prices (added to the default price table)
+    let aiPrices: AIPriceTable | undefined;
+    const aiPricesPath = process.env.SERVER_AI_PRICES_PATH;
+
+    if (aiPricesPath) {
+        if (!fs.existsSync(aiPricesPath)) {
+            console.error('Error: AI_PRICES_PATH does not exist!');
+            return;
+        }
+
+        aiPrices = JSON.parse(fs.readFileSync(aiPricesPath, 'utf8'));
+        console.info('-> Using AI_PRICES_PATH: ' + aiPricesPath);
+    }
+
+    // Load prompt templates
+    let prompts = new PromptLibrary();
+    const promptsPath = process.env.SERVER_PROMPTS_PATH;
+
+    if (promptsPath) {
+        if (!fs.existsSync(promptsPath)) {
+            console.error('Error: PROMPTS_PATH does not exist!');
+            return;
+        }
+
+        try {
+            prompts = PromptLibrary.load(promptsPath);
+        } catch (e) {
+            console.error('Error: ' + (e as Error).message);
+            return;
+        }
+
+        console.info(`-> Using PROMPTS_PATH: ${promptsPath} (${prompts.list().length} template(s))`);
+    }
+
+    // Moderation of prompts and video data (keyword rules and optional AI classifier)
+    const moderators: Moderator[] = [new KeywordModerator()];
+    const moderationAIStr = process.env.SERVER_MODERATION_AI;
+
+    if (moderationAIStr) {
+        try {
+            const moderationAI = parseFallback(moderationAIStr);
+            const provider = createChatProvider(moderationAI.type, process.env[AIAPIEnv[moderationAI.type as keyof typeof AIAPIEnv]], { model: moderationAI.model, endpoint: moderationAI.endpoint });
+            moderators.push(new AIModerator(provider));
+        } catch (e) {
+            console.error('Error: ' + (e as Error).message);
+            return;
+        }
+
+        console.info('-> Using MODERATION_AI: ' + moderationAIStr);
+    }
+
+    const moderation = new ContentModerator(moderators);
+
     // Start the server
     const app = express();
 
@@ -153,13 +391,32 @@ export async function runAPIServer() {
 
     const root = '/api/v1';
 
+    // AI conversations that can be refined (by conversation id)
+    const conversations = new Map<string, ScriptConversation>();
+
+    /**
+     * Keep AI conversation for refinement (removes unused and oldest conversations)
+     */
+    function keepConversation(conversation: ScriptConversation) {
+        for (const [id, old] of conversations) {
+            if (Date.now() - old.lastUsed > CONVERSATION_TTL_MS) conversations.delete(id);
+        }
+
+        while (conversations.size >= MAX_CONVERSATIONS) {
+            conversations.delete(conversations.keys().next().value as string);
+        }
+
+        conversations.set(conversation.id, conversation);
+    }
+
     // TODO: Cache API responses and test output speed for production scale
 
     /**
      * Generate video data with AI
      * POST /generateAIJSON
      * Request body: FrontendVideoData with AI prompt
-     * Response: JSON data
+     * Response: JSON data, review report, usage report (tokens, time and cost), provider of each field
+     * conversation id (to refine the JSON data with /refineAIJSON), duration report (if a target duration was set) and upload metadata
      */
     app.post(`${root}/generateAIJSON`, async (req, res) => {
         try {
@@ -177,6 +434,59 @@ export async function runAPIServer() {
 
             const data: FrontendVideoOptions = json as FrontendVideoOptions;
 
+            // Check fallback AI types
+            const invalidFallback = data.aiFallbacks?.find((fallback) => !Object.keys(AIGenType).includes(fallback.aiType));
+            if (invalidFallback) {
+                res.status(400).json({
+                    error: `Invalid fallback AI type! (type=${invalidFallback.aiType})`
+                });
+                return;
+            }
+
+            // Check language
+            let locale;
+            try {
+                locale = getVideoLocale(data.language);
+            } catch (err) {
+                res.status(400).json({
+                    error: (err as Error).message
+                });
+                return;
+            }
+
+            // Check target duration
+            if (data.duration && !(data.duration.seconds > 0)) {
+                res.status(400).json({
+                    error: `Invalid target duration! (seconds=${data.duration.seconds})`
+                });
+                return;
+            }
+
+            // Check upload platforms
+            const unknownPlatforms = getUnknownPlatforms(data.metadataPlatforms);
+            if (unknownPlatforms.length > 0) {
+                res.status(400).json({
+                    error: `Invalid upload platform! (platform=${unknownPlatforms.join(", ")})`
+                });
+                return;
+            }
+
+            // Check sources (only URLs, so files of the server can not be read)
+            const invalidSource = data.sources?.find((source) => !/^https?:\/\//i.test(source));
+            if (invalidSource) {
+                res.status(400).json({
+                    error: `Invalid source! Only http(s) URLs are allowed. (source=${invalidSource})`
+                });
+                return;
+            }
+
+            const sources = data.sources?.length ? await loadSourceContext(data.sources) : undefined;
+
+            // Fill in prompt template (if selected)
+            const aiPrompts = data.promptTemplate
+                ? renderPromptTemplate(prompts.get(data.promptTemplate), { channel: data.promptChannel, variables: { language: locale.name, ...(data.duration ? { duration: data.duration.seconds } : {}), ...data.promptVariables } })
+                : undefined;
+
             // Convert AI type to respective API key
             let aiAPIKey;
             if (data.aiType === AIGenType.OpenAIGen) {
@@ -185,6 +495,8 @@ export async function runAPIServer() {
                 aiAPIKey = process.env[AIAPIEnv.GoogleAIGen];
             } else if (data.aiType === AIGenType.AnthropicAIGen) {
                 aiAPIKey = process.env[AIAPIEnv.AnthropicAIGen];
+            } else if (data.aiType === AIGenType.OpenAICompatibleAIGen) {
+                aiAPIKey = process.env[AIAPIEnv.OpenAICompatibleAIGen];
             }
 
             const task = await genVideoDataWithAI(
@@ -195,16 +507,13 @@ export async function runAPIServer() {
                     resPath: resPath,
                     voiceGenType: data.voiceGenType as VoiceGenType,
                     imageGenType: data.imageGenType as ImageGenType,
-                    orientation: data.orientation as 'vertical' | 'horizontal',
+                    orientation: data.orientation,
+                    language: data.language,
+                    moderation: moderation,
                     vidPath: data.vidPath == undefined ? undefined : path.join(resPath, 'vid', data.vidPath ?? ""),
                     bgPath: data.bgPath == undefined ? undefined : path.join(resPath, 'music', data.bgPath ?? ""),
                     useBgMusic: data.useBgMusic,
                     useBgVideo: data.useBgVideo,
-                    apiKeys: {
-                        elevenLabsAPIKey: process.env[VoiceAPIEnv.ElevenLabs],
-                        pexelsAPIKey: process.env[ImageAPIEnv.PexelsAPIKey],
-                        neetsAPIKey: process.env[VoiceAPIEnv.NeetsTTS],
-                    },
                     subtitleOptions: data.subtitleOptions,
                     imageOptions: data.imageOptions,
                     ttsOptions: data.ttsOptions,
@@ -219,18 +528,140 @@ export async function runAPIServer() {
                 aiAPIKey,
                 {
                     endpoint: data.openAIEndpoint,
-                    model: data.aiModel
+                    model: data.aiModel,
+                    capabilities: data.aiCapabilities,
+                    usage: new AIUsageTracker(aiPrices),
+                    // API keys of fallback providers come from env
+                    fallbacks: data.aiFallbacks?.map((fallback) => ({
+                        type: fallback.aiType as AIGenType,
+                        model: fallback.aiModel,
+                        endpoint: fallback.openAIEndpoint,
+                        apiKey: process.env[AIAPIEnv[fallback.aiType as keyof typeof AIAPIEnv]],
+                    })),
+                    retry: data.aiRetry,
+                    prompts: aiPrompts,
+                    duration: data.duration,
+                    metadata: data.metadataPlatforms,
+                    sources: sources,
+                    showSources: data.showSources,
+                    imageAlternates: data.imageAlternates
                 }
             );
 
+            if (task.conversation) keepConversation(task.conversation);
+
             res.json({
-                result: task
+                result: task.json,
+                review: task.review,
+                usage: task.usage,
+                provenance: task.provenance,
+                conversationId: task.conversation?.id,
+                template: task.template,
+                duration: task.duration,
+                metadata: task.metadata
             });
 
-        } catch (err: any) {
-            res.status(400).json({
-                error: "Internal server error: " + (err.message ?? err.toString())
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
+
+    /**
+     * Refine video data of an earlier /generateAIJSON request with an instruction
+     * POST /refineAIJSON
+     * Request body: Conversation id and instruction (APIRefineData type)
+     * Response: Refined JSON data, changed values, review issues, usage report of the conversation and provider of each field
+     * (instruction and refined JSON data are moderated, flagged content is rejected with 422 and the conversation keeps the last data)
+     */
+    app.post(`${root}/refineAIJSON`, async (req, res) => {
+        try {
+            const data = req.body as APIRefineData;
+
+            if (!data?.conversationId || !data.instruction) {
+                res.status(400).json({
+                    error: 'Conversation id and instruction are required!'
+                });
+                return;
+            }
+
+            const conversation = conversations.get(data.conversationId);
+            if (!conversation) {
+                res.status(404).json({
+                    error: `Conversation not found! (id=${data.conversationId}, it may have expired)`
+                });
+                return;
+            }
+
+            // Move to end, so the conversation in use is removed last
+            conversations.delete(conversation.id);
+            conversations.set(conversation.id, conversation);
+
+            const refinement = await conversation.refine(data.instruction);
+
+            res.json({
+                result: JSON.stringify(refinement.data, null, 2),
+                changes: refinement.changes,
+                issues: refinement.issues,
+                usage: conversation.usage,
+                provenance: conversation.provenance,
+                conversationId: conversation.id
             });
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
+
+    /**
+     * Make upload metadata of the current video data of a conversation (ex. after refinements)
+     * POST /generateMetadata
+     * Request body: Conversation id, platforms and language (APIMetadataData type)
+     * Response: Metadata of each platform and usage report of the conversation
+     */
+    app.post(`${root}/generateMetadata`, async (req, res) => {
+        try {
+            const data = req.body as APIMetadataData;
+
+            if (!data?.conversationId) {
+                res.status(400).json({
+                    error: 'Conversation id is required!'
+                });
+                return;
+            }
+
+            const unknownPlatforms = getUnknownPlatforms(data.platforms);
+            if (unknownPlatforms.length > 0) {
+                res.status(400).json({
+                    error: `Invalid upload platform! (platform=${unknownPlatforms.join(", ")})`
+                });
+                return;
+            }
+
+            let locale;
+            try {
+                locale = getVideoLocale(data.language);
+            } catch (err) {
+                res.status(400).json({
+                    error: (err as Error).message
+                });
+                return;
+            }
+
+            const conversation = conversations.get(data.conversationId);
+            if (!conversation) {
+                res.status(404).json({
+                    error: `Conversation not found! (id=${data.conversationId}, it may have expired)`
+                });
+                return;
+            }
+
+            const metadata = await conversation.generateMetadata(data.platforms, locale);
+
+            res.json({
+                metadata: metadata,
+                usage: conversation.usage
+            });
+        } catch (err) {
+            sendError(res, err);
         }
     });
 
@@ -238,7 +669,9 @@ export async function runAPIServer() {
      * Generate video from JSON data
      * POST /generateVideo
      * Request body: JSON data with both video options and video data (APIVideoData type)
-     * Response: Video file path
+     * Response: Event stream of { log }, { stage: { stage, cached, status } }, { progress: { stage, percent } },
+     * then { videoId, artifacts: { video, stages } } or { error, cancelled }
+     * The video is cancelled if the client disconnects before it is done.
      */
     app.post(`${root}/generateVideo`, async (req, res) => {
         try {
@@ -260,36 +693,15 @@ export async function runAPIServer() {
             }
 
             const data: APIVideoData = json as APIVideoData;
-            const options = data.options;
-            const task = await genVideoWithJson(
-                data.data,
-                {
-                    tempPath: 'video_temp',
-                    resPath: 'res',
-                    voiceGenType: options.voiceGenType as VoiceGenType,
-                    imageGenType: options.imageGenType as ImageGenType,
-                    orientation: options.orientation as 'vertical' | 'horizontal',
-                    vidPath: options.vidPath == undefined ? undefined : path.join(resPath, 'vid', options.vidPath ?? ""),
-                    bgPath: options.bgPath == undefined ? undefined : path.join(resPath, 'music', options.bgPath ?? ""),
-                    useBgMusic: options.useBgMusic,
-                    useBgVideo: options.useBgVideo,
-                    apiKeys: {
-                        elevenLabsAPIKey: process.env[VoiceAPIEnv.ElevenLabs],
-                        pexelsAPIKey: process.env[ImageAPIEnv.PexelsAPIKey],
-                        neetsAPIKey: process.env[VoiceAPIEnv.NeetsTTS],
-                    },
-                    subtitleOptions: options.subtitleOptions,
-                    imageOptions: options.imageOptions,
-                    ttsOptions: options.ttsOptions,
-                    internalOptions: {
-                        debug: false,
-                        changePhotos: options.internalOptions?.changePhotos ?? true,
-                        disableTTS: options.internalOptions?.disableTTS ?? false,
-                        disableSubtitles: options.internalOptions?.disableSubtitles ?? false,
-                        useMock: options.internalOptions?.useMock ?? false
-                    }
-                },
-            );
+
+            // Job folder is made in the temp folder
+            if (data.jobId != undefined && !isJobId(data.jobId)) {
+                res.write('data: ' + JSON.stringify({ error: `Invalid job id! (id=${data.jobId})` }) + '\n\n');
+                res.end();
+                return;
+            }
+
+            const task = await genVideoWithJson(data.data, getVideoOptions(data, resPath, moderation));
 
             console.info("Starting live log stream to client...");
 
@@ -298,28 +710,71 @@ export async function runAPIServer() {
                 res.write(`data: ${JSON.stringify({ log: log })}\n\n`);
             });
 
-            task.on('done', (videoPath: string) => {
-                // Send video path to client in JSON
-                // Get folder that contains video file (only folder path, not the full path)
-                const folderPath = path.basename(path.dirname(videoPath));
-                res.write(`data: ${JSON.stringify({ videoId: folderPath })}\n\n`);
+            task.on('stage-start', (event) => {
+                res.write(`data: ${JSON.stringify({ stage: { ...event, status: 'start' } })}\n\n`);
+            });
+
+            task.on('stage-progress', (event) => {
+                res.write(`data: ${JSON.stringify({ progress: event })}\n\n`);
+            });
+
+            task.on('stage-end', (event) => {
+                res.write(`data: ${JSON.stringify({ stage: { ...event, status: 'end' } })}\n\n`);
+            });
+
+            task.on('error', (err) => {
+                console.info(`Video generation failed: ${err.message}`);
+                res.write('data: ' + JSON.stringify({ error: err.message, cancelled: err instanceof VideoCancelledError || undefined }) + '\n\n');
+                res.end();
+            });
+
+            task.on('done', (artifacts) => {
+                // Send video id (name of the job folder) and files of the video to client in JSON
+                res.write(`data: ${JSON.stringify({ videoId: path.basename(artifacts.jobDir), artifacts: { video: path.basename(artifacts.video), stages: artifacts.stages } })}\n\n`);
                 // Close the response
                 res.end();
             });
 
             res.on('close', () => {
+                // Stop the render if the client left before it finished
+                if (task.cancel('client disconnected')) {
+                    console.info("Client disconnected! Video generation cancelled.");
+                }
+
                 // Close the response
                 console.info("Live log stream closed.");
                 res.end();
             });
 
         } catch (err: any) {
-            res.write('data: ' + JSON.stringify({ error: 'Internal server error: ' + (err.message ?? err.toString()) }) + '\n\n');
+            res.write('data: ' + JSON.stringify({ error: 'Internal server error: ' + (err.message ?? err.toString()), code: err instanceof AIError ? err.code : undefined, rejection: err instanceof ModerationError ? err.result : undefined }) + '\n\n');
             res.end();
             console.info('Closing live session due to internal error!');
         }
     });
 
+    /**
+     * Plan video from JSON data without rendering (dry run, nothing is sent to TTS or image APIs)
+     * POST /planVideo
+     * Request body: JSON data with both video options and video data (APIVideoData type)
+     * Response: { plan } (background files, assets, speech and scenes with estimated timing)
+     */
+    app.post(`${root}/planVideo`, async (req, res) => {
+        try {
+            if (!req.body?.data || !req.body?.options) {
+                res.status(400).json({ error: 'Invalid JSON data!' });
+                return;
+            }
+
+            const data: APIVideoData = req.body as APIVideoData;
+            const plan = await planVideo(JSON.stringify(data.data), getVideoOptions(data, resPath, moderation));
+
+            res.json({ plan });
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
+
     /**
      * Get video stream from video file path
      * GET /getVideo
@@ -328,21 +783,23 @@ export async function runAPIServer() {
      */
     app.get(`${root}/getVideo`, (req, res) => {
         try {
-            // Get video path
-            const videoId = req.query.id as string;
+            // Get job folder of the video
+            const jobFolder = getJobFolder(tempPath, req.query.id);
 
-            // Check if empty
-            if (!videoId) {
+            // Check if empty or not a plain job id
+            if (!jobFolder) {
                 res.status(400).json({
-                    error: 'Video ID is required! (?id=[video id])'
+                    error: 'Valid video ID is required! (?id=[video id])'
                 });
                 return;
             }
 
-            const videoPath = path.join(tempPath, videoId, 'video.mp4');
+            // Video file of the container of the encoding (ex. 'video.webm')
+            const container = Object.values(VideoContainer).find((ext) => fs.existsSync(path.join(jobFolder, `video.${ext}`)));
+            const videoPath = path.join(jobFolder, `video.${container ?? VideoContainer.MP4}`);
 
             // Check if video path exists
-            if (!fs.existsSync(videoPath)) {
+            if (!container) {
                 res.status(400).json({
                     error: 'Video does not exist! (' + videoPath + ')'
                 });
@@ -364,14 +821,14 @@ export async function runAPIServer() {
                     'Content-Range': `bytes ${start}-${end}/${fileSize}`,
                     'Accept-Ranges': 'bytes',
                     'Content-Length': chunksize,
-                    'Content-Type': 'video/mp4',
+                    'Content-Type': `video/${container}`,
                 };
                 res.writeHead(206, head);
                 file.pipe(res);
             } else {
                 const head = {
                     'Content-Length': fileSize,
-                    'Content-Type': 'video/mp4',
+                    'Content-Type': `video/${container}`,
                 };
                 res.writeHead(200, head);
                 fs.createReadStream(videoPath).pipe(res);
@@ -384,6 +841,125 @@ export async function runAPIServer() {
         }
     });
 
+    /**
+     * Get upload metadata of a video
+     * GET /getMetadata
+     * Response: Metadata of each platform (file download with ?download=true)
+     * Example: /getMetadata?id=[video id]
+     */
+    app.get(`${root}/getMetadata`, (req, res) => {
+        try {
+            const videoId = req.query.id as string;
+            const jobFolder = getJobFolder(tempPath, videoId);
+
+            if (!jobFolder) {
+                res.status(400).json({
+                    error: 'Valid video ID is required! (?id=[video id])'
+                });
+                return;
+            }
+
+            const metadataPath = path.join(jobFolder, 'metadata.json');
+
+            if (!fs.existsSync(metadataPath)) {
+                res.status(404).json({
+                    error: 'Video has no metadata! (' + metadataPath + ')'
+                });
+                return;
+            }
+
+            if (req.query.download === 'true') {
+                res.download(path.resolve(metadataPath), `${videoId}-metadata.json`);
+                return;
+            }
+
+            res.json({
+                metadata: JSON.parse(fs.readFileSync(metadataPath, 'utf8')) as VideoMetadata
+            });
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
+
+    /**
+     * Get image choices of a video (candidates of each image and the chosen one)
+     * GET /getImageChoices
+     * Response: { choices: [{ file, query, alternates, selected, candidates }] }
+     * Example: /getImageChoices?id=[video id]
+     */
+    app.get(`${root}/getImageChoices`, (req, res) => {
+        try {
+            const jobFolder = getJobFolder(tempPath, req.query.id);
+
+            if (!jobFolder) {
+                res.status(400).json({
+                    error: 'Valid video ID is required! (?id=[video id])'
+                });
+                return;
+            }
+
+            const choicesPath = path.join(jobFolder, IMAGE_CHOICES_FILE);
+
+            if (!fs.existsSync(choicesPath)) {
+                res.status(404).json({
+                    error: 'Video has no image choices! (' + choicesPath + ')'
+                });
+                return;
+            }
+
+            res.json({
+                choices: JSON.parse(fs.readFileSync(choicesPath, 'utf8')) as ImageChoice[]
+            });
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
+
+    /**
+     * Get job manifest of a video (stages, their input hashes and status)
+     * GET /getJob
+     * Response: { job: { id, type, createdAt, updatedAt, stages: [{ name, status, inputHash, outputs, ... }] } }
+     * Example: /getJob?id=[video id]
+     */
+    app.get(`${root}/getJob`, (req, res) => {
+        try {
+            const jobFolder = getJobFolder(tempPath, req.query.id);
+
+            if (!jobFolder) {
+                res.status(400).json({
+                    error: 'Valid video ID is required! (?id=[video id])'
+                });
+                return;
+            }
+
+            const manifestPath = path.join(jobFolder, JOB_MANIFEST_FILE);
+
+            if (!fs.existsSync(manifestPath)) {
+                res.status(404).json({
+                    error: 'Video has no job! (' + manifestPath + ')'
+                });
+                return;
+            }
+
+            res.json({
+                job: JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as JobManifest
+            });
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
+
+    /**
+     * Get all upload platforms and their length limits
+     * GET /types/platforms
+     * Response: { platforms: [{ id: 'youtube', name: 'YouTube Shorts', title: 100, ... }] }
+     */
+    app.get(`${root}/types/platforms`, (req, res) => {
+        res.json({
+            platforms: Object.values(UploadPlatform).map((platform) => ({ id: platform, ...PLATFORM_LIMITS[platform] }))
+        });
+    });
+
     /**
      * Get all AI types based on AIGenType
      * GET /types/ai
@@ -395,6 +971,95 @@ export async function runAPIServer() {
         });
     });
 
+    /**
+     * Get all registered TTS and image providers (credentials are read from the server environment)
+     * GET /types/providers
+     * Response: { tts: [{ id: 'ElevenLabs', name: 'ElevenLabs', description: '', credentials: [{ name: 'elevenLabsAPIKey', env: 'ELEVENLABS_API_KEY', label: 'Eleven Labs API key' }], configured: true, optionsSchema: {...}, capabilities: { speakingRate: 160, local: false } }], image: [...] }
+     */
+    app.get(`${root}/types/providers`, (req, res) => {
+        const describe = (provider: VoiceProvider | ImageProvider) => ({
+            id: provider.id,
+            name: provider.name,
+            description: provider.description,
+            credentials: provider.credentials.map(({ name, env, label }) => ({ name, env, label })),
+            configured: getMissingCredentials(provider).length == 0,
+            optionsSchema: provider.optionsSchema,
+            capabilities: provider.capabilities,
+        });
+
+        res.json({
+            tts: getVoiceProviders().map(describe),
+            image: getImageProviders().map(describe)
+        });
+    });
+
+    /**
+     * Get all registered video types (built-in and added with registerVideoType)
+     * GET /types/video
+     * Response: { types: [{ type: 'quiz', label: 'Quiz', description: 'Create a quiz video', icon: 'FaQuestion', fields: ['title', 'questions', ...], schema: {...} }] }
+     */
+    app.get(`${root}/types/video`, (req, res) => {
+        res.json({
+            types: getVideoTypes().map((definition) => ({
+                type: definition.name,
+                ...definition.form,
+                fields: Object.keys(definition.fieldPrompts),
+                schema: definition.schema
+            }))
+        });
+    });
+
+    /**
+     * Get all video size presets (use a name or 'WIDTHxHEIGHT' as orientation)
+     * GET /types/resolutions
+     * Response: { resolutions: [{ name: 'square', description: '1:1 (Instagram feed)', width: 1080, height: 1080 }] }
+     */
+    app.get(`${root}/types/resolutions`, (req, res) => {
+        res.json({
+            resolutions: Object.values(RESOLUTION_PRESETS)
+        });
+    });
+
+    /**
+     * Get all encoding profiles (use a name as 'profile' of the encoding options)
+     * GET /types/encodings
+     * Response: { encodings: [{ name: 'webm', description: 'VP9 and Opus WebM for the web', container: 'webm', videoCodec: 'vp9', ... }] }
+     */
+    app.get(`${root}/types/encodings`, (req, res) => {
+        res.json({
+            encodings: Object.values(ENCODING_PROFILES)
+        });
+    });
+
+    /**
+     * Get all video languages of the locale table
+     * GET /types/languages
+     * Response: { languages: [{ code: 'en', name: 'English' }, { code: 'es', name: 'Spanish' }] }
+     */
+    app.get(`${root}/types/languages`, (req, res) => {
+        res.json({
+            languages: Object.values(VIDEO_LOCALES).map((locale) => ({ code: locale.code, name: locale.name }))
+        });
+    });
+
+    /**
+     * Get all prompt templates (latest version of each, with every version and channel)
+     * GET /types/prompts
+     * Response: { templates: [{ name: 'quiz', version: '1.1.0', versions: ['1.0.0', '1.1.0'], description: '', channels: ['kids'], variables: { count: 5 } }] }
+     */
+    app.get(`${root}/types/prompts`, (req, res) => {
+        res.json({
+            templates: prompts.list().map((template) => ({
+                name: template.name,
+                version: template.version,
+                versions: prompts.templates.filter((other) => other.name == template.name).map((other) => other.version).sort(compareVersions),
+                description: template.description,
+                channels: Object.keys(template.channels ?? {}),
+                variables: template.variables ?? {}
+            }))
+        });
+    });
+
     /**
      * Get all AI models based on AIGenType
      * GET /types/ai/models
@@ -443,32 +1108,38 @@ export async function runAPIServer() {
 
             switch (aiType) {
                 case AIGenType.OllamaAIGen:
-                    models = await OllamaAIGen.getModels();
+                    models = await createChatProvider(aiType).listModels();
                     break;
                 case AIGenType.OpenAIGen:
                     apiKey = process.env[AIAPIEnv.OpenAIGen];
                     if (!apiKey) return errorIfNoAPIKey();
-                    models = await OpenAIGen.getModels(apiKey, { endpoint: openAIEndpoint });
+                    models = await createChatProvider(aiType, apiKey, { endpoint: openAIEndpoint }).listModels();
                     break;
                 case AIGenType.GoogleAIGen:
                     apiKey = process.env[AIAPIEnv.GoogleAIGen];
                     if (!apiKey) return errorIfNoAPIKey();
-                    models = await GoogleAIGen.getModels();
+                    models = await createChatProvider(aiType, apiKey).listModels();
                     break;
                 case AIGenType.AnthropicAIGen:
                     apiKey = process.env[AIAPIEnv.AnthropicAIGen];
                     if (!apiKey) return errorIfNoAPIKey();
-                    models = await AnthropicAIGen.getModels();
+                    models = await createChatProvider(aiType, apiKey).listModels();
+                    break;
+                case AIGenType.OpenAICompatibleAIGen:
+                    // API key is optional for local servers
+                    models = await createChatProvider(aiType, process.env[AIAPIEnv.OpenAICompatibleAIGen], { endpoint: openAIEndpoint }).listModels();
+                    break;
+                case AIGenType.LlamaCppAIGen:
+                    models = await createChatProvider(aiType, undefined, { endpoint: openAIEndpoint }).listModels();
                     break;
             }
 
             res.json({
                 models
             });
-        } catch (err: any) {
-            res.status(400).json({
-                error: "Internal server error: " + (err.message ?? err.toString())
-            });
+        } catch (err) {
+            // Every error here comes from the AI provider
+            sendError(res, classifyAIError(err));
         }
     });
 
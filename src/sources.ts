@@ -0,0 +1,533 @@
+// Copyright (c) 2024 Shafil Alam
+
+import dns from 'dns';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import path from 'path';
+
+/** Default max length of a chunk of source text (characters) */
+export const DEFAULT_SOURCE_CHUNK_SIZE = 1500;
+/** Default max length of all source text given to the AI (characters) */
+export const DEFAULT_SOURCE_MAX_CHARS = 6000;
+/** Default max number of redirects followed when fetching a source */
+export const DEFAULT_SOURCE_MAX_REDIRECTS = 5;
+/** Default max size of a fetched source (bytes) */
+export const DEFAULT_SOURCE_MAX_BYTES = 5 * 1024 * 1024;
+/** Default timeout of fetching a source (milliseconds) */
+export const DEFAULT_SOURCE_TIMEOUT = 30000;
+
+/**
+ * Kind of source
+ */
+export enum SourceType {
+    /** Plain text or markdown file */
+    Text = "text",
+    /** HTML page */
+    HTML = "html",
+    /** RSS or Atom feed (each item is a source) */
+    Feed = "feed",
+}
+
+/**
+ * Source a video is written from (kept in the video data)
+ */
+export interface SourceCitation {
+    /** Title of the page, file or feed item */
+    title: string;
+    /** URL or file path */
+    url: string;
+}
+
+/**
+ * Text of one source (a page, a file or an item of a feed)
+ */
+export interface SourceEntry extends SourceCitation {
+    /** Kind of source */
+    type: SourceType;
+    /** Extracted text */
+    text: string;
+}
+
+/**
+ * Part of the text of a source
+ */
+export interface SourceChunk {
+    /** Number of the source in the citations (starts at 1, used in prompts as [1]) */
+    source: number;
+    /** Text */
+    text: string;
+}
+
+/**
+ * Source text given to the AI
+ */
+export interface SourceContext {
+    /** Chunks of source text (within the max length) */
+    chunks: SourceChunk[];
+    /** Sources of the chunks */
+    citations: SourceCitation[];
+}
+
+/**
+ * Response of a source fetcher
+ */
+export interface SourceResponse {
+    /** Response body */
+    body: string;
+    /** Content type (ex. 'text/html') */
+    contentType?: string;
+}
+
+/**
+ * Fetches a URL (replace to read from fixtures or add headers)
+ */
+export type SourceFetcher = (url: string) => Promise<SourceResponse>;
+
+/**
+ * Options of the HTTP source fetcher
+ */
+export interface HttpSourceOptions {
+    /** Allow hosts on loopback, private and link-local networks (default: false) */
+    allowPrivateHosts?: boolean;
+    /** Max number of redirects (default: 5) */
+    maxRedirects?: number;
+    /** Max size of the response body in bytes (default: 5 MB) */
+    maxBytes?: number;
+    /** Timeout in milliseconds (default: 30 seconds) */
+    timeout?: number;
+}
+
+/**
+ * Options of loading sources
+ */
+export interface SourceOptions {
+    /** Fetcher of URLs (default: HTTP GET with fetch) */
+    fetcher?: SourceFetcher;
+    /** Max length of a chunk (default: 1500 characters) */
+    chunkSize?: number;
+    /** Max length of all source text (default: 6000 characters, later sources are cut) */
+    maxChars?: number;
+}
+
+/**
+ * Error thrown when a source can not be read or has no text
+ */
+export class SourceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SourceError";
+    }
+}
+
+/**
+ * Networks that sources can not be fetched from (loopback, private, link-local, multicast and reserved)
+ */
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [network, prefix] of [["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]] as const) {
+    PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+    PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Check if an IP address is on the public internet
+ * (IPv4-mapped IPv6 addresses are checked as IPv4)
+ *
+ * @param address - IPv4 or IPv6 address
+ */
+export function isPublicAddress(address: string): boolean {
+    const version = net.isIP(address);
+    if (version == 0) return false;
+
+    return !PRIVATE_NETWORKS.check(address, version == 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Create fetcher of URLs with HTTP GET
+ * (hosts are checked when connecting, so redirects and DNS changes can not reach private networks)
+ *
+ * @param options - Private hosts, redirects, size and timeout
+ *
+ * @example
+ * ```typescript
+ * const fetcher = createHttpSourceFetcher({ allowPrivateHosts: true });
+ * const sources = await loadSourceContext(["http://localhost:3000/notes.html"], { fetcher });
+ * ```
+ */
+export function createHttpSourceFetcher(options: HttpSourceOptions = {}): SourceFetcher {
+    const maxRedirects = options.maxRedirects ?? DEFAULT_SOURCE_MAX_REDIRECTS;
+
+    return async (url) => {
+        let current = new URL(url);
+
+        for (let redirects = 0; ; redirects++) {
+            const res = await requestSource(current, options);
+
+            if (res.location == undefined) {
+                return { body: res.body, contentType: res.contentType };
+            }
+
+            if (redirects >= maxRedirects) {
+                throw new SourceError(`Could not fetch source '${url}' (more than ${maxRedirects} redirects)`);
+            }
+
+            current = new URL(res.location, current);
+        }
+    };
+}
+
+/**
+ * Fetch URL with HTTP GET (private hosts are not allowed)
+ *
+ * @throws SourceError if the response is not OK, the host is private or the response is too large
+ */
+export const httpSourceFetcher: SourceFetcher = createHttpSourceFetcher();
+
+/**
+ * Send one HTTP GET request (redirects are returned as location)
+ *
+ * @throws SourceError if the response is not OK, the host is private or the response is too large
+ */
+function requestSource(url: URL, options: HttpSourceOptions): Promise<SourceResponse & { location?: string }> {
+    const maxBytes = options.maxBytes ?? DEFAULT_SOURCE_MAX_BYTES;
+
+    if (url.protocol != "http:" && url.protocol != "https:") {
+        return Promise.reject(new SourceError(`Could not fetch source '${url}' (only http(s) URLs are allowed)`));
+    }
+
+    // Addresses are not looked up, so they are checked here
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (!options.allowPrivateHosts && net.isIP(host) && !isPublicAddress(host)) {
+        return Promise.reject(new SourceError(`Could not fetch source '${url}' (private address ${host} is not allowed)`));
+    }
+
+    const client = url.protocol == "https:" ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const req = client.get(url, {
+            headers: { 'User-Agent': 'auto-shorts', 'Accept': 'text/html, application/rss+xml, application/atom+xml, application/xml, text/plain' },
+            lookup: options.allowPrivateHosts ? undefined : publicLookup,
+            timeout: options.timeout ?? DEFAULT_SOURCE_TIMEOUT,
+        }, (res) => {
+            const status = res.statusCode ?? 0;
+
+            if (status >= 300 && status < 400 && res.headers.location) {
+                res.resume();
+                return resolve({ body: "", location: res.headers.location });
+            }
+
+            if (status < 200 || status >= 300) {
+                res.resume();
+                return reject(new SourceError(`Could not fetch source '${url}' (status ${status})`));
+            }
+
+            if (Number(res.headers['content-length']) > maxBytes) {
+                res.destroy();
+                return reject(new SourceError(`Could not fetch source '${url}' (larger than ${maxBytes} bytes)`));
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+
+            res.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > maxBytes) {
+                    res.destroy();
+                    return reject(new SourceError(`Could not fetch source '${url}' (larger than ${maxBytes} bytes)`));
+                }
+
+                chunks.push(chunk);
+            });
+            res.on('end', () => resolve({ body: Buffer.concat(chunks).toString('utf8'), contentType: res.headers['content-type'] }));
+            res.on('error', reject);
+        });
+
+        req.on('timeout', () => req.destroy(new SourceError(`Could not fetch source '${url}' (timed out)`)));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Look up host and fail if any of its addresses is not public
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err, "", 0);
+
+        const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+        if (blocked) {
+            return callback(new SourceError(`Could not fetch source from '${hostname}' (private address ${blocked.address} is not allowed)`) as NodeJS.ErrnoException, "", 0);
+        }
+
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+/**
+ * Load sources and split the text into chunks for the AI
+ *
+ * @param inputs - File paths or URLs (HTML pages or RSS/Atom feeds)
+ * @param options - Fetcher and chunk sizes
+ * @returns Chunks and citations
+ * @throws SourceError if a source can not be read or no source has text
+ *
+ * @example
+ * ```typescript
+ * const sources = await loadSourceContext(["https://example.com/feed.xml", "notes.md"]);
+ * await genVideoDataWithAI("make a news short", AIGenType.OpenAIGen, options, apiKey, { sources });
+ * ```
+ */
+export async function loadSourceContext(inputs: string[], options: SourceOptions = {}): Promise<SourceContext> {
+    const entries: SourceEntry[] = [];
+
+    for (const input of inputs) {
+        entries.push(...await loadSource(input, options.fetcher));
+    }
+
+    const context = chunkSources(entries, options.chunkSize, options.maxChars);
+
+    if (context.chunks.length == 0) {
+        throw new SourceError(`No text found in sources: ${inputs.join(", ")}`);
+    }
+
+    return context;
+}
+
+/**
+ * Load one source (local file or URL)
+ *
+ * @param input - File path or URL
+ * @param fetcher - Fetcher of URLs
+ * @returns Entries of the source (one for pages and files, one for each item of feeds)
+ * @throws SourceError if the file does not exist or the URL can not be fetched
+ */
+export async function loadSource(input: string, fetcher: SourceFetcher = httpSourceFetcher): Promise<SourceEntry[]> {
+    if (/^https?:\/\//i.test(input)) {
+        const res = await fetcher(input).catch((error) => {
+            throw error instanceof SourceError ? error : new SourceError(`Could not fetch source '${input}': ${(error as Error).message}`);
+        });
+
+        return parseSource(input, res.body, getSourceType(input, res.body, res.contentType));
+    }
+
+    if (!fs.existsSync(input)) {
+        throw new SourceError(`Source file not found: '${input}'`);
+    }
+
+    const body = fs.readFileSync(input, 'utf8');
+    return parseSource(input, body, getSourceType(input, body));
+}
+
+/**
+ * Get kind of source from content type, file extension or content
+ */
+export function getSourceType(location: string, body: string, contentType?: string): SourceType {
+    if (contentType && /rss|atom/i.test(contentType)) return SourceType.Feed;
+    if (contentType && /html/i.test(contentType)) return SourceType.HTML;
+
+    const ext = path.extname(location.split(/[?#]/)[0]).toLowerCase();
+    if ([".rss", ".atom"].includes(ext)) return SourceType.Feed;
+    if ([".html", ".htm"].includes(ext)) return SourceType.HTML;
+    if ([".txt", ".md"].includes(ext)) return SourceType.Text;
+
+    const start = body.trimStart().substring(0, 500).toLowerCase();
+    if (/<rss[\s>]|<feed[\s>]/.test(start)) return SourceType.Feed;
+    if (/<!doctype html|<html[\s>]/.test(start)) return SourceType.HTML;
+
+    return SourceType.Text;
+}
+
+/**
+ * Extract entries from the content of a source
+ *
+ * @param location - URL or file path
+ * @param body - Content
+ * @param type - Kind of source
+ */
+export function parseSource(location: string, body: string, type: SourceType): SourceEntry[] {
+    switch (type) {
+        case SourceType.HTML:
+            return [{ type, url: location, title: getHtmlTitle(body) ?? location, text: extractHtmlText(body) }];
+        case SourceType.Feed:
+            return parseFeed(location, body);
+        default:
+            return [{ type, url: location, title: path.basename(location), text: normalizeText(body) }];
+    }
+}
+
+/**
+ * Extract readable text of an HTML page (scripts, navigation and footers are removed)
+ */
+export function extractHtmlText(html: string): string {
+    let content = html
+        .replace(/<!--[\s\S]*?-->/g, "")
+        .replace(/<(script|style|noscript|svg|nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, "");
+
+    // Use the article if the page has one
+    const article = content.match(/<article\b[\s\S]*?<\/article>/i) ?? content.match(/<main\b[\s\S]*?<\/main>/i) ?? content.match(/<body\b[\s\S]*?<\/body>/i);
+    if (article) content = article[0];
+
+    const text = content
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<\/(p|div|li|h[1-6]|blockquote|tr|section|article)>/gi, "\n\n")
+        .replace(/<[^>]+>/g, "");
+
+    return normalizeText(decodeEntities(text));
+}
+
+/**
+ * Parse items of an RSS or Atom feed
+ */
+export function parseFeed(location: string, xml: string): SourceEntry[] {
+    const items = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) ?? [];
+
+    return items.map((item) => {
+        const title = getXmlText(item, "title") ?? location;
+        const link = item.match(/<link\b[^>]*\bhref=["']([^"']+)["']/i)?.[1] ?? getXmlText(item, "link") ?? location;
+        const content = getXmlText(item, "content:encoded") ?? getXmlText(item, "content") ?? getXmlText(item, "description") ?? getXmlText(item, "summary") ?? "";
+
+        return { type: SourceType.Feed, url: link.trim(), title: normalizeText(decodeEntities(title)), text: extractHtmlText(content) };
+    });
+}
+
+/**
+ * Split text of sources into chunks (sources are cut when the max length is reached)
+ *
+ * @param entries - Sources
+ * @param chunkSize - Max length of a chunk
+ * @param maxChars - Max length of all chunks
+ * @returns Chunks and citations of sources with text
+ */
+export function chunkSources(entries: SourceEntry[], chunkSize: number = DEFAULT_SOURCE_CHUNK_SIZE, maxChars: number = DEFAULT_SOURCE_MAX_CHARS): SourceContext {
+    const context: SourceContext = { chunks: [], citations: [] };
+    let total = 0;
+
+    for (const entry of entries) {
+        if (total >= maxChars) break;
+
+        const chunks = splitText(entry.text, chunkSize);
+        if (chunks.length == 0) continue;
+
+        context.citations.push({ title: entry.title, url: entry.url });
+        const source = context.citations.length;
+
+        for (const chunk of chunks) {
+            const text = chunk.substring(0, maxChars - total);
+            if (!text) break;
+
+            context.chunks.push({ source, text });
+            total += text.length;
+        }
+    }
+
+    return context;
+}
+
+/**
+ * Split text into chunks at paragraphs (long paragraphs are split at sentences)
+ */
+export function splitText(text: string, chunkSize: number): string[] {
+    const chunks: string[] = [];
+    let current = "";
+
+    const pieces = text.split(/\n{2,}/).flatMap((paragraph) => paragraph.length <= chunkSize ? [paragraph] : paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? [paragraph]);
+
+    for (const piece of pieces.map((piece) => piece.trim()).filter((piece) => piece)) {
+        if (current && current.length + piece.length + 2 > chunkSize) {
+            chunks.push(current);
+            current = "";
+        }
+
+        // Sentences longer than a chunk are cut
+        for (let start = 0; start < piece.length; start += chunkSize) {
+            const part = piece.substring(start, start + chunkSize);
+            current = current ? `${current}\n\n${part}` : part;
+
+            if (current.length >= chunkSize) {
+                chunks.push(current);
+                current = "";
+            }
+        }
+    }
+
+    if (current) chunks.push(current);
+
+    return chunks;
+}
+
+/**
+ * Build system prompt asking the AI to write the video only from sources
+ *
+ * @param context - Source chunks and citations
+ */
+export function buildSourcePrompt(context: SourceContext): string {
+    const sources = context.citations.map((citation, i) => {
+        const text = context.chunks.filter((chunk) => chunk.source == i + 1).map((chunk) => chunk.text).join("\n\n");
+        return `[${i + 1}] ${citation.title} (${citation.url})\n${text}`;
+    });
+
+    return `Write the video only from the sources below. Every fact, name, number and date in the spoken text must come from the sources; do not add anything that is not in them. Image search terms must be about things named in the sources.\n\nSources:\n${sources.join("\n\n")}`;
+}
+
+/**
+ * Format citations as an on-screen caption (ex. 'Source: Title (example.com)')
+ */
+export function formatSourceCaption(citations: SourceCitation[]): string {
+    const names = citations.map((citation) => {
+        const host = /^https?:\/\//i.test(citation.url) ? new URL(citation.url).hostname.replace(/^www\./, "") : path.basename(citation.url);
+        return citation.title && citation.title != citation.url ? `${citation.title} (${host})` : host;
+    });
+
+    return `${names.length > 1 ? "Sources" : "Source"}: ${names.join(", ")}`;
+}
+
+/**
+ * Get title of an HTML page
+ */
+function getHtmlTitle(html: string): string | undefined {
+    const title = html.match(/<meta\b[^>]*property=["']og:title["'][^>]*content=["']([^"']*)["']/i)?.[1] ?? html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    return title ? normalizeText(decodeEntities(title)) : undefined;
+}
+
+/**
+ * Get text of an XML element (CDATA is unwrapped)
+ */
+function getXmlText(xml: string, tag: string): string | undefined {
+    const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "i"));
+    if (!match) return undefined;
+
+    const text = match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+    // Escaped HTML in descriptions is decoded so tags can be removed
+    return /&lt;\w/.test(text) ? decodeEntities(text) : text;
+}
+
+/**
+ * Decode HTML entities
+ */
+function decodeEntities(text: string): string {
+    const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", mdash: "—", ndash: "–", hellip: "…", rsquo: "’", lsquo: "‘", rdquo: "”", ldquo: "“" };
+
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+        if (entity[0] == "#") {
+            const code = entity[1].toLowerCase() == "x" ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+            return Number.isNaN(code) ? match : String.fromCodePoint(code);
+        }
+
+        return named[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Collapse spaces and keep paragraphs
+ */
+function normalizeText(text: string): string {
+    return text
+        .split(/\n\s*\n/)
+        .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+        .filter((paragraph) => paragraph)
+        .join("\n\n");
+}
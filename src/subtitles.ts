@@ -21,6 +21,17 @@ export class SubtitleGen {
 export class WhisperSubtitles extends SubtitleGen {
     /** Default ggml model */
     static DEFAULT_MODEL = "ggml-base.en.bin";
+    /** Default ggml model for languages other than English */
+    static MULTILINGUAL_MODEL = "ggml-base.bin";
+
+    /**
+     * Get default model of a language (English only model is more accurate for English)
+     *
+     * @param language Language code (ex. 'es')
+     */
+    static getDefaultModel(language: string): string {
+        return language == "en" ? WhisperSubtitles.DEFAULT_MODEL : WhisperSubtitles.MULTILINGUAL_MODEL;
+    }
 
     /** 
      * Transcribe audio file and save as SRT file
@@ -30,9 +41,10 @@ export class WhisperSubtitles extends SubtitleGen {
      * @param srtFile SRT file path
      * @param resPath Resource path
      * @param modelPath Model path (optional)
+     * @param language Language code of the audio (default: 'en')
      */
-    static async transcribeSrt(gen: VideoGen, audio16kFile: string, maxLen: number, srtFile: string, resPath: string, modelPath?: string): Promise<any> {
-        const transcript = await this.transcribe(gen, audio16kFile, maxLen, resPath, modelPath);
+    static async transcribeSrt(gen: VideoGen, audio16kFile: string, maxLen: number, srtFile: string, resPath: string, modelPath?: string, language: string = "en"): Promise<any> {
+        const transcript = await this.transcribe(gen, audio16kFile, maxLen, resPath, modelPath, language);
         await this.convertTranscriptionToSrt(transcript, srtFile);
     }
 
@@ -43,16 +55,22 @@ export class WhisperSubtitles extends SubtitleGen {
      * @param maxLen Maximum length for token
      * @param resPath Resource path
      * @param modelPath Model path (optional)
+     * @param language Language code of the audio (default: 'en')
+     * @throws Error if the default model of the language is not downloaded
      */
-    static async transcribe(gen: VideoGen, audio16kFile: string, maxLen: number, resPath: string, modelPath?: string): Promise<any> {
-        const model = modelPath ?? path.join(resPath, "models", WhisperSubtitles.DEFAULT_MODEL);
+    static async transcribe(gen: VideoGen, audio16kFile: string, maxLen: number, resPath: string, modelPath?: string, language: string = "en"): Promise<any> {
+        const model = modelPath ?? path.join(resPath, "models", WhisperSubtitles.getDefaultModel(language));
         const wav = audio16kFile;
 
+        if (!fs.existsSync(model)) {
+            throw new Error(`Whisper model not found: ${model}. Try running "npx auto-shorts --download --language ${language}" to download it.`);
+        }
+
         const whisper = new Whisper(model);
         const pcm = read_wav(wav);
 
         const task = await whisper.transcribe(pcm, {
-            language: "en",
+            language: language,
             max_len: maxLen,
             token_timestamps: true,
         });
@@ -0,0 +1,214 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { EventEmitter } from "events";
+
+/**
+ * Error of a video task that was cancelled with `cancel()`
+ */
+export class VideoCancelledError extends Error {
+    constructor(reason?: string) {
+        super(`Video generation cancelled${reason ? `: ${reason}` : ""}`);
+        this.name = "VideoCancelledError";
+    }
+}
+
+/**
+ * Files made by a video task
+ */
+export interface VideoArtifacts {
+    /** Video file */
+    video: string;
+    /** Job folder */
+    jobDir: string;
+    /** Job manifest file ('job.json') */
+    manifest: string;
+    /** Files made by each stage (relative to the job folder) */
+    stages: Record<string, string[]>;
+}
+
+/**
+ * Event of a stage that started
+ */
+export interface StageStartEvent {
+    /** Stage name (ex. 'voice') */
+    stage: string;
+    /** Stage is skipped because its inputs are unchanged */
+    cached: boolean;
+}
+
+/**
+ * Progress of a running stage
+ */
+export interface StageProgressEvent {
+    /** Stage name (ex. 'render') */
+    stage: string;
+    /** Progress of the stage (0 to 100) */
+    percent: number;
+}
+
+/**
+ * Event of a stage that finished
+ */
+export interface StageEndEvent {
+    /** Stage name (ex. 'voice') */
+    stage: string;
+    /** Stage was skipped because its inputs are unchanged */
+    cached: boolean;
+    /** Time the stage took in milliseconds */
+    durationMs: number;
+}
+
+/**
+ * Events of a video task
+ */
+export interface VideoTaskEvents {
+    /** Log message */
+    log: [message: string];
+    /** Stage started */
+    "stage-start": [event: StageStartEvent];
+    /** Stage progress */
+    "stage-progress": [event: StageProgressEvent];
+    /** Stage finished */
+    "stage-end": [event: StageEndEvent];
+    /** Video generation failed or was cancelled (`VideoCancelledError`) */
+    error: [error: Error];
+    /** Video is done */
+    done: [artifacts: VideoArtifacts];
+}
+
+/**
+ * Handle of a video being generated
+ *
+ * Emits typed events for each stage, then 'done' with the files of the video or 'error'.
+ * Like any event emitter, an 'error' event without a listener is thrown.
+ *
+ * @example
+ * ```typescript
+ * const task = await genVideo(json, options);
+ * task.on('stage-progress', (e) => console.log(`${e.stage}: ${e.percent}%`));
+ * task.on('done', (artifacts) => console.log(artifacts.video));
+ * task.on('error', (error) => console.error(error.message));
+ * process.on('SIGINT', () => task.cancel());
+ * ```
+ */
+export class VideoTask extends EventEmitter<VideoTaskEvents> {
+    /** Aborted when the task is cancelled */
+    private controller = new AbortController();
+    /** Cleanup functions of running processes (called on cancel) */
+    private cleanups = new Set<() => void>();
+    /** Resolves when the task is done, failed or cancelled */
+    public readonly settled: Promise<void>;
+    /** Resolve function of `settled` */
+    private settle!: () => void;
+    /** Task is done, failed or cancelled */
+    private finished = false;
+
+    constructor() {
+        super();
+        this.settled = new Promise((resolve) => this.settle = resolve);
+    }
+
+    /**
+     * Signal that is aborted when the task is cancelled
+     */
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /**
+     * Check if the task was cancelled
+     */
+    get cancelled(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    /**
+     * Check if the task is done, failed or cancelled
+     */
+    get isFinished(): boolean {
+        return this.finished;
+    }
+
+    /**
+     * Start the task (on the next tick, so listeners can be added first)
+     *
+     * @param generate - Function that generates the video (the task fails if it throws)
+     * @param after - Task to wait for before starting (ex. to render videos one after another)
+     */
+    start(generate: () => Promise<void>, after?: VideoTask) {
+        setImmediate(async () => {
+            if (after) await after.settled;
+
+            try {
+                this.throwIfCancelled();
+                await generate();
+            } catch (error) {
+                this.fail(error);
+            }
+        });
+    }
+
+    /**
+     * Cancel the task (running ffmpeg and render processes are stopped)
+     *
+     * @param reason - Reason shown in the error
+     * @returns True if the task was running
+     */
+    cancel(reason?: string): boolean {
+        if (this.finished) return false;
+
+        this.controller.abort(new VideoCancelledError(reason));
+
+        for (const cleanup of this.cleanups) {
+            try {
+                cleanup();
+            } catch {
+                // Process already ended
+            }
+        }
+        this.cleanups.clear();
+
+        this.fail(this.controller.signal.reason);
+        return true;
+    }
+
+    /**
+     * Throw if the task was cancelled
+     *
+     * @throws VideoCancelledError if the task was cancelled
+     */
+    throwIfCancelled() {
+        if (this.cancelled) throw this.controller.signal.reason;
+    }
+
+    /**
+     * Add cleanup of a running process (called if the task is cancelled)
+     *
+     * @param cleanup - Function that stops the process
+     * @returns Function that removes the cleanup (call it when the process ends)
+     */
+    onCancel(cleanup: () => void): () => void {
+        this.cleanups.add(cleanup);
+        return () => this.cleanups.delete(cleanup);
+    }
+
+    /**
+     * Finish the task with the files of the video (emits 'done' once)
+     */
+    finish(artifacts: VideoArtifacts) {
+        if (this.finished) return;
+        this.finished = true;
+        this.settle();
+        this.emit("done", artifacts);
+    }
+
+    /**
+     * Fail the task (emits 'error' once)
+     */
+    fail(error: unknown) {
+        if (this.finished) return;
+        this.finished = true;
+        this.settle();
+        this.emit("error", error instanceof Error ? error : new Error(String(error)));
+    }
+}
@@ -0,0 +1,537 @@
+// Copyright (c) 2024 Shafil Alam
+
+import Ajv, { SchemaObject } from "ajv";
+import fs from "fs";
+import path from "path";
+import { FFAlbum, FFCreator, FFImage, FFNode, FFScene, FFSubtitle, FFText, FFVideo } from "ffcreator-autoshorts";
+import { DEFAULT_ENCODING_PROFILE, ENCODING_PROFILES, EncodingProfile, getEncoderOptions } from "./encoding";
+
+/** Version of the timeline document format */
+export const TIMELINE_VERSION = 1;
+
+/** File name of the timeline document in the job folder */
+export const TIMELINE_FILE = "timeline.json";
+
+/**
+ * Error of a timeline document that is invalid or can't be read
+ */
+export class TimelineError extends Error {
+    /** Validation errors of the document */
+    public readonly errors: string[];
+
+    constructor(message: string, errors: string[] = []) {
+        super(errors.length > 0 ? `${message}: ${errors.join(", ")}` : message);
+        this.name = "TimelineError";
+        this.errors = errors;
+    }
+}
+
+/**
+ * Text style of text and subtitle elements
+ */
+export interface TimelineTextStyle {
+    /** Font name */
+    fontFamily?: string;
+    /** Text color */
+    color?: string;
+    /** Outline color */
+    stroke?: string;
+    /** Outline width */
+    strokeThickness?: number;
+}
+
+/**
+ * Position, size and timing of an element
+ */
+interface TimelineElementBase {
+    /** X position of the center in pixels */
+    x: number;
+    /** Y position of the center in pixels */
+    y: number;
+    /** Width in pixels (default is the size of the image, or the video width for videos and albums) */
+    width?: number;
+    /** Height in pixels (default is the size of the image, or the video height for videos and albums) */
+    height?: number;
+    /** Time the element appears in seconds from the start of the scene (default 0) */
+    start?: number;
+    /** Time the element is removed in seconds from the start of the scene (default is the end of the scene) */
+    end?: number;
+    /** Length of the fade in at the start in seconds */
+    fadeIn?: number;
+}
+
+/**
+ * Video element (ex. background video)
+ */
+export interface TimelineVideoElement extends TimelineElementBase {
+    type: "video";
+    /** Asset id of the video file */
+    asset: string;
+    /** Play the audio of the video (default false) */
+    audio?: boolean;
+}
+
+/**
+ * Image element
+ */
+export interface TimelineImageElement extends TimelineElementBase {
+    type: "image";
+    /** Asset id of the image file */
+    asset: string;
+}
+
+/**
+ * Images shown one after another
+ */
+export interface TimelineAlbumElement extends TimelineElementBase {
+    type: "album";
+    /** Asset ids of the image files */
+    assets: string[];
+    /** Seconds each image is shown */
+    imageDuration: number;
+    /** Transition between images (default 'fadeIn') */
+    transition?: string;
+    /** Length of the transition in seconds (default 0.2) */
+    transitionTime?: number;
+}
+
+/**
+ * Text element
+ */
+export interface TimelineTextElement extends TimelineElementBase {
+    type: "text";
+    /** Text */
+    text: string;
+    /** Font size in pixels */
+    fontSize: number;
+    /** Text style */
+    style?: TimelineTextStyle;
+    /** Center the text on its position (default is the left edge) */
+    center?: boolean;
+    /** Background color behind the text */
+    backgroundColor?: string;
+    /** Width to wrap the text at in pixels */
+    wrap?: number;
+}
+
+/**
+ * Subtitles synced to the speech
+ */
+export interface TimelineSubtitlesElement extends TimelineElementBase {
+    type: "subtitles";
+    /** Asset id of the SRT file */
+    asset: string;
+    /** Asset id of the speech audio the subtitles follow */
+    speech: string;
+    /** Spoken text (improves the split of the subtitles) */
+    text?: string;
+    /** Font size in pixels */
+    fontSize: number;
+    /** Text style */
+    style?: TimelineTextStyle;
+    /** Background color behind the subtitles */
+    backgroundColor?: string;
+}
+
+/**
+ * Element of a timeline layer
+ */
+export type TimelineElement = TimelineVideoElement | TimelineImageElement | TimelineAlbumElement | TimelineTextElement | TimelineSubtitlesElement;
+
+/**
+ * Layer of a scene (layers are drawn in order, the last one on top)
+ */
+export interface TimelineLayer {
+    /** Layer name (ex. 'background', 'text') */
+    name: string;
+    /** Elements of the layer */
+    elements: TimelineElement[];
+}
+
+/**
+ * Scene of a timeline (scenes are played one after another)
+ */
+export interface TimelineScene {
+    /** Scene name */
+    name: string;
+    /** Duration in seconds */
+    duration: number;
+    /** Background color (default black) */
+    background?: string;
+    /** Layers of the scene */
+    layers: TimelineLayer[];
+}
+
+/**
+ * Timeline document of a video
+ *
+ * Declarative description of what is shown and when. Video types make a timeline and
+ * `renderTimeline` turns it into FFCreator scenes, so a saved timeline can be edited and rendered again.
+ */
+export interface TimelineDocument {
+    /** Format version */
+    version: number;
+    /** Video type the timeline was made by */
+    type: string;
+    /** Video width in pixels */
+    width: number;
+    /** Video height in pixels */
+    height: number;
+    /** Duration of the video in seconds */
+    duration: number;
+    /** Asset id of the audio of the video */
+    audio: string;
+    /** Files used by the video by asset id */
+    assets: Record<string, string>;
+    /** Scenes of the video */
+    scenes: TimelineScene[];
+}
+
+/** Position, size and timing properties of elements */
+const elementBaseProperties = {
+    x: { type: "number" },
+    y: { type: "number" },
+    width: { type: "number", exclusiveMinimum: 0 },
+    height: { type: "number", exclusiveMinimum: 0 },
+    start: { type: "number", minimum: 0 },
+    end: { type: "number", minimum: 0 },
+    fadeIn: { type: "number", minimum: 0 },
+};
+
+/** Text style schema */
+const textStyleSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        fontFamily: { type: "string" },
+        color: { type: "string" },
+        stroke: { type: "string" },
+        strokeThickness: { type: "number", minimum: 0 },
+    },
+    additionalProperties: false,
+};
+
+/**
+ * Element schema of a type
+ */
+function elementSchema(type: string, properties: Record<string, SchemaObject>, required: string[]): SchemaObject {
+    return {
+        type: "object",
+        properties: { type: { const: type }, ...elementBaseProperties, ...properties },
+        required: ["type", "x", "y", ...required],
+        additionalProperties: false,
+    };
+}
+
+/**
+ * JSON schema of timeline documents
+ */
+export const timelineSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        version: { const: TIMELINE_VERSION },
+        type: { type: "string" },
+        width: { type: "integer", minimum: 1 },
+        height: { type: "integer", minimum: 1 },
+        duration: { type: "number", minimum: 0 },
+        audio: { type: "string" },
+        assets: { type: "object", additionalProperties: { type: "string" } },
+        scenes: {
+            type: "array",
+            minItems: 1,
+            items: {
+                type: "object",
+                properties: {
+                    name: { type: "string" },
+                    duration: { type: "number", minimum: 0 },
+                    background: { type: "string" },
+                    layers: {
+                        type: "array",
+                        items: {
+                            type: "object",
+                            properties: {
+                                name: { type: "string" },
+                                elements: {
+                                    type: "array",
+                                    items: {
+                                        oneOf: [
+                                            elementSchema("video", { asset: { type: "string" }, audio: { type: "boolean" } }, ["asset"]),
+                                            elementSchema("image", { asset: { type: "string" } }, ["asset"]),
+                                            elementSchema("album", { assets: { type: "array", items: { type: "string" }, minItems: 1 }, imageDuration: { type: "number", exclusiveMinimum: 0 }, transition: { type: "string" }, transitionTime: { type: "number", minimum: 0 } }, ["assets", "imageDuration"]),
+                                            elementSchema("text", { text: { type: "string" }, fontSize: { type: "number", exclusiveMinimum: 0 }, style: textStyleSchema, center: { type: "boolean" }, backgroundColor: { type: "string" }, wrap: { type: "number", exclusiveMinimum: 0 } }, ["text", "fontSize"]),
+                                            elementSchema("subtitles", { asset: { type: "string" }, speech: { type: "string" }, text: { type: "string" }, fontSize: { type: "number", exclusiveMinimum: 0 }, style: textStyleSchema, backgroundColor: { type: "string" } }, ["asset", "speech", "fontSize"]),
+                                        ],
+                                    },
+                                },
+                            },
+                            required: ["name", "elements"],
+                        },
+                    },
+                },
+                required: ["name", "duration", "layers"],
+            },
+        },
+    },
+    required: ["version", "type", "width", "height", "duration", "audio", "assets", "scenes"],
+};
+
+/**
+ * Validator of timeline documents
+ * (own instance, the shared one in schema.ts loads the video types, which render timelines)
+ */
+const validateDocument = new Ajv({ allErrors: true, strict: false }).compile(timelineSchema);
+
+/**
+ * Get asset ids used by an element
+ */
+function getElementAssets(element: TimelineElement): string[] {
+    switch (element.type) {
+        case "album":
+            return element.assets;
+        case "subtitles":
+            return [element.asset, element.speech];
+        case "text":
+            return [];
+        default:
+            return [element.asset];
+    }
+}
+
+/**
+ * Validate a timeline document (schema and asset ids)
+ *
+ * @param timeline Timeline document
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateTimeline(timeline: unknown): string[] {
+    if (!validateDocument(timeline)) {
+        return (validateDocument.errors ?? []).map((error) => `'${error.instancePath ? error.instancePath.substring(1).replace(/\//g, ".") : "timeline"}' ${error.message}`);
+    }
+
+    const document = timeline as TimelineDocument;
+    const errors: string[] = [];
+    const checkAsset = (id: string, where: string) => {
+        if (document.assets[id] == undefined) errors.push(`'${where}' uses unknown asset '${id}'`);
+    };
+
+    checkAsset(document.audio, "audio");
+    for (const [sceneIndex, scene] of document.scenes.entries()) {
+        for (const [layerIndex, layer] of scene.layers.entries()) {
+            for (const [elementIndex, element] of layer.elements.entries()) {
+                const where = `scenes.${sceneIndex}.layers.${layerIndex}.elements.${elementIndex}`;
+                for (const id of getElementAssets(element)) {
+                    checkAsset(id, where);
+                }
+
+                if (element.end != undefined && element.end <= (element.start ?? 0)) errors.push(`'${where}' ends before it starts`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Add a file to the assets of a timeline
+ *
+ * @param timeline Timeline document
+ * @param id Asset id
+ * @param file File path
+ * @returns Asset id
+ */
+export function addTimelineAsset(timeline: TimelineDocument, id: string, file: string): string {
+    timeline.assets[id] = file;
+    return id;
+}
+
+/**
+ * Save timeline document (files in the folder of the document are saved as relative paths)
+ *
+ * @param timeline Timeline document
+ * @param file File to save to
+ */
+export function saveTimeline(timeline: TimelineDocument, file: string) {
+    const dir = path.dirname(path.resolve(file));
+    const assets = Object.fromEntries(Object.entries(timeline.assets).map(([id, asset]) => {
+        const relative = path.relative(dir, path.resolve(asset));
+        return [id, relative.startsWith("..") || path.isAbsolute(relative) ? path.resolve(asset) : relative];
+    }));
+
+    fs.writeFileSync(file, JSON.stringify({ ...timeline, assets }, null, 2));
+}
+
+/**
+ * Load timeline document (relative asset paths are resolved from the folder of the document)
+ *
+ * @param file Timeline file (ex. 'timeline.json' of a job)
+ * @returns Timeline document
+ * @throws TimelineError if the file can't be read or the document is invalid
+ */
+export function loadTimeline(file: string): TimelineDocument {
+    let timeline: TimelineDocument;
+
+    try {
+        timeline = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (error) {
+        throw new TimelineError(`Can't read timeline '${file}': ${(error as Error).message}`);
+    }
+
+    const errors = validateTimeline(timeline);
+    if (errors.length > 0) {
+        throw new TimelineError(`Invalid timeline '${file}'`, errors);
+    }
+
+    const dir = path.dirname(path.resolve(file));
+    timeline.assets = Object.fromEntries(Object.entries(timeline.assets).map(([id, asset]) => [id, path.resolve(dir, asset)]));
+
+    return timeline;
+}
+
+/**
+ * Effect added to the FFCreator node of an element
+ */
+export interface TimelineEffect {
+    /** FFCreator effect (ex. 'fadeIn') */
+    type: string;
+    /** Length in seconds (0 shows or removes the element at once) */
+    time: number;
+    /** Time the effect starts in seconds from the start of the scene */
+    delay: number;
+}
+
+/**
+ * Get the effects that time an element (FFCreator nodes have no start and end,
+ * so the element is shown and removed with effects)
+ *
+ * @param element Timeline element
+ * @returns Effects in order
+ */
+export function getElementEffects(element: TimelineElement): TimelineEffect[] {
+    const effects: TimelineEffect[] = [];
+    const start = element.start ?? 0;
+
+    if (element.fadeIn || start > 0) effects.push({ type: "fadeIn", time: element.fadeIn ?? 0, delay: start });
+    if (element.end != undefined) effects.push({ type: "fadeOut", time: 0, delay: element.end });
+
+    return effects;
+}
+
+/**
+ * Get FFCreator style of a text style
+ */
+function getTextStyle(style: TimelineTextStyle = {}): Record<string, unknown> {
+    return {
+        ...style,
+        fontFamily: style.fontFamily ? [style.fontFamily] : undefined,
+    };
+}
+
+/**
+ * Create FFCreator node of an element
+ */
+function createNode(element: TimelineElement, timeline: TimelineDocument): FFNode {
+    const { x, y, width, height } = element;
+    const assets = timeline.assets;
+    let node: FFNode;
+
+    switch (element.type) {
+        case "video": {
+            const video = new FFVideo({ path: assets[element.asset], x, y, width: width ?? timeline.width, height: height ?? timeline.height });
+            video.setAudio(element.audio ?? false);
+            node = video;
+            break;
+        }
+        case "image":
+            node = new FFImage({ path: assets[element.asset], x, y, width, height });
+            break;
+        case "album": {
+            const album = new FFAlbum({ list: element.assets.map((id) => assets[id]), x, y, width: width ?? timeline.width, height: height ?? timeline.height, showCover: false });
+            album.setTransition((element.transition ?? "fadeIn") as Parameters<FFAlbum["setTransition"]>[0]);
+            album.setTransTime(element.transitionTime ?? 0.2);
+            album.setDuration(element.imageDuration);
+            node = album;
+            break;
+        }
+        case "text": {
+            const text = new FFText({ text: element.text, x, y, fontSize: element.fontSize, color: element.style?.color ?? "#ffffff" });
+            if (element.center) text.alignCenter();
+            if (element.style) text.setStyle(getTextStyle(element.style));
+            if (element.backgroundColor) text.setBackgroundColor(element.backgroundColor);
+            if (element.wrap) text.setWrap(element.wrap);
+            node = text;
+            break;
+        }
+        case "subtitles": {
+            const style = getTextStyle(element.style);
+            const subtitles = new FFSubtitle({
+                path: assets[element.asset],
+                x,
+                y,
+                fontSize: element.fontSize,
+                backgroundColor: element.backgroundColor ?? "#000000",
+                color: element.style?.color ?? "#fff",
+                comma: true,
+                style,
+            });
+
+            subtitles.setStyle(style);
+            subtitles.addAnimate("down");
+            if (element.text) subtitles.setText(element.text);
+            subtitles.setSpeech(assets[element.speech]);
+            subtitles.frameBuffer = 24;
+            node = subtitles;
+            break;
+        }
+    }
+
+    for (const effect of getElementEffects(element)) {
+        node.addEffect(effect.type, effect.time, effect.delay);
+    }
+
+    return node;
+}
+
+/**
+ * Render a timeline document (generic renderer of all video types)
+ *
+ * @param timeline Timeline document
+ * @param output Video file
+ * @param encoding Encoding settings (H.264 and AAC, see `canRenderDirectly`, default: the default profile)
+ * @returns FFCreator of the video (call `start()` to render)
+ * @throws TimelineError if the timeline uses an unknown asset
+ */
+export function renderTimeline(timeline: TimelineDocument, output: string, encoding: EncodingProfile = ENCODING_PROFILES[DEFAULT_ENCODING_PROFILE]): FFCreator {
+    const errors = validateTimeline(timeline);
+    if (errors.length > 0) {
+        throw new TimelineError("Invalid timeline", errors);
+    }
+
+    const creator = new FFCreator({
+        output,
+        width: timeline.width,
+        height: timeline.height,
+        audio: timeline.assets[timeline.audio],
+        fps: encoding.fps,
+        crf: encoding.crf,
+        preset: encoding.preset,
+        defaultOutputOptions: { merge: false, options: getEncoderOptions(encoding) },
+        log: true,
+    });
+
+    creator.setDuration(timeline.duration);
+
+    for (const scene of timeline.scenes) {
+        const ffScene = new FFScene();
+        ffScene.setBgColor(scene.background ?? "#000000");
+        ffScene.setDuration(scene.duration);
+
+        for (const layer of scene.layers) {
+            for (const element of layer.elements) {
+                ffScene.addChild(createNode(element, timeline));
+            }
+        }
+
+        creator.addChild(ffScene);
+    }
+
+    return creator;
+}
@@ -1,6 +1,9 @@
 // Copyright (c) 2024 Shafil Alam
 
+import { SchemaObject } from "ajv";
+
 import { VideoGen } from "./videogen";
+import type { VoiceProvider } from "./providers";
 import { ElevenLabsClient } from "elevenlabs";
 import fs from "fs";
 import say from "say";
@@ -14,6 +17,19 @@ export enum VoiceGenType {
     NeetsTTS = "NeetsTTS",
 }
 
+/** Speaking rate used if the voice type has none (words per minute) */
+export const DEFAULT_SPEAKING_RATE = 150;
+
+/**
+ * Speaking rate of each voice type in words per minute (used to estimate video duration)
+ * Rates are of the default voices; the real rate is measured when the duration is verified.
+ */
+export const VOICE_SPEAKING_RATES: Record<VoiceGenType, number> = {
+    [VoiceGenType.ElevenLabs]: 160,
+    [VoiceGenType.BuiltinTTS]: 175,
+    [VoiceGenType.NeetsTTS]: 145,
+};
+
 /**
  * Voice API key Environment variables
  */
@@ -22,6 +38,17 @@ export enum VoiceAPIEnv {
     NeetsTTS = "NEETS_API_KEY",
 }
 
+/** JSON schema of the options of API voices (TTS options of the video options) */
+const apiVoiceOptionsSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        voiceModel: { type: "string" },
+        maleVoice: { type: "string" },
+        femaleVoice: { type: "string" },
+    },
+    additionalProperties: false,
+};
+
 /**
  * Voice generation options
  * @example
@@ -180,7 +207,10 @@ export class BuiltinTTSVoice extends VoiceGen {
      * @param options Voice generation options
      */
     static async generateVoice(gen: VideoGen, options: VoiceGenOptions) {
-        const voiceModel = (options.voice == "male") ? "Alex" : "Vicki";
+        const voiceModel = (options.voice == "male") ?
+            (options.apiOptions?.maleVoice ?? "Alex") :
+            (options.apiOptions?.femaleVoice ?? "Vicki");
+
         return await new Promise<void>((resolve, reject) => {
             say.export(options.text, voiceModel, 1, options.filename, (err: any) => {
                 if (err) gen.log(`[ignoring] Error creating voice for message: ${err.message}`);
@@ -190,3 +220,40 @@ export class BuiltinTTSVoice extends VoiceGen {
         });
     }
 }
+
+/** Built-in TTS provider (say) */
+export const builtinTTSVoiceProvider: VoiceProvider = {
+    id: VoiceGenType.BuiltinTTS,
+    name: "Local Built-in TTS",
+    description: "Local built-in TTS (local/free)",
+    credentials: [],
+    optionsSchema: {
+        type: "object",
+        properties: { maleVoice: { type: "string" }, femaleVoice: { type: "string" } },
+        additionalProperties: false,
+    },
+    capabilities: { speakingRate: VOICE_SPEAKING_RATES[VoiceGenType.BuiltinTTS], local: true },
+    generateVoice: (gen, options) => BuiltinTTSVoice.generateVoice(gen, options),
+};
+
+/** ElevenLabs TTS provider */
+export const elevenLabsVoiceProvider: VoiceProvider = {
+    id: VoiceGenType.ElevenLabs,
+    name: "ElevenLabs",
+    description: "ElevenLabs advanced high-quality TTS (API key required)",
+    credentials: [{ name: "elevenLabsAPIKey", env: VoiceAPIEnv.ElevenLabs, flag: "elevenlabsAPIKey", label: "Eleven Labs API key" }],
+    optionsSchema: apiVoiceOptionsSchema,
+    capabilities: { speakingRate: VOICE_SPEAKING_RATES[VoiceGenType.ElevenLabs], local: false },
+    generateVoice: (gen, options, credentials) => ElevenLabsVoice.generateVoice(gen, options, credentials.elevenLabsAPIKey),
+};
+
+/** Neets.ai TTS provider */
+export const neetsTTSVoiceProvider: VoiceProvider = {
+    id: VoiceGenType.NeetsTTS,
+    name: "Neets.ai",
+    description: "Neets.ai TTS (cheaper but less quality) (API key required)",
+    credentials: [{ name: "neetsAPIKey", env: VoiceAPIEnv.NeetsTTS, flag: "neetsAPIKey", label: "Neets API key" }],
+    optionsSchema: apiVoiceOptionsSchema,
+    capabilities: { speakingRate: VOICE_SPEAKING_RATES[VoiceGenType.NeetsTTS], local: false },
+    generateVoice: (gen, options, credentials) => NeetsTTSVoice.generateVoice(gen, options, credentials.neetsAPIKey),
+};
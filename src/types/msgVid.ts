@@ -1,10 +1,15 @@
 // Copyright (c) 2024 Shafil Alam
 
 import { VideoGen } from '../videogen';
-import { FFScene, FFVideo, FFCreator, FFImage } from "ffcreator-autoshorts";
+import { VideoStage } from '../pipeline';
 import { createCanvas, loadImage } from 'canvas';
 import fs from 'fs';
 import path from 'path';
+import { SchemaObject } from 'ajv';
+import { VideoSpeech } from '../duration';
+import type { VideoTypeDefinition } from '../registry';
+import type { PlanScene, PlannedSpeech } from '../plan';
+import { addTimelineAsset, TimelineDocument, TimelineElement } from '../timeline';
 
 /**
  * Message video data
@@ -43,6 +48,41 @@ export const messageVideoAIPrompt = {
     extra: 'Generate the extra information to be spoken at the end of the video. Do a simple summary of the story and say goodbye Use JSON format. Use this template: {"extra": ""}',
 };
 
+/**
+ * JSON schema of MessageVideoData
+ * Used to validate the AI response for each field and the final video data.
+ */
+export const messageVideoSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        type: { const: "message" },
+        contactname: { type: "string", minLength: 1 },
+        script: {
+            type: "array",
+            minItems: 1,
+            items: {
+                type: "object",
+                properties: {
+                    voice: { enum: ["male", "female"] },
+                    message: { type: "string", minLength: 1 },
+                    msgtype: { enum: ["receiver", "sender"] },
+                },
+                required: ["voice", "message", "msgtype"],
+            },
+        },
+        extra: { type: "string" },
+    },
+    required: ["type", "contactname", "script", "extra"],
+};
+
+/**
+ * Spoken parts of MessageVideoData (used to plan video duration)
+ */
+export const messageVideoSpeech: VideoSpeech<MessageVideoData> = (data) => [
+    ...data.script.map((message) => ({ field: "script", text: message.message, voice: message.voice })),
+    { field: "extra", text: data.extra ?? "" },
+];
+
 /**
  * Message video generation class
  */
@@ -58,6 +98,24 @@ export class MsgVideo extends VideoGen {
         }
     }
 
+    /**
+     * Plan scenes of the video (message bubbles appear when their voice starts)
+     */
+    planScenes(speech: PlannedSpeech[], duration: number): PlanScene[] {
+        const messages = speech.filter((part) => part.field == "script");
+
+        return [{
+            name: "messages",
+            start: 0,
+            duration,
+            elements: [
+                ...this.planBackground(duration),
+                { type: "image", label: `Message header: ${this.jsonData.contactname}`, start: 0, duration },
+                ...messages.map((message) => ({ type: "image", label: `Message bubble: ${message.text}`, start: message.start, duration: duration - message.start })),
+            ],
+        }];
+    }
+
     /**
      * Generate video
      */
@@ -67,42 +125,54 @@ export class MsgVideo extends VideoGen {
 
         const contactName = this.jsonData.contactname;
         const script = this.jsonData.script;
+        const extraInfo = this.jsonData.extra;
 
         this.log('Creating voices for each message in the script...');
-        const voiceFiles = [];
+        const voiceFiles = await this.runStage(VideoStage.Voice, {
+            inputs: this.voiceStageInputs([script, extraInfo]),
+            outputs: (files) => files,
+        }, async () => {
+            const files: string[] = [];
 
-        for (const [index, message] of script.entries()) {
-            const filename = path.join(this.tempPath, `message${index}.wav`);
+            for (const [index, message] of script.entries()) {
+                const filename = path.join(this.tempPath, `message${index}.wav`);
 
-            await this.generateVoice({ text: message.message, voice: message.voice, filename: filename });
+                await this.generateVoice({ text: message.message, voice: message.voice, filename: filename });
 
-            voiceFiles.push(filename);
-        }
+                files.push(filename);
+            }
 
-        const extraInfo = this.jsonData.extra;
-        if (extraInfo) {
-            this.log('Extra info: ' + extraInfo);
-            const filename = path.join(this.tempPath, 'extra.wav');
+            if (extraInfo) {
+                this.log('Extra info: ' + extraInfo);
+                const filename = path.join(this.tempPath, 'extra.wav');
 
-            await this.generateVoice({ text: extraInfo, voice: "male", filename: filename });
+                await this.generateVoice({ text: extraInfo, voice: "male", filename: filename });
 
-            voiceFiles.push(filename);
-        }
+                files.push(filename);
+            }
 
-        this.log('Voices created successfully!');
+            this.log('Voices created successfully!');
+            return files;
+        });
 
-        // Combine audio files into a single audio file
-        this.log('Creating single audio file from all voice files...');
-        const voiceFile = path.join(this.tempPath, 'voice.wav');
+        const audioFile = await this.runStage(VideoStage.Audio, {
+            inputs: this.audioStageInputs(),
+            after: [VideoStage.Voice],
+            outputs: (file) => [file],
+        }, async () => {
+            // Combine audio files into a single audio file
+            this.log('Creating single audio file from all voice files...');
+            const voiceFile = path.join(this.tempPath, 'voice.wav');
 
-        await this.combineVoiceFiles(voiceFiles, voiceFile);
+            await this.combineVoiceFiles(voiceFiles, voiceFile);
 
-        this.log('Audio file created successfully!');
+            this.log('Audio file created successfully!');
 
-        // Video audio file (default is voice audio file)
-        let audioFile = voiceFile;
+            if (!this.useBgMusic) {
+                this.log('Background audio overlay disabled! Using voice audio file only...');
+                return voiceFile;
+            }
 
-        if (this.useBgMusic) {
             // Overlay background audio on top of the voice audio file
             this.log('Overlaying background audio on top of the voice audio file...');
 
@@ -110,134 +180,122 @@ export class MsgVideo extends VideoGen {
             const bgAudio: string = await this.getRandomBgMusic();
             this.log("Background audio is " + bgAudio)
 
-            audioFile = path.join(this.tempPath, 'audio.wav');
+            const audioFile = path.join(this.tempPath, 'audio.wav');
 
             await this.combineVoiceToBgAudio(voiceFile, bgAudio, audioFile);
-        } else {
-            this.log('Background audio overlay disabled! Using voice audio file only...');
-        }
-
-        // Get durations of each audio file
-        this.log('Making list of durations for each audio file...');
-        const durations = await this.getListOfDurations(voiceFiles);
-
-        // Create message header image with text
-        this.log('Creating message header image with text...');
-        const headerFile = await this.generateMessagHeader(contactName);
+            return audioFile;
+        });
 
-        this.log('Creating message images with text...');
-        const messageImages = [];
-        for (const [index, message] of script.entries()) {
-            const filename = path.join(this.tempPath, `message${index}.png`);
-            await this.createIOSMessageBubble(message.message, filename, message.msgtype === 'sender');
-            messageImages.push(filename);
-        }
+        const { headerFile, messageImages } = await this.runStage(VideoStage.Images, {
+            inputs: { contactName, script, fontName: this.subtitleOptions?.fontName, scale: this.getLayout().scale },
+            outputs: (images) => [images.headerFile, ...images.messageImages],
+        }, async () => {
+            // Create message header image with text
+            this.log('Creating message header image with text...');
+            const headerFile = await this.generateMessagHeader(contactName);
+
+            this.log('Creating message images with text...');
+            const messageImages: string[] = [];
+            for (const [index, message] of script.entries()) {
+                const filename = path.join(this.tempPath, `message${index}.png`);
+                await this.createIOSMessageBubble(message.message, filename, message.msgtype === 'sender');
+                messageImages.push(filename);
+            }
+
+            return { headerFile, messageImages };
+        });
 
         // Create video from audio file with on-screen text
         this.log('Creating video from audio file with on-screen text...');
-        const videoFile = path.join(this.tempPath, 'video.mp4');
+        const videoFile = this.getVideoFile();
 
-        const [width, height] = this.getResolution();
+        await this.renderStage({
+            inputs: this.renderStageInputs(),
+            after: [VideoStage.Voice, VideoStage.Audio, VideoStage.Images],
+        }, videoFile, async () => {
+            // Get durations of each audio file
+            this.log('Making list of durations for each audio file...');
+            const durations = await this.getListOfDurations(voiceFiles);
 
-        const creator = new FFCreator({
-            output: videoFile,
-            width: width,
-            height: height,
-            audio: audioFile,
-            log: true,
-        });
+            // get duration of audio file
+            const fullDuration = await this.getAudioDuration(audioFile);
 
-        this.log("Audio file is " + audioFile)
-        this.log("Video file is " + videoFile)
+            this.log("Full duration of audio is " + fullDuration)
 
-        // get duration of audio file
-        const fullDuration = await this.getAudioDuration(audioFile);
-
-        this.log("Full duration of audio is " + fullDuration)
-
-        creator.setDuration(fullDuration);
-
-        const scene = new FFScene();
-        scene.setBgColor('#000000');
-        scene.setDuration(fullDuration);
-
-        if (this.useBgVideo) {
-            // Get random video background
-            const bgVideo = this.getRandomBgVideo();
-            this.log(`Background video file: ${bgVideo}`);
-
-            const bg = new FFVideo({ path: bgVideo, x: width / 2, y: height / 2, width: width, height: height });
-            bg.setAudio(false);
-            scene.addChild(bg);
-        } else {
-            this.log('Background video overlay disabled! Using black background...');
-        }
-
-        const header = new FFImage({ path: headerFile, x: width / 2, y: 400 });
-        scene.addChild(header);
-
-        for (const [index, img] of messageImages.entries()) {
-            this.log(`Image #${index} path is ${img}`)
-            this.log(`Image #${index} y is ${((400 * 1.4) + (70 * index))}`)
-            const messageImage = new FFImage({ path: img, x: width / 2, y: ((400 * 1.4) + (70 * index)) });
-            const imgStartDuration = durations.slice(0, index).reduce((a, b) => a + b, 0);
-            messageImage.addEffect('fadeIn', 0.2, imgStartDuration);
-            this.log(`Image #${index} start duration is ${imgStartDuration} s`)
-            this.log(`Image #${index} full duration is ${(fullDuration - imgStartDuration)} s`)
-            messageImage.setDuration(fullDuration - imgStartDuration);
-            scene.addChild(messageImage);
-        }
-
-        creator.addChild(scene);
-
-        creator.start();
-        creator.closeLog();
-
-        creator.on('start', () => {
-            this.log(`FFCreator start`);
+            return this.buildTimeline({ audioFile, headerFile, messageImages }, durations, fullDuration);
         });
-        creator.on('error', e => {
-            this.log(`FFCreator error: ${JSON.stringify(e)}`);
-        });
-        creator.on('progress', e => {
-            this.log(`FFCreator progress: rendering ${(e.percent * 100) >> 0}%`);
-        });
-        creator.on('complete', e => {
-            this.log(`FFCreator completed: \n USAGE: ${e.useage} \n PATH: ${e.output} `);
-            this.emitter.emit('done', e.output);
+    }
+
+    /**
+     * Build timeline of the video (message header and message bubbles that fade in when their voice starts)
+     *
+     * @param files Audio, header image and message images of the video
+     * @param durations Durations of the voice files
+     * @param duration Duration of the video in seconds
+     * @returns Timeline of the video
+     */
+    buildTimeline(files: { audioFile: string, headerFile: string, messageImages: string[] }, durations: number[], duration: number): TimelineDocument {
+        const timeline = this.createTimeline(files.audioFile, duration);
+        const layout = this.getLayout();
+        const x = layout.x(0.5);
+        const headerY = layout.y(0.21);
+
+        const messages: TimelineElement[] = files.messageImages.map((img, index) => ({
+            type: "image",
+            asset: addTimelineAsset(timeline, `message-${index}`, img),
+            x,
+            y: headerY + layout.size(160 + (70 * index)),
+            start: durations.slice(0, index).reduce((a, b) => a + b, 0),
+            end: duration,
+            fadeIn: 0.2,
+        }));
+
+        timeline.scenes.push({
+            name: "messages",
+            duration,
+            layers: [
+                this.createBackgroundLayer(timeline),
+                { name: "header", elements: [{ type: "image", asset: addTimelineAsset(timeline, "header", files.headerFile), x, y: headerY }] },
+                { name: "messages", elements: messages },
+            ],
         });
+
+        return timeline;
     }
 
     async generateMessagHeader(name: string): Promise<string> {
         // registerFont(path.join(__dirname, '/../res/SF-Pro-Display-Regular.otf'), { family: 'SF Pro Display' });
+        const scale = this.getLayout().scale;
         const headerImage = await loadImage(path.join(this.resPath, 'msg_header.png'));
-        const headerCanvas = createCanvas(headerImage.width, headerImage.height);
+        const headerCanvas = createCanvas(Math.round(headerImage.width * scale), Math.round(headerImage.height * scale));
         const headerCtx = headerCanvas.getContext('2d');
-        headerCtx.drawImage(headerImage, 0, 0);
-        headerCtx.font = `20px "${this.subtitleOptions?.fontName ?? 'SF Pro Display'}"`;
+        headerCtx.drawImage(headerImage, 0, 0, headerCanvas.width, headerCanvas.height);
+        headerCtx.font = `${Math.round(20 * scale)}px "${this.subtitleOptions?.fontName ?? 'SF Pro Display'}"`;
         headerCtx.fillStyle = 'white';
         headerCtx.textAlign = 'center';
-        headerCtx.fillText(name, headerImage.width / 2, 225);
+        headerCtx.fillText(name, headerCanvas.width / 2, 225 * scale);
         const headerFile = path.join(this.tempPath, 'msg_header.png');
         fs.writeFileSync(headerFile, headerCanvas.toBuffer('image/png'));
         this.log('Message header image created successfully!');
         return headerFile;
     }
 
-    // Create message images with text
+    // Create message images with text (sizes are scaled to the video resolution)
     async createIOSMessageBubble(message: string, output_file: string, sender = true) {
-        const padding = 10;
-        const canvas = createCanvas(828, 1280);
+        const scale = this.getLayout().scale;
+        const padding = Math.round(10 * scale);
+        const bubbleWidth = Math.round(828 * scale);
+        const canvas = createCanvas(bubbleWidth, Math.round(1280 * scale));
         const ctx = canvas.getContext('2d');
 
         // Set up text properties
-        ctx.font = `30px "${this.subtitleOptions?.fontName ?? 'SF Pro Display'}"`;
+        ctx.font = `${Math.round(30 * scale)}px "${this.subtitleOptions?.fontName ?? 'SF Pro Display'}"`;
         ctx.textBaseline = 'top';
         const textWidth = ctx.measureText(message).width;
         const textHeight = parseInt(ctx.font);
 
         // Set image dimensions
-        const imageWidth = 828 - padding * 2;
+        const imageWidth = bubbleWidth - padding * 2;
         const imageHeight = textHeight + padding * 2;
         const bubbleColor = sender ? 'rgba(0, 122, 255, 1)' : 'rgba(50, 50, 50, 1)';
         const textColor = 'rgba(255, 255, 255, 1)';
@@ -245,7 +303,7 @@ export class MsgVideo extends VideoGen {
         const mainCanvas = createCanvas(imageWidth, imageHeight);
 
         const mainCtx = mainCanvas.getContext('2d');
-        mainCtx.font = '30px "SF Pro Display"';
+        mainCtx.font = `${Math.round(30 * scale)}px "SF Pro Display"`;
         mainCtx.textBaseline = 'top';
 
         mainCtx.fillStyle = 'rgba(0, 0, 0, 255)';
@@ -256,7 +314,7 @@ export class MsgVideo extends VideoGen {
         const bubble_size_y = 0;
         const bubble_w = textWidth + padding * 2;
         const bubble_h = imageHeight;
-        const radius = 20;
+        const radius = Math.round(20 * scale);
 
         mainCtx.fillStyle = bubbleColor;
         mainCtx.beginPath();
@@ -295,3 +353,16 @@ export class MsgVideo extends VideoGen {
         fs.writeFileSync(output_file, buffer);
     };
 }
+
+/**
+ * Message video type (registered as 'message')
+ */
+export const messageVideoType: VideoTypeDefinition<MessageVideoData> = {
+    name: "message",
+    description: "Make a video about a text message conversation between two people.",
+    fieldPrompts: messageVideoAIPrompt,
+    schema: messageVideoSchema,
+    videoClass: MsgVideo,
+    speech: messageVideoSpeech,
+    form: { label: "Message", description: "Send a message to a person", icon: "FaComment" },
+};
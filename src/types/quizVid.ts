@@ -1,8 +1,15 @@
 // Copyright (c) 2024 Shafil Alam
 
-import { FFCreator, FFScene, FFSubtitle, FFText, FFVideo } from "ffcreator-autoshorts";
 import { VideoGen } from "../videogen";
+import { VideoStage } from "../pipeline";
 import path from 'path';
+import { SchemaObject } from 'ajv';
+import { VideoSpeech } from '../duration';
+import { formatLocaleString } from '../locale';
+import { ReviewRule } from '../review';
+import type { VideoTypeDefinition } from '../registry';
+import type { PlanScene, PlannedSpeech } from '../plan';
+import { addTimelineAsset, TimelineDocument, TimelineElement } from '../timeline';
 
 /**
  * Quiz video data
@@ -36,6 +43,73 @@ export const quizVideoAIPrompt = {
     end_script: 'Generate what will be spoken at end of the quiz video. Use JSON format. Use this template: {"end_script": ""}',
 }
 
+/**
+ * JSON schema of QuizVideoData
+ * Used to validate the AI response for each field and the final video data.
+ */
+export const quizVideoSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        type: { const: "quiz" },
+        title: { type: "string", minLength: 1 },
+        questions: {
+            type: "array",
+            minItems: 1,
+            items: {
+                type: "object",
+                properties: {
+                    question: { type: "string", minLength: 1 },
+                    answer: { type: "string", minLength: 1 },
+                },
+                required: ["question", "answer"],
+            },
+        },
+        start_script: { type: "string" },
+        end_script: { type: "string" },
+    },
+    required: ["type", "title", "questions", "start_script", "end_script"],
+};
+
+/** Max length of an answer that fits on screen */
+export const QUIZ_MAX_ANSWER_LENGTH = 40;
+/** Max length of a question that fits on screen */
+export const QUIZ_MAX_QUESTION_LENGTH = 120;
+
+/**
+ * Review rules of QuizVideoData
+ * Used to find problems the AI should revise after the data is generated.
+ */
+export const quizVideoReviewRules: ReviewRule<QuizVideoData>[] = [
+    (data) => data.questions.flatMap((question, i) => question.answer.length > QUIZ_MAX_ANSWER_LENGTH ? [{
+        field: "questions",
+        path: `questions.${i}.answer`,
+        rule: "answer-length",
+        message: `Answer of question ${i + 1} is too long to fit on screen (${question.answer.length}/${QUIZ_MAX_ANSWER_LENGTH} characters)`,
+    }] : []),
+    (data) => data.questions.flatMap((question, i) => question.question.length > QUIZ_MAX_QUESTION_LENGTH ? [{
+        field: "questions",
+        path: `questions.${i}.question`,
+        rule: "question-length",
+        message: `Question ${i + 1} is too long to fit on screen (${question.question.length}/${QUIZ_MAX_QUESTION_LENGTH} characters)`,
+    }] : []),
+];
+
+/** Length of clock sound after each quiz question in seconds */
+export const QUIZ_CLOCK_SECONDS = 5;
+
+/**
+ * Spoken parts of QuizVideoData (used to plan video duration)
+ */
+export const quizVideoSpeech: VideoSpeech<QuizVideoData> = (data, locale) => [
+    { field: "start_script", text: data.start_script ?? "" },
+    ...data.questions.map((question, i) => ({
+        field: "questions",
+        text: `${formatLocaleString(locale.strings.quizQuestion, { number: i + 1, question: question.question })} ${question.answer}`,
+        pauseSeconds: QUIZ_CLOCK_SECONDS,
+    })),
+    { field: "end_script", text: data.end_script ?? "" },
+];
+
 /**
  * Quiz video generation
  */
@@ -51,6 +125,28 @@ export class QuizVideo extends VideoGen {
         }
     }
 
+    /**
+     * Plan scenes of the video (answers appear a second before their question ends)
+     */
+    planScenes(speech: PlannedSpeech[], duration: number): PlanScene[] {
+        const questions = speech.filter((part) => part.field == "questions");
+
+        return [{
+            name: "quiz",
+            start: 0,
+            duration,
+            elements: [
+                ...this.planBackground(duration),
+                { type: "text", label: `Title: ${this.jsonData.title}`, start: 0, duration },
+                ...questions.map((question, index) => {
+                    const start = Math.max(question.start + question.duration - 1, 0);
+                    return { type: "text", label: `${index + 1}. ${this.jsonData.questions[index].answer}`, start, duration: duration - start };
+                }),
+                { type: "subtitles", label: "Subtitles", start: 0, duration },
+            ],
+        }];
+    }
+
     /**
      * Generate video
      */
@@ -58,253 +154,186 @@ export class QuizVideo extends VideoGen {
         this.checkJson();
         this.checkTempPath();
 
-        const title = this.jsonData.title;
         const questions = this.jsonData.questions;
         const start_script = this.jsonData.start_script;
         const end_script = this.jsonData.end_script;
 
         this.log('Creating voices for each message in the script...');
-        const voiceFiles = [];
-
-        // Generate voices for each message in the script
-
-        // Gen start voice
-        if (start_script) {
-            const filename = path.join(this.tempPath, 'start.wav');
-            await this.generateVoice({ text: start_script, voice: 'male', filename });
-            voiceFiles.push(filename);
-        }
-
-        // Gen questions voice
-        for (const [index, question] of questions.entries()) {
-            const questionFilename = path.join(this.tempPath, `question-${index}`);
-            const script = `Question ${index + 1}: ${question.question}`;
-            await this.generateVoice({ text: script, voice: 'male', filename: questionFilename + ".wav" });
-
-            const answerFilename = path.join(this.tempPath, `answer-${index}`);
-            const answer = question.answer;
-            await this.generateVoice({ text: answer, voice: 'male', filename: answerFilename + ".wav" });
-
-            // Merge img/clock.mp3 to the question voice
-            const clockAudio = path.join(this.resPath, 'clock.mp3');
-            const fullAudio = `${questionFilename}-full.wav`;
-            await this.mergeMultiAudio(questionFilename + ".wav", answerFilename + ".wav", clockAudio, fullAudio);
-
-            this.log(`Full clock file created: ${fullAudio}`);
-
-            voiceFiles.push(fullAudio);
-        }
-        // Gen end voice
-        if (end_script) {
-            const filename = path.join(this.tempPath, 'end.wav');
-            await this.generateVoice({ text: end_script, voice: 'male', filename });
-            voiceFiles.push(filename);
-        }
-
-        this.log('Voices created successfully!');
+        const voiceFiles = await this.runStage(VideoStage.Voice, {
+            inputs: this.voiceStageInputs([start_script, questions, end_script]),
+            outputs: (files) => files,
+        }, async () => {
+            const files: string[] = [];
+
+            // Gen start voice
+            if (start_script) {
+                const filename = path.join(this.tempPath, 'start.wav');
+                await this.generateVoice({ text: start_script, voice: 'male', filename });
+                files.push(filename);
+            }
+
+            // Gen questions voice
+            for (const [index, question] of questions.entries()) {
+                const questionFilename = path.join(this.tempPath, `question-${index}`);
+                const script = formatLocaleString(this.locale.strings.quizQuestion, { number: index + 1, question: question.question });
+                await this.generateVoice({ text: script, voice: 'male', filename: questionFilename + ".wav" });
+
+                const answerFilename = path.join(this.tempPath, `answer-${index}`);
+                const answer = question.answer;
+                await this.generateVoice({ text: answer, voice: 'male', filename: answerFilename + ".wav" });
+
+                // Merge img/clock.mp3 to the question voice
+                const clockAudio = path.join(this.resPath, 'clock.mp3');
+                const fullAudio = `${questionFilename}-full.wav`;
+                await this.mergeMultiAudio(questionFilename + ".wav", answerFilename + ".wav", clockAudio, fullAudio);
+
+                this.log(`Full clock file created: ${fullAudio}`);
+
+                files.push(fullAudio);
+            }
+            // Gen end voice
+            if (end_script) {
+                const filename = path.join(this.tempPath, 'end.wav');
+                await this.generateVoice({ text: end_script, voice: 'male', filename });
+                files.push(filename);
+            }
+
+            this.log('Voices created successfully!');
+            return files;
+        });
 
-        // Combine audio files into a single audio file
-        this.log('Creating single audio file from all voice files...');
-        const voiceFile = path.join(this.tempPath, 'voice.wav');
+        const { audioFile, audio16kFile } = await this.runStage(VideoStage.Audio, {
+            inputs: this.audioStageInputs(),
+            after: [VideoStage.Voice],
+            outputs: (audio) => [audio.audioFile, audio.audio16kFile],
+        }, async () => {
+            // Combine audio files into a single audio file
+            this.log('Creating single audio file from all voice files...');
+            const voiceFile = path.join(this.tempPath, 'voice.wav');
 
-        await this.combineVoiceFiles(voiceFiles, voiceFile);
+            await this.combineVoiceFiles(voiceFiles, voiceFile);
 
-        this.log('Audio file created successfully!');
+            this.log('Audio file created successfully!');
 
-        this.log('Making list of durations for each audio file...');
-        const durations = await this.getListOfDurations(voiceFiles);
+            // Video audio file (default is voice audio file)
+            let audioFile = voiceFile;
 
-        // Video audio file (default is voice audio file)
-        let audioFile = voiceFile;
+            if (this.useBgMusic) {
+                // Overlay background audio on top of the voice audio file
+                this.log('Overlaying background audio on top of the voice audio file...');
 
-        if (this.useBgMusic) {
-            // Overlay background audio on top of the voice audio file
-            this.log('Overlaying background audio on top of the voice audio file...');
+                // Choose a random background audio file .mp3 from the music folder
+                const bgAudio: string = await this.getRandomBgMusic();
+                this.log("Background audio is " + bgAudio)
 
-            // Choose a random background audio file .mp3 from the music folder
-            const bgAudio: string = await this.getRandomBgMusic();
-            this.log("Background audio is " + bgAudio)
+                audioFile = path.join(this.tempPath, 'audio.wav');
 
-            audioFile = path.join(this.tempPath, 'audio.wav');
+                await this.combineVoiceToBgAudio(voiceFile, bgAudio, audioFile);
+            } else {
+                this.log('Background audio overlay disabled! Using voice audio file only...');
+            }
 
-            await this.combineVoiceToBgAudio(voiceFile, bgAudio, audioFile);
-        } else {
-            this.log('Background audio overlay disabled! Using voice audio file only...');
-        }
+            // Make 16k audio file
+            const audio16kFile = path.join(this.tempPath, 'audio16k.wav');
+            await this.genAudio16K(audioFile, audio16kFile);
 
-        // Make 16k audio file
-        const audio16kFile = path.join(this.tempPath, 'audio16k.wav');
-        await this.genAudio16K(audioFile, audio16kFile);
-
-        this.log('Background audio overlay complete!');
+            this.log('Background audio overlay complete!');
+            return { audioFile, audio16kFile };
+        });
 
         this.log('Creating subtitles from text...');
-        const srtFile = path.join(this.tempPath, 'audio16k.wav.srt');
-        await this.generateSubtitles(audio16kFile, srtFile, this.subtitleOptions?.maxLen ?? 20);
+        const srtFile = await this.subtitlesStage(audio16kFile, path.join(this.tempPath, 'audio16k.wav.srt'), this.subtitleOptions?.maxLen ?? 20);
 
         // Create video from audio file with on-screen text
         this.log('Creating video from audio file with on-screen text...');
-        const videoFile = path.join(this.tempPath, 'video.mp4');
+        const videoFile = this.getVideoFile();
 
-        const [width, height] = this.getResolution();
+        await this.renderStage({
+            inputs: this.renderStageInputs(),
+            after: [VideoStage.Voice, VideoStage.Audio, VideoStage.Subtitles],
+        }, videoFile, async () => {
+            this.log('Making list of durations for each audio file...');
+            const durations = await this.getListOfDurations(voiceFiles);
 
-        const creator = new FFCreator({
-            output: videoFile,
-            width: width,
-            height: height,
-            audio: audioFile,
-            log: true,
-        });
+            // get duration of audio file
+            const fullDuration = await this.getAudioDuration(audioFile);
 
-        this.log("Audio file is " + audioFile)
-        this.log("Video file is " + videoFile)
+            this.log("Full duration of audio is " + fullDuration)
 
-        // get duration of audio file
-        const fullDuration = await this.getAudioDuration(audioFile);
-
-        this.log("Full duration of audio is " + fullDuration)
-
-        creator.setDuration(fullDuration);
-
-        //  Show message images on screen based on audio duration; stack vertically; hide then show once duration is reached
-        const scene = new FFScene();
-        scene.setBgColor('#000000');
-        scene.setDuration(fullDuration);
-
-        if (this.useBgVideo) {
-            // Get random video background
-            const bgVideo = this.getRandomBgVideo();
-            this.log(`Background video file: ${bgVideo}`);
-
-            const bg = new FFVideo({ path: bgVideo, x: width / 2, y: height / 2, width: width, height: height });
-            bg.setAudio(false);
-            scene.addChild(bg);
-        } else {
-            this.log('Background video overlay disabled! Using black background...');
-        }
-
-        // Add title text
-        const titleObj = new FFText({
-            text: title,
-            x: width / 2,
-            y: 150,
-            fontSize: 60,
-            color: '#ffffff',
-            // fontFamily: ['Bangers'],
+            return this.buildTimeline({ audioFile, srtFile }, durations, fullDuration);
         });
+    }
 
-        titleObj.alignCenter()
+    /**
+     * Build timeline of the video (title, numbers, answers that fade in before each question ends and subtitles)
+     *
+     * @param files Audio and subtitle files of the video
+     * @param durations Durations of the voice files
+     * @param duration Duration of the video in seconds
+     * @returns Timeline of the video
+     */
+    buildTimeline(files: { audioFile: string, srtFile: string }, durations: number[], duration: number): TimelineDocument {
+        const timeline = this.createTimeline(files.audioFile, duration);
+        const layout = this.getLayout();
+        const fontFamily = this.subtitleOptions?.fontName ?? 'Bangers';
+        const stroke = { stroke: '#000000', strokeThickness: layout.size(20) };
 
-        titleObj.setStyle({
-            fontFamily: [(this.subtitleOptions?.fontName ?? 'Bangers')],
-            // fontWeight: 'bold',
-            color: '#fff',
-            stroke: '#000000',
-            strokeThickness: 20,
-        });
+        // Colors of the answers (green, red, yellow, cyan, orange, purple, pink)
+        const colors = ['#00FF00', '#FF0000', '#FFFF00', '#00FFFF', '#FFA500', '#800080', '#FFC0CB'];
 
-        scene.addChild(titleObj);
+        const text: TimelineElement[] = [
+            { type: "text", text: this.jsonData.title, x: layout.x(0.5), y: layout.y(0.08), fontSize: layout.size(60), center: true, style: { fontFamily, color: '#fff', ...stroke } },
+        ];
+
+        // Add questions and answers (rows fill the space below the subtitles)
+        const questions = this.jsonData.questions;
+        const rowHeight = Math.min(0.1, 0.6 / Math.max(questions.length, 1));
+        const fontSize = Math.min(layout.size(90), Math.round(layout.height * rowHeight * 0.8));
 
-        // Add questions and answers
         for (const [index, question] of questions.entries()) {
-            const question_start_duration = (durations.slice(0, index + 2).reduce((a, b) => a + b, 0) - 1);
-
-            // Get color based on index (green, red, yellow, cyan, orange, purple, pink)
-            const colors = ['#00FF00', '#FF0000', '#FFFF00', '#00FFFF', '#FFA500', '#800080', '#FFC0CB'];
-            const randomColor = colors[index];
-
-            // Black outline
-            const outlineColor = '#000000';
-
-            const questionObj = new FFText({
-                text: `${index + 1}.`,
-                x: 100,
-                y: 600 + (200 * index),
-                fontSize: 90,
-                color: randomColor,
-                // fontFamily: ['Bangers'],
-            });
-
-            questionObj.setStyle({
-                fontFamily: [(this.subtitleOptions?.fontName ?? 'Bangers')],
-                // fontWeight: 'bold',
-                color: randomColor,
-                stroke: outlineColor,
-                strokeThickness: 20,
-            });
-
-            scene.addChild(questionObj);
-
-            const answerObj = new FFText({
-                text: question.answer,
-                x: 100 + 100,
-                y: 600 + (200 * index),
-                fontSize: 90,
-                color: randomColor,
-                // fontFamily: ['Bangers'],
-            });
-
-            answerObj.addEffect('fadeIn', 0.2, question_start_duration);
-
-            answerObj.setStyle({
-                fontFamily: [(this.subtitleOptions?.fontName ?? 'Bangers')],
-                // fontWeight: 'bold',
-                color: randomColor,
-                stroke: outlineColor,
-                strokeThickness: 20,
-            });
-
-            scene.addChild(answerObj);
+            const questionStart = durations.slice(0, index + 2).reduce((a, b) => a + b, 0) - 1;
+            const style = { fontFamily, color: colors[index % colors.length], ...stroke };
+            const y = layout.y(0.31 + rowHeight * index);
+
+            text.push({ type: "text", text: `${index + 1}.`, x: layout.size(100), y, fontSize, style });
+            text.push({ type: "text", text: question.answer, x: layout.size(200), y, fontSize, style, start: Math.max(questionStart, 0), fadeIn: 0.2 });
         }
 
-        // Add subtitles
-        const subStyle = {
-            fontFamily: [(this.subtitleOptions?.fontName ?? 'Bangers')],
-            // fontWeight: 'bold',
-            color: '#fff',
-            stroke: '#000000',
-            strokeThickness: 20,
+        const subtitles: TimelineElement = {
+            type: "subtitles",
+            asset: addTimelineAsset(timeline, "subtitles", files.srtFile),
+            speech: timeline.audio,
+            x: layout.x(0.5),
+            y: layout.y(0.21),
+            fontSize: layout.size(70),
+            backgroundColor: '#000000',
+            style: { fontFamily, color: '#fff', ...stroke },
         };
 
-        const subObj = new FFSubtitle({
-            path: path.join(this.tempPath, 'audio16k.wav.srt'),
-            x: width / 2,
-            y: 400,
-            fontSize: 70,
-            backgroundColor: '#000000',
-            color: '#fff',
-            comma: true,
-            style: subStyle
+        timeline.scenes.push({
+            name: "quiz",
+            duration,
+            layers: [
+                this.createBackgroundLayer(timeline),
+                { name: "text", elements: text },
+                { name: "subtitles", elements: [subtitles] },
+            ],
         });
 
-        subObj.setStyle(subStyle);
-
-        this.log("Subtitles file is " + srtFile)
-
-        // subObj.setFont(path.join(__dirname, '/res/Mont.otf'));
-        subObj.addAnimate("down");
-        subObj.setSpeech(audioFile);
-        subObj.frameBuffer = 24;
-
-        scene.addChild(subObj);
-
-        creator.addChild(scene);
-
-        creator.start();
-        creator.closeLog();
-
-        creator.on('start', () => {
-            this.log(`FFCreator start`);
-        });
-        creator.on('error', e => {
-            this.log(`FFCreator error: ${JSON.stringify(e)}`);
-        });
-        creator.on('progress', e => {
-            this.log(`FFCreator progress: rendering ${(e.percent * 100) >> 0}%`);
-        });
-        creator.on('complete', e => {
-            this.log(`FFCreator completed: \n USAGE: ${e.useage} \n PATH: ${e.output} `);
-            this.emitter.emit('done', e.output);
-        });
+        return timeline;
     }
 }
+
+/**
+ * Quiz video type (registered as 'quiz')
+ */
+export const quizVideoType: VideoTypeDefinition<QuizVideoData> = {
+    name: "quiz",
+    description: "Make a quiz video with questions and answers.",
+    fieldPrompts: quizVideoAIPrompt,
+    schema: quizVideoSchema,
+    videoClass: QuizVideo,
+    reviewRules: quizVideoReviewRules,
+    speech: quizVideoSpeech,
+    form: { label: "Quiz", description: "Create a quiz video", icon: "FaQuestion" },
+};
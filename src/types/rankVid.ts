@@ -1,10 +1,15 @@
 // Copyright (c) 2024 Shafil Alam
 
 import { VideoGen } from "../videogen";
-import { FFCreator, FFImage, FFScene } from "ffcreator-autoshorts";
-import { createCanvas, loadImage } from "canvas";
+import { VideoStage } from "../pipeline";
 import path from "path";
-import fs from "fs";
+import { SchemaObject } from "ajv";
+import { VideoSpeech } from "../duration";
+import { ReviewRule } from "../review";
+import type { VideoTypeDefinition } from "../registry";
+import type { PlanScene, PlannedSpeech } from "../plan";
+import type { ImageAlternates } from "../imagequery";
+import { addTimelineAsset, TimelineDocument, TimelineElement } from "../timeline";
 
 /**
  * Rank video data
@@ -28,6 +33,8 @@ export interface RankVideoData {
     start_script: string;
     /** End script to be spoken */
     end_script: string;
+    /** Alternate search terms of each image search term (optional, the best image of all terms is used) */
+    imageAlternates?: ImageAlternates;
 }
 
 /**
@@ -42,6 +49,49 @@ export const rankVideoAIPrompt = {
     end_script: 'Generate what will be spoken at end of the video. Do not include rankings in this field. Do a simple goodbye or thank you message. Use JSON format. Use this template: {"end_script": ""}',
 };
 
+/**
+ * JSON schema of RankVideoData
+ * Used to validate the AI response for each field and the final video data.
+ */
+export const rankVideoSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        type: { const: "rank" },
+        title: { type: "string", minLength: 1 },
+        rankings: { type: "array", items: { type: "string", minLength: 1 }, minItems: 1 },
+        images: { type: "array", items: { type: "string", minLength: 1 }, minItems: 1 },
+        start_script: { type: "string", minLength: 1 },
+        end_script: { type: "string", minLength: 1 },
+        imageAlternates: { type: "object", additionalProperties: { type: "array", items: { type: "string" } } },
+    },
+    required: ["type", "title", "rankings", "images", "start_script", "end_script"],
+};
+
+/**
+ * Review rules of RankVideoData
+ * Used to find problems the AI should revise after the data is generated.
+ */
+export const rankVideoReviewRules: ReviewRule<RankVideoData>[] = [
+    (data) => data.images.length != data.rankings.length ? [{
+        field: "images",
+        path: "images",
+        rule: "images-length",
+        message: `Number of images (${data.images.length}) must match number of rankings (${data.rankings.length}), one image search term for each ranking item in the same order`,
+    }] : [],
+];
+
+/** Length of tick sound after each ranking in seconds */
+export const RANK_TICK_SECONDS = 3;
+
+/**
+ * Spoken parts of RankVideoData (used to plan video duration)
+ */
+export const rankVideoSpeech: VideoSpeech<RankVideoData> = (data) => [
+    { field: "start_script", text: data.start_script ?? "" },
+    ...data.rankings.map((rank) => ({ field: "rankings", text: rank, pauseSeconds: RANK_TICK_SECONDS })),
+    { field: "end_script", text: data.end_script ?? "" },
+];
+
 /**
  * Rank video generation
  */
@@ -57,6 +107,36 @@ export class RankVideo extends VideoGen {
         }
     }
 
+    /**
+     * Plan scenes of the video (title scene, then one scene for each rank)
+     */
+    planScenes(speech: PlannedSpeech[]): PlanScene[] {
+        const images: string[] = this.jsonData.images ?? [];
+        const rankings: string[] = this.jsonData.rankings;
+        const scenes: PlanScene[] = [];
+
+        for (const [index, title] of [this.jsonData.title, ...rankings].entries()) {
+            const part = speech[index];
+            let duration = part?.duration ?? 0;
+
+            if (index == rankings.length) {
+                duration += speech[speech.length - 1]?.duration ?? 0;
+            }
+
+            scenes.push({
+                name: index == 0 ? "start" : `rank-${index - 1}`,
+                start: part?.start ?? 0,
+                duration,
+                elements: [
+                    { type: "image", label: images[Math.max(index - 1, 0)] ?? "", start: part?.start ?? 0, duration },
+                    { type: "text", label: title, start: part?.start ?? 0, duration },
+                ],
+            });
+        }
+
+        return scenes;
+    }
+
     /**
      * Generate video
      */
@@ -64,58 +144,64 @@ export class RankVideo extends VideoGen {
         this.checkJson();
         this.checkTempPath();
 
-        const title = this.jsonData.title;
         const start_script = this.jsonData.start_script;
         const end_script = this.jsonData.end_script;
         const rankings = this.jsonData.rankings;
         const images = this.jsonData.images;
 
-        const voicesFiles: string[] = [];
-
-        if (start_script) {
-            const filename = path.join(this.tempPath, 'start.wav');
-            await this.generateVoice({ text: start_script, voice: "male", filename: filename });
-            voicesFiles.push(filename);
-        }
-
-        for (const [index, rank] of rankings.entries()) {
-            const rankFilename = path.join(this.tempPath, `rank-${index}`);
-            await this.generateVoice({ text: rank, voice: "male", filename: rankFilename + ".wav" });
+        const voicesFiles = await this.runStage(VideoStage.Voice, {
+            inputs: this.voiceStageInputs([start_script, rankings, end_script]),
+            outputs: (files) => files,
+        }, async () => {
+            const files: string[] = [];
 
-            // Merge res/tick.mp3 to the question voice
-            const clockAudio = path.join(this.resPath, 'tick.mp3');
-            const fullAudio = `${rankFilename}-full.wav`;
-            await this.mergeAudio(rankFilename + ".wav", clockAudio, fullAudio);
-            voicesFiles.push(fullAudio);
+            if (start_script) {
+                const filename = path.join(this.tempPath, 'start.wav');
+                await this.generateVoice({ text: start_script, voice: "male", filename: filename });
+                files.push(filename);
+            }
 
-            this.log(`Full clock file created: ${fullAudio}`);
-        }
+            for (const [index, rank] of rankings.entries()) {
+                const rankFilename = path.join(this.tempPath, `rank-${index}`);
+                await this.generateVoice({ text: rank, voice: "male", filename: rankFilename + ".wav" });
 
-        if (end_script) {
-            const filename = path.join(this.tempPath, 'end.wav');
-            await this.generateVoice({ text: end_script, voice: "male", filename: filename });
-            voicesFiles.push(filename);
-        }
+                // Merge res/tick.mp3 to the question voice
+                const clockAudio = path.join(this.resPath, 'tick.mp3');
+                const fullAudio = `${rankFilename}-full.wav`;
+                await this.mergeAudio(rankFilename + ".wav", clockAudio, fullAudio);
+                files.push(fullAudio);
 
-        this.log('Voices created successfully!');
+                this.log(`Full clock file created: ${fullAudio}`);
+            }
 
-        // Combine audio files into a single audio file
-        this.log('Creating single audio file from all voice files...');
-        const voiceFile = path.join(this.tempPath, 'voice.wav');
+            if (end_script) {
+                const filename = path.join(this.tempPath, 'end.wav');
+                await this.generateVoice({ text: end_script, voice: "male", filename: filename });
+                files.push(filename);
+            }
 
-        await this.combineVoiceFiles(voicesFiles, voiceFile);
+            this.log('Voices created successfully!');
+            return files;
+        });
 
-        this.log('Audio file created successfully!');
+        const audioFile = await this.runStage(VideoStage.Audio, {
+            inputs: this.audioStageInputs(),
+            after: [VideoStage.Voice],
+            outputs: (file) => [file],
+        }, async () => {
+            // Combine audio files into a single audio file
+            this.log('Creating single audio file from all voice files...');
+            const voiceFile = path.join(this.tempPath, 'voice.wav');
 
-        // Get durations of each audio file
-        this.log('Making list of durations for each audio file...');
-        const durations = await this.getListOfDurations(voicesFiles);
+            await this.combineVoiceFiles(voicesFiles, voiceFile);
 
+            this.log('Audio file created successfully!');
 
-        // Video audio file (default is voice audio file)
-        let audioFile = voiceFile;
+            if (!this.useBgMusic) {
+                this.log('Background audio overlay disabled! Using voice audio file only...');
+                return voiceFile;
+            }
 
-        if (this.useBgMusic) {
             // Overlay background audio on top of the voice audio file
             this.log('Overlaying background audio on top of the voice audio file...');
 
@@ -123,157 +209,99 @@ export class RankVideo extends VideoGen {
             const bgAudio: string = await this.getRandomBgMusic();
             this.log("Background audio is " + bgAudio)
 
-            audioFile = path.join(this.tempPath, 'audio.wav');
+            const audioFile = path.join(this.tempPath, 'audio.wav');
 
             await this.combineVoiceToBgAudio(voiceFile, bgAudio, audioFile);
-        } else {
-            this.log('Background audio overlay disabled! Using voice audio file only...');
-        }
+            return audioFile;
+        });
 
         // Find images for each rank
-        this.log('Finding images for each rank...');
-        const rankImages = await this.generateImages(images);
-
-        // Create images from JSON data
-        this.log('Creating images from JSON data...');
-
-        const [width, height] = this.getResolution();
-
-        const imageFiles = [];
-
-        // Make inital scene with title
-        const startCanvas = createCanvas(width, height);
-        const startCtx = startCanvas.getContext('2d');
-
-        // Put rank image
-        const r_image = await loadImage(rankImages[0]);
-        startCtx.drawImage(r_image, 0, 0, startCanvas.width, startCanvas.height);
-
-        startCtx.font = `80px ${this.subtitleOptions?.fontName ?? 'Bangers'}`;
-        startCtx.fillStyle = '#ffffff';
-        startCtx.textAlign = 'center';
-        startCtx.strokeStyle = '#000000';
-        startCtx.lineWidth = 20;
-        startCtx.strokeText(title, width / 2, 300);
-        startCtx.fillText(title, width / 2, 300);
-
-        // Show numbers based on length of rankings
-        const numbers = rankings.length;
-        for (let i = 0; i < numbers; i++) {
-            startCtx.font = `90px ${this.subtitleOptions?.fontName ?? 'Bangers'}`;
-            startCtx.fillStyle = '#ffffff';
-            startCtx.textAlign = 'center';
-            startCtx.strokeStyle = '#000000';
-            startCtx.lineWidth = 20;
-            startCtx.strokeText((i + 1).toString(), 200, 500 + (200 * i));
-            startCtx.fillText((i + 1).toString(), 200, 500 + (200 * i));
-        }
-
-        const startImage = path.join(this.tempPath, 'start.png');
-        const startOut = fs.createWriteStream(startImage);
-        const startStream = startCanvas.createPNGStream();
-        startStream.pipe(startOut);
-
-        imageFiles.push(startImage);
-
-        for (const [index, rank] of rankings.entries()) {
-            const canvas = createCanvas(width, height);
-            const ctx = canvas.getContext('2d');
-
-            // Put rank image
-            const rankImage = await loadImage(rankImages[index]);
-            ctx.drawImage(rankImage, 0, 0, canvas.width, canvas.height);
-
-            ctx.font = `90px ${this.subtitleOptions?.fontName ?? 'Bangers'}`;
-            ctx.fillStyle = '#ffffff';
-            ctx.textAlign = 'center';
-            ctx.strokeStyle = '#000000';
-            ctx.lineWidth = 20;
-            ctx.strokeText(rank, width / 2, 300);
-            ctx.fillText(rank, width / 2, 300);
+        const rankImages = await this.runStage(VideoStage.Images, {
+            inputs: this.imageStageInputs(images),
+            outputs: (files) => files,
+        }, async () => {
+            this.log('Finding images for each rank...');
+            return await this.generateImages(images);
+        });
 
-            // Show numbers based on length of rankings
-            const numbers = rankings.length;
-            for (let i = 0; i < numbers; i++) {
-                ctx.font = `80px ${this.subtitleOptions?.fontName ?? 'Bangers'}`;
-                ctx.fillStyle = '#ffffff';
-                ctx.textAlign = 'center';
-                ctx.strokeStyle = '#000000';
-                ctx.lineWidth = 20;
-                ctx.strokeText((i + 1).toString(), 200, 500 + (200 * i));
-                ctx.fillText((i + 1).toString(), 200, 500 + (200 * i));
-            }
+        const videoFile = this.getVideoFile();
 
-            const o_image = path.join(this.tempPath, `rank-${index}.png`);
-            const out = fs.createWriteStream(o_image);
-            const stream = canvas.createPNGStream();
-            stream.pipe(out);
+        await this.renderStage({
+            inputs: this.renderStageInputs(),
+            after: [VideoStage.Voice, VideoStage.Audio, VideoStage.Images],
+        }, videoFile, async () => {
+            // Get durations of each audio file
+            this.log('Making list of durations for each audio file...');
+            const durations = await this.getListOfDurations(voicesFiles);
 
-            imageFiles.push(o_image);
-        }
+            // get duration of audio file
+            const full_duration = await this.getAudioDuration(audioFile);
 
-        // Wait 1 seconds
-        this.log('Waiting 1 seconds...');
-        await new Promise(resolve => setTimeout(resolve, 1000));
+            this.log("Full duration of audio is " + full_duration)
 
-        // Create video from audio file with on-screen text
-        this.log('Creating video from audio file with on-screen text...');
-        const videoFile = path.join(this.tempPath, 'video.mp4');
-
-        const creator = new FFCreator({
-            output: videoFile,
-            width: width,
-            height: height,
-            audio: audioFile,
-            log: true,
+            return this.buildTimeline({ audioFile, images: rankImages }, durations, full_duration);
         });
+    }
 
-        this.log("Audio file is " + audioFile)
-        this.log("Video file is " + videoFile)
-
-        // get duration of audio file
-        const full_duration = await this.getAudioDuration(audioFile);
-
-        this.log("Full duration of audio is " + full_duration)
-
-        creator.setDuration(full_duration);
+    /**
+     * Build timeline of the video (title scene, then one scene for each rank with its image and the numbers)
+     *
+     * @param files Audio and rank images of the video
+     * @param durations Durations of the voice files
+     * @param duration Duration of the video in seconds
+     * @returns Timeline of the video
+     */
+    buildTimeline(files: { audioFile: string, images: string[] }, durations: number[], duration: number): TimelineDocument {
+        const timeline = this.createTimeline(files.audioFile, duration);
+        const layout = this.getLayout();
+        const rankings: string[] = this.jsonData.rankings;
+        const style = { fontFamily: this.subtitleOptions?.fontName ?? 'Bangers', color: '#ffffff', stroke: '#000000', strokeThickness: layout.size(20) };
 
-        for (const [index, imageFile] of imageFiles.entries()) {
-            const scene = new FFScene();
-            scene.setBgColor('#000000');
+        // Numbers fill the space below the title
+        const rowHeight = Math.min(0.1, 0.7 / Math.max(rankings.length, 1));
 
-            const image = new FFImage({ path: imageFile, x: width / 2, y: height / 2, width: width, height: height });
-            scene.addChild(image);
+        const images = files.images.map((image, index) => addTimelineAsset(timeline, `rank-${index}`, image));
 
-            let duration = durations[index] ?? 0;
+        // Title scene uses the image of the first rank
+        for (const [index, title] of [this.jsonData.title, ...rankings].entries()) {
+            let sceneDuration = durations[index] ?? 0;
 
-            if (index == imageFiles.length - 1) {
-                duration += durations[durations.length - 1];
+            if (index == rankings.length) {
+                sceneDuration += durations[durations.length - 1];
             }
 
-            this.log("Duration of scene " + index + " is " + duration)
-            scene.setDuration(duration);
+            this.log("Duration of scene " + index + " is " + sceneDuration)
 
-            creator.addChild(scene);
+            // Show numbers based on length of rankings
+            const numbers: TimelineElement[] = rankings.map((_, i) => ({
+                type: "text", text: (i + 1).toString(), x: layout.size(200), y: layout.y(0.26 + rowHeight * i), fontSize: layout.size(index == 0 ? 90 : 80), center: true, style,
+            }));
+
+            timeline.scenes.push({
+                name: index == 0 ? "start" : `rank-${index - 1}`,
+                duration: sceneDuration,
+                layers: [
+                    { name: "image", elements: [{ type: "image", asset: images[Math.max(index - 1, 0)], x: layout.x(0.5), y: layout.y(0.5), width: layout.width, height: layout.height }] },
+                    { name: "text", elements: [{ type: "text", text: title, x: layout.x(0.5), y: layout.y(0.16), fontSize: layout.size(index == 0 ? 80 : 90), center: true, style }, ...numbers] },
+                ],
+            });
         }
 
-        // creator.addChild(scene);
-
-        creator.start();
-        creator.closeLog();
-
-        creator.on('start', () => {
-            this.log(`FFCreator start`);
-        });
-        creator.on('error', e => {
-            this.log(`FFCreator error: ${JSON.stringify(e)}`);
-        });
-        creator.on('progress', e => {
-            this.log(`FFCreator progress: rendering ${(e.percent * 100) >> 0}%`);
-        });
-        creator.on('complete', e => {
-            this.log(`FFCreator completed: \n USAGE: ${e.useage} \n PATH: ${e.output} `);
-            this.emitter.emit('done', e.output);
-        });
+        return timeline;
     }
 }
+
+/**
+ * Rank video type (registered as 'rank')
+ */
+export const rankVideoType: VideoTypeDefinition<RankVideoData> = {
+    name: "rank",
+    description: "Make a video ranking items.",
+    fieldPrompts: rankVideoAIPrompt,
+    schema: rankVideoSchema,
+    videoClass: RankVideo,
+    reviewRules: rankVideoReviewRules,
+    speech: rankVideoSpeech,
+    imageQueries: (data) => data.images ?? [],
+    form: { label: "Rank", description: "Create a rank video", icon: "FaList" },
+};
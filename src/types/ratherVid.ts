@@ -1,10 +1,16 @@
 // Copyright (c) 2024 Shafil Alam
 
-import { createCanvas, loadImage } from "canvas";
 import { VideoGen } from "../videogen";
-import { FFCreator, FFImage, FFScene, FFText } from "ffcreator-autoshorts";
-import fs from "fs";
+import { VideoStage } from "../pipeline";
 import path from "path";
+import { SchemaObject } from "ajv";
+import { VideoSpeech } from "../duration";
+import { formatLocaleString } from "../locale";
+import { ReviewRule } from "../review";
+import type { VideoTypeDefinition } from "../registry";
+import type { PlanScene, PlannedSpeech } from "../plan";
+import { addTimelineAsset, TimelineDocument, TimelineElement } from "../timeline";
+import type { ImageAlternates } from "../imagequery";
 
 /**
  * Rather video data
@@ -58,6 +64,8 @@ export interface RatherVideoData {
     start_script: string;
     /** End script */
     end_script: string;
+    /** Alternate search terms of each image search term (optional, the best image of all terms is used) */
+    imageAlternates?: ImageAlternates;
 }
 
 /**
@@ -70,6 +78,67 @@ export const ratherVideoAIPrompt = {
     end_script: 'Generate what will be spoken at end of the video. Do not include questions in this field. Do a simple goodbye or thank you message. Use JSON format. Use this template: {"end_script": ""}',
 };
 
+/**
+ * JSON schema of RatherVideoData
+ * Used to validate the AI response for each field and the final video data.
+ */
+export const ratherVideoSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        type: { const: "rather" },
+        title: { type: "string" },
+        questions: {
+            type: "array",
+            minItems: 1,
+            items: {
+                type: "object",
+                properties: {
+                    option1: { type: "string", minLength: 1 },
+                    option2: { type: "string", minLength: 1 },
+                    p1: { type: "number", minimum: 0, maximum: 100 },
+                    p2: { type: "number", minimum: 0, maximum: 100 },
+                    image1: { type: "string", minLength: 1 },
+                    image2: { type: "string", minLength: 1 },
+                },
+                required: ["option1", "option2", "p1", "p2", "image1", "image2"],
+            },
+        },
+        start_script: { type: "string", minLength: 1 },
+        end_script: { type: "string", minLength: 1 },
+        imageAlternates: { type: "object", additionalProperties: { type: "array", items: { type: "string" } } },
+    },
+    required: ["type", "questions", "start_script", "end_script"],
+};
+
+/**
+ * Review rules of RatherVideoData
+ * Used to find problems the AI should revise after the data is generated.
+ */
+export const ratherVideoReviewRules: ReviewRule<RatherVideoData>[] = [
+    (data) => data.questions.flatMap((question, i) => question.p1 + question.p2 != 100 ? [{
+        field: "questions",
+        path: `questions.${i}`,
+        rule: "percent-sum",
+        message: `Percentages of question ${i + 1} must add up to 100 (p1 + p2 = ${question.p1 + question.p2})`,
+    }] : []),
+];
+
+/** Length of tick sound after each question in seconds */
+export const RATHER_TICK_SECONDS = 3;
+
+/**
+ * Spoken parts of RatherVideoData (used to plan video duration)
+ */
+export const ratherVideoSpeech: VideoSpeech<RatherVideoData> = (data, locale) => [
+    { field: "start_script", text: data.start_script ?? "" },
+    ...data.questions.map((question) => ({
+        field: "questions",
+        text: formatLocaleString(locale.strings.ratherQuestion, { option1: question.option1, option2: question.option2 }),
+        pauseSeconds: RATHER_TICK_SECONDS,
+    })),
+    { field: "end_script", text: data.end_script ?? "" },
+];
+
 /**
  * Rather video generation
  */
@@ -85,18 +154,45 @@ export class RatherVideo extends VideoGen {
         }
     }
 
+    /**
+     * Plan scenes of the video (one scene for each question, percents appear 2 seconds before it ends)
+     */
+    planScenes(speech: PlannedSpeech[]): PlanScene[] {
+        const questions = speech.filter((part) => part.field == "questions");
+        const startPart = speech[0];
+        const endPart = speech[speech.length - 1];
+
+        return questions.map((part, index) => {
+            const question = this.jsonData.questions[index];
+            const start = index == 0 ? 0 : part.start;
+            let duration = part.duration + (index == 0 ? startPart.duration : 0);
+            let percentStart = Math.max(duration - 2, 0);
+
+            if (index == questions.length - 1) {
+                duration += endPart.duration;
+                percentStart -= endPart.duration;
+            }
+
+            return {
+                name: `question-${index}`,
+                start,
+                duration,
+                elements: [
+                    { type: "image", label: question.image1, start, duration },
+                    { type: "image", label: question.image2, start, duration },
+                    { type: "text", label: question.option1, start, duration },
+                    { type: "text", label: question.option2, start, duration },
+                    { type: "text", label: `${question.p1 ?? 0}% / ${question.p2 ?? 0}%`, start: start + percentStart, duration: duration - percentStart },
+                ],
+            };
+        });
+    }
+
     /**
      * Generate video
      */
     async generateVideo() {
         this.checkJson();
-
-        // TODO: Add support for horizontal orientation
-        // Check if video orientation is horizontal
-        if (this.orientation == "horizontal") {
-            throw new Error("Rather video does not support horizontal orientation as of now.");
-        }
-
         this.checkTempPath();
 
         const questions = this.jsonData.questions;
@@ -104,55 +200,62 @@ export class RatherVideo extends VideoGen {
         const end_script = this.jsonData.end_script;
 
         this.log('Creating voices for each message in the script...');
-        const voiceFiles: string[] = [];
-
-        if (start_script) {
-            const filename = path.join(this.tempPath, 'start.wav');
-            await this.generateVoice({ text: start_script, voice: "male", filename: filename });
-            voiceFiles.push(filename);
-        }
-
-        // Gen questions voice
-        for (const [index, question] of questions.entries()) {
-            const questionFilename = path.join(this.tempPath, `question-${index}`);
-            const script = `Would you rather ${question.option1} or ${question.option2}?`;
-            await this.generateVoice({ text: script, voice: "male", filename: questionFilename + ".wav" });
-
-            // Merge img/clock.mp3 to the question voice
-            const clockAudio = path.join(this.resPath, 'tick.mp3');
-            const fullAudio = `${questionFilename}-full.wav`;
-            await this.mergeAudio(questionFilename + ".wav", clockAudio, fullAudio);
+        const voiceFiles = await this.runStage(VideoStage.Voice, {
+            inputs: this.voiceStageInputs([start_script, questions, end_script]),
+            outputs: (files) => files,
+        }, async () => {
+            const files: string[] = [];
+
+            if (start_script) {
+                const filename = path.join(this.tempPath, 'start.wav');
+                await this.generateVoice({ text: start_script, voice: "male", filename: filename });
+                files.push(filename);
+            }
 
-            voiceFiles.push(fullAudio);
+            // Gen questions voice
+            for (const [index, question] of questions.entries()) {
+                const questionFilename = path.join(this.tempPath, `question-${index}`);
+                const script = formatLocaleString(this.locale.strings.ratherQuestion, { option1: question.option1, option2: question.option2 });
+                await this.generateVoice({ text: script, voice: "male", filename: questionFilename + ".wav" });
 
-            this.log(`Full clock file created: ${fullAudio}`);
-        }
+                // Merge img/clock.mp3 to the question voice
+                const clockAudio = path.join(this.resPath, 'tick.mp3');
+                const fullAudio = `${questionFilename}-full.wav`;
+                await this.mergeAudio(questionFilename + ".wav", clockAudio, fullAudio);
 
-        if (end_script) {
-            const filename = path.join(this.tempPath, 'end.wav');
-            await this.generateVoice({ text: end_script, voice: 'male', filename: filename });
-            voiceFiles.push(filename);
-        }
+                files.push(fullAudio);
 
-        this.log('Voices created successfully!');
+                this.log(`Full clock file created: ${fullAudio}`);
+            }
 
-        // Combine audio files into a single audio file
-        this.log('Creating single audio file from all voice files...');
-        const voiceFile = path.join(this.tempPath, 'voice.wav');
+            if (end_script) {
+                const filename = path.join(this.tempPath, 'end.wav');
+                await this.generateVoice({ text: end_script, voice: 'male', filename: filename });
+                files.push(filename);
+            }
 
-        await this.combineVoiceFiles(voiceFiles, voiceFile);
+            this.log('Voices created successfully!');
+            return files;
+        });
 
-        this.log('Audio file created successfully!');
+        const audioFile = await this.runStage(VideoStage.Audio, {
+            inputs: this.audioStageInputs(),
+            after: [VideoStage.Voice],
+            outputs: (file) => [file],
+        }, async () => {
+            // Combine audio files into a single audio file
+            this.log('Creating single audio file from all voice files...');
+            const voiceFile = path.join(this.tempPath, 'voice.wav');
 
-        // Get durations of each audio file
-        this.log('Making list of durations for each audio file...');
-        const durations = await this.getListOfDurations(voiceFiles);
+            await this.combineVoiceFiles(voiceFiles, voiceFile);
 
+            this.log('Audio file created successfully!');
 
-        // Video audio file (default is voice audio file)
-        let audioFile = voiceFile;
+            if (!this.useBgMusic) {
+                this.log('Background audio overlay disabled! Using voice audio file only...');
+                return voiceFile;
+            }
 
-        if (this.useBgMusic) {
             // Overlay background audio on top of the voice audio file
             this.log('Overlaying background audio on top of the voice audio file...');
 
@@ -160,19 +263,21 @@ export class RatherVideo extends VideoGen {
             const bgAudio: string = await this.getRandomBgMusic();
             this.log("Background audio is " + bgAudio)
 
-            audioFile = path.join(this.tempPath, 'audio.wav');
+            const audioFile = path.join(this.tempPath, 'audio.wav');
 
             await this.combineVoiceToBgAudio(voiceFile, bgAudio, audioFile);
-        } else {
-            this.log('Background audio overlay disabled! Using voice audio file only...');
-        }
+            return audioFile;
+        });
 
         // Find images for each question
-        this.log('Finding images for each question...');
-        const rankImages = [];
-
-        for (const [index, question] of questions.entries()) {
-            if (this.internalOptions.changePhotos) {
+        const rankImages = await this.runStage(VideoStage.Images, {
+            inputs: this.imageStageInputs(questions.map((question: { image1: string, image2: string }) => [question.image1, question.image2])),
+            outputs: (images) => images.flat(),
+        }, async () => {
+            this.log('Finding images for each question...');
+            const images: string[][] = [];
+
+            for (const [index, question] of questions.entries()) {
                 const image1_query = question.image1;
                 const image2_query = question.image2;
                 this.log(`Question ${index + 1}:\n Image 1: ${image1_query}\n Image 2: ${image2_query}`);
@@ -183,181 +288,125 @@ export class RatherVideo extends VideoGen {
                 const image1 = images1[0];
                 const image2 = images2[0];
 
-                rankImages.push([image1, image2]);
+                images.push([image1, image2]);
 
                 this.log(`Images downloaded for question ${index + 1}\n Image 1: ${image1}\n Image 2: ${image2}`);
-            } else {
-                const image1 = path.join(this.tempPath, `image-q${index}-1.png`);
-                const image2 = path.join(this.tempPath, `image-q${index}-2.png`);
-                rankImages.push([image1, image2]);
-
-                this.log(`Images found for question ${index + 1}\n Image 1: ${image1}\n Image 2: ${image2}`);
             }
-        }
-
-        // Create images for each question
-        this.log('Creating images for each question...');
-        const imageFiles = [];
-
-        const [width, height] = this.getResolution();
 
-        for (const [index, question] of questions.entries()) {
-            const option1 = question.option1;
-            const option2 = question.option2;
-
-            const canvas = createCanvas(width, height);
-            const ctx = canvas.getContext('2d');
-
-            // Use img/rather.png as background
-            const background = await loadImage(path.join(this.resPath, 'rather.png'));
-            ctx.drawImage(background, 0, 0, canvas.width, canvas.height);
-
-            // Add text for each option
-            ctx.font = `70px ${this.subtitleOptions?.fontName ?? 'Bangers'}`;
-            ctx.fillStyle = '#ffffff';
-            ctx.textAlign = 'center';
-            ctx.strokeStyle = '#000000';
-            ctx.lineWidth = 20;
-            ctx.strokeText(option1, canvas.width / 2, 700);
-            ctx.strokeText(option2, canvas.width / 2, 1300);
-            ctx.fillText(option1, canvas.width / 2, 700);
-            ctx.fillText(option2, canvas.width / 2, 1300);
-
-            // Draw images for each option
-            const q_images = rankImages[index];
-            const q_image1 = await loadImage(q_images[0]);
-            const q_image2 = await loadImage(q_images[1]);
-
-            const imageWidth = 400;
-            const imageHeight = 400;
-            const imageX = (canvas.width - imageWidth) / 2;
+            return images;
+        });
 
-            ctx.drawImage(q_image1, imageX, 180, imageWidth, imageHeight);
-            ctx.drawImage(q_image2, imageX, 1350, imageWidth, imageHeight);
+        const videoFile = this.getVideoFile();
 
-            const imageFile = path.join(this.tempPath, `question-${index}.png`);
-            const out = fs.createWriteStream(imageFile);
-            const stream = canvas.createPNGStream();
-            stream.pipe(out);
+        await this.renderStage({
+            inputs: this.renderStageInputs(),
+            after: [VideoStage.Voice, VideoStage.Audio, VideoStage.Images],
+        }, videoFile, async () => {
+            // Get durations of each audio file
+            this.log('Making list of durations for each audio file...');
+            const durations = await this.getListOfDurations(voiceFiles);
 
-            imageFiles.push(imageFile);
+            // get duration of audio file
+            const full_duration = await this.getAudioDuration(audioFile);
 
-            this.log(`Image created for question ${index + 1}`);
-        }
+            this.log("Full duration of audio is " + full_duration)
 
-        // Wait 1 seconds
-        this.log('Waiting 1 seconds...');
-        await new Promise(resolve => setTimeout(resolve, 1000));
-
-        // Create video from audio file with on-screen text
-        this.log('Creating video from audio file with on-screen text...');
-        const videoFile = path.join(this.tempPath, 'video.mp4');
-
-        // make ffcreator with 720*120 with background video from img/background.mp4 and set duration to sum to full audio duration
-        const creator = new FFCreator({
-            output: videoFile,
-            width: width,
-            height: height,
-            audio: audioFile,
-            log: true,
+            return this.buildTimeline({ audioFile, images: rankImages }, durations, full_duration);
         });
+    }
 
-        this.log("Audio file is " + audioFile)
-        this.log("Video file is " + videoFile)
-
-        // get duration of audio file
-        const full_duration = await this.getAudioDuration(audioFile);
-
-        this.log("Full duration of audio is " + full_duration)
+    /**
+     * Build timeline of the video (one scene for each question, percents fade in 2 seconds before it ends)
+     *
+     * @param files Audio and images (two for each question) of the video
+     * @param durations Durations of the voice files
+     * @param duration Duration of the video in seconds
+     * @returns Timeline of the video
+     */
+    buildTimeline(files: { audioFile: string, images: string[][] }, durations: number[], duration: number): TimelineDocument {
+        const timeline = this.createTimeline(files.audioFile, duration);
+        const layout = this.getLayout();
+        const fontFamily = this.subtitleOptions?.fontName ?? 'Bangers';
+        const optionStyle = { fontFamily, color: '#ffffff', stroke: '#000000', strokeThickness: layout.size(20) };
 
-        creator.setDuration(full_duration);
+        // Use res/rather.png as background
+        const background = addTimelineAsset(timeline, "rather", path.join(this.resPath, 'rather.png'));
 
-        // Turn each background image into a scene and make the duration equal to the duration of the audio file of index+1
+        // Turn each question into a scene and make the duration equal to the duration of the audio file of index+1
         let sum = 0;
-        for (const [index, imageFile] of imageFiles.entries()) {
-            const scene = new FFScene();
-            scene.setBgColor('#000000');
-
-            const image = new FFImage({ path: imageFile, x: width / 2, y: height / 2, width: width, height: height });
-            scene.addChild(image);
-
-            let duration = durations[index + 1] ?? 0;
-            sum += duration;
+        for (const [index, question] of this.jsonData.questions.entries()) {
+            const last = index == this.jsonData.questions.length - 1;
+            let sceneDuration = durations[index + 1] ?? 0;
 
             if (index == 0) {
-                duration += durations[0];
-                sum += durations[0];
+                sceneDuration += durations[0];
             }
 
-            if (index == imageFiles.length - 1) {
-                duration += durations[durations.length - 1];
-                sum += durations[durations.length - 1];
+            if (last) {
+                sceneDuration += durations[durations.length - 1];
             }
 
-            scene.setDuration(duration);
+            sum += sceneDuration;
 
-            // Add percent to top and bottom of choice
-            const p1 = this.jsonData.questions[index].p1 ?? 0;
-            const p2 = this.jsonData.questions[index].p2 ?? 0;
-            const useGreenTop = p1 > p2;
-            const useGreenBottom = p1 < p2;
-
-            const percent1 = new FFText({ text: `${p1}%`, x: 1080 / 2, y: 780, fontSize: 80, color: useGreenTop ? '#00ff00' : '#ff0000' });
-            const percent2 = new FFText({ text: `${p2}%`, x: 1080 / 2, y: 1120, fontSize: 80, color: useGreenBottom ? '#00ff00' : '#ff0000' });
-
-            percent1.alignCenter();
-            percent2.alignCenter();
+            // Percents fade in 2 seconds before the question ends
+            let delayLen = Math.max(sceneDuration - 2, 0);
+            if (last) {
+                delayLen = Math.max(delayLen - durations[durations.length - 1], 0);
+            }
 
-            percent1.setStyle({
-                fontFamily: [(this.subtitleOptions?.fontName ?? 'Bangers')],
-                stroke: '#000000',
-                strokeThickness: 10,
+            // Add percent to top and bottom of choice
+            const p1 = question.p1 ?? 0;
+            const p2 = question.p2 ?? 0;
+            const percent = (text: string, top: number, green: boolean): TimelineElement => ({
+                type: "text", text, x: layout.x(0.5), y: layout.y(top), fontSize: layout.size(80), center: true, start: delayLen, end: sceneDuration, fadeIn: 0.2,
+                style: { fontFamily, color: green ? '#00ff00' : '#ff0000', stroke: '#000000', strokeThickness: layout.size(10) },
             });
 
-            percent2.setStyle({
-                fontFamily: [(this.subtitleOptions?.fontName ?? 'Bangers')],
-                stroke: '#000000',
-                strokeThickness: 10,
+            // Images for each option (top and bottom of the screen)
+            const imageSize = Math.min(layout.size(400), Math.round(layout.height * 0.2));
+            const [image1, image2] = files.images[index];
+
+            timeline.scenes.push({
+                name: `question-${index}`,
+                duration: sceneDuration,
+                layers: [
+                    { name: "background", elements: [{ type: "image", asset: background, x: layout.x(0.5), y: layout.y(0.5), width: layout.width, height: layout.height }] },
+                    {
+                        name: "images",
+                        elements: [
+                            { type: "image", asset: addTimelineAsset(timeline, `question-${index}-1`, image1), x: layout.x(0.5), y: layout.y(0.2), width: imageSize, height: imageSize },
+                            { type: "image", asset: addTimelineAsset(timeline, `question-${index}-2`, image2), x: layout.x(0.5), y: layout.y(0.81), width: imageSize, height: imageSize },
+                        ],
+                    },
+                    {
+                        name: "text",
+                        elements: [
+                            { type: "text", text: question.option1, x: layout.x(0.5), y: layout.y(0.365), fontSize: layout.size(70), center: true, style: optionStyle },
+                            { type: "text", text: question.option2, x: layout.x(0.5), y: layout.y(0.677), fontSize: layout.size(70), center: true, style: optionStyle },
+                            percent(`${p1}%`, 0.406, p1 > p2),
+                            percent(`${p2}%`, 0.583, p1 < p2),
+                        ],
+                    },
+                ],
             });
-
-            percent1.setDuration(duration);
-            percent2.setDuration(duration);
-
-            let delayLen = duration - 2;
-            if (delayLen < 0) {
-                delayLen = 0;
-            }
-
-            if (index == imageFiles.length - 1) {
-                delayLen -= durations[durations.length - 1];
-            }
-
-            percent1.addEffect('fadeIn', 0.2, delayLen);
-            percent2.addEffect('fadeIn', 0.2, delayLen);
-
-            scene.addChild(percent1);
-            scene.addChild(percent2);
-
-            creator.addChild(scene);
         }
 
         this.log("Sum of scene durations is " + sum)
-
-        creator.start();
-        creator.closeLog();
-
-        creator.on('start', () => {
-            this.log(`FFCreator start`);
-        });
-        creator.on('error', e => {
-            this.log(`FFCreator error: ${JSON.stringify(e)}`);
-        });
-        creator.on('progress', e => {
-            this.log(`FFCreator progress: rendering ${(e.percent * 100) >> 0}%`);
-        });
-        creator.on('complete', e => {
-            this.log(`FFCreator completed: \n USAGE: ${e.useage} \n PATH: ${e.output} `);
-            this.emitter.emit('done', e.output);
-        });
+        return timeline;
     }
 }
+
+/**
+ * Rather video type (registered as 'rather')
+ */
+export const ratherVideoType: VideoTypeDefinition<RatherVideoData> = {
+    name: "rather",
+    description: 'Make a "Would you rather?" video with questions and options.',
+    fieldPrompts: ratherVideoAIPrompt,
+    schema: ratherVideoSchema,
+    videoClass: RatherVideo,
+    reviewRules: ratherVideoReviewRules,
+    speech: ratherVideoSpeech,
+    imageQueries: (data) => (data.questions ?? []).flatMap((question) => [question.image1, question.image2]),
+    form: { label: "Rather", description: "Create a rather video", icon: "FaQuestionCircle" },
+};
@@ -1,8 +1,15 @@
 // Copyright (c) 2024 Shafil Alam
 
 import { VideoGen } from '../videogen';
-import { FFScene, FFVideo, FFAlbum, FFCreator, FFSubtitle } from "ffcreator-autoshorts";
+import { VideoStage } from '../pipeline';
 import path from 'path';
+import { SchemaObject } from 'ajv';
+import { VideoSpeech } from '../duration';
+import type { VideoTypeDefinition } from '../registry';
+import { formatSourceCaption, SourceCitation } from '../sources';
+import type { ImageAlternates } from '../imagequery';
+import type { PlanScene, PlannedSpeech } from '../plan';
+import { addTimelineAsset, TimelineDocument, TimelineElement } from '../timeline';
 
 /**
  * Topic video data
@@ -26,6 +33,12 @@ export interface TopicVideoData {
     fontSize?: number;
     /** Override images with base64 encoded images (optional) */
     imgOverride?: string[];
+    /** Sources the text was written from (optional) */
+    sources?: SourceCitation[];
+    /** Show sources as an on-screen caption (optional) */
+    showSources?: boolean;
+    /** Alternate search terms of each image search term (optional, the best image of all terms is used) */
+    imageAlternates?: ImageAlternates;
 }
 
 /**
@@ -39,6 +52,39 @@ export const topicVideoAIPrompt = {
     images: 'Generate images (search terms) for the video based on topic. Use JSON array format. Only valid JSON, no extra info. Use this template: {"images": ["", ""]}',
 };
 
+/**
+ * JSON schema of TopicVideoData
+ * Used to validate the AI response for each field and the final video data.
+ */
+export const topicVideoSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        type: { const: "topic" },
+        title: { type: "string" },
+        text: { type: "string", minLength: 1 },
+        start_script: { type: "string" },
+        end_script: { type: "string" },
+        images: { type: "array", items: { type: "string", minLength: 1 }, minItems: 1 },
+        fontName: { type: "string" },
+        fontSize: { type: "number" },
+        imgOverride: { type: "array", items: { type: "string" } },
+        sources: {
+            type: "array",
+            items: { type: "object", properties: { title: { type: "string" }, url: { type: "string" } }, required: ["title", "url"] },
+        },
+        showSources: { type: "boolean" },
+        imageAlternates: { type: "object", additionalProperties: { type: "array", items: { type: "string" } } },
+    },
+    required: ["type", "text", "images"],
+};
+
+/**
+ * Spoken parts of TopicVideoData (used to plan video duration)
+ */
+export const topicVideoSpeech: VideoSpeech<TopicVideoData> = (data) => [
+    { field: "text", text: data.text },
+];
+
 /**
  * Topic video generation
  */
@@ -54,6 +100,27 @@ export class TopicVideo extends VideoGen {
         }
     }
 
+    /**
+     * Plan scenes of the video (images are shown one after another with subtitles)
+     */
+    planScenes(speech: PlannedSpeech[], duration: number): PlanScene[] {
+        const images: string[] = this.jsonData.imgOverride?.map((_: string, index: number) => `Base64 image ${index + 1}`) ?? this.jsonData.images ?? [];
+        const imageDuration = images.length > 0 ? Math.round(duration / images.length) : 0;
+        const sources: SourceCitation[] = this.jsonData.sources ?? [];
+
+        return [{
+            name: "topic",
+            start: 0,
+            duration,
+            elements: [
+                ...this.planBackground(duration),
+                ...images.map((image, index) => ({ type: "image", label: image, start: index * imageDuration, duration: imageDuration })),
+                { type: "subtitles", label: "Subtitles", start: 0, duration },
+                ...(this.jsonData.showSources && sources.length > 0 ? [{ type: "text", label: formatSourceCaption(sources), start: 0, duration }] : []),
+            ],
+        }];
+    }
+
     /**
      * Generate video
      */
@@ -62,55 +129,69 @@ export class TopicVideo extends VideoGen {
         this.checkTempPath();
 
         this.log('Creating voices based on text...');
-        const voiceFiles: string[] = [];
+        const extraInfo = this.jsonData.extra;
 
-        const ttsFilename = path.join(this.tempPath, 'voice.wav');
-        await this.generateVoice({ text: this.jsonData.text, voice: "male", filename: ttsFilename });
-        voiceFiles.push(ttsFilename);
+        const voiceFiles = await this.runStage(VideoStage.Voice, {
+            inputs: this.voiceStageInputs([this.jsonData.text, extraInfo]),
+            outputs: (files) => files,
+        }, async () => {
+            const files: string[] = [];
 
-        const extraInfo = this.jsonData.extra;
-        if (extraInfo) {
-            this.log('Extra info: ' + extraInfo);
-            const filename = path.join(this.tempPath, 'extra.wav');
+            const ttsFilename = path.join(this.tempPath, 'voice.wav');
+            await this.generateVoice({ text: this.jsonData.text, voice: "male", filename: ttsFilename });
+            files.push(ttsFilename);
 
-            await this.generateVoice({ text: extraInfo, voice: "male", filename: filename });
-            voiceFiles.push(filename);
-        }
+            if (extraInfo) {
+                this.log('Extra info: ' + extraInfo);
+                const filename = path.join(this.tempPath, 'extra.wav');
+
+                await this.generateVoice({ text: extraInfo, voice: "male", filename: filename });
+                files.push(filename);
+            }
 
-        this.log('Voices created successfully!');
+            this.log('Voices created successfully!');
+            return files;
+        });
 
-        // Combine audio files into a single audio file
-        this.log('Creating single audio file from all voice files...');
-        const voiceFile = path.join(this.tempPath, 'voice_full.wav');
+        const { audioFile, audio16kFile } = await this.runStage(VideoStage.Audio, {
+            inputs: this.audioStageInputs(),
+            after: [VideoStage.Voice],
+            outputs: (audio) => [audio.audioFile, audio.audio16kFile],
+        }, async () => {
+            // Combine audio files into a single audio file
+            this.log('Creating single audio file from all voice files...');
+            const voiceFile = path.join(this.tempPath, 'voice_full.wav');
 
-        await this.combineVoiceFiles(voiceFiles, voiceFile);
+            await this.combineVoiceFiles(voiceFiles, voiceFile);
 
-        this.log('Audio file created successfully!');
+            this.log('Audio file created successfully!');
 
-        // Video audio file (default is voice audio file)
-        let audioFile = voiceFile;
+            // Video audio file (default is voice audio file)
+            let audioFile = voiceFile;
 
-        if (this.useBgMusic) {
-            // Overlay background audio on top of the voice audio file
-            this.log('Overlaying background audio on top of the voice audio file...');
+            if (this.useBgMusic) {
+                // Overlay background audio on top of the voice audio file
+                this.log('Overlaying background audio on top of the voice audio file...');
 
-            // Choose a random background audio file .mp3 from the music folder
-            const bgAudio: string = await this.getRandomBgMusic();
-            this.log("Background audio is " + bgAudio)
+                // Choose a random background audio file .mp3 from the music folder
+                const bgAudio: string = await this.getRandomBgMusic();
+                this.log("Background audio is " + bgAudio)
 
-            audioFile = path.join(this.tempPath, 'audio.wav');
+                audioFile = path.join(this.tempPath, 'audio.wav');
 
-            await this.combineVoiceToBgAudio(voiceFile, bgAudio, audioFile);
-        } else {
-            this.log('Background audio overlay disabled! Using voice audio file only...');
-        }
+                await this.combineVoiceToBgAudio(voiceFile, bgAudio, audioFile);
+            } else {
+                this.log('Background audio overlay disabled! Using voice audio file only...');
+            }
 
-        // Make 16k audio file for whisper
-        const audio16kFile = path.join(this.tempPath, 'audio16k.wav');
+            // Make 16k audio file for whisper
+            const audio16kFile = path.join(this.tempPath, 'audio16k.wav');
 
-        await this.genAudio16K(audioFile, audio16kFile);
+            await this.genAudio16K(audioFile, audio16kFile);
 
-        this.log('Background audio overlay complete!');
+            this.log('Background audio overlay complete!');
+            return { audioFile, audio16kFile };
+        });
 
         // Create images
         const images = this.jsonData.images;
@@ -118,128 +199,118 @@ export class TopicVideo extends VideoGen {
             throw Error('JSON data is missing required "images" field!');
         }
 
-        let imgs: string[] = [];
+        const imgs = await this.runStage(VideoStage.Images, {
+            inputs: this.imageStageInputs(this.jsonData.imgOverride ?? images),
+            outputs: (files) => files,
+        }, async () => {
+            if (this.jsonData.imgOverride) {
+                this.log('Using base64 encoded images...');
+                return await this.saveBase64Images(this.jsonData.imgOverride);
+            }
 
-        if (this.jsonData.imgOverride) {
-            this.log('Using base64 encoded images...');
-            imgs = await this.saveBase64Images(this.jsonData.imgOverride);
-            console.log(imgs)
-        } else {
             this.log('Creating images from JSON data...');
-            imgs = await this.generateImages(images);
-        }
+            return await this.generateImages(images);
+        });
 
         this.log('Creating subtitles from text...');
-        const srtFile = path.join(this.tempPath, 'audio16k.wav.srt');
-        await this.generateSubtitles(audio16kFile, srtFile, this.subtitleOptions?.maxLen ?? 30);
+        const srtFile = await this.subtitlesStage(audio16kFile, path.join(this.tempPath, 'audio16k.wav.srt'), this.subtitleOptions?.maxLen ?? 30);
 
         // Create video from audio file with on-screen text
         this.log('Creating video from audio file with on-screen text...');
-        const videoFile = path.join(this.tempPath, 'video.mp4');
-
-        const [width, height] = this.getResolution();
-
-        const creator = new FFCreator({
-            output: videoFile,
-            width: width,
-            height: height,
-            audio: audioFile,
-            log: true,
-        });
-
-        this.log("Audio file is " + audioFile)
-        this.log("Video file is " + videoFile)
+        const videoFile = this.getVideoFile();
 
-        // Get duration of audio file
-        const full_duration = await this.getAudioDuration(audioFile);
+        await this.renderStage({
+            inputs: this.renderStageInputs(),
+            after: [VideoStage.Voice, VideoStage.Audio, VideoStage.Images, VideoStage.Subtitles],
+        }, videoFile, async () => {
+            // Get duration of audio file
+            const fullDuration = await this.getAudioDuration(audioFile);
 
-        this.log("Full duration of audio is " + full_duration)
+            this.log("Full duration of audio is " + fullDuration)
 
-        creator.setDuration(full_duration);
-
-        const scene = new FFScene();
-        scene.setBgColor('#000000');
-        scene.setDuration(full_duration);
-
-        // Add background video if not disabled
-        if (this.useBgVideo) {
-            // Get random video background
-            const bgVideo = await this.getRandomBgVideo();
-            this.log("Background video is " + bgVideo)
-
-            // Add background video
-            const bg = new FFVideo({ path: bgVideo, x: width / 2, y: height / 2, width: width, height: height });
-            bg.setAudio(false);
-            scene.addChild(bg);
-        } else {
-            // Handle no background video
-            this.log('No background video enabled! Skipping background video...');
-        }
-
-        // Add images
-        const album = new FFAlbum({
-            list: imgs,
-            x: width / 2,
-            y: (this.useBgVideo) ? height / 2 - 100 : height / 2,
-            width: (this.useBgVideo) ? 512 : width,
-            height: (this.useBgVideo) ? 512 : height,
-            showCover: false,
+            return this.buildTimeline({ audioFile, srtFile, images: imgs }, fullDuration);
         });
+    }
 
-        album.setTransition("fadeIn")
-        album.setTransTime(0.2);
-        this.log("Album duration is " + Math.round(full_duration / imgs.length))
-        album.setDuration(Math.round(full_duration / imgs.length));
-        scene.addChild(album);
-
-        // Add subtitles
-        const subStyle = {
-            fontFamily: [(this.subtitleOptions?.fontName ?? 'Bangers')],
-            color: this.subtitleOptions?.fontColor ?? '#fff',
-            stroke: this.subtitleOptions?.strokeColor ?? '#000000',
-            strokeThickness: this.subtitleOptions?.strokeWidth ?? 20,
+    /**
+     * Build timeline of the video (images shown one after another, subtitles and the source caption)
+     *
+     * @param files Audio, subtitle and image files of the video
+     * @param duration Duration of the video in seconds
+     * @returns Timeline of the video
+     */
+    buildTimeline(files: { audioFile: string, srtFile: string, images: string[] }, duration: number): TimelineDocument {
+        const timeline = this.createTimeline(files.audioFile, duration);
+        const layout = this.getLayout();
+
+        const imageDuration = Math.round(duration / files.images.length);
+        this.log("Album duration is " + imageDuration)
+
+        const album: TimelineElement = {
+            type: "album",
+            assets: files.images.map((image, index) => addTimelineAsset(timeline, `image-${index}`, image)),
+            x: layout.x(0.5),
+            y: (this.useBgVideo) ? layout.y(0.5) - layout.size(100) : layout.y(0.5),
+            width: (this.useBgVideo) ? layout.size(512) : layout.width,
+            height: (this.useBgVideo) ? layout.size(512) : layout.height,
+            imageDuration,
+            transition: "fadeIn",
+            transitionTime: 0.2,
+        };
+
+        const subtitles: TimelineElement = {
+            type: "subtitles",
+            asset: addTimelineAsset(timeline, "subtitles", files.srtFile),
+            speech: timeline.audio,
+            text: this.jsonData.text,
+            x: layout.x(0.5),
+            y: layout.y(0.5) + layout.size(200),
+            fontSize: layout.size(this.subtitleOptions?.fontSize ?? 80),
+            backgroundColor: this.subtitleOptions?.strokeColor ?? '#000000',
+            style: {
+                fontFamily: this.subtitleOptions?.fontName ?? 'Bangers',
+                color: this.subtitleOptions?.fontColor ?? '#fff',
+                stroke: this.subtitleOptions?.strokeColor ?? '#000000',
+                strokeThickness: layout.size(this.subtitleOptions?.strokeWidth ?? 20),
+            },
+        };
+
+        const text: TimelineElement[] = [];
+
+        // Add source caption
+        const sources: SourceCitation[] = this.jsonData.sources ?? [];
+        if (this.jsonData.showSources && sources.length > 0) {
+            const caption = formatSourceCaption(sources);
+            this.log("Source caption is " + caption);
+
+            text.push({ type: "text", text: caption, x: layout.x(0.5), y: layout.height - layout.size(120), fontSize: layout.size(32), center: true, backgroundColor: '#000000', wrap: layout.width - layout.size(80) });
         }
 
-        const subObj = new FFSubtitle({
-            path: path.join(this.tempPath, 'audio16k.wav.srt'),
-            x: width / 2,
-            y: (height / 2) + 200,
-            fontSize: this.subtitleOptions?.fontSize ?? 80,
-            backgroundColor: this.subtitleOptions?.strokeColor ?? '#000000',
-            color: this.subtitleOptions?.fontColor ?? '#fff',
-            comma: true,
-            style: subStyle
+        timeline.scenes.push({
+            name: "topic",
+            duration,
+            layers: [
+                this.createBackgroundLayer(timeline),
+                { name: "images", elements: [album] },
+                { name: "subtitles", elements: [subtitles] },
+                { name: "text", elements: text },
+            ],
         });
 
-        subObj.setStyle(subStyle);
-
-        this.log("Subtitles file is " + this.tempPath + "\\audio.wav.srt")
-
-        // subObj.setFont(path.join(__dirname, '/res/Mont.otf'));
-        subObj.addAnimate("down");
-        subObj.setText(this.jsonData.text);
-        subObj.setSpeech(audioFile);
-        subObj.frameBuffer = 24;
-
-        scene.addChild(subObj);
-
-        creator.addChild(scene);
-
-        creator.start();
-        creator.closeLog();
-
-        creator.on('start', () => {
-            this.log(`FFCreator start`);
-        });
-        creator.on('error', e => {
-            this.log(`FFCreator error: ${JSON.stringify(e)}`);
-        });
-        creator.on('progress', e => {
-            this.log(`FFCreator progress: rendering ${(e.percent * 100) >> 0}%`);
-        });
-        creator.on('complete', e => {
-            this.log(`FFCreator completed: \n USAGE: ${e.useage} \n PATH: ${e.output} `);
-            this.emitter.emit('done', e.output);
-        });
+        return timeline;
     }
 }
+
+/**
+ * Topic video type (registered as 'topic')
+ */
+export const topicVideoType: VideoTypeDefinition<TopicVideoData> = {
+    name: "topic",
+    description: "Make a video about a topic about anything.",
+    fieldPrompts: topicVideoAIPrompt,
+    schema: topicVideoSchema,
+    videoClass: TopicVideo,
+    speech: topicVideoSpeech,
+    imageQueries: (data) => data.images ?? [],
+    form: { label: "Topic", description: "Create a topic video", icon: "FaNewspaper" },
+};
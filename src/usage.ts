@@ -0,0 +1,216 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { EventEmitter } from 'events';
+
+import { ChatMessage } from './ai';
+import { DEFAULT_AI_PRICES } from './const';
+
+/**
+ * Usage of a single AI request
+ */
+export interface AIUsage {
+    /** Provider name (ex. 'OpenAI') */
+    provider: string;
+    /** Model name */
+    model: string;
+    /** What the request asked for (ex. 'type', 'field:title', 'review:images') */
+    label: string;
+    /** Prompt (input) tokens */
+    promptTokens: number;
+    /** Completion (output) tokens */
+    completionTokens: number;
+    /** Token counts were estimated because the provider did not return them */
+    estimated: boolean;
+    /** Wall time of the request in milliseconds */
+    durationMs: number;
+    /** Cost in USD (0 if the model is not in the price table) */
+    cost: number;
+}
+
+/**
+ * Price of a model in USD per 1 million tokens
+ */
+export interface AIPrice {
+    /** Price of prompt (input) tokens */
+    input: number;
+    /** Price of completion (output) tokens */
+    output: number;
+}
+
+/**
+ * Prices keyed by model name
+ * (a key also matches models that start with it, ex. 'gpt-4o' matches 'gpt-4o-2024-08-06')
+ */
+export type AIPriceTable = Record<string, AIPrice>;
+
+/**
+ * Usage totals of one provider
+ */
+export interface AIProviderUsage {
+    /** Number of requests */
+    calls: number;
+    /** Prompt (input) tokens */
+    promptTokens: number;
+    /** Completion (output) tokens */
+    completionTokens: number;
+    /** Total wall time in milliseconds */
+    durationMs: number;
+    /** Cost in USD */
+    cost: number;
+}
+
+/**
+ * Usage report of all AI requests for a video
+ */
+export interface AIUsageReport {
+    /** Every request in order */
+    calls: AIUsage[];
+    /** Prompt (input) tokens */
+    promptTokens: number;
+    /** Completion (output) tokens */
+    completionTokens: number;
+    /** Prompt and completion tokens */
+    totalTokens: number;
+    /** Total wall time in milliseconds */
+    durationMs: number;
+    /** Cost in USD */
+    cost: number;
+    /** Totals per provider (ex. 'OpenAI gpt-4o-mini') */
+    providers: Record<string, AIProviderUsage>;
+    /** Models that are not in the price table (counted as free) */
+    unpriced: string[];
+}
+
+/** Rough number of characters per token (used when the provider gives no token counts) */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate number of tokens of a text
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate number of prompt tokens of a conversation
+ */
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+    return messages.reduce((total, msg) => total + estimateTokens(msg.content), 0);
+}
+
+/**
+ * Get price of model (exact name first, then the longest key the name starts with)
+ *
+ * @param model - Model name
+ * @param prices - Price table
+ * @returns Price or undefined if the model is not in the table
+ */
+export function getModelPrice(model: string, prices: AIPriceTable): AIPrice | undefined {
+    if (prices[model]) return prices[model];
+
+    const key = Object.keys(prices)
+        .filter((name) => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+
+    return key ? prices[key] : undefined;
+}
+
+/**
+ * Create usage report from requests
+ *
+ * @param calls - Usage of each request
+ * @param prices - Price table (used to list unpriced models)
+ */
+export function createUsageReport(calls: AIUsage[], prices: AIPriceTable = DEFAULT_AI_PRICES): AIUsageReport {
+    const providers: Record<string, AIProviderUsage> = {};
+    const unpriced = new Set<string>();
+
+    for (const call of calls) {
+        const key = `${call.provider} ${call.model}`;
+        const total = providers[key] ?? { calls: 0, promptTokens: 0, completionTokens: 0, durationMs: 0, cost: 0 };
+
+        total.calls++;
+        total.promptTokens += call.promptTokens;
+        total.completionTokens += call.completionTokens;
+        total.durationMs += call.durationMs;
+        total.cost += call.cost;
+        providers[key] = total;
+
+        if (!getModelPrice(call.model, prices)) unpriced.add(call.model);
+    }
+
+    const sum = (get: (call: AIUsage) => number) => calls.reduce((total, call) => total + get(call), 0);
+    const promptTokens = sum((call) => call.promptTokens);
+    const completionTokens = sum((call) => call.completionTokens);
+
+    return {
+        calls,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        durationMs: sum((call) => call.durationMs),
+        cost: sum((call) => call.cost),
+        providers,
+        unpriced: [...unpriced],
+    };
+}
+
+/**
+ * Format usage report as a one line summary (ex. for logs)
+ */
+export function formatUsageReport(report: AIUsageReport): string {
+    return `${report.calls.length} AI request(s), ${report.promptTokens} prompt + ${report.completionTokens} completion tokens, ${(report.durationMs / 1000).toFixed(1)}s, $${report.cost.toFixed(4)}`;
+}
+
+/**
+ * Track usage of AI requests
+ *
+ * Emits a 'usage' event with the AIUsage of every request and a 'report'
+ * event with the AIUsageReport when the script is done.
+ *
+ * @example
+ * ```typescript
+ * const usage = new AIUsageTracker({ "my-model": { input: 0.1, output: 0.2 } });
+ * usage.emitter.on('usage', (call: AIUsage) => console.log(call.label, call.cost));
+ * await genVideoDataWithAI(prompt, AIGenType.OpenAIGen, options, apiKey, { usage });
+ * ```
+ */
+export class AIUsageTracker {
+    /** Event Emitter */
+    public emitter: EventEmitter = new EventEmitter();
+    /** Usage of every request */
+    public calls: AIUsage[] = [];
+    /** Price table */
+    public prices: AIPriceTable;
+
+    /**
+     * @param prices - Prices added to (or overriding) the default price table
+     */
+    constructor(prices?: AIPriceTable) {
+        this.prices = { ...DEFAULT_AI_PRICES, ...prices };
+    }
+
+    /**
+     * Add usage of a request (cost is calculated from the price table)
+     *
+     * @param usage - Usage without cost
+     * @returns Usage with cost
+     */
+    record(usage: Omit<AIUsage, "cost">): AIUsage {
+        const price = getModelPrice(usage.model, this.prices);
+        const cost = price ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000 : 0;
+
+        const call = { ...usage, cost };
+        this.calls.push(call);
+        this.emitter.emit('usage', call);
+
+        return call;
+    }
+
+    /**
+     * Get usage report of all requests so far
+     */
+    report(): AIUsageReport {
+        return createUsageReport(this.calls, this.prices);
+    }
+}
@@ -4,7 +4,6 @@ import * as tts from "./tts";
 import * as img from "./image";
 import fs from "fs";
 import path from "path";
-import { EventEmitter } from "events";
 import fluent_ffmpeg from 'fluent-ffmpeg';
 
 import { TopicVideoData } from "./types/topicVid";
@@ -13,11 +12,35 @@ import { RatherVideoData } from "./types/ratherVid";
 import { QuizVideoData } from "./types/quizVid";
 import { MessageVideoData } from "./types/msgVid";
 import { WhisperSubtitles } from "./subtitles";
+import { AIFixtureMode } from "./fixtures";
+import { AIUsageReport } from "./usage";
+import { SpeechPart } from "./duration";
+import { getVideoLocale, VideoLocale } from "./locale";
+import { getImageProvider, getProviderCredentials, getVoiceProvider, ProviderCredentials } from "./providers";
+import { createJobId, StageOptions, VideoJob, VideoStage } from "./pipeline";
+import { VideoCancelledError, VideoTask } from "./task";
+import { getResolutionOf, VideoLayout } from "./resolution";
+import { canRenderDirectly, EncodingOptions, EncodingProfile, getEncoderOptions, getEncodingSettings, getMasterSettings, getTargetBitrate } from "./encoding";
+import { addTimelineAsset, renderTimeline, saveTimeline, TIMELINE_FILE, TIMELINE_VERSION, TimelineDocument, TimelineLayer } from "./timeline";
+import type { FFCreator } from "ffcreator-autoshorts";
+import type { VideoMetadata } from "./metadata";
+import type { ContentModerator } from "./moderation";
+import type { PlanElement, PlanScene, PlannedSpeech } from "./plan";
+
+/**
+ * Video data of a type added at runtime with `registerVideoType`
+ */
+export interface RegisteredVideoData {
+    /** Name of the registered video type */
+    type: string;
+    /** Fields of the video type */
+    [field: string]: unknown;
+}
 
 /**
  * Video data types
  */
-export type VideoDataType = TopicVideoData | RankVideoData | RatherVideoData | QuizVideoData | MessageVideoData;
+export type VideoDataType = TopicVideoData | RankVideoData | RatherVideoData | QuizVideoData | MessageVideoData | RegisteredVideoData;
 
 /**
  * Video generation types
@@ -52,12 +75,14 @@ export interface VideoOptions {
     tempPath: string;
     /** Resource path */
     resPath: string;
-    /** Voice generation type */
+    /** Voice generation type (built-in or id of a registered TTS provider) */
     voiceGenType: tts.VoiceGenType;
-    /** Image generation type */
+    /** Image generation type (built-in or id of a registered image provider) */
     imageGenType: img.ImageGenType;
-    /** Video orientation */
-    orientation: "vertical" | "horizontal";
+    /** Video orientation: size preset (vertical, horizontal, square, portrait, vertical-720p, ...) or custom size as 'WIDTHxHEIGHT' */
+    orientation: string;
+    /** Language of the video (ex. 'es', default: 'en'). Sets the AI prompt, voices, whisper language and template strings */
+    language?: string;
     /** Custom background video path */
     vidPath?: string;
     /** Custom background music path */
@@ -76,19 +101,29 @@ export interface VideoOptions {
     ttsOptions?: tts.APIVoiceOptions;
     /** API Keys */
     apiKeys?: APIKeys;
+    /** Usage report of the AI requests that made the script (saved as 'ai-usage.json' with the video) */
+    aiUsage?: AIUsageReport;
+    /** Upload metadata of each platform (saved as 'metadata.json' with the video) */
+    metadata?: VideoMetadata;
+    /** Moderation of the prompt and video data before TTS and rendering (default: keyword rules, false to skip) */
+    moderation?: ContentModerator | false;
+    /** Image choices of an earlier render (from 'images.json', used instead of searching again) */
+    imageChoices?: img.ImageChoice[];
+    /** Job id (name of the job folder in the temp path, default: made from the video data so the same data resumes the same job) */
+    jobId?: string;
+    /** Stages to run again even if their inputs are unchanged (ex. ['images'] for new photos) */
+    rerunStages?: string[];
+    /** Timeline to render instead of the one made from the video data (ex. an edited 'timeline.json' of a job, see `loadTimeline`) */
+    timeline?: TimelineDocument;
+    /** Encoding profile and settings of the video (codec, quality, frame rate, container, target size, default: 'default' profile) */
+    encoding?: EncodingOptions;
 }
 
 /**
- * API keys
+ * API keys by credential name of the providers (ex. 'elevenLabsAPIKey', 'pexelsAPIKey', 'neetsAPIKey')
+ * Keys that are not set are read from the environment variable of the credential.
  */
-export interface APIKeys {
-    /** ElevenLabs API key */
-    elevenLabsAPIKey?: string;
-    /** Pexels API key */
-    pexelsAPIKey?: string;
-    /** Neets API key */
-    neetsAPIKey?: string;
-}
+export type APIKeys = ProviderCredentials;
 
 /**
  * Internal video generation options
@@ -100,14 +135,24 @@ export interface InternalVideoOptions {
      * If set to false, use event emitter 'log' to get output 
      */
     debug: boolean;
-    /** Change photos or not */
+    /**
+     * Change photos or not
+     * @deprecated Images of a job are cached, so photos only change if the images stage runs again (use `rerunStages`)
+     */
     changePhotos: boolean;
-    /** Disable TTS */
+    /**
+     * Disable TTS
+     * @deprecated Voices of a job are cached, so TTS only runs again if the script or voice options change
+     */
     disableTTS: boolean;
     /** Disable subtitles */
     disableSubtitles: boolean;
     /** Use mock data */
     useMock: boolean;
+    /** AI fixture file to record AI provider responses to or replay them from (optional) */
+    aiFixturePath?: string;
+    /** AI fixture mode (default: replay) */
+    aiFixtureMode?: AIFixtureMode;
 }
 
 /**
@@ -143,8 +188,8 @@ export const DEFAULT_INTERNAL_VIDEO_OPTIONS: InternalVideoOptions = {
 export class VideoGen {
     // Properties
 
-    /** Event Emitter */
-    public emitter: EventEmitter = new EventEmitter();
+    /** Task of the video (typed events and cancellation) */
+    public emitter: VideoTask = new VideoTask();
 
     /** JSON data */
     protected jsonData: any;
@@ -156,8 +201,8 @@ export class VideoGen {
     protected voiceGenType: tts.VoiceGenType;
     /** Image generation type */
     protected imageGenType: img.ImageGenType;
-    /** Video orientation */
-    protected orientation: "vertical" | "horizontal";
+    /** Video orientation (size preset or 'WIDTHxHEIGHT') */
+    protected orientation: string;
     /** Custom background video path */
     protected vidPath?: string;
     /** Custom background music path */
@@ -176,6 +221,26 @@ export class VideoGen {
     protected ttsOptions?: tts.APIVoiceOptions;
     /** API Keys */
     protected apiKeys?: APIKeys;
+    /** AI usage report */
+    protected aiUsage?: AIUsageReport;
+    /** Upload metadata */
+    protected metadata?: VideoMetadata;
+    /** Locale of the video language */
+    protected locale: VideoLocale;
+    /** Image choices of an earlier render */
+    protected imageChoices?: img.ImageChoice[];
+    /** Picks images of the video (created on first use) */
+    protected imageSelector?: img.ImageSelector;
+    /** Job id (made from the video data if not set) */
+    protected jobId?: string;
+    /** Stages to run again even if their inputs are unchanged */
+    protected rerunStages: string[];
+    /** Timeline to render instead of the one made from the video data */
+    protected timeline?: TimelineDocument;
+    /** Encoding settings of the video */
+    protected encoding: EncodingProfile;
+    /** Job of the video (opened by `checkTempPath()`) */
+    protected job?: VideoJob;
 
     constructor(options: VideoOptions, jsonData: any) {
         // Initialize properties
@@ -192,25 +257,41 @@ export class VideoGen {
         this.internalOptions = options.internalOptions ?? DEFAULT_INTERNAL_VIDEO_OPTIONS;
         this.subtitleOptions = options.subtitleOptions;
         this.imageOptions = options.imageOptions;
+        this.ttsOptions = options.ttsOptions;
+        this.aiUsage = options.aiUsage;
+        this.metadata = options.metadata;
+        this.locale = getVideoLocale(options.language);
+        this.imageChoices = options.imageChoices;
+        this.jobId = options.jobId;
+        this.rerunStages = options.rerunStages ?? [];
+        this.timeline = options.timeline;
+        this.encoding = getEncodingSettings(options.encoding);
         this.jsonData = jsonData;
     }
 
     /**
-     * Function to convert orientation to resolution (1920x1080 for horizontal, 1080x1920 for vertical)
+     * Function to convert orientation to resolution (ex. 1080x1920 for vertical, 1080x1080 for square)
      * 
      * @returns Resolution as a tuple of numbers (width, height)
+     * @throws Error if the orientation is not a preset or a valid size
      */
-    getResolution() {
-        let res: [number, number];
-        if (this.orientation === "horizontal") {
-            res = [1920, 1080];
-            return res;
-        } else if (this.orientation === "vertical") {
-            res = [1080, 1920];
-            return res;
-        } else {
-            throw new Error("Invalid orientation: " + this.orientation);
-        }
+    getResolution(): [number, number] {
+        return getResolutionOf(this.orientation);
+    }
+
+    /**
+     * Get layout of the video canvas (positions as fractions, sizes scaled to the resolution)
+     */
+    getLayout(): VideoLayout {
+        const [width, height] = this.getResolution();
+        return new VideoLayout(width, height);
+    }
+
+    /**
+     * Get the video file in the job folder (its extension is the container of the encoding)
+     */
+    getVideoFile(): string {
+        return path.join(this.tempPath, `video.${this.encoding.container}`);
     }
 
     /**
@@ -230,24 +311,22 @@ export class VideoGen {
     /** 
      * Generate voice using the specified options
      * @param options Voice generation options
-     * @throws Error if invalid voice generation type
+     * @throws ProviderError if the voice generation type is not registered
      */
     async generateVoice(options: tts.VoiceGenOptions) {
-        if (this.ttsOptions) {
-            options.apiOptions = this.ttsOptions;
+        // Voices set in TTS options are used over the voices of the language
+        const localeVoices = this.locale.voices?.[this.voiceGenType];
+        if (this.ttsOptions || localeVoices) {
+            options.apiOptions = {
+                voiceModel: this.ttsOptions?.voiceModel ?? localeVoices?.voiceModel,
+                maleVoice: this.ttsOptions?.maleVoice ?? localeVoices?.maleVoice,
+                femaleVoice: this.ttsOptions?.femaleVoice ?? localeVoices?.femaleVoice,
+            };
         }
 
         if (!this.internalOptions.disableTTS) {
-            switch (this.voiceGenType) {
-                case tts.VoiceGenType.ElevenLabs:
-                    return await tts.ElevenLabsVoice.generateVoice(this, options, this.apiKeys?.elevenLabsAPIKey);
-                case tts.VoiceGenType.NeetsTTS:
-                    return await tts.NeetsTTSVoice.generateVoice(this, options, this.apiKeys?.neetsAPIKey);
-                case tts.VoiceGenType.BuiltinTTS:
-                    return await tts.BuiltinTTSVoice.generateVoice(this, options);
-                default:
-                    throw new Error("Invalid voice generation type");
-            }
+            const provider = getVoiceProvider(this.voiceGenType);
+            return await provider.generateVoice(this, options, getProviderCredentials(provider, this.apiKeys));
         } else {
             return;
         }
@@ -255,25 +334,29 @@ export class VideoGen {
 
     /**
      * Generate images using the specified image generation type
+     *
+     * Search images are found for the query and its alternates (`imageAlternates` of the JSON data),
+     * and the best one is picked. Choices are saved as 'images.json' with the video.
+     *
      * @param images List of image queries
      * @param filePrefix File prefix for images
      * @returns List of image paths
-     * @throws Error if invalid image generation type
+     * @throws ProviderError if the image generation type is not registered
      */
     async generateImages(images: string[], filePrefix?: string) : Promise<string[]> {
         this.log(`Image gen type: ${this.imageGenType}; Style type: ${this.getImageStyleType()}`);
 
         const genImages = async (images: string[]) : Promise<string[]> => {
-            switch (this.imageGenType) {
-                case img.ImageGenType.Pexels:
-                    return await img.PexelsImageGen.generateImages(this, images, this.tempPath, this.internalOptions.changePhotos, this.apiKeys?.pexelsAPIKey, filePrefix);
-                case img.ImageGenType.GoogleScraper:
-                    return await img.GoogleScraperImageGen.generateImages(this, images, this.tempPath, this.internalOptions.changePhotos, filePrefix);
-                case img.ImageGenType.FluxAI:
-                    return await img.FluxAIImageGen.generateImages(this, images, this.tempPath, this.internalOptions.changePhotos, this.imageOptions, filePrefix);
-                default:
-                    throw new Error("Invalid image generation type");
+            const provider = getImageProvider(this.imageGenType);
+            const credentials = getProviderCredentials(provider, this.apiKeys);
+            const { searchImages, generateImages } = provider;
+
+            // Search providers give candidates to pick from, AI providers save the images
+            if (searchImages) {
+                return await this.chooseImages(images, filePrefix, (queries) => searchImages(this, queries, img.DEFAULT_IMAGE_CANDIDATES, credentials));
             }
+
+            return await generateImages!(this, { images, tempPath: this.tempPath, filePrefix, imageOptions: this.imageOptions }, credentials);
         }
 
         let imgs: string[] = [];
@@ -290,22 +373,52 @@ export class VideoGen {
         return imgs;
     }
 
+    /**
+     * Search images for each query and its alternates and save the best one
+     *
+     * @param images List of image queries
+     * @param filePrefix File prefix for images
+     * @param search Search of the image generation type
+     * @returns List of image paths
+     * @throws Error if no image is found for a query
+     */
+    private async chooseImages(images: string[], filePrefix: string | undefined, search: (queries: string[]) => Promise<img.ImageCandidate[]>): Promise<string[]> {
+        this.imageSelector ??= new img.ImageSelector(this.getResolution(), this.imageChoices);
+        const alternates: Record<string, string[]> = this.jsonData.imageAlternates ?? {};
+        const imgs: string[] = [];
+
+        for (const [index, query] of images.entries()) {
+            const file = `image-${filePrefix ?? index}.png`;
+            let choice = this.imageSelector.getRecorded(file, query);
+
+            if (choice) {
+                this.log(`Using recorded image for '${query}' (candidate ${choice.selected + 1} of ${choice.candidates.length})`);
+                this.imageSelector.record(choice);
+            } else {
+                const queries = [query, ...(alternates[query] ?? [])];
+                choice = this.imageSelector.choose(file, query, alternates[query] ?? [], await search(queries));
+            }
+
+            const chosen = choice.candidates[choice.selected];
+            const imgPath = path.join(this.tempPath, file);
+            await img.saveImageCandidate(chosen, imgPath);
+
+            this.log(`Image for '${query}' downloaded at ${imgPath} (query: '${chosen.query}', score: ${chosen.score})`);
+            imgs.push(imgPath);
+        }
+
+        fs.writeFileSync(path.join(this.tempPath, img.IMAGE_CHOICES_FILE), JSON.stringify(this.imageSelector.choices, null, 2));
+
+        return imgs;
+    }
+
     /**
      * Get image type style
      * @returns Image style type
-     * @throws Error if invalid image generation type
+     * @throws ProviderError if the image generation type is not registered
      */
     getImageStyleType() : img.ImageStyleType {
-        switch (this.imageGenType) {
-            case img.ImageGenType.Pexels:
-                return img.PexelsImageGen.styleType;
-            case img.ImageGenType.GoogleScraper:
-                return img.GoogleScraperImageGen.styleType
-            case img.ImageGenType.FluxAI:
-                return img.FluxAIImageGen.styleType;
-            default:
-                throw new Error("Invalid image generation type");
-        }
+        return getImageProvider(this.imageGenType).capabilities.style;
     }
 
     /**
@@ -337,32 +450,334 @@ export class VideoGen {
      */
     async generateSubtitles(audio16kFile: string, srtFile: string, maxLen: number) {
         if (!this.internalOptions.disableSubtitles) {
-            return await WhisperSubtitles.transcribeSrt(this, audio16kFile, maxLen, srtFile, this.resPath);
+            return await WhisperSubtitles.transcribeSrt(this, audio16kFile, maxLen, srtFile, this.resPath, undefined, this.locale.code);
         }
     }
 
     /**
-     * Check if the temporary path exists
-     * If it does not exist, create a new one
+     * Open the job folder of the video in the temporary path
+     * If the folder exists, the job is resumed (stages with unchanged inputs are skipped)
      * 
-     * @throws Error if temp directory cannot be created
+     * @throws Error if temp directory cannot be created or the job manifest is invalid
      */
     checkTempPath() {
         this.log('Starting video generation...');
 
-        const id = (Math.random() + 1).toString(36).substring(7); // Note: This is not a secure way to generate a random ID
-        const uniqueFolder = path.join(this.tempPath, id);
+        const id = this.jobId ?? createJobId(this.jsonData.type, this.jsonData);
+        const jobFolder = path.join(this.tempPath, id);
 
-        if (!fs.existsSync(uniqueFolder)) {
-            fs.mkdirSync(uniqueFolder);
-            this.log(`Temp directory ${uniqueFolder} created successfully!`);
+        if (fs.existsSync(jobFolder)) {
+            this.log(`Job ${id} found in ${jobFolder}! Resuming...`);
         } else {
-            this.log(`Temp directory ${uniqueFolder} already exists! Deleting and creating a new one...`);
-            fs.rmSync(uniqueFolder, { recursive: true, force: true });
-            fs.mkdirSync(uniqueFolder);
+            this.log(`Job ${id} created in ${jobFolder}!`);
+        }
+
+        this.job = VideoJob.open(jobFolder, this.jsonData.type, this.rerunStages);
+        this.tempPath = jobFolder;
+
+        if (this.aiUsage) {
+            fs.writeFileSync(path.join(jobFolder, 'ai-usage.json'), JSON.stringify(this.aiUsage, null, 2));
+        }
+
+        if (this.metadata) {
+            fs.writeFileSync(path.join(jobFolder, 'metadata.json'), JSON.stringify(this.metadata, null, 2));
+        }
+    }
+
+    /**
+     * Get the job of the video
+     * @throws Error if `checkTempPath()` has not been called
+     */
+    protected getJob(): VideoJob {
+        if (!this.job) throw new Error("Video job is not open (call 'checkTempPath()' first)");
+        return this.job;
+    }
+
+    /**
+     * Run a stage of the video job (skipped if it finished before with the same inputs)
+     *
+     * @param name Stage name (ex. VideoStage.Voice)
+     * @param options Stage inputs and output files
+     * @param stage Function that runs the stage (its result must be JSON)
+     * @returns Result of the stage
+     * @throws Error of the stage (the job resumes from this stage when run again)
+     */
+    protected async runStage<T>(name: string, options: StageOptions<T>, stage: () => Promise<T>): Promise<T> {
+        const job = this.getJob();
+        const cached = job.isCached(name, job.hashInputs(name, options));
+        const startTime = Date.now();
+
+        this.emitter.throwIfCancelled();
+        this.emitter.emit('stage-start', { stage: name, cached });
+
+        if (cached) {
+            this.log(`Stage '${name}' is unchanged! Using files of the last run...`);
+        }
+
+        let result: T;
+        try {
+            result = await job.run(name, options, stage);
+        } catch (error) {
+            // Errors of processes stopped by a cancel are not the cause
+            this.emitter.throwIfCancelled();
+            throw error;
+        }
+
+        this.emitter.emit('stage-end', { stage: name, cached, durationMs: Date.now() - startTime });
+        return result;
+    }
+
+    /**
+     * Run the render stage of the video job
+     *
+     * The timeline of the video is saved as 'timeline.json' in the job folder, then rendered.
+     * Videos the renderer can't encode directly (other codecs, target size) are rendered to a master video
+     * and encoded again (see `encodeVideo`).
+     * Finishes the task with the files of the video when rendering completes (or right away if the video is cached)
+     *
+     * @param options Stage inputs
+     * @param videoFile Video file
+     * @param build Function that makes the timeline of the video (not called if a timeline is set in the options)
+     */
+    protected async renderStage(options: StageOptions<string>, videoFile: string, build: () => Promise<TimelineDocument>) {
+        const job = this.getJob();
+        const inputHash = job.hashInputs(VideoStage.Render, options);
+        const startTime = Date.now();
+
+        this.emitter.throwIfCancelled();
+
+        if (job.isCached(VideoStage.Render, inputHash)) {
+            this.emitter.emit('stage-start', { stage: VideoStage.Render, cached: true });
+            this.log(`Stage '${VideoStage.Render}' is unchanged! Using video of the last run...`);
+            this.emitter.emit('stage-end', { stage: VideoStage.Render, cached: true, durationMs: Date.now() - startTime });
+            this.emitter.finish(job.getArtifacts(videoFile));
+            return;
+        }
+
+        this.emitter.emit('stage-start', { stage: VideoStage.Render, cached: false });
+        job.start(VideoStage.Render, inputHash);
+
+        const timelineFile = path.join(job.dir, TIMELINE_FILE);
+        const direct = canRenderDirectly(this.encoding);
+        const renderFile = direct ? videoFile : path.join(job.dir, 'video-master.mp4');
+        // Share of the stage progress that is rendering (the rest is the second encode)
+        const renderShare = direct ? 1 : 0.8;
+
+        let timeline: TimelineDocument;
+        let creator: FFCreator;
+        try {
+            timeline = this.timeline ?? await build();
+            this.emitter.throwIfCancelled();
+
+            saveTimeline(timeline, timelineFile);
+            this.log(`Timeline saved at ${timelineFile}`);
+            creator = renderTimeline(timeline, renderFile, direct ? this.encoding : getMasterSettings(this.encoding));
+        } catch (error) {
+            job.fail(VideoStage.Render, error);
+            throw error;
+        }
+
+        // Stop FFCreator and its ffmpeg process if the video is cancelled
+        const untrack = this.emitter.onCancel(() => {
+            job.fail(VideoStage.Render, new VideoCancelledError());
+            creator.destroy();
+        });
+
+        const complete = async () => {
+            if (!direct) {
+                this.log(`Encoding ${this.encoding.videoCodec} ${this.encoding.container} video...`);
+                await this.encodeVideo(renderFile, videoFile, timeline.duration, (percent) => {
+                    this.emitter.emit('stage-progress', { stage: VideoStage.Render, percent: Math.round(renderShare * 100 + percent * (1 - renderShare)) });
+                });
+                fs.rmSync(renderFile, { force: true });
+            }
+
+            job.complete(VideoStage.Render, [videoFile, timelineFile], videoFile);
+            this.emitter.emit('stage-end', { stage: VideoStage.Render, cached: false, durationMs: Date.now() - startTime });
+            this.emitter.finish(job.getArtifacts(videoFile));
+        };
+
+        creator.start();
+        creator.closeLog();
+
+        creator.on('start', () => {
+            this.log(`FFCreator start`);
+        });
+        creator.on('error', e => {
+            untrack();
+            job.fail(VideoStage.Render, new Error(e.error));
+            this.log(`FFCreator error: ${JSON.stringify(e)}`);
+            this.emitter.fail(new Error(`Render failed: ${e.error}`));
+        });
+        creator.on('progress', e => {
+            this.log(`FFCreator progress: rendering ${(e.percent * 100) >> 0}%`);
+            this.emitter.emit('stage-progress', { stage: VideoStage.Render, percent: (e.percent * renderShare * 100) >> 0 });
+        });
+        creator.on('complete', e => {
+            untrack();
+            this.log(`FFCreator completed: \n USAGE: ${e.useage} \n PATH: ${e.output} `);
+            complete().catch((error) => {
+                job.fail(VideoStage.Render, error);
+                this.emitter.fail(new Error(`Encoding failed: ${error instanceof Error ? error.message : error}`));
+            });
+        });
+    }
+
+    /**
+     * Encode a rendered video with the encoding settings of the video
+     *
+     * Videos with a target size are encoded in two passes at the bitrate that fits the size.
+     *
+     * @param input Rendered video file
+     * @param output Video file
+     * @param duration Duration of the video in seconds
+     * @param onProgress Called with the percent of the encode
+     * @throws EncodingError if the target size is too small for the duration
+     * @throws Error if ffmpeg command fails
+     */
+    protected async encodeVideo(input: string, output: string, duration: number, onProgress?: (percent: number) => void) {
+        const passes: (1 | 2 | undefined)[] = this.encoding.targetSizeMB != undefined ? [1, 2] : [undefined];
+        const bitrate = this.encoding.targetSizeMB != undefined ? getTargetBitrate(this.encoding, duration) : undefined;
+        const passLogFile = path.join(path.dirname(output), 'encode-pass');
+
+        if (bitrate != undefined) {
+            this.log(`Two-pass encode at ${bitrate}k to fit ${this.encoding.targetSizeMB} MB`);
+        }
+
+        for (const [index, pass] of passes.entries()) {
+            const ffmpegCmd = fluent_ffmpeg()
+                .input(input)
+                .outputOptions(getEncoderOptions(this.encoding, pass, passLogFile, bitrate))
+                .output(pass == 1 ? (process.platform == 'win32' ? 'NUL' : '/dev/null') : output)
+                .on('progress', (progress) => {
+                    onProgress?.(Math.round((index + (progress.percent ?? 0) / 100) / passes.length * 100));
+                });
+
+            await this.waitForCommand(ffmpegCmd, () => ffmpegCmd.run());
+        }
+
+        // Pass logs of two-pass encodes (ex. 'encode-pass-0.log')
+        for (const file of fs.readdirSync(path.dirname(output))) {
+            if (file.startsWith('encode-pass')) fs.rmSync(path.join(path.dirname(output), file), { force: true });
+        }
+    }
+
+    /**
+     * Inputs of the voice stage (the voices change if these change)
+     *
+     * @param texts Spoken texts
+     */
+    protected voiceStageInputs(texts: unknown): unknown {
+        return {
+            texts,
+            voiceGenType: this.voiceGenType,
+            ttsOptions: this.ttsOptions,
+            language: this.locale.code,
+            disableTTS: this.internalOptions.disableTTS,
+        };
+    }
+
+    /**
+     * Inputs of the images stage (the images change if these change)
+     *
+     * @param queries Image queries
+     */
+    protected imageStageInputs(queries: unknown): unknown {
+        return {
+            queries,
+            imageGenType: this.imageGenType,
+            imageOptions: this.imageOptions,
+            imageAlternates: this.jsonData.imageAlternates,
+            imageChoices: this.imageChoices,
+            orientation: this.orientation,
+            changePhotos: this.internalOptions.changePhotos,
+        };
+    }
+
+    /**
+     * Inputs of the audio stage (background music of the job)
+     */
+    protected audioStageInputs(): unknown {
+        return { useBgMusic: this.useBgMusic, bgPath: this.bgPath };
+    }
+
+    /**
+     * Run the subtitles stage of the video job (whisper subtitles of the 16k audio file)
+     *
+     * @param audio16kFile 16k frequency audio file
+     * @param srtFile SRT file path
+     * @param maxLen Maximum length for token
+     * @returns SRT file path
+     */
+    protected async subtitlesStage(audio16kFile: string, srtFile: string, maxLen: number): Promise<string> {
+        const disabled = this.internalOptions.disableSubtitles;
+
+        return await this.runStage(VideoStage.Subtitles, {
+            inputs: { maxLen, language: this.locale.code, disableSubtitles: disabled },
+            after: [VideoStage.Audio],
+            outputs: (file) => disabled ? [] : [file],
+        }, async () => {
+            await this.generateSubtitles(audio16kFile, srtFile, maxLen);
+            return srtFile;
+        });
+    }
+
+    /**
+     * Inputs of the render stage (the video is rendered again if these change)
+     */
+    protected renderStageInputs(): unknown {
+        return {
+            data: this.jsonData,
+            orientation: this.orientation,
+            useBgVideo: this.useBgVideo,
+            vidPath: this.vidPath,
+            subtitleOptions: this.subtitleOptions,
+            timeline: this.timeline,
+            encoding: this.encoding,
+        };
+    }
+
+    /**
+     * Create an empty timeline of the video
+     *
+     * @param audioFile Audio of the video
+     * @param duration Duration of the video in seconds
+     * @returns Timeline with the audio as the 'audio' asset and no scenes
+     */
+    protected createTimeline(audioFile: string, duration: number): TimelineDocument {
+        const [width, height] = this.getResolution();
+
+        return {
+            version: TIMELINE_VERSION,
+            type: this.jsonData.type,
+            width,
+            height,
+            duration,
+            audio: "audio",
+            assets: { audio: audioFile },
+            scenes: [],
+        };
+    }
+
+    /**
+     * Create background layer of a timeline (empty if background video is disabled)
+     *
+     * @param timeline Timeline the background video is added to as the 'background' asset
+     */
+    protected createBackgroundLayer(timeline: TimelineDocument): TimelineLayer {
+        if (!this.useBgVideo) {
+            this.log('Background video overlay disabled! Using black background...');
+            return { name: "background", elements: [] };
         }
 
-        this.tempPath = uniqueFolder;
+        // Get random video background
+        const bgVideo = this.getRandomBgVideo();
+        this.log(`Background video file: ${bgVideo}`);
+
+        return {
+            name: "background",
+            elements: [{ type: "video", asset: addTimelineAsset(timeline, "background", bgVideo), x: timeline.width / 2, y: timeline.height / 2, width: timeline.width, height: timeline.height }],
+        };
     }
 
     /** 
@@ -373,13 +788,30 @@ export class VideoGen {
      * @throws Error if ffmpeg command fails
      */
     async combineVoiceFiles(voiceFiles: string[], filename: string) {
-        return await new Promise((resolve, reject) => {
-            const ffmpegCmd = fluent_ffmpeg();
-            voiceFiles.forEach(file => ffmpegCmd.input(file));
-            ffmpegCmd.mergeToFile(filename, this.tempPath)
-                .on('end', resolve)
-                .on('error', reject);
-        });
+        const ffmpegCmd = fluent_ffmpeg();
+        voiceFiles.forEach(file => ffmpegCmd.input(file));
+
+        return await this.waitForCommand(ffmpegCmd, () => ffmpegCmd.mergeToFile(filename, this.tempPath));
+    }
+
+    /**
+     * Run an ffmpeg command and wait for it to end (the command is stopped if the video is cancelled)
+     * @param command ffmpeg command
+     * @param start Function that starts the command
+     * @returns Promise that resolves when the command ends
+     * @throws Error if ffmpeg command fails
+     */
+    protected async waitForCommand(command: fluent_ffmpeg.FfmpegCommand, start: () => void) {
+        const untrack = this.emitter.onCancel(() => command.kill('SIGKILL'));
+
+        try {
+            return await new Promise((resolve, reject) => {
+                command.on('end', resolve).on('error', reject);
+                start();
+            });
+        } finally {
+            untrack();
+        }
     }
 
     /**
@@ -429,21 +861,17 @@ export class VideoGen {
      * @throws Error if ffmpeg command fails
      */
     async combineVoiceToBgAudio(voiceFile: string, bgAudio: string, filename: string) {        
-        return await new Promise((resolve, reject) => {
-            const ffmpegCmd = fluent_ffmpeg()
-                .input(voiceFile)
-                .input(bgAudio)
-                .complexFilter([
-                    '[0:a]volume=1[a1]',
-                    '[1:a]volume=0.1[a2]',
-                    '[a1][a2]amix=inputs=2:duration=first:dropout_transition=2'
-                ])
-                .output(filename)
-                .on('end', resolve)
-                .on('error', reject);
-
-            ffmpegCmd.run();
-        });
+        const ffmpegCmd = fluent_ffmpeg()
+            .input(voiceFile)
+            .input(bgAudio)
+            .complexFilter([
+                '[0:a]volume=1[a1]',
+                '[1:a]volume=0.1[a2]',
+                '[a1][a2]amix=inputs=2:duration=first:dropout_transition=2'
+            ])
+            .output(filename);
+
+        return await this.waitForCommand(ffmpegCmd, () => ffmpegCmd.run());
     }
 
     /**
@@ -457,16 +885,12 @@ export class VideoGen {
      * @throws Error if ffmpeg command fails
      */
     async genAudio16K(audioFile: string, outFilename: string) {
-        return await new Promise((resolve, reject) => {
-            const ffmpegCmd = fluent_ffmpeg()
-                .input(audioFile)
-                .audioFrequency(16000)
-                .output(outFilename)
-                .on('end', resolve)
-                .on('error', reject);
-    
-            ffmpegCmd.run();
-        });
+        const ffmpegCmd = fluent_ffmpeg()
+            .input(audioFile)
+            .audioFrequency(16000)
+            .output(outFilename);
+
+        return await this.waitForCommand(ffmpegCmd, () => ffmpegCmd.run());
     }
 
     /**
@@ -483,14 +907,11 @@ export class VideoGen {
      * @throws Error if ffmpeg command fails
      */
     async mergeAudio(baseFile: string, inputFile: string, outFilename: string) {
-        return await new Promise((resolve, reject) => {
-            const ffmpegCmd = fluent_ffmpeg();
-            ffmpegCmd.input(baseFile);
-            ffmpegCmd.input(inputFile);
-            ffmpegCmd.mergeToFile(outFilename, this.tempPath)
-                .on('end', resolve)
-                .on('error', reject);                        
-        });
+        const ffmpegCmd = fluent_ffmpeg();
+        ffmpegCmd.input(baseFile);
+        ffmpegCmd.input(inputFile);
+
+        return await this.waitForCommand(ffmpegCmd, () => ffmpegCmd.mergeToFile(outFilename, this.tempPath));
     }
 
     /**
@@ -508,15 +929,12 @@ export class VideoGen {
      * @throws Error if ffmpeg command fails
      */
     async mergeMultiAudio(base1File: string, base2File: string, inputFile: string, outFilename: string) {
-        return await new Promise((resolve, reject) => {
-            const ffmpegCmd = fluent_ffmpeg();
-            ffmpegCmd.input(base1File);
-            ffmpegCmd.input(inputFile);
-            ffmpegCmd.input(base2File);
-            ffmpegCmd.mergeToFile(outFilename, this.tempPath)
-                .on('end', resolve)
-                .on('error', reject);                        
-        });
+        const ffmpegCmd = fluent_ffmpeg();
+        ffmpegCmd.input(base1File);
+        ffmpegCmd.input(inputFile);
+        ffmpegCmd.input(base2File);
+
+        return await this.waitForCommand(ffmpegCmd, () => ffmpegCmd.mergeToFile(outFilename, this.tempPath));
     }
 
     /**
@@ -534,6 +952,26 @@ export class VideoGen {
         });
     }
 
+    /**
+     * Measure duration of spoken parts by generating their voices
+     * (files are saved in the temp path as 'speech-[index].wav')
+     *
+     * @param parts Spoken parts of the video data
+     * @returns Promise that resolves with the duration of speech in seconds (without pauses)
+     * @throws Error if voice generation or ffprobe command fails
+     */
+    async measureSpeech(parts: SpeechPart[]) : Promise<number> {
+        let duration = 0;
+
+        for (const [index, part] of parts.filter((part) => part.text.trim()).entries()) {
+            const filename = path.join(this.tempPath, `speech-${index}.wav`);
+            await this.generateVoice({ text: part.text, voice: part.voice ?? "male", filename: filename });
+            duration += await this.getAudioDuration(filename);
+        }
+
+        return duration;
+    }
+
     /**
      * Get the durations of a list of audio files
      * @param audioFiles List of audio files
@@ -551,6 +989,36 @@ export class VideoGen {
         }));
     }
 
+    /**
+     * Plan scenes of the video from the estimated timing of its speech (used by dry runs)
+     *
+     * Video types override this to match their render. The default is one scene with subtitles.
+     *
+     * @param speech Spoken parts with estimated timing
+     * @param duration Estimated duration of the video in seconds
+     * @returns Scenes and their elements
+     */
+    planScenes(speech: PlannedSpeech[], duration: number): PlanScene[] {
+        return [{
+            name: "video",
+            start: 0,
+            duration,
+            elements: [
+                ...this.planBackground(duration),
+                { type: "subtitles", label: "Subtitles", start: 0, duration },
+            ],
+        }];
+    }
+
+    /**
+     * Plan background video element (empty if background video is disabled)
+     *
+     * @param duration Duration of the background in seconds
+     */
+    protected planBackground(duration: number): PlanElement[] {
+        return this.useBgVideo ? [{ type: "video", label: "Background video", start: 0, duration }] : [];
+    }
+
     // Method to be overridden by subclasses
     async generateVideo() {
         throw new Error("Method 'generateVideo' must be implemented");
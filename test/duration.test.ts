@@ -0,0 +1,65 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { buildDurationPrompt, countWords, DurationPlanner, getSpeechParts } from '../src/duration';
+import { VoiceGenType } from '../src/tts';
+import { describe, expect, test } from '@jest/globals';
+
+const quizData = {
+    type: "quiz",
+    title: "Space quiz",
+    questions: [
+        { question: "What is the largest planet?", answer: "Jupiter" },
+        { question: "What is the closest star?", answer: "The Sun" },
+    ],
+    start_script: "Welcome to the space quiz!",
+    end_script: "Thanks for watching!",
+};
+
+describe('DurationPlanner', () => {
+    test('Estimates duration from words and pauses', () => {
+        const planner = new DurationPlanner({ seconds: 30 }, undefined, 60);
+        const estimate = planner.estimate(quizData);
+
+        expect(estimate.words).toBe(25);
+        expect(estimate.fields).toEqual({ start_script: 5, questions: 17, end_script: 3 });
+        // Clock is played after each question
+        expect(estimate.pauseSeconds).toBe(10);
+        expect(estimate.seconds).toBe(35);
+    });
+
+    test('Uses speaking rate of voice', () => {
+        expect(new DurationPlanner({ seconds: 30 }, VoiceGenType.ElevenLabs).wordsPerMinute).toBe(160);
+    });
+
+    test('Checks tolerance of target', () => {
+        const planner = new DurationPlanner({ seconds: 60, tolerance: 0.1 });
+
+        expect(planner.isWithinTarget(65)).toBe(true);
+        expect(planner.isWithinTarget(67)).toBe(false);
+        expect(() => new DurationPlanner({ seconds: 0 })).toThrow("Invalid target duration");
+    });
+
+    test('Calibrates speaking rate from measured speech', () => {
+        const planner = new DurationPlanner({ seconds: 60 });
+        planner.calibrate(100, 30);
+
+        expect(planner.wordsPerMinute).toBe(200);
+        expect(planner.targetWords(15)).toBe(150);
+    });
+});
+
+describe('getSpeechParts', () => {
+    test('Unknown video type has no speech', () => {
+        expect(getSpeechParts({ type: "unknown" })).toEqual([]);
+    });
+});
+
+describe('buildDurationPrompt', () => {
+    test('Asks to trim long script', () => {
+        const planner = new DurationPlanner({ seconds: 10 }, undefined, 60);
+        const prompt = buildDurationPrompt({ end_script: quizData.end_script }, planner.estimate(quizData), planner);
+
+        expect(prompt).toContain("Trim the spoken text of 'end_script'");
+        expect(countWords("Thanks for watching - bye!")).toBe(4);
+    });
+});
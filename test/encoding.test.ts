@@ -0,0 +1,41 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { AudioCodec, canRenderDirectly, EncodingError, getEncoderOptions, getEncodingSettings, getTargetBitrate, VideoCodec, VideoContainer } from '../src/encoding';
+import { describe, expect, test } from '@jest/globals';
+
+describe('Encoding profiles', () => {
+    test('Profiles and overrides', () => {
+        expect(getEncodingSettings()).toMatchObject({ name: "default", videoCodec: VideoCodec.H264, fps: 30, crf: 20 });
+        expect(getEncodingSettings({ profile: "shorts", fps: 60, crf: undefined })).toMatchObject({ name: "shorts", fps: 60, crf: 18 });
+
+        // Changing only the container uses its codecs
+        expect(getEncodingSettings({ container: VideoContainer.WebM })).toMatchObject({ videoCodec: VideoCodec.VP9, audioCodec: AudioCodec.Opus });
+    });
+
+    test('Invalid profiles and options are rejected', () => {
+        expect(() => getEncodingSettings({ profile: "dvd" })).toThrow(EncodingError);
+        expect(() => getEncodingSettings({ profile: "webm", videoCodec: VideoCodec.H264 })).toThrow("webm can't hold h264 video with opus audio");
+        expect(() => getEncodingSettings({ crf: 60 })).toThrow("Invalid CRF: 60 (0-51 for h264)");
+        expect(() => getEncodingSettings({ audioBitrate: "loud" })).toThrow("Invalid bitrate: loud");
+    });
+
+    test('Only H.264 and AAC videos without a target size are encoded by the renderer', () => {
+        expect(canRenderDirectly(getEncodingSettings({ profile: "archive" }))).toBe(true);
+        expect(canRenderDirectly(getEncodingSettings({ profile: "webm" }))).toBe(false);
+        expect(canRenderDirectly(getEncodingSettings({ profile: "shorts", targetSizeMB: 50 }))).toBe(false);
+    });
+
+    test('Size-targeted videos are encoded in two passes at the bitrate that fits', () => {
+        const settings = getEncodingSettings({ profile: "shorts", targetSizeMB: 50 });
+        expect(getTargetBitrate(settings, 60)).toEqual(6658);
+        expect(() => getTargetBitrate(settings, 6000)).toThrow(EncodingError);
+
+        expect(getEncoderOptions(settings, 1, "pass", 6658)).toEqual(expect.arrayContaining(['-b:v', '6658k', '-pass', '1', '-an', '-f', 'null']));
+        expect(getEncoderOptions(settings, 2, "pass", 6658)).not.toContain('-crf');
+
+        const webm = getEncoderOptions(getEncodingSettings({ profile: "webm" }));
+        expect(webm.join(" ")).toContain("-c:v libvpx-vp9");
+        expect(webm.join(" ")).toContain("-crf 32 -b:v 0");
+        expect(webm.join(" ")).toContain("-c:a libopus");
+    });
+});
@@ -0,0 +1,73 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { AIGenType, createChatProvider } from '../src/ai';
+import { AIAuthError, AIConnectionError, AIModelNotFoundError, AIRateLimitError, AIRefusalError, classifyAIError, createAIResponseError, isRefusal } from '../src/errors';
+import { ScriptDriver } from '../src/scriptgen';
+import { describe, expect, test } from '@jest/globals';
+
+describe('classifyAIError', () => {
+    test('Classifies HTTP status of SDK errors', () => {
+        expect(classifyAIError(Object.assign(new Error("Unauthorized"), { status: 401 }))).toBeInstanceOf(AIAuthError);
+        expect(classifyAIError(Object.assign(new Error("model 'foo' not found"), { status_code: 404 }))).toBeInstanceOf(AIModelNotFoundError);
+        expect(classifyAIError(Object.assign(new Error("Too many requests"), { status: 429, headers: { 'retry-after': '2' } }))).toEqual(expect.objectContaining({ retryAfterMs: 2000 }));
+    });
+
+    test('Classifies refused connections', () => {
+        const error = classifyAIError(Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNREFUSED" } }), "Ollama");
+
+        expect(error).toBeInstanceOf(AIConnectionError);
+        expect(error.retryable).toBe(true);
+        expect(error.message).toContain("ECONNREFUSED");
+    });
+});
+
+describe('createAIResponseError', () => {
+    test('Uses error message of response body', async () => {
+        const response = Response.json({ error: { message: "Rate limit reached" } }, { status: 429, headers: { 'retry-after': '5' } });
+
+        const error = await createAIResponseError(response, "Anthropic");
+
+        expect(error).toBeInstanceOf(AIRateLimitError);
+        expect(error.message).toBe("Anthropic: 429: Rate limit reached");
+        expect((error as AIRateLimitError).retryAfterMs).toBe(5000);
+    });
+});
+
+describe('Providers', () => {
+    test('Blocked Gemini response throws refusal error', async () => {
+        const provider = createChatProvider(AIGenType.GoogleAIGen, "test-key", {
+            capabilities: { streaming: false },
+            fetch: async () => Response.json({ promptFeedback: { blockReason: "SAFETY" } }),
+        });
+
+        await expect(provider.stream([{ role: "user", content: "Hello" }], () => {})).rejects.toBeInstanceOf(AIRefusalError);
+    });
+
+    test('Failed request throws classified error', async () => {
+        const provider = createChatProvider(AIGenType.AnthropicAIGen, "bad-key", {
+            fetch: async () => Response.json({ error: { message: "invalid x-api-key" } }, { status: 401 }),
+        });
+
+        await expect(provider.stream([{ role: "user", content: "Hello" }], () => {})).rejects.toBeInstanceOf(AIAuthError);
+    });
+
+    test('Missing API key throws auth error', () => {
+        expect(() => createChatProvider(AIGenType.AnthropicAIGen)).toThrow(AIAuthError);
+    });
+});
+
+describe('Refusals', () => {
+    test('Detects refusal responses', () => {
+        expect(isRefusal("I'm sorry, but I can't help with that.")).toBe(true);
+        expect(isRefusal('{"text": "I am sorry to say TypeScript is great"}')).toBe(false);
+    });
+
+    test('Refused prompt throws refusal error', async () => {
+        const provider = createChatProvider(AIGenType.LlamaCppAIGen, undefined, {
+            capabilities: { streaming: false },
+            fetch: async () => Response.json({ choices: [{ message: { content: "I'm sorry, but I can't assist with that request." } }] }),
+        });
+
+        await expect(new ScriptDriver(provider).generate("System", "Test")).rejects.toBeInstanceOf(AIRefusalError);
+    });
+});
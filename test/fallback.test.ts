@@ -0,0 +1,165 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { AIGenType, ChatMessage, ChatProvider, ChatResponse } from '../src/ai';
+import { AIFallbackError, createFallbackProvider, FallbackChatProvider, isRetryableError, parseFallback } from '../src/fallback';
+import { ScriptDriver } from '../src/scriptgen';
+import { describe, expect, test } from '@jest/globals';
+
+/**
+ * Chat provider that fails a number of times before giving scripted responses
+ * (a scripted error is thrown instead of responded)
+ */
+class FlakyProvider implements ChatProvider {
+    public model = "test-model";
+    public calls = 0;
+
+    constructor(public name: string, private failures: number, private responses: (string | Error)[] = [], private error: Error = Object.assign(new Error("Service unavailable"), { status: 503 })) {}
+
+    async send(messages: ChatMessage[]): Promise<ChatResponse> {
+        this.calls++;
+
+        if (this.failures > 0) {
+            this.failures--;
+            throw this.error;
+        }
+
+        const response = this.responses.shift() ?? messages[messages.length - 1].content;
+        if (response instanceof Error) throw response;
+
+        return { text: response };
+    }
+
+    async stream(messages: ChatMessage[], onChunk: (chunk: string) => void): Promise<ChatResponse> {
+        const response = await this.send(messages);
+        onChunk(response.text);
+        return response;
+    }
+
+    async listModels(): Promise<string[]> {
+        return [this.model];
+    }
+}
+
+describe('FallbackChatProvider', () => {
+    const retry = { retries: 2, initialDelayMs: 100, maxDelayMs: 150, factor: 2 };
+
+    test('Retries with backoff before failing over', async () => {
+        const first = new FlakyProvider("First", 10);
+        const second = new FlakyProvider("Second", 0);
+        const delays: number[] = [];
+
+        const provider = new FallbackChatProvider([{ provider: first, retry }, { provider: second, retry }], () => {}, async (ms) => { delays.push(ms); });
+        const response = await provider.send([{ role: "user", content: "Hello" }]);
+
+        expect(first.calls).toBe(3);
+        expect(delays).toEqual([100, 150]);
+        expect(response).toEqual(expect.objectContaining({ text: "Hello", provider: "Second", model: "test-model" }));
+
+        // Keeps using the provider that worked
+        await provider.send([{ role: "user", content: "Again" }]);
+        expect(first.calls).toBe(3);
+        expect(provider.name).toBe("Second");
+    });
+
+    test('Does not retry errors that will not go away', async () => {
+        const error = Object.assign(new Error("Invalid API key"), { status: 401 });
+        const first = new FlakyProvider("First", 10, [], error);
+
+        const provider = new FallbackChatProvider([{ provider: first, retry }, new FlakyProvider("Second", 0)], () => {}, async () => {});
+        await provider.send([{ role: "user", content: "Hello" }]);
+
+        expect(first.calls).toBe(1);
+    });
+
+    test('Does not retry errors that are bugs', async () => {
+        const first = new FlakyProvider("First", 10, [], new TypeError("Cannot read properties of undefined (reading 'content')"));
+        const delays: number[] = [];
+
+        const provider = new FallbackChatProvider([{ provider: first, retry }, new FlakyProvider("Second", 0)], () => {}, async (ms) => { delays.push(ms); });
+        await provider.send([{ role: "user", content: "Hello" }]);
+
+        expect(first.calls).toBe(1);
+        expect(delays).toEqual([]);
+    });
+
+    test('Throws error with failure of each provider', async () => {
+        const provider = new FallbackChatProvider([
+            { provider: new FlakyProvider("First", 10), retry: { retries: 0 } },
+            { provider: new FlakyProvider("Second", 10), retry: { retries: 0 } },
+        ]);
+
+        const error = await provider.send([{ role: "user", content: "Hello" }]).catch((e) => e);
+
+        expect(error).toBeInstanceOf(AIFallbackError);
+        expect(error.failures.map((failure: { provider: string }) => failure.provider)).toEqual(["First", "Second"]);
+    });
+
+    test('Records provider of each field', async () => {
+        // First provider answers the type and the text, then goes down
+        const first = new FlakyProvider("First", 0, ["topic", '{"text": "Hello"}', new Error("Connection refused")]);
+        const second = new FlakyProvider("Second", 0, ['{"images": ["hello"]}']);
+        const provider = new FallbackChatProvider([{ provider: first, retry: { retries: 0 } }, second]);
+
+        const driver = new ScriptDriver(provider);
+        await driver.generate("System", "Test");
+
+        expect(driver.provenance).toEqual({
+            type: { provider: "First", model: "test-model" },
+            text: { provider: "First", model: "test-model" },
+            images: { provider: "Second", model: "test-model" },
+        });
+        expect(driver.usage.calls.map((call) => call.provider)).toEqual(["First", "First", "Second"]);
+    });
+});
+
+describe('createFallbackProvider', () => {
+    const llamaServer = (status: number) => async () => status == 200
+        ? Response.json({ choices: [{ message: { content: "Hello" } }] })
+        : Response.json({ error: { message: "Server error" } }, { status });
+
+    test('Fallback without API key does not stop a working provider', async () => {
+        const provider = createFallbackProvider(AIGenType.LlamaCppAIGen, undefined, {
+            capabilities: { streaming: false },
+            fetch: llamaServer(200),
+            fallbacks: [{ type: AIGenType.GoogleAIGen }],
+        });
+
+        expect((await provider.send([{ role: "user", content: "Hi" }])).text).toBe("Hello");
+    });
+
+    test('Fallback that cannot be created is a failure of the chain', async () => {
+        const provider = createFallbackProvider(AIGenType.LlamaCppAIGen, undefined, {
+            capabilities: { streaming: false },
+            fetch: llamaServer(400),
+            fallbacks: [{ type: AIGenType.GoogleAIGen }],
+        });
+
+        const error = await provider.send([{ role: "user", content: "Hi" }]).catch((e) => e);
+
+        expect(error).toBeInstanceOf(AIFallbackError);
+        expect(error.failures.map((failure: { provider: string }) => failure.provider)).toEqual(["llama.cpp", "GoogleAIGen"]);
+        expect(error.failures[1].error).toContain("Google AI API key is not set");
+    });
+});
+
+describe('parseFallback', () => {
+    test('Parses type, model and endpoint', () => {
+        expect(parseFallback("OllamaAIGen:llama3.2:1b")).toEqual({ type: AIGenType.OllamaAIGen, model: "llama3.2:1b", endpoint: undefined });
+        expect(parseFallback("LlamaCppAIGen@http://localhost:8080")).toEqual({ type: AIGenType.LlamaCppAIGen, model: undefined, endpoint: "http://localhost:8080" });
+    });
+
+    test('Invalid type throws error', () => {
+        expect(() => parseFallback("FooAIGen")).toThrow("Invalid fallback AI type");
+    });
+});
+
+describe('isRetryableError', () => {
+    test('Retries rate limits, server and network errors', () => {
+        expect(isRetryableError(Object.assign(new Error(), { status: 429 }))).toBe(true);
+        expect(isRetryableError(Object.assign(new Error(), { status: 503 }))).toBe(true);
+        expect(isRetryableError(new Error("fetch failed"))).toBe(true);
+        expect(isRetryableError(Object.assign(new Error(), { status: 400 }))).toBe(false);
+        expect(isRetryableError(new Error("Unexpected token < in JSON"))).toBe(false);
+        expect(isRetryableError(Object.assign(new Error("The operation was aborted due to timeout"), { name: "TimeoutError" }))).toBe(true);
+    });
+});
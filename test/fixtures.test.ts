@@ -0,0 +1,105 @@
+// Copyright (c) 2024 Shafil Alam
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { AIGenType, convertVideoTypeToPrompt, createChatProvider } from '../src/ai';
+import { AIFixtureMode, AIFixtures } from '../src/fixtures';
+import { ScriptDriver } from '../src/scriptgen';
+import { VideoGenType } from '../src/videogen';
+import { INITIAL_AI_PROMPT } from '../src/const';
+import { afterAll, describe, expect, test } from '@jest/globals';
+
+/** Field values the fake server answers with for each video type */
+const videoData: Record<string, Record<string, unknown>> = {
+    [VideoGenType.TopicVideo]: { text: "TypeScript is a typed language", images: ["TypeScript logo"] },
+    [VideoGenType.TextMessageVideo]: { contactname: "John", script: [{ voice: "male", message: "Hey!", msgtype: "sender" }], extra: "" },
+    [VideoGenType.QuizVideo]: { title: "Capitals", questions: [{ question: "Capital of France?", answer: "Paris" }], start_script: "Welcome!", end_script: "Bye!" },
+    [VideoGenType.RankVideo]: { title: "Languages", rankings: ["TypeScript"], images: ["TypeScript logo"], start_script: "Ranking!", end_script: "Bye!" },
+    [VideoGenType.RatherVideo]: { questions: [{ option1: "Be a dog", option2: "Be a cat", p1: 50, p2: 50, image1: "dog", image2: "cat" }], start_script: "Welcome!", end_script: "Bye!" },
+};
+
+/**
+ * Answer prompt like a model would for the given video type
+ */
+function answer(videoType: VideoGenType, prompt: string): string {
+    if (prompt.startsWith(INITIAL_AI_PROMPT)) return videoType;
+
+    const field = Object.entries<string>(convertVideoTypeToPrompt(videoType)).find(([, fieldPrompt]) => fieldPrompt == prompt);
+    if (!field) throw Error(`Unexpected prompt: ${prompt}`);
+
+    return JSON.stringify({ [field[0]]: videoData[videoType][field[0]] });
+}
+
+/**
+ * Fake provider server that responds in the API format of each provider
+ */
+function createServer(aiType: AIGenType, videoType: VideoGenType): typeof fetch {
+    return async (input, init) => {
+        const body = JSON.parse(init?.body as string);
+
+        switch (aiType) {
+            case AIGenType.OpenAIGen: {
+                const text = answer(videoType, body.messages[body.messages.length - 1].content);
+                const events = [...text].map((char) => `data: ${JSON.stringify({ choices: [{ delta: { content: char } }] })}\n\n`);
+                return new Response(events.join("") + "data: [DONE]\n\n", { headers: { 'content-type': 'text/event-stream' } });
+            }
+            case AIGenType.GoogleAIGen: {
+                const text = answer(videoType, body.contents[body.contents.length - 1].parts[0].text);
+                const event = JSON.stringify({ candidates: [{ content: { parts: [{ text }] } }] });
+                return new Response(`data: ${event}\r\n\r\n`, { headers: { 'content-type': 'text/event-stream' } });
+            }
+            case AIGenType.AnthropicAIGen: {
+                const text = answer(videoType, body.messages[body.messages.length - 1].content);
+                return Response.json({ content: [{ type: "text", text }] });
+            }
+            case AIGenType.OllamaAIGen: {
+                const text = answer(videoType, body.messages[body.messages.length - 1].content);
+                const lines = [
+                    { model: body.model, message: { role: "assistant", content: text }, done: false },
+                    { model: body.model, message: { role: "assistant", content: "" }, done: true },
+                ];
+                return new Response(lines.map((line) => JSON.stringify(line)).join("\n") + "\n", { headers: { 'content-type': 'application/x-ndjson' } });
+            }
+            default:
+                throw Error(`Unexpected request: ${input}`);
+        }
+    };
+}
+
+describe('AIFixtures', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'autoshorts-fixtures-'));
+    const aiTypes = [AIGenType.OpenAIGen, AIGenType.GoogleAIGen, AIGenType.AnthropicAIGen, AIGenType.OllamaAIGen];
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    for (const aiType of aiTypes) {
+        for (const videoType of Object.values(VideoGenType)) {
+            test(`Replays recorded ${aiType} ${videoType} video offline`, async () => {
+                const filePath = path.join(dir, `${aiType}-${videoType}.json`);
+                const prompt = `make a ${videoType} video`;
+
+                const recorder = new AIFixtures(filePath, AIFixtureMode.Record, createServer(aiType, videoType));
+                const recorded = await new ScriptDriver(createChatProvider(aiType, "test-key", { fetch: recorder.fetch })).generate("System", prompt);
+
+                const replayer = new AIFixtures(filePath, AIFixtureMode.Replay, async () => { throw Error("No network in replay"); });
+                const replayed = await new ScriptDriver(createChatProvider(aiType, "test-key", { fetch: replayer.fetch })).generate("System", prompt);
+
+                expect(recorded).toEqual({ type: videoType, ...videoData[videoType] });
+                expect(replayed).toEqual(recorded);
+            });
+        }
+    }
+
+    test('Missing fixture throws error', async () => {
+        const filePath = path.join(dir, 'empty.json');
+        new AIFixtures(filePath, AIFixtureMode.Record).save();
+
+        const replayer = new AIFixtures(filePath, AIFixtureMode.Replay);
+
+        await expect(replayer.fetch("http://localhost/api", { method: "POST", body: "{}" })).rejects.toThrow("No AI fixture found");
+    });
+});
@@ -0,0 +1,25 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { schemaToGrammar } from '../src/grammar';
+import { getFieldSchema } from '../src/schema';
+import { VideoGenType } from '../src/videogen';
+import { describe, expect, test } from '@jest/globals';
+
+describe('schemaToGrammar', () => {
+    test('Field schema starts with root rule', () => {
+        const grammar = schemaToGrammar(getFieldSchema(VideoGenType.TopicVideo, "images"));
+
+        expect(grammar.split("\n")[0]).toBe('root ::= "{" ws "\\"images\\"" ws ":" ws root-images "}" ws');
+        expect(grammar).toContain('root-images ::= "[" ws nonempty-string ("," ws nonempty-string)* "]" ws');
+    });
+
+    test('Enum values become literals', () => {
+        const grammar = schemaToGrammar(getFieldSchema(VideoGenType.TextMessageVideo, "script"));
+
+        expect(grammar).toContain('root-script-item-voice ::= ("\\"male\\"" | "\\"female\\"") ws');
+    });
+
+    test('Empty schema accepts any JSON value', () => {
+        expect(schemaToGrammar({}).split("\n")[0]).toBe("root ::= value");
+    });
+});
@@ -0,0 +1,76 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { getImageSize, ImageCandidate, ImageSelector, scoreImageCandidate } from '../src/image';
+import { parseImageAlternates } from '../src/imagequery';
+import { describe, expect, test } from '@jest/globals';
+
+const vertical: [number, number] = [1080, 1920];
+
+function candidate(id: string, width: number, height: number, rank: number = 0): ImageCandidate {
+    return { id, url: `https://images.example.com/${id}.jpg`, query: "pizza", rank, width, height };
+}
+
+describe('scoreImageCandidate', () => {
+    test('Prefers images that fit the video', () => {
+        const portrait = scoreImageCandidate(candidate("portrait", 1080, 1920), vertical);
+        const landscape = scoreImageCandidate(candidate("landscape", 1920, 1080), vertical);
+        const small = scoreImageCandidate(candidate("small", 270, 480), vertical);
+
+        expect(portrait).toBeGreaterThan(landscape);
+        expect(portrait).toBeGreaterThan(small);
+    });
+});
+
+describe('ImageSelector', () => {
+    test('Picks best image and does not use it twice', () => {
+        const selector = new ImageSelector(vertical);
+        const candidates = [candidate("landscape", 1920, 1080), candidate("portrait", 1080, 1920, 1), candidate("portrait", 1080, 1920, 2)];
+
+        const first = selector.choose("image-0.png", "pizza", ["pepperoni pizza"], candidates);
+        const second = selector.choose("image-1.png", "pizza", [], candidates);
+
+        expect(first.candidates.length).toBe(2);
+        expect(first.candidates[first.selected].id).toBe("portrait");
+        expect(second.candidates[second.selected].id).toBe("landscape");
+        expect(selector.choices.map((choice) => choice.file)).toEqual(["image-0.png", "image-1.png"]);
+    });
+
+    test('Uses recorded choices of the same query', () => {
+        const recorded = { file: "image-0.png", query: "pizza", alternates: [], selected: 1, candidates: [candidate("a", 1080, 1920), candidate("b", 1080, 1920)] };
+        const selector = new ImageSelector(vertical, [recorded]);
+
+        expect(selector.getRecorded("image-0.png", "pizza")).toBe(recorded);
+        expect(selector.getRecorded("image-0.png", "pasta")).toBeUndefined();
+    });
+
+    test('No candidates is an error', () => {
+        expect(() => new ImageSelector(vertical).choose("image-0.png", "pizza", [], [])).toThrow("No images found for 'pizza'");
+    });
+});
+
+describe('getImageSize', () => {
+    test('Reads size of PNG and GIF', () => {
+        const png = Buffer.alloc(24);
+        png.writeUInt32BE(0x89504e47, 0);
+        png.writeUInt32BE(640, 16);
+        png.writeUInt32BE(480, 20);
+
+        const gif = Buffer.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x20, 0x00, 0x10, 0x00]);
+
+        expect(getImageSize(png)).toEqual({ width: 640, height: 480 });
+        expect(getImageSize(gif)).toEqual({ width: 32, height: 16 });
+        expect(getImageSize(Buffer.from("not an image"))).toBeUndefined();
+    });
+});
+
+describe('parseImageAlternates', () => {
+    test('Maps alternates to search terms', () => {
+        const { value } = parseImageAlternates('{"alternates": [["Pizza", "pepperoni pizza", "pepperoni pizza"], ["cup of coffee"]]}', ["pizza", "coffee"]);
+
+        expect(value).toEqual({ pizza: ["pepperoni pizza"], coffee: ["cup of coffee"] });
+    });
+
+    test('Wrong number of lists is an error', () => {
+        expect(parseImageAlternates('{"alternates": [["pepperoni pizza"]]}', ["pizza", "coffee"]).errors).toEqual([expect.stringContaining("one list for each of the 2 search terms")]);
+    });
+});
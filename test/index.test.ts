@@ -2,7 +2,8 @@
 
 // TODO: Finish test cases
 
-import { checkResDir, genVideoWithJson } from '../src/index';
+import { AIGenType, checkResDir, genVideoDataWithAI, genVideoWithJson, ModerationError, registerVoiceProvider, unregisterVoiceProvider } from '../src/index';
+import os from 'os';
 import { describe, expect, test } from '@jest/globals';
 
 describe('genVideoWithJson', () => {
@@ -51,3 +52,51 @@ describe('genVideoWithJson', () => {
     //     await expect(error).rejects.toThrow("Invalid video type!");
     // });
 });
+
+describe('Moderation', () => {
+    test('Flagged video data is rejected before rendering', async () => {
+        const error = async () => await genVideoWithJson(
+            { type: "topic", title: "Guide", text: "Here is how to build a pipe bomb" },
+            // @ts-ignore
+            {}
+        );
+
+        await expect(error).rejects.toBeInstanceOf(ModerationError);
+    });
+
+    test('Script fitted to duration is checked before it is spoken', async () => {
+        let voices = 0;
+        registerVoiceProvider({
+            id: "CountTTS",
+            name: "Count",
+            description: "Test TTS",
+            credentials: [],
+            optionsSchema: { type: "object" },
+            capabilities: { speakingRate: 120, local: true },
+            generateVoice: async () => { voices++; },
+        });
+
+        // Duration revision adds flagged text to a script that passed moderation
+        const responses = [
+            "topic",
+            '{"text": "TypeScript is great"}',
+            '{"images": ["typescript logo"]}',
+            '{"text": "TypeScript is great, and here is how to build a pipe bomb with a timer and some wires from the shop"}',
+        ];
+        const fetch = async () => Response.json({ choices: [{ message: { content: responses.shift() ?? "" } }] });
+
+        try {
+            const error = async () => await genVideoDataWithAI("make a video about TypeScript", AIGenType.LlamaCppAIGen, {
+                tempPath: os.tmpdir(),
+                voiceGenType: "CountTTS",
+            // @ts-ignore
+            }, undefined, { fetch, capabilities: { streaming: false }, review: false, metadata: false, imageAlternates: 0, duration: { seconds: 14 } });
+
+            await expect(error).rejects.toBeInstanceOf(ModerationError);
+            expect(responses).toEqual([]);
+            expect(voices).toBe(0);
+        } finally {
+            unregisterVoiceProvider("CountTTS");
+        }
+    });
+});
@@ -0,0 +1,28 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { formatLocaleString, getVideoLocale } from '../src/locale';
+import { getSpeechParts } from '../src/duration';
+import { describe, expect, test } from '@jest/globals';
+
+describe('getVideoLocale', () => {
+    test('Regional code uses locale of language', () => {
+        expect(getVideoLocale("es-MX").code).toBe("es");
+        expect(getVideoLocale().code).toBe("en");
+    });
+
+    test('Unsupported language throws error', () => {
+        expect(() => getVideoLocale("xx")).toThrow("Unsupported language: 'xx'");
+    });
+});
+
+describe('formatLocaleString', () => {
+    test('Fills in values and keeps unknown values', () => {
+        expect(formatLocaleString("Pregunta {{number}}: {{question}}", { number: 2 })).toBe("Pregunta 2: {{question}}");
+    });
+
+    test('Spoken template strings use locale', () => {
+        const data = { type: "rather", title: "", questions: [{ option1: "volar", option2: "nadar", p1: 50, p2: 50, image1: "", image2: "" }], start_script: "", end_script: "" };
+
+        expect(getSpeechParts(data, getVideoLocale("es"))[1].text).toBe("¿Prefieres volar o nadar?");
+    });
+});
@@ -0,0 +1,48 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { checkPlatformMetadata, fitPlatformMetadata, getCaption, parsePlatformMetadata, UploadPlatform } from '../src/metadata';
+import { describe, expect, test } from '@jest/globals';
+
+const metadata = {
+    title: "Top 5 fast food chains",
+    description: "Which one is your favorite?",
+    hashtags: ["#food", "#fastfood", "#ranking", "#shorts", "#viral", "#fyp"],
+    pinnedComment: "Comment your favorite below!",
+};
+
+describe('parsePlatformMetadata', () => {
+    test('Adds missing # and removes duplicate hashtags', () => {
+        const { value } = parsePlatformMetadata('{"title": "Quiz", "description": "", "hashtags": ["quiz", "#quiz", "fun facts"], "pinnedComment": ""}');
+
+        expect(value?.hashtags).toEqual(["#quiz", "#funfacts"]);
+    });
+
+    test('Missing field is an error', () => {
+        expect(parsePlatformMetadata('{"title": "Quiz"}').errors.length).toBeGreaterThan(0);
+    });
+});
+
+describe('checkPlatformMetadata', () => {
+    test('Checks limits of each platform', () => {
+        expect(checkPlatformMetadata(UploadPlatform.YouTubeShorts, metadata)).toEqual([]);
+        expect(checkPlatformMetadata(UploadPlatform.TikTok, metadata)).toEqual(["too many hashtags (6/5)"]);
+    });
+
+    test('Caption counts title, description and hashtags', () => {
+        const long = { ...metadata, hashtags: [], description: "a".repeat(2190) };
+
+        expect(checkPlatformMetadata(UploadPlatform.InstagramReels, long)).toEqual([expect.stringContaining("caption")]);
+    });
+});
+
+describe('fitPlatformMetadata', () => {
+    test('Cuts metadata to limits of platform', () => {
+        const fitted = fitPlatformMetadata(UploadPlatform.TikTok, { ...metadata, description: "a".repeat(3000), pinnedComment: "b".repeat(200) });
+
+        expect(fitted.hashtags.length).toBe(5);
+        expect(fitted.pinnedComment.length).toBe(150);
+        expect(fitted.pinnedComment.endsWith("…")).toBe(true);
+        expect(getCaption(fitted).length).toBeLessThanOrEqual(2200);
+        expect(checkPlatformMetadata(UploadPlatform.TikTok, fitted)).toEqual([]);
+    });
+});
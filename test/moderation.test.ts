@@ -0,0 +1,81 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { ChatMessage, ChatProvider, ChatResponse } from '../src/ai';
+import { AIModerator, ContentModerator, getModerationTexts, KeywordModerator, ModerationCategory, ModerationError, ModerationStage } from '../src/moderation';
+import { describe, expect, test } from '@jest/globals';
+
+/**
+ * Chat provider that gives one scripted response to every request
+ */
+class ClassifierProvider implements ChatProvider {
+    public name = "Classifier";
+    public model = "test-model";
+    public calls = 0;
+
+    constructor(private response: string) {}
+
+    async send(messages: ChatMessage[]): Promise<ChatResponse> {
+        this.calls++;
+        return { text: this.response };
+    }
+
+    async stream(messages: ChatMessage[], onChunk: (chunk: string) => void): Promise<ChatResponse> {
+        const response = await this.send(messages);
+        onChunk(response.text);
+        return response;
+    }
+
+    async listModels(): Promise<string[]> {
+        return [this.model];
+    }
+}
+
+const quiz = { type: "quiz", title: "Chemistry quiz", questions: [{ question: "How to make a pipe bomb?", answer: "No" }], start_script: "", end_script: "" };
+
+describe('KeywordModerator', () => {
+    test('Flags path and category of text', async () => {
+        const flags = await new KeywordModerator().check(getModerationTexts(quiz));
+
+        expect(flags).toEqual([expect.objectContaining({ path: "questions.0.question", category: ModerationCategory.Violence, rule: "weapon-instructions" })]);
+    });
+
+    test('Allows normal topics', async () => {
+        const texts = [{ path: "prompt", text: "make a news short about the history of World War 2 and the atomic bomb" }];
+
+        expect(await new KeywordModerator().check(texts)).toEqual([]);
+    });
+});
+
+describe('ContentModerator', () => {
+    test('Flagged prompt throws structured rejection', async () => {
+        const error = await new ContentModerator().checkPrompt("steps to cook meth at home").catch((e) => e);
+
+        expect(error).toBeInstanceOf(ModerationError);
+        expect(error.result).toEqual({ stage: ModerationStage.Prompt, allowed: false, flags: [expect.objectContaining({ path: "prompt", category: ModerationCategory.Illegal })] });
+    });
+
+    test('AI classifier is asked once for the same texts', async () => {
+        const provider = new ClassifierProvider('{"flagged": [{"path": "title", "category": "hate", "reason": "insults a group"}]}');
+        const moderation = new ContentModerator([new AIModerator(provider)]);
+        const data = { type: "topic", title: "Some title", text: "", images: [] };
+
+        await expect(moderation.checkVideoData(data)).rejects.toThrow("'title' (hate: insults a group)");
+        await expect(moderation.checkVideoData(data)).rejects.toBeInstanceOf(ModerationError);
+        expect(provider.calls).toBe(1);
+    });
+
+    test('Cache keeps only recently checked texts', async () => {
+        const provider = new ClassifierProvider('{"flagged": []}');
+        const moderation = new ContentModerator([new AIModerator(provider)]);
+
+        for (let i = 0; i < 250; i++) {
+            await moderation.checkPrompt(`video number ${i}`);
+        }
+        await moderation.checkPrompt("video number 249");
+        expect(provider.calls).toBe(250);
+
+        // Oldest texts are removed and checked again
+        await moderation.checkPrompt("video number 0");
+        expect(provider.calls).toBe(251);
+    });
+});
@@ -0,0 +1,79 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { createJobId, isJobId, JOB_MANIFEST_FILE, StageStatus, VideoJob, VideoStage } from '../src/pipeline';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('Video job pipeline', () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempPath, { recursive: true, force: true });
+    });
+
+    /** Voice stage that writes 'voice.wav' and counts its runs */
+    const voiceStage = (job: VideoJob, text: string, runs: { count: number }) => job.run(VideoStage.Voice, { inputs: { text }, outputs: (file) => [file] }, async () => {
+        runs.count++;
+        const file = path.join(job.dir, 'voice.wav');
+        fs.writeFileSync(file, text);
+        return file;
+    });
+
+    test('Job id is the same for the same data', () => {
+        expect(createJobId("topic", { type: "topic", text: "a", title: "b" })).toEqual(createJobId("topic", { title: "b", text: "a", type: "topic" }));
+        expect(createJobId("topic", { type: "topic", text: "a" })).not.toEqual(createJobId("topic", { type: "topic", text: "b" }));
+        expect(isJobId(createJobId("topic", { type: "topic", text: "a" }))).toBe(true);
+        expect(["../job", "job/..", "/tmp", "", undefined, ["topic-1"]].some(isJobId)).toBe(false);
+    });
+
+    test('Stage with unchanged inputs is skipped when the job is opened again', async () => {
+        const runs = { count: 0 };
+        const dir = path.join(tempPath, 'job');
+
+        await voiceStage(VideoJob.open(dir, "topic"), "hello", runs);
+        const result = await voiceStage(VideoJob.open(dir, "topic"), "hello", runs);
+
+        expect(runs.count).toEqual(1);
+        expect(result).toEqual(path.join(dir, 'voice.wav'));
+        expect(JSON.parse(fs.readFileSync(path.join(dir, JOB_MANIFEST_FILE), 'utf8')).stages[0].outputs).toEqual(['voice.wav']);
+
+        // Changed inputs, a missing output or a rerun runs the stage again
+        await voiceStage(VideoJob.open(dir, "topic"), "changed", runs);
+        fs.rmSync(path.join(dir, 'voice.wav'));
+        await voiceStage(VideoJob.open(dir, "topic"), "changed", runs);
+        await voiceStage(VideoJob.open(dir, "topic", [VideoStage.Voice]), "changed", runs);
+        expect(runs.count).toEqual(4);
+    });
+
+    test('Failed stage is resumed and stages after a changed stage run again', async () => {
+        const runs = { count: 0 };
+        const dir = path.join(tempPath, 'job');
+        const render = (job: VideoJob, fail: boolean) => job.run(VideoStage.Render, { inputs: {}, after: [VideoStage.Voice] }, async () => {
+            if (fail) throw new Error("Render failed");
+            return "video.mp4";
+        });
+
+        let job = VideoJob.open(dir, "topic");
+        await voiceStage(job, "hello", runs);
+        await expect(render(job, true)).rejects.toThrow("Render failed");
+        expect(job.getStage(VideoStage.Render)?.status).toEqual(StageStatus.Failed);
+
+        job = VideoJob.open(dir, "topic");
+        await voiceStage(job, "hello", runs);
+        await render(job, false);
+        expect(runs.count).toEqual(1);
+        expect(job.getStage(VideoStage.Render)?.status).toEqual(StageStatus.Done);
+
+        const renderHash = job.getStage(VideoStage.Render)?.inputHash;
+        job = VideoJob.open(dir, "topic");
+        await voiceStage(job, "changed", runs);
+        expect(job.isCached(VideoStage.Render, job.hashInputs(VideoStage.Render, { inputs: {}, after: [VideoStage.Voice] }))).toBe(false);
+        expect(job.hashInputs(VideoStage.Render, { inputs: {}, after: [VideoStage.Voice] })).not.toEqual(renderHash);
+    });
+});
@@ -0,0 +1,62 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { ImageGenType, planVideo, PlanAssetKind, VideoOptions, VoiceGenType } from '../src/index';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('Render plan', () => {
+    let resPath: string;
+    let options: VideoOptions;
+
+    const quiz = {
+        type: "quiz",
+        title: "Space quiz",
+        start_script: "Welcome to the space quiz",
+        end_script: "Thanks for watching",
+        questions: [
+            { question: "What is the largest planet?", answer: "Jupiter" },
+            { question: "What is the closest star?", answer: "The Sun" },
+        ],
+    };
+
+    beforeEach(() => {
+        resPath = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-'));
+        for (const folder of ["models", "vid", "music"]) fs.mkdirSync(path.join(resPath, folder));
+        fs.writeFileSync(path.join(resPath, 'vid', 'bg.mp4'), '');
+        fs.writeFileSync(path.join(resPath, 'music', 'bg.mp3'), '');
+
+        options = {
+            tempPath: resPath, resPath, voiceGenType: VoiceGenType.BuiltinTTS, imageGenType: ImageGenType.Pexels,
+            orientation: "vertical", useBgMusic: true, useBgVideo: true,
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(resPath, { recursive: true, force: true });
+    });
+
+    test('Plan lists background files, voice assets and timed scenes without rendering', async () => {
+        const plan = await planVideo(JSON.stringify(quiz), options);
+
+        expect(plan.type).toEqual("quiz");
+        expect(plan.background).toEqual({ video: path.join(resPath, 'vid', 'bg.mp4'), music: path.join(resPath, 'music', 'bg.mp3') });
+        expect(plan.assets.filter((asset) => asset.kind == PlanAssetKind.Voice)).toHaveLength(4);
+        expect(plan.assets.map((asset) => asset.kind)).toContain(PlanAssetKind.Music);
+        expect(plan.estimatedSeconds).toBeGreaterThan(0);
+
+        // Speech parts follow each other and the answer of a question is shown before it ends
+        const questions = plan.speech.filter((part) => part.field == "questions");
+        expect(questions[1].start).toBeCloseTo(questions[0].start + questions[0].duration);
+        const answer = plan.scenes[0].elements.find((element) => element.label == "1. Jupiter");
+        expect(answer?.start).toBeCloseTo(questions[0].start + questions[0].duration - 1);
+
+        // Nothing is written to the temp folder
+        expect(fs.readdirSync(resPath).sort()).toEqual(["models", "music", "vid"]);
+    });
+
+    test('Video data that does not match its schema is rejected', async () => {
+        await expect(planVideo(JSON.stringify({ type: "quiz", title: "Space quiz" }), options)).rejects.toThrow("Invalid JSON data!");
+    });
+});
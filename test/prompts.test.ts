@@ -0,0 +1,84 @@
+// Copyright (c) 2024 Shafil Alam
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { compareVersions, getFieldPrompts, PromptLibrary, PromptTemplate, PromptTemplateError, renderPrompt, renderPromptTemplate } from '../src/prompts';
+import { VideoGenType } from '../src/videogen';
+import { quizVideoAIPrompt } from '../src/const';
+import { describe, expect, test } from '@jest/globals';
+
+const quizTemplate: PromptTemplate = {
+    name: "quiz",
+    version: "1.10.0",
+    system: "You write {{tone}} quiz scripts for {{audience}}.",
+    variables: { tone: "fun", audience: "everyone", count: 5 },
+    fields: { [VideoGenType.QuizVideo]: { questions: "Generate {{count}} questions. Use this template: {\"questions\": [{\"question\": \"\", \"answer\": \"\"}]}" } },
+    channels: {
+        kids: { variables: { audience: "kids" }, fields: { [VideoGenType.QuizVideo]: { title: "Generate a title for {{audience}}." } } },
+    },
+};
+
+describe('PromptLibrary', () => {
+    test('Gets latest version or selected version', () => {
+        const library = new PromptLibrary([{ ...quizTemplate, version: "1.9.0" }, quizTemplate]);
+
+        expect(library.get("quiz").version).toBe("1.10.0");
+        expect(library.get("quiz@1.9.0").version).toBe("1.9.0");
+        expect(() => library.get("quiz@2.0.0")).toThrow("available: 1.10.0, 1.9.0");
+    });
+
+    test('Loads template files from folder', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+        fs.writeFileSync(path.join(dir, 'quiz.json'), JSON.stringify(quizTemplate));
+
+        try {
+            expect(PromptLibrary.load(dir).list().map((template) => template.name)).toEqual(["quiz"]);
+        } finally {
+            fs.rmSync(dir, { recursive: true });
+        }
+    });
+
+    test('Template can only override fields of the video type', () => {
+        const template = { ...quizTemplate, fields: { [VideoGenType.QuizVideo]: { intro: "Say hello" } } };
+
+        expect(() => new PromptLibrary([template])).toThrow(PromptTemplateError);
+        expect(() => new PromptLibrary([{ ...quizTemplate, version: "latest" }])).toThrow("'version' must match pattern");
+    });
+});
+
+describe('renderPromptTemplate', () => {
+    test('Fills in variables of channel and caller', () => {
+        const prompts = renderPromptTemplate(quizTemplate, { channel: "kids", variables: { count: 3 } });
+
+        expect(prompts.template).toBe("quiz@1.10.0");
+        expect(prompts.system).toBe("You write fun quiz scripts for kids.");
+        expect(prompts.fields?.[VideoGenType.QuizVideo]).toEqual({
+            questions: expect.stringContaining("Generate 3 questions."),
+            title: "Generate a title for kids.",
+        });
+    });
+
+    test('Unknown channel throws error', () => {
+        expect(() => renderPromptTemplate(quizTemplate, { channel: "news" })).toThrow("has no channel 'news'");
+    });
+
+    test('Variable without value throws error', () => {
+        expect(() => renderPrompt("Make it {{ tone }} for {{audience}}", { tone: "fun" })).toThrow("audience");
+    });
+
+    test('Field prompts not in template are built-in prompts', () => {
+        const fields = getFieldPrompts(VideoGenType.QuizVideo, renderPromptTemplate(quizTemplate));
+
+        expect(fields.questions).toContain("Generate 5 questions.");
+        expect(fields.start_script).toBe(quizVideoAIPrompt.start_script);
+    });
+});
+
+describe('compareVersions', () => {
+    test('Compares each number of version', () => {
+        expect(compareVersions("1.10.0", "1.9.2")).toBeGreaterThan(0);
+        expect(compareVersions("1.0", "1.0.0")).toBe(0);
+    });
+});
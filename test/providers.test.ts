@@ -0,0 +1,49 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { getImageProvider, getMissingCredentials, getProviderCredentialList, getProviderCredentials, getVoiceProvider, getVoiceProviders, registerImageProvider, registerVoiceProvider, unregisterVoiceProvider, VoiceProvider } from '../src/providers';
+import { DurationPlanner } from '../src/duration';
+import { ImageStyleType } from '../src/image';
+import { VoiceGenType } from '../src/tts';
+import { afterEach, describe, expect, test } from '@jest/globals';
+
+const echoVoiceProvider: VoiceProvider = {
+    id: "EchoTTS",
+    name: "Echo",
+    description: "Test TTS",
+    credentials: [{ name: "echoAPIKey", env: "ECHO_TEST_API_KEY", flag: "echoAPIKey", label: "Echo API key" }],
+    optionsSchema: { type: "object" },
+    capabilities: { speakingRate: 120, local: false },
+    generateVoice: async () => {},
+};
+
+describe('Provider registry', () => {
+    afterEach(() => {
+        unregisterVoiceProvider("EchoTTS");
+        delete process.env.ECHO_TEST_API_KEY;
+    });
+
+    test('Built-in providers are registered with their credentials', () => {
+        expect(getVoiceProviders().map((provider) => provider.id)).toEqual([VoiceGenType.BuiltinTTS, VoiceGenType.ElevenLabs, VoiceGenType.NeetsTTS]);
+        expect(getImageProvider("FluxAI").capabilities.style).toEqual(ImageStyleType.AI);
+        expect(getProviderCredentialList().map((credential) => credential.name)).toEqual(["elevenLabsAPIKey", "neetsAPIKey", "pexelsAPIKey"]);
+    });
+
+    test('Registered provider is used for credentials and duration', () => {
+        registerVoiceProvider(echoVoiceProvider);
+
+        expect(getMissingCredentials(echoVoiceProvider).map((credential) => credential.env)).toEqual(["ECHO_TEST_API_KEY"]);
+        expect(getProviderCredentials(echoVoiceProvider, { echoAPIKey: "key" })).toEqual({ echoAPIKey: "key" });
+
+        process.env.ECHO_TEST_API_KEY = "env-key";
+        expect(getProviderCredentials(echoVoiceProvider)).toEqual({ echoAPIKey: "env-key" });
+        expect(new DurationPlanner({ seconds: 30 }, "EchoTTS" as VoiceGenType).wordsPerMinute).toEqual(120);
+    });
+
+    test('Invalid providers throw error', () => {
+        registerVoiceProvider(echoVoiceProvider);
+
+        expect(() => registerVoiceProvider(echoVoiceProvider)).toThrow("already registered");
+        expect(() => getVoiceProvider("MissingTTS")).toThrow("Invalid voice generation type: 'MissingTTS'");
+        expect(() => registerImageProvider({ ...getImageProvider("Pexels"), id: "Empty", searchImages: undefined })).toThrow("searchImages");
+    });
+});
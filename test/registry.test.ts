@@ -0,0 +1,57 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { buildVideoTypePrompt, getVideoType, getVideoTypeNames, registerVideoType, unregisterVideoType, VideoTypeDefinition } from '../src/registry';
+import { validateVideoData } from '../src/schema';
+import { parseVideoType } from '../src/scriptgen';
+import { getSpeechParts } from '../src/duration';
+import { INITIAL_AI_PROMPT } from '../src/const';
+import { VideoGen } from '../src/videogen';
+import { afterEach, describe, expect, test } from '@jest/globals';
+
+const factVideoType: VideoTypeDefinition<{ type: "fact", fact: string }> = {
+    name: "fact",
+    description: "Make a video with one surprising fact.",
+    fieldPrompts: { fact: 'Write a surprising fact. Use this template: {"fact": ""}' },
+    schema: {
+        type: "object",
+        properties: { type: { const: "fact" }, fact: { type: "string", minLength: 1 } },
+        required: ["type", "fact"],
+    },
+    videoClass: VideoGen,
+    speech: (data) => [{ field: "fact", text: data.fact }],
+    form: { label: "Fact", description: "Create a fact video" },
+};
+
+describe('Video type registry', () => {
+    afterEach(() => {
+        unregisterVideoType("fact");
+    });
+
+    test('Built-in types build the initial AI prompt', () => {
+        expect(getVideoTypeNames()).toEqual(["topic", "message", "rather", "rank", "quiz"]);
+        expect(buildVideoTypePrompt()).toEqual(INITIAL_AI_PROMPT);
+    });
+
+    test('Registered type is used by the type prompt, schema and parsing', () => {
+        registerVideoType(factVideoType);
+
+        expect(buildVideoTypePrompt()).toContain("'fact' type: Make a video with one surprising fact.");
+        expect(parseVideoType("Fact")).toEqual("fact");
+        expect(validateVideoData({ type: "fact", fact: "Honey never spoils" })).toEqual([]);
+        expect(validateVideoData({ type: "fact", fact: "" }).length).toBeGreaterThan(0);
+        expect(getSpeechParts({ type: "fact", fact: "Honey never spoils" })).toEqual([{ field: "fact", text: "Honey never spoils" }]);
+    });
+
+    test('Unregistered type is not parsed', () => {
+        expect(parseVideoType("fact")).toBeUndefined();
+        expect(() => getVideoType("fact")).toThrow("Invalid video type: 'fact'");
+    });
+
+    test('Duplicate and invalid types throw error', () => {
+        registerVideoType(factVideoType);
+
+        expect(() => registerVideoType(factVideoType)).toThrow("already registered");
+        expect(() => registerVideoType({ ...factVideoType, name: "Fact video" })).toThrow("Invalid video type name");
+        expect(() => registerVideoType({ ...factVideoType, fieldPrompts: { source: "" } }, true)).toThrow("source");
+    });
+});
@@ -0,0 +1,28 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { getResolutionOf, VideoLayout } from '../src/resolution';
+import { describe, expect, test } from '@jest/globals';
+
+describe('Video resolution', () => {
+    test('Presets and custom sizes', () => {
+        expect(getResolutionOf("vertical")).toEqual([1080, 1920]);
+        expect(getResolutionOf("square")).toEqual([1080, 1080]);
+        expect(getResolutionOf("portrait")).toEqual([1080, 1350]);
+        expect(getResolutionOf("horizontal-480p")).toEqual([854, 480]);
+        expect(getResolutionOf("1200x1500")).toEqual([1200, 1500]);
+    });
+
+    test('Invalid sizes are rejected', () => {
+        expect(() => getResolutionOf("diagonal")).toThrow("Invalid orientation: diagonal");
+        expect(() => getResolutionOf("1081x1920")).toThrow("width and height must be even numbers");
+    });
+
+    test('Layout positions are fractions and sizes scale with the short side', () => {
+        const layout = new VideoLayout(720, 1280);
+        expect([layout.x(0.5), layout.y(0.25)]).toEqual([360, 320]);
+        expect(layout.size(90)).toEqual(60);
+
+        // Horizontal and vertical 1080p have the same scale
+        expect(new VideoLayout(1920, 1080).size(90)).toEqual(new VideoLayout(1080, 1920).size(90));
+    });
+});
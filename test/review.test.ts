@@ -0,0 +1,61 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { reviewVideoData } from '../src/review';
+import { VideoDataType } from '../src/videogen';
+import { describe, expect, test } from '@jest/globals';
+
+describe('reviewVideoData', () => {
+    test('Quiz answer too long to fit on screen', () => {
+        const issues = reviewVideoData({
+            type: "quiz",
+            title: "Capitals",
+            questions: [{ question: "Capital of France?", answer: "The capital of France is Paris, which is also its largest city" }],
+            start_script: "Welcome!",
+            end_script: "Bye!",
+        });
+
+        expect(issues.map((issue) => issue.path)).toEqual(["questions.0.answer"]);
+    });
+
+    test('Rank images must match rankings', () => {
+        const issues = reviewVideoData({
+            type: "rank",
+            title: "Languages",
+            rankings: ["TypeScript", "JavaScript"],
+            images: ["TypeScript logo"],
+            start_script: "Ranking!",
+            end_script: "Bye!",
+        });
+
+        expect(issues.map((issue) => issue.rule)).toEqual(["images-length"]);
+    });
+
+    test('Rather percentages must add up to 100', () => {
+        const issues = reviewVideoData({
+            type: "rather",
+            questions: [
+                { option1: "Be a dog", option2: "Be a cat", p1: 50, p2: 50, image1: "dog", image2: "cat" },
+                { option1: "Fly", option2: "Swim", p1: 70, p2: 40, image1: "bird", image2: "fish" },
+            ],
+            start_script: "Welcome!",
+            end_script: "Bye!",
+        } as VideoDataType);
+
+        expect(issues.map((issue) => issue.path)).toEqual(["questions.1"]);
+    });
+
+    test('Profanity is found in nested text', () => {
+        const issues = reviewVideoData({
+            type: "message",
+            contactname: "John",
+            script: [{ voice: "male", message: "Oh shit, I'm late", msgtype: "sender" }],
+            extra: "",
+        });
+
+        expect(issues).toEqual([expect.objectContaining({ field: "script", path: "script.0.message", rule: "profanity" })]);
+    });
+
+    test('Valid data has no issues', () => {
+        expect(reviewVideoData({ type: "topic", title: "", text: "TypeScript", images: ["logo"], start_script: "", end_script: "" })).toEqual([]);
+    });
+});
@@ -0,0 +1,60 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { getFieldSchema, parseJsonResponse, validateVideoData, validateVideoField } from '../src/schema';
+import { getVideoType, registerVideoType } from '../src/registry';
+import { VideoGenType } from '../src/videogen';
+import { describe, expect, test } from '@jest/globals';
+
+describe('parseJsonResponse', () => {
+    test('Parses JSON wrapped in markdown code block', () => {
+        expect(parseJsonResponse('```json\n{"title": "Quiz"}\n```')).toEqual({ title: "Quiz" });
+    });
+
+    test('Parses JSON surrounded by text', () => {
+        expect(parseJsonResponse('Sure! {"images": ["cat"]} Hope this helps')).toEqual({ images: ["cat"] });
+    });
+
+    test('Invalid JSON should throw error', () => {
+        expect(() => parseJsonResponse('no json here')).toThrow();
+    });
+});
+
+describe('validateVideoField', () => {
+    test('Valid field has no errors', () => {
+        expect(validateVideoField(VideoGenType.RankVideo, "rankings", ["TypeScript", "JavaScript"])).toEqual([]);
+    });
+
+    test('Wrong field type has errors', () => {
+        expect(validateVideoField(VideoGenType.RankVideo, "rankings", "TypeScript").length).toBeGreaterThan(0);
+    });
+
+    test('Invalid enum value has errors', () => {
+        const errors = validateVideoField(VideoGenType.TextMessageVideo, "script", [{ voice: "robot", message: "Hi", msgtype: "sender" }]);
+        expect(errors.join()).toContain("script.0.voice");
+    });
+
+    test('Full video data is validated', () => {
+        expect(validateVideoData({
+            type: "topic",
+            title: "TypeScript",
+            text: "TypeScript is a language",
+            start_script: "",
+            end_script: "",
+            images: ["typescript logo"],
+        })).toEqual([]);
+    });
+
+    test('Schemas are made once and again when the type is registered again', () => {
+        expect(getFieldSchema(VideoGenType.RankVideo, "rankings")).toBe(getFieldSchema(VideoGenType.RankVideo, "rankings"));
+
+        const rank = getVideoType(VideoGenType.RankVideo);
+        try {
+            registerVideoType({ ...rank, schema: { ...rank.schema, properties: { ...rank.schema.properties, rankings: { type: "string" } } } }, true);
+            expect(validateVideoField(VideoGenType.RankVideo, "rankings", "TypeScript")).toEqual([]);
+        } finally {
+            registerVideoType(rank, true);
+        }
+
+        expect(validateVideoField(VideoGenType.RankVideo, "rankings", "TypeScript").length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,282 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { AICapabilities, AIGenerationMode, ChatMessage, ChatProvider, ChatRequestOptions, ChatResponse, DEFAULT_AI_CAPABILITIES } from '../src/ai';
+import { AIOutputError, parseVideoType, ScriptDriver } from '../src/scriptgen';
+import { ScriptConversation } from '../src/refine';
+import { DurationPlanner } from '../src/duration';
+import { getVideoLocale } from '../src/locale';
+import { UploadPlatform } from '../src/metadata';
+import { VideoGenType } from '../src/videogen';
+import { ContentModerator, ModerationError } from '../src/moderation';
+import { describe, expect, test } from '@jest/globals';
+
+/**
+ * Chat provider that gives scripted responses
+ */
+class FakeProvider implements ChatProvider {
+    public name = "Fake";
+    public model = "fake-model";
+    public requests: ChatMessage[][] = [];
+    public requestOptions: (ChatRequestOptions | undefined)[] = [];
+
+    constructor(private responses: string[], public capabilities: AICapabilities = DEFAULT_AI_CAPABILITIES) {}
+
+    async send(messages: ChatMessage[], options?: ChatRequestOptions): Promise<ChatResponse> {
+        this.requests.push([...messages]);
+        this.requestOptions.push(options);
+        return { text: this.responses.shift() ?? "" };
+    }
+
+    async stream(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: ChatRequestOptions): Promise<ChatResponse> {
+        const response = await this.send(messages, options);
+        onChunk(response.text);
+        return response;
+    }
+
+    async listModels(): Promise<string[]> {
+        return [this.model];
+    }
+}
+
+describe('parseVideoType', () => {
+    test('Parses single word type', () => {
+        expect(parseVideoType(" Quiz.\n")).toBe(VideoGenType.QuizVideo);
+    });
+
+    test('Parses JSON type', () => {
+        expect(parseVideoType('{"type": "rank"}')).toBe(VideoGenType.RankVideo);
+    });
+
+    test('Invalid type is undefined', () => {
+        expect(parseVideoType("podcast")).toBeUndefined();
+    });
+});
+
+describe('ScriptDriver', () => {
+    test('Generates video data in one conversation', async () => {
+        const provider = new FakeProvider([
+            "topic",
+            '{"text": "TypeScript is great"}',
+            '{"images": ["typescript logo"]}',
+        ]);
+
+        const data = await new ScriptDriver(provider).generate("System", "make a video about TypeScript");
+
+        expect(data).toEqual({ type: "topic", text: "TypeScript is great", images: ["typescript logo"] });
+
+        // Every request sends the full conversation starting with the system prompt
+        const last = provider.requests[2];
+        expect(last[0]).toEqual({ role: "system", content: "System" });
+        expect(last.map((msg) => msg.role)).toEqual(["system", "user", "assistant", "user", "assistant", "user"]);
+    });
+
+    test('Invalid video type defaults to topic', async () => {
+        const provider = new FakeProvider(["podcast", '{"text": "Hello"}', '{"images": ["hello"]}']);
+
+        const data = await new ScriptDriver(provider).generate("System", "Test");
+
+        expect(data.type).toBe(VideoGenType.TopicVideo);
+    });
+
+    test('Invalid field is repaired by asking again', async () => {
+        const provider = new FakeProvider([
+            '{"text": "TypeScript is great"}',
+            '{"images": "typescript"}',
+            '{"images": ["typescript logo"]}',
+        ]);
+        const driver = new ScriptDriver(provider);
+
+        const data = await driver.askFields(VideoGenType.TopicVideo);
+
+        expect(data).toEqual({ type: "topic", text: "TypeScript is great", images: ["typescript logo"] });
+        expect(driver.messages[4].content).toContain("invalid");
+    });
+
+    test('Field that cannot be repaired throws structured error', async () => {
+        const provider = new FakeProvider(['{"text": "Hello"}', "not json", "still not json"]);
+
+        const error = await new ScriptDriver(provider, () => {}, { maxRepairTurns: 1 }).askFields(VideoGenType.TopicVideo).catch((e) => e);
+
+        expect(error).toBeInstanceOf(AIOutputError);
+        expect(error.fields.map((f: any) => f.field)).toEqual(["images"]);
+    });
+
+    test('Single mode asks for whole video in one structured request', async () => {
+        const provider = new FakeProvider(["rank", '{"title": "Languages", "rankings": ["TypeScript"], "images": ["typescript logo"], "start_script": "Top languages", "end_script": "Bye"}']);
+
+        const data = await new ScriptDriver(provider, () => {}, { mode: AIGenerationMode.Single }).generate("System", "rank languages");
+
+        expect(data).toEqual({ type: "rank", title: "Languages", rankings: ["TypeScript"], images: ["typescript logo"], start_script: "Top languages", end_script: "Bye" });
+        expect(provider.requests.length).toBe(2);
+        expect(provider.requestOptions[1]?.structured).toBe(true);
+    });
+
+    test('Single mode falls back to fields without structured output', async () => {
+        const provider = new FakeProvider(
+            ["topic", '{"text": "Hello"}', '{"images": ["hello"]}'],
+            { ...DEFAULT_AI_CAPABILITIES, structuredOutput: false },
+        );
+
+        const data = await new ScriptDriver(provider, () => {}, { mode: AIGenerationMode.Single }).generate("System", "Test");
+
+        expect(data).toEqual({ type: "topic", text: "Hello", images: ["hello"] });
+        expect(provider.requestOptions.some((options) => options?.structured)).toBe(false);
+    });
+
+    test('Records usage of every request', async () => {
+        const provider = new FakeProvider(["topic", '{"text": "Hello"}', '{"images": ["hello"]}']);
+        const driver = new ScriptDriver(provider);
+
+        await driver.generate("System", "Test");
+
+        expect(driver.usage.calls.map((call) => call.label)).toEqual(["type", "field:text", "field:images"]);
+        expect(driver.usage.calls.every((call) => call.estimated && call.promptTokens > 0)).toBe(true);
+    });
+
+    test('Review revises only fields with issues', async () => {
+        const provider = new FakeProvider(['{"images": ["TypeScript logo", "JavaScript logo"]}']);
+        const driver = new ScriptDriver(provider);
+
+        const { data, report } = await driver.review({
+            type: "rank",
+            title: "Languages",
+            rankings: ["TypeScript", "JavaScript"],
+            images: ["TypeScript logo"],
+            start_script: "Ranking!",
+            end_script: "Bye!",
+        });
+
+        expect(provider.requests.length).toBe(1);
+        expect(driver.messages[0].content).toContain("'images'");
+        expect(data).toEqual(expect.objectContaining({ images: ["TypeScript logo", "JavaScript logo"] }));
+        expect(report.fixed.map((fix) => fix.field)).toEqual(["images"]);
+        expect(report.remaining).toEqual([]);
+    });
+
+    test('Review keeps data if revision does not fix issues', async () => {
+        const provider = new FakeProvider(['{"images": ["TypeScript logo"]}', '{"images": []}']);
+
+        const { data, report } = await new ScriptDriver(provider).review({
+            type: "rank",
+            title: "Languages",
+            rankings: ["TypeScript", "JavaScript"],
+            images: ["TypeScript logo"],
+            start_script: "Ranking!",
+            end_script: "Bye!",
+        });
+
+        expect(data).toEqual(expect.objectContaining({ images: ["TypeScript logo"] }));
+        expect(report.fixed).toEqual([]);
+        expect(report.remaining.length).toBe(1);
+    });
+
+    test('Fits spoken fields to target duration', async () => {
+        const provider = new FakeProvider(['{"text": "TypeScript adds types to JavaScript, so mistakes are found before the code runs."}']);
+        const planner = new DurationPlanner({ seconds: 14 }, undefined, 60);
+
+        const { data, estimate, turns } = await new ScriptDriver(provider).fitDuration({ type: "topic", text: "TypeScript is great" }, planner);
+
+        expect(turns).toBe(1);
+        expect(estimate.words).toBe(13);
+        expect(data).toEqual({ type: "topic", text: expect.stringContaining("adds types") });
+        expect(provider.requests[0][0].content).toContain("Expand the spoken text of 'text' to about 14 words");
+    });
+
+    test('Writes topic video from sources', async () => {
+        const provider = new FakeProvider(['{"text": "The rover found ice."}', '{"images": ["mars rover"]}']);
+        const sources = { chunks: [{ source: 1, text: "The rover found ice under the surface." }], citations: [{ title: "Mars news", url: "https://example.com/mars" }] };
+
+        const data = await new ScriptDriver(provider, undefined, { showSources: true }).generateFromSources("System", "news about mars", sources);
+
+        expect(data).toEqual({ type: "topic", text: "The rover found ice.", images: ["mars rover"], sources: sources.citations, showSources: true });
+        expect(provider.requests[0][0].content).toContain("[1] Mars news (https://example.com/mars)\nThe rover found ice under the surface.");
+        expect(provider.requests[0][0].content).toContain("The user asked for: news about mars");
+    });
+});
+
+describe('ScriptConversation', () => {
+    test('Refines video data in the same conversation', async () => {
+        const provider = new FakeProvider([
+            "topic",
+            '{"text": "TypeScript is great"}',
+            '{"images": ["typescript logo"]}',
+            '{"type": "topic", "text": "TypeScript is great!", "images": ["typescript logo", "javascript logo"]}',
+        ]);
+
+        const driver = new ScriptDriver(provider);
+        const conversation = new ScriptConversation(driver, await driver.generate("System", "make a video about TypeScript"));
+        const { data, changes } = await conversation.refine("more images");
+
+        expect(data).toEqual({ type: "topic", text: "TypeScript is great!", images: ["typescript logo", "javascript logo"] });
+        expect(changes).toEqual([
+            { path: "text", before: "TypeScript is great", after: "TypeScript is great!" },
+            { path: "images.1", before: undefined, after: "javascript logo" },
+        ]);
+        // Earlier turns are sent with the instruction
+        expect(provider.requests[3].length).toBe(8);
+        expect(provider.requests[3][7].content).toContain("more images");
+        expect(conversation.data).toBe(data);
+    });
+
+    test('Translates video data', async () => {
+        const provider = new FakeProvider(['{"type": "topic", "text": "TypeScript es genial", "images": ["typescript logo"]}']);
+        const videoData = { type: "topic", text: "TypeScript is great", images: ["typescript logo"] };
+
+        const data = await new ScriptDriver(provider).translate(videoData, getVideoLocale("es"));
+
+        expect(data).toEqual({ type: "topic", text: "TypeScript es genial", images: ["typescript logo"] });
+        expect(provider.requests[0][0].content).toContain("Translate the video to Spanish");
+    });
+
+    test('Repairs metadata over platform limits', async () => {
+        const long = { title: "T".repeat(101), description: "About TypeScript", hashtags: ["typescript"], pinnedComment: "Follow!" };
+        const provider = new FakeProvider([JSON.stringify(long), JSON.stringify({ ...long, title: "TypeScript is great" })]);
+        const videoData = { type: "topic", text: "TypeScript is great", images: ["typescript logo"] };
+
+        const metadata = await new ScriptDriver(provider).generateMetadata(videoData, [UploadPlatform.YouTubeShorts]);
+
+        expect(metadata).toEqual({ youtube: { title: "TypeScript is great", description: "About TypeScript", hashtags: ["#typescript"], pinnedComment: "Follow!" } });
+        expect(provider.requests[1][2].content).toContain("title is too long (101/100 characters)");
+    });
+
+    test('Repairs image alternates', async () => {
+        const provider = new FakeProvider(['{"alternates": [["pepperoni pizza"]]}', '{"alternates": [["pepperoni pizza"], ["cup of coffee"]]}']);
+        const videoData = { type: "rather", title: "", questions: [{ option1: "pizza", option2: "coffee", p1: 50, p2: 50, image1: "pizza", image2: "coffee" }], start_script: "Hi", end_script: "Bye" };
+
+        const alternates = await new ScriptDriver(provider).generateImageAlternates(videoData, 1);
+
+        expect(alternates).toEqual({ pizza: ["pepperoni pizza"], coffee: ["cup of coffee"] });
+        expect(provider.requests[0][0].content).toContain('["pizza","coffee"]');
+    });
+
+    test('Invalid refinement throws and keeps data', async () => {
+        const provider = new FakeProvider(['{"text": 5}', '{"text": 5}', '{"text": 5}']);
+        const videoData = { type: "topic", text: "TypeScript is great", images: ["typescript logo"] };
+        const conversation = new ScriptConversation(new ScriptDriver(provider), videoData);
+
+        await expect(conversation.refine("make it a number")).rejects.toBeInstanceOf(AIOutputError);
+        expect(conversation.data).toBe(videoData);
+    });
+
+    test('Flagged refinement throws and keeps data', async () => {
+        const provider = new FakeProvider(['{"type": "topic", "text": "Here is how to build a pipe bomb", "images": ["typescript logo"]}']);
+        const videoData = { type: "topic", text: "TypeScript is great", images: ["typescript logo"] };
+        const driver = new ScriptDriver(provider);
+        const conversation = new ScriptConversation(driver, videoData, new ContentModerator());
+
+        await expect(conversation.refine("make it about explosives")).rejects.toBeInstanceOf(ModerationError);
+        expect(conversation.data).toBe(videoData);
+        expect(conversation.history).toEqual([]);
+        // Flagged reply is not kept for later refinements
+        expect(driver.messages).toEqual([]);
+    });
+
+    test('Flagged instruction is not sent to the AI', async () => {
+        const provider = new FakeProvider([]);
+        const videoData = { type: "topic", text: "TypeScript is great", images: ["typescript logo"] };
+        const conversation = new ScriptConversation(new ScriptDriver(provider), videoData, new ContentModerator());
+
+        await expect(conversation.refine("add steps to cook meth at home")).rejects.toBeInstanceOf(ModerationError);
+        expect(provider.requests).toEqual([]);
+    });
+});
@@ -0,0 +1,137 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { chunkSources, createHttpSourceFetcher, extractHtmlText, formatSourceCaption, httpSourceFetcher, isPublicAddress, loadSourceContext, parseFeed, SourceError, SourceFetcher, SourceType } from '../src/sources';
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+const page = `<!DOCTYPE html>
+<html>
+<head><title>Old title</title><meta property="og:title" content="Mars rover finds water"><script>track();</script></head>
+<body>
+<nav><a href="/">Home</a></nav>
+<article><h1>Mars rover finds water</h1><p>The rover found ice under the surface.</p><p>Scientists say it is &quot;big news&quot;.</p></article>
+<footer>Copyright</footer>
+</body>
+</html>`;
+
+const feed = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Space News</title>
+<item><title>Launch delayed</title><link>https://news.example.com/launch</link><description><![CDATA[<p>The launch is delayed to Friday.</p>]]></description></item>
+<item><title>New telescope</title><link>https://news.example.com/telescope</link><description>A new telescope sees its first light.</description></item>
+</channel></rss>`;
+
+describe('extractHtmlText', () => {
+    test('Keeps article text and removes scripts and navigation', () => {
+        expect(extractHtmlText(page)).toBe('Mars rover finds water\n\nThe rover found ice under the surface.\n\nScientists say it is "big news".');
+    });
+});
+
+describe('parseFeed', () => {
+    test('Parses RSS items', () => {
+        expect(parseFeed("https://news.example.com/rss", feed)).toEqual([
+            { type: SourceType.Feed, title: "Launch delayed", url: "https://news.example.com/launch", text: "The launch is delayed to Friday." },
+            { type: SourceType.Feed, title: "New telescope", url: "https://news.example.com/telescope", text: "A new telescope sees its first light." },
+        ]);
+    });
+
+    test('Parses Atom entries', () => {
+        const atom = '<feed xmlns="http://www.w3.org/2005/Atom"><entry><title>Eclipse</title><link href="https://example.com/eclipse"/><summary>An eclipse on Monday.</summary></entry></feed>';
+
+        expect(parseFeed("https://example.com/atom", atom)).toEqual([{ type: SourceType.Feed, title: "Eclipse", url: "https://example.com/eclipse", text: "An eclipse on Monday." }]);
+    });
+});
+
+describe('chunkSources', () => {
+    test('Splits text into chunks and stops at max length', () => {
+        const text = "One sentence here. ".repeat(20).trim();
+        const context = chunkSources([
+            { type: SourceType.Text, title: "a", url: "a.txt", text },
+            { type: SourceType.Text, title: "b", url: "b.txt", text },
+            { type: SourceType.Text, title: "c", url: "c.txt", text },
+        ], 100, 500);
+
+        expect(context.chunks.every((chunk) => chunk.text.length <= 100)).toBe(true);
+        expect(context.chunks.reduce((sum, chunk) => sum + chunk.text.length, 0)).toBeLessThanOrEqual(500);
+        expect(context.citations.map((citation) => citation.title)).toEqual(["a", "b"]);
+        expect(context.chunks[context.chunks.length - 1].source).toBe(2);
+    });
+});
+
+describe('loadSourceContext', () => {
+    test('Fetches URLs with the fetcher', async () => {
+        const fetched: string[] = [];
+        const fetcher: SourceFetcher = async (url) => {
+            fetched.push(url);
+            return url.endsWith("rss") ? { body: feed, contentType: "application/rss+xml" } : { body: page, contentType: "text/html" };
+        };
+
+        const context = await loadSourceContext(["https://example.com/mars", "https://news.example.com/rss"], { fetcher });
+
+        expect(fetched).toEqual(["https://example.com/mars", "https://news.example.com/rss"]);
+        expect(context.citations).toEqual([
+            { title: "Mars rover finds water", url: "https://example.com/mars" },
+            { title: "Launch delayed", url: "https://news.example.com/launch" },
+            { title: "New telescope", url: "https://news.example.com/telescope" },
+        ]);
+    });
+
+    test('Sources without text are an error', async () => {
+        const fetcher: SourceFetcher = async () => ({ body: "<html><body><nav>Menu</nav></body></html>" });
+
+        await expect(loadSourceContext(["https://example.com/empty"], { fetcher })).rejects.toBeInstanceOf(SourceError);
+        await expect(loadSourceContext(["missing-source.txt"])).rejects.toThrow("Source file not found");
+    });
+});
+
+describe('httpSourceFetcher', () => {
+    // Local server with a page, a redirect loop and a large page
+    const server = http.createServer((req, res) => {
+        if (req.url == "/loop") return res.writeHead(302, { location: "/loop" }).end();
+        if (req.url == "/moved") return res.writeHead(301, { location: "/page" }).end();
+        if (req.url == "/large") return res.writeHead(200, { 'content-type': 'text/plain' }).end("a".repeat(2048));
+        res.writeHead(200, { 'content-type': 'text/html' }).end(page);
+    });
+    let base = "";
+
+    beforeAll(async () => {
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('Private and local addresses are not public', () => {
+        expect(["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1"].filter(isPublicAddress)).toEqual([]);
+        expect(["93.184.215.14", "2606:2800:21f:cb07:6820:80da:af6b:8b2c"].every(isPublicAddress)).toBe(true);
+        expect(isPublicAddress("localhost")).toBe(false);
+    });
+
+    test('Private hosts are rejected', async () => {
+        await expect(httpSourceFetcher(`${base}/page`)).rejects.toThrow("private address 127.0.0.1 is not allowed");
+        await expect(httpSourceFetcher(`http://localhost:${new URL(base).port}/page`)).rejects.toBeInstanceOf(SourceError);
+        await expect(httpSourceFetcher("http://[::1]/page")).rejects.toThrow("private address ::1 is not allowed");
+    });
+
+    test('Follows redirects up to the limit', async () => {
+        const fetcher = createHttpSourceFetcher({ allowPrivateHosts: true, maxRedirects: 2 });
+
+        expect(await fetcher(`${base}/moved`)).toEqual({ body: page, contentType: "text/html" });
+        await expect(fetcher(`${base}/loop`)).rejects.toThrow("more than 2 redirects");
+    });
+
+    test('Large responses are rejected', async () => {
+        const fetcher = createHttpSourceFetcher({ allowPrivateHosts: true, maxBytes: 1024 });
+
+        await expect(fetcher(`${base}/large`)).rejects.toThrow("larger than 1024 bytes");
+    });
+});
+
+describe('formatSourceCaption', () => {
+    test('Names sources with host', () => {
+        expect(formatSourceCaption([{ title: "Mars rover finds water", url: "https://www.example.com/mars" }])).toBe("Source: Mars rover finds water (example.com)");
+        expect(formatSourceCaption([{ title: "a", url: "https://a.com" }, { title: "https://b.com/x", url: "https://b.com/x" }])).toBe("Sources: a (a.com), b.com");
+    });
+});
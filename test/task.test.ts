@@ -0,0 +1,69 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { VideoArtifacts, VideoCancelledError, VideoTask } from '../src/task';
+import { describe, expect, jest, test } from '@jest/globals';
+
+const artifacts: VideoArtifacts = { video: "video.mp4", jobDir: "job", manifest: "job/job.json", stages: { render: ["video.mp4"] } };
+
+describe('Video task', () => {
+    test('Task starts after listeners are added and finishes once', async () => {
+        const task = new VideoTask();
+        const done = jest.fn();
+
+        task.start(async () => {
+            task.emit('stage-start', { stage: "voice", cached: false });
+            task.finish(artifacts);
+            task.finish(artifacts);
+        });
+
+        const stages: string[] = [];
+        task.on('stage-start', (event) => stages.push(event.stage));
+        task.on('done', done);
+        await task.settled;
+
+        expect(stages).toEqual(["voice"]);
+        expect(done).toHaveBeenCalledTimes(1);
+        expect(done).toHaveBeenCalledWith(artifacts);
+    });
+
+    test('Error of the generation is emitted', async () => {
+        const task = new VideoTask();
+        const errors: Error[] = [];
+
+        task.start(async () => { throw new Error("TTS failed"); });
+        task.on('error', (error) => errors.push(error));
+        await task.settled;
+
+        expect(errors.map((error) => error.message)).toEqual(["TTS failed"]);
+    });
+
+    test('Cancel stops running processes and emits a cancel error', async () => {
+        const task = new VideoTask();
+        const kill = jest.fn();
+        const errors: Error[] = [];
+        task.on('error', (error) => errors.push(error));
+
+        task.onCancel(kill);
+        const untrack = task.onCancel(() => { throw new Error("Ended process is not stopped"); });
+        untrack();
+
+        expect(task.cancel("test")).toBe(true);
+        expect(task.cancel()).toBe(false);
+        expect(kill).toHaveBeenCalledTimes(1);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(VideoCancelledError);
+        expect(() => task.throwIfCancelled()).toThrow("Video generation cancelled: test");
+    });
+
+    test('Task waits for the task before it', async () => {
+        const first = new VideoTask();
+        const second = new VideoTask();
+        const order: string[] = [];
+
+        first.start(async () => { order.push("first"); first.finish(artifacts); });
+        second.start(async () => { order.push("second"); second.finish(artifacts); }, first);
+
+        await second.settled;
+        expect(order).toEqual(["first", "second"]);
+    });
+});
@@ -0,0 +1,117 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { getElementEffects, loadTimeline, saveTimeline, TimelineDocument, TimelineElement, TimelineError, TimelineTextElement, validateTimeline } from '../src/timeline';
+import { QuizVideo } from '../src/types/quizVid';
+import { ImageGenType, VoiceGenType } from '../src/index';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('Timeline document', () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = fs.mkdtempSync(path.join(os.tmpdir(), 'timeline-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempPath, { recursive: true, force: true });
+    });
+
+    const quiz = new QuizVideo({
+        tempPath: "temp", resPath: "res", voiceGenType: VoiceGenType.BuiltinTTS, imageGenType: ImageGenType.Pexels,
+        orientation: "vertical", useBgMusic: false, useBgVideo: false,
+    }, {
+        type: "quiz",
+        title: "Space quiz",
+        start_script: "Welcome",
+        end_script: "Bye",
+        questions: [
+            { question: "What is the largest planet?", answer: "Jupiter" },
+            { question: "What is the closest star?", answer: "The Sun" },
+        ],
+    });
+
+    test('Quiz layout is made without rendering', () => {
+        const timeline = quiz.buildTimeline({ audioFile: "audio.wav", srtFile: "audio.srt" }, [2, 5, 6, 1], 14);
+
+        expect(validateTimeline(timeline)).toEqual([]);
+        expect(timeline.scenes).toHaveLength(1);
+
+        const text = timeline.scenes[0].layers.find((layer) => layer.name == "text")?.elements as TimelineTextElement[];
+        const answers = text.filter((element) => element.text == "Jupiter" || element.text == "The Sun");
+
+        // Answers are stacked and fade in a second before their question ends
+        expect(answers.map((answer) => [answer.y, answer.start])).toEqual([[595, 6], [787, 12]]);
+        expect(timeline.assets).toEqual({ audio: "audio.wav", subtitles: "audio.srt" });
+    });
+
+    test('Saved timeline can be edited and loaded again', () => {
+        const timeline = quiz.buildTimeline({ audioFile: path.join(tempPath, "audio.wav"), srtFile: path.join(tempPath, "audio.srt") }, [2, 5, 6, 1], 14);
+        const file = path.join(tempPath, "timeline.json");
+        saveTimeline(timeline, file);
+
+        // Files in the job folder are saved as relative paths
+        const saved: TimelineDocument = JSON.parse(fs.readFileSync(file, 'utf8'));
+        expect(saved.assets.audio).toEqual("audio.wav");
+
+        (saved.scenes[0].layers[1].elements[0] as TimelineTextElement).text = "Planet quiz";
+        fs.writeFileSync(file, JSON.stringify(saved));
+
+        const loaded = loadTimeline(file);
+        expect(loaded.assets.audio).toEqual(path.join(tempPath, "audio.wav"));
+        expect((loaded.scenes[0].layers[1].elements[0] as TimelineTextElement).text).toEqual("Planet quiz");
+    });
+
+    test('Timeline with unknown assets or invalid elements is rejected', () => {
+        const timeline = quiz.buildTimeline({ audioFile: "audio.wav", srtFile: "audio.srt" }, [2, 5, 6, 1], 14);
+        delete timeline.assets.subtitles;
+        expect(validateTimeline(timeline)).toEqual(["'scenes.0.layers.2.elements.0' uses unknown asset 'subtitles'"]);
+
+        const file = path.join(tempPath, "timeline.json");
+        fs.writeFileSync(file, JSON.stringify({ ...timeline, scenes: [{ name: "bad", duration: 1, layers: [{ name: "text", elements: [{ type: "text", x: 0, y: 0 }] }] }] }));
+        expect(() => loadTimeline(file)).toThrow(TimelineError);
+    });
+});
+
+describe('getElementEffects', () => {
+    const elements: TimelineElement[] = [
+        { type: "video", asset: "video", x: 0, y: 0, start: 1, end: 4 },
+        { type: "image", asset: "image", x: 0, y: 0, start: 1, end: 4 },
+        { type: "album", assets: ["image"], imageDuration: 1.5, x: 0, y: 0, start: 1, end: 4 },
+        { type: "text", text: "Hi", fontSize: 40, x: 0, y: 0, start: 1, end: 4 },
+        { type: "subtitles", asset: "subtitles", speech: "audio", fontSize: 40, x: 0, y: 0, start: 1, end: 4 },
+    ];
+
+    test('Every element type is shown at start and removed at end', () => {
+        for (const element of elements) {
+            expect([element.type, getElementEffects(element)]).toEqual([element.type, [
+                { type: "fadeIn", time: 0, delay: 1 },
+                { type: "fadeOut", time: 0, delay: 4 },
+            ]]);
+        }
+    });
+
+    test('Fade in starts at start', () => {
+        for (const element of elements) {
+            expect(getElementEffects({ ...element, end: undefined, fadeIn: 0.2 })).toEqual([{ type: "fadeIn", time: 0.2, delay: 1 }]);
+        }
+    });
+
+    test('Element shown for the whole scene has no effects', () => {
+        for (const element of elements) {
+            expect(getElementEffects({ ...element, start: undefined, end: undefined })).toEqual([]);
+        }
+    });
+
+    test('Element that ends before it starts is rejected', () => {
+        const timeline: TimelineDocument = {
+            version: 1, type: "topic", width: 1080, height: 1920, duration: 5, audio: "audio",
+            assets: { audio: "audio.wav", image: "image.png" },
+            scenes: [{ name: "main", duration: 5, layers: [{ name: "images", elements: [{ type: "image", asset: "image", x: 0, y: 0, start: 3, end: 2 }] }] }],
+        };
+
+        expect(validateTimeline(timeline)).toEqual(["'scenes.0.layers.0.elements.0' ends before it starts"]);
+    });
+});
@@ -0,0 +1,60 @@
+// Copyright (c) 2024 Shafil Alam
+
+import { AIUsageTracker, createUsageReport, estimateTokens, getModelPrice } from '../src/usage';
+import { describe, expect, test } from '@jest/globals';
+
+describe('getModelPrice', () => {
+    const prices = {
+        "gpt-4o": { input: 2.5, output: 10 },
+        "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    };
+
+    test('Matches longest model prefix', () => {
+        expect(getModelPrice("gpt-4o-mini-2024-07-18", prices)).toEqual(prices["gpt-4o-mini"]);
+        expect(getModelPrice("gpt-4o-2024-08-06", prices)).toEqual(prices["gpt-4o"]);
+    });
+
+    test('Unknown model has no price', () => {
+        expect(getModelPrice("llama3.2", prices)).toBeUndefined();
+    });
+});
+
+describe('AIUsageTracker', () => {
+    test('Calculates cost and emits usage events', () => {
+        const tracker = new AIUsageTracker({ "test-model": { input: 1, output: 2 } });
+        const events: number[] = [];
+        tracker.emitter.on('usage', (call) => events.push(call.cost));
+
+        tracker.record({ provider: "Test", model: "test-model", label: "type", promptTokens: 1_000_000, completionTokens: 500_000, estimated: false, durationMs: 100 });
+
+        expect(events).toEqual([2]);
+    });
+
+    test('Report has totals per provider and unpriced models', () => {
+        const tracker = new AIUsageTracker({ "test-model": { input: 1, output: 1 } });
+
+        tracker.record({ provider: "Test", model: "test-model", label: "type", promptTokens: 100, completionTokens: 10, estimated: false, durationMs: 100 });
+        tracker.record({ provider: "Test", model: "test-model", label: "field:text", promptTokens: 200, completionTokens: 20, estimated: false, durationMs: 200 });
+        tracker.record({ provider: "Ollama", model: "llama3.2", label: "field:images", promptTokens: 300, completionTokens: 30, estimated: true, durationMs: 300 });
+
+        const report = tracker.report();
+
+        expect(report.totalTokens).toBe(660);
+        expect(report.durationMs).toBe(600);
+        expect(report.cost).toBeCloseTo(330 / 1_000_000);
+        expect(report.providers["Test test-model"].calls).toBe(2);
+        expect(report.providers["Ollama llama3.2"].cost).toBe(0);
+        expect(report.unpriced).toEqual(["llama3.2"]);
+    });
+
+    test('Empty report', () => {
+        expect(createUsageReport([])).toEqual(expect.objectContaining({ calls: [], totalTokens: 0, cost: 0 }));
+    });
+});
+
+describe('estimateTokens', () => {
+    test('Estimates about 4 characters per token', () => {
+        expect(estimateTokens("12345678")).toBe(2);
+        expect(estimateTokens("123456789")).toBe(3);
+    });
+});
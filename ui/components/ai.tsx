@@ -12,7 +12,7 @@ import { Chip } from "@nextui-org/chip";
 import AdvancedOptions from '@/components/options';
 import { subtitle, title } from "@/components/primitives";
 import { ConfirmModal } from "@/components/modal";
-import { defaultVideoOptions, VideoOptions } from "@/config/options";
+import { AIUsageReport, defaultVideoOptions, DurationReport, VideoMetadata, VideoOptions } from "@/config/options";
 
 import { FaArrowLeft, FaArrowUp, FaCogs, FaMagic, FaVideo } from "react-icons/fa";
 import { VideoGenerator } from "./video";
@@ -28,6 +28,9 @@ export default function AIGen() {
     const [isAIRunning, setIsAIRunning] = useState(false);
     const [aiRepsonse, setAIResponse] = useState<string | null>(null);
     const [aiError, setAIError] = useState<string | null>(null);
+    const [aiUsage, setAIUsage] = useState<AIUsageReport | null>(null);
+    const [aiDuration, setAIDuration] = useState<DurationReport | null>(null);
+    const [aiMetadata, setAIMetadata] = useState<VideoMetadata | null>(null);
 
     // TODO: Use server-side rendering and fetch AI response from the server
 
@@ -58,6 +61,9 @@ export default function AIGen() {
                 return;
             }
 
+            setAIUsage(data.usage ?? null);
+            setAIDuration(data.duration ?? null);
+            setAIMetadata(data.metadata ?? null);
             setAIResponse(data.result);
 
         } catch (e: any) {
@@ -85,7 +91,7 @@ export default function AIGen() {
     ]
 
     return (
-        isAIRunning ? <AIOutput aiRepsonse={aiRepsonse} aiError={aiError} options={advancedOptions} /> :
+        isAIRunning ? <AIOutput aiRepsonse={aiRepsonse} aiError={aiError} aiUsage={aiUsage} aiDuration={aiDuration} aiMetadata={aiMetadata} options={advancedOptions} /> :
             <div className="flex flex-col items-center justify-center gap-4 w-full">
                 <div className="flex items-center gap-4">
                     <FaVideo size={32} />
@@ -118,14 +124,16 @@ export default function AIGen() {
     );
 }
 
-export const AIOutput = ({ aiRepsonse, aiError, options }: { aiRepsonse: string | null, aiError: string | null, options: VideoOptions }) => {
+export const AIOutput = ({ aiRepsonse, aiError, aiUsage, aiDuration, aiMetadata, options }: { aiRepsonse: string | null, aiError: string | null, aiUsage: AIUsageReport | null, aiDuration: DurationReport | null, aiMetadata: VideoMetadata | null, options: VideoOptions }) => {
     return (
         aiRepsonse
             ?
             <>
                 <div className="flex flex-col items-center justify-center gap-4 w-full">
                     {/* <p className={subtitle({ size: 'sm' })}>The AI has successfully generated the video script. You can now render the video.</p> */}
-                    <VideoGenerator json={aiRepsonse} isAI={true} options={options} />
+                    {aiUsage && <Code>AI usage: {aiUsage.totalTokens} tokens, {(aiUsage.durationMs / 1000).toFixed(1)}s, ${aiUsage.cost.toFixed(4)}</Code>}
+                    {aiDuration && <Code color={aiDuration.withinTarget ? 'default' : 'warning'}>Duration: {Math.round(aiDuration.measuredSeconds ?? aiDuration.estimatedSeconds)}s{aiDuration.measuredSeconds == undefined ? ' (estimated)' : ''} of {aiDuration.target}s target</Code>}
+                    <VideoGenerator json={aiRepsonse} isAI={true} options={options} aiUsage={aiUsage} aiMetadata={aiMetadata} />
                     {/* <Button size="sm" startContent={<FaArrowLeft />} onClick={() => window.location.reload()}>Go Back</Button> */}
                 </div>
             </>
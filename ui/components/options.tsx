@@ -3,7 +3,7 @@ import React, { useEffect, useState } from 'react';
 import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, useDisclosure } from '@nextui-org/modal';
 import { Dropdown, DropdownItem, DropdownMenu, DropdownTrigger } from '@nextui-org/dropdown';
 import { Checkbox } from '@nextui-org/checkbox';
-import { Input } from '@nextui-org/input';
+import { Input, Textarea } from '@nextui-org/input';
 import { Button, ButtonGroup } from '@nextui-org/button';
 import { Divider } from '@nextui-org/divider';
 import { Chip } from '@nextui-org/chip';
@@ -13,9 +13,9 @@ import { HexColorPicker } from 'react-colorful';
 
 import { BACKEND_ENDPOINT } from '@/config/backend';
 import { title, subtitle } from '@/components/primitives';
-import { VideoOptions } from '@/config/options';
+import { LanguageInfo, PromptTemplateInfo, ProviderInfo, VideoOptions } from '@/config/options';
 
-import { FaAngleDown, FaArrowsAltH, FaExclamationTriangle, FaEyeDropper, FaFileAudio, FaFont, FaGlobe, FaMagic, FaPhotoVideo, FaRandom, FaRegFileAudio, FaRegFileVideo, FaRobot, FaSave, FaSearch, FaSlidersH, FaSync, FaTextHeight, FaTextWidth, FaVideo, FaVolumeUp, FaWrench } from 'react-icons/fa';
+import { FaAngleDown, FaArrowsAltH, FaClock, FaExclamationTriangle, FaEyeDropper, FaLink, FaFileAudio, FaFont, FaGlobe, FaMagic, FaPhotoVideo, FaRandom, FaRegFileAudio, FaRegFileVideo, FaRobot, FaSave, FaSearch, FaSlidersH, FaSync, FaTextHeight, FaTextWidth, FaVideo, FaVolumeUp, FaWrench } from 'react-icons/fa';
 
 const config = {
     aiOptions: {
@@ -39,46 +39,19 @@ const config = {
                 "name": "Google Gemini",
                 "description": "Google Gemini AI models (API key required)",
                 "type": "GoogleAIGen",
+            },
+            {
+                "name": "OpenAI Compatible",
+                "description": "Any OpenAI compatible server (vLLM, LM Studio, LocalAI, etc.) (endpoint required)",
+                "type": "OpenAICompatibleAIGen",
+            },
+            {
+                "name": "llama.cpp",
+                "description": "Local LLMs via llama.cpp server with grammar constrained JSON (local/free)",
+                "type": "LlamaCppAIGen",
             }
         ]
     },
-    ttsOptions: [
-        {
-            "name": "Local Built-in TTS",
-            "description": "Local built-in TTS (local/free)",
-            "type": "BuiltinTTS",
-        },
-        {
-            "name": "ElevenLabs",
-            "description": "ElevenLabs advanced high-quality TTS (API key required)",
-            "type": "ElevenLabs",
-        },
-        {
-            "name": "Neets.ai",
-            "description": "Neets.ai TTS (cheaper but less quality) (API key required)",
-            "type": "NeetsTTS",
-        }
-    ],
-    imageTypes: [
-        {
-            "name": "Google Search",
-            "description": "Google image search (scraping) (local/free)",
-            "type": "GoogleScraper",
-            "style": "search"
-        },
-        {
-            "name": "Pexels",
-            "description": "Pexels image search (API key required)",
-            "type": "Pexels",
-            "style": "search"
-        },
-        {
-            "name": "Flux",
-            "description": "Flux AI image gen (API key required)",
-            "type": "FluxAI",
-            "style": "ai"
-        }
-    ],
     subtitleOptions: [
         {
             "name": "Whisper (en-tiny)",
@@ -87,7 +60,8 @@ const config = {
         }
     ],
     videoOptions: {
-        orientations: ['vertical', 'horizontal']
+        orientations: ['vertical', 'horizontal', 'square', 'portrait', 'vertical-720p', 'horizontal-720p', 'vertical-480p', 'horizontal-480p'],
+        encodings: ['default', 'shorts', 'preview', 'archive', 'webm']
     },
     miscOptions: [
         {
@@ -135,7 +109,8 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
         setIsAiModelError('');
 
         try {
-            let res = await fetch(`${BACKEND_ENDPOINT}/types/ai/models?type=${aiType}`)
+            const endpointQuery = openAIEndpoint ? `&endpoint=${encodeURIComponent(openAIEndpoint)}` : '';
+            let res = await fetch(`${BACKEND_ENDPOINT}/types/ai/models?type=${aiType}${endpointQuery}`)
 
             let data = await res.json()
 
@@ -206,13 +181,119 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
         }
     }
 
+    // TTS and image providers fetch (providers registered on the server)
+    const [ttsProviders, setTTSProviders] = useState<ProviderInfo[]>([]);
+    const [imageProviders, setImageProviders] = useState<ProviderInfo[]>([]);
+    const [isProvidersError, setIsProvidersError] = useState('');
+
+    async function fetchProviders() {
+        console.log('Fetching providers...');
+        setIsProvidersError('');
+
+        try {
+            let res = await fetch(`${BACKEND_ENDPOINT}/types/providers`)
+
+            let data = await res.json()
+
+            // Check if response is ok
+            if (!res.ok) {
+                setIsProvidersError('Failed to fetch providers: ' + (data.error ?? data.toString()))
+                return;
+            }
+
+            setTTSProviders(data.tts)
+            setImageProviders(data.image)
+            setSelectedTTSProvider(data.tts[0] ?? null)
+            setSelectedImageType(data.image[0] ?? null)
+        } catch (e: any) {
+            setIsProvidersError('Failed to fetch providers due to internal error: ' + (e.message ?? e.toString()));
+        }
+    }
+
+    // Describe provider for the dropdowns (API key note comes from the server)
+    const describeProvider = (provider: ProviderInfo) => provider.description + (provider.configured ? '' : ` (missing: ${provider.credentials.map(credential => credential.env).join(', ')})`);
+
+    // Check if a provider has an option (options not in its schema are not shown or sent)
+    const hasProviderOption = (provider: ProviderInfo | null, option: string) => provider?.optionsSchema.properties?.[option] != undefined;
+
+    // Languages fetch
+    const [languages, setLanguages] = useState<LanguageInfo[]>([{ code: 'en', name: 'English' }]);
+    const [isLanguagesError, setIsLanguagesError] = useState('');
+    const [selectedLanguage, setSelectedLanguage] = useState('en');
+
+    async function fetchLanguages() {
+        console.log('Fetching languages...');
+        setIsLanguagesError('');
+
+        try {
+            let res = await fetch(`${BACKEND_ENDPOINT}/types/languages`)
+
+            let data = await res.json()
+
+            // Check if response is ok
+            if (!res.ok) {
+                setIsLanguagesError('Failed to fetch languages: ' + (data.error ?? data.toString()))
+                return;
+            }
+
+            setLanguages(data.languages)
+        } catch (e: any) {
+            setIsLanguagesError('Failed to fetch languages due to internal error: ' + (e.message ?? e.toString()));
+        }
+    }
+
+    // Prompt templates fetch
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplateInfo[]>([]);
+    const [isPromptTemplatesError, setIsPromptTemplatesError] = useState('');
+    const [selectedPromptTemplate, setSelectedPromptTemplate] = useState('');
+    const [selectedPromptChannel, setSelectedPromptChannel] = useState('');
+    const [promptVariables, setPromptVariables] = useState('');
+    const [targetDuration, setTargetDuration] = useState('');
+    const [sourceUrls, setSourceUrls] = useState('');
+    const [showSources, setShowSources] = useState(false);
+
+    async function fetchPromptTemplates() {
+        console.log('Fetching prompt templates...');
+        setIsPromptTemplatesError('');
+
+        try {
+            let res = await fetch(`${BACKEND_ENDPOINT}/types/prompts`)
+
+            let data = await res.json()
+
+            // Check if response is ok
+            if (!res.ok) {
+                setIsPromptTemplatesError('Failed to fetch prompt templates: ' + (data.error ?? data.toString()))
+                return;
+            }
+
+            setPromptTemplates(data.templates)
+        } catch (e: any) {
+            setIsPromptTemplatesError('Failed to fetch prompt templates due to internal error: ' + (e.message ?? e.toString()));
+        }
+    }
+
+    // Parse prompt variables (ex. 'tone=funny, count=5')
+    function parsePromptVariables(str: string): Record<string, string> | undefined {
+        const entries = str.split(',')
+            .map(pair => pair.split('='))
+            .filter(pair => pair.length >= 2 && pair[0].trim())
+            .map(([name, ...value]) => [name.trim(), value.join('=').trim()]);
+
+        return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+    }
+
+    const selectedTemplateInfo = promptTemplates.find(template => template.name === selectedPromptTemplate.split('@')[0]);
+
     // State for options
     const [selectedAIType, setSelectedAIType] = useState(config.aiOptions.types[0]);
     const [openAIEndpoint, setOpenAIEndpoint] = useState<undefined | string>(undefined);
-    const [selectedTTSProvider, setSelectedTTSProvider] = useState(config.ttsOptions[0]);
-    const [selectedImageType, setSelectedImageType] = useState(config.imageTypes[0]);
+    const [aiJsonMode, setAiJsonMode] = useState(false);
+    const [selectedTTSProvider, setSelectedTTSProvider] = useState<ProviderInfo | null>(null);
+    const [selectedImageType, setSelectedImageType] = useState<ProviderInfo | null>(null);
     const [selectedSubtitleModel, setSelectedSubtitleModel] = useState(config.subtitleOptions[0]);
     const [selectedOrientation, setSelectedOrientation] = useState(config.videoOptions.orientations[0]);
+    const [selectedEncoding, setSelectedEncoding] = useState(config.videoOptions.encodings[0]);
     const [miscOptions, setMiscOptions] = useState(config.miscOptions.map(option => option.defaultValue));
 
     // State for bg vid/audio
@@ -244,6 +325,9 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
         fetchModels();
         fetchBgVideos();
         fetchBgAudio();
+        fetchPromptTemplates();
+        fetchLanguages();
+        fetchProviders();
     }, [])
 
     return (
@@ -320,7 +404,7 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         </ButtonGroup>
                     </div>
                 </div>
-                {selectedAIType.type === 'OpenAIGen' && (
+                {['OpenAIGen', 'OpenAICompatibleAIGen', 'LlamaCppAIGen'].includes(selectedAIType.type) && (
                     <div className="flex justify-between my-4">
                         <div>
                             <p className={title({ size: 'sm' })}>API Endpoint</p>
@@ -329,6 +413,92 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         <Input startContent={<FaGlobe />} isClearable placeholder="Enter API Endpoint" className="w-96" onChange={(e) => setOpenAIEndpoint(e.target.value)} />
                     </div>
                 )}
+                {selectedAIType.type === 'OpenAICompatibleAIGen' && (
+                    <div className="flex justify-between my-4">
+                        <div>
+                            <p className={title({ size: 'sm' })}>JSON Mode</p>
+                            <p className={subtitle({ size: 'sm' })}>Ask the server for JSON responses (not supported by all servers)</p>
+                        </div>
+                        <Checkbox isSelected={aiJsonMode} onValueChange={(e) => setAiJsonMode(e)}>{
+                            aiJsonMode ? 'Enabled' : 'Disabled'
+                        }</Checkbox>
+                    </div>
+                )}
+                <div className="flex justify-between my-4">
+                    <div>
+                        <p className={title({ size: 'sm' })}>Target Duration</p>
+                        <p className={subtitle({ size: 'sm' })}>Length of the video in seconds (the AI expands or trims the script to fit)</p>
+                    </div>
+                    <Input startContent={<FaClock />} type="number" min={1} isClearable placeholder="Any length" className="w-96" onChange={(e) => setTargetDuration(e.target.value)} />
+                </div>
+                <div className="flex justify-between my-4">
+                    <div>
+                        <p className={title({ size: 'sm' })}>Sources</p>
+                        <p className={subtitle({ size: 'sm' })}>Web pages or RSS/Atom feeds to base topic videos on (one URL per line)</p>
+                    </div>
+                    <Textarea startContent={<FaLink />} placeholder="https://example.com/article" className="w-96" value={sourceUrls} onChange={(e) => setSourceUrls(e.target.value)} />
+                </div>
+                <div className="flex justify-between my-4">
+                    <div>
+                        <p className={title({ size: 'sm' })}>Show Sources</p>
+                        <p className={subtitle({ size: 'sm' })}>Show a source caption at the bottom of topic videos</p>
+                    </div>
+                    <Checkbox isSelected={showSources} onValueChange={(e) => setShowSources(e)}>{
+                        showSources ? 'Enabled' : 'Disabled'
+                    }</Checkbox>
+                </div>
+                <div className="flex justify-between my-4">
+                    <div>
+                        <p className={title({ size: 'sm' })}>Prompt Template</p>
+                        <p className={subtitle({ size: 'sm' })}>{isPromptTemplatesError || 'Select the prompt template (from SERVER_PROMPTS_PATH)'}</p>
+                    </div>
+                    <Dropdown>
+                        <DropdownTrigger>
+                            <Button endContent={<FaAngleDown />}>{selectedPromptTemplate || 'Built-in prompts'}</Button>
+                        </DropdownTrigger>
+
+                        <DropdownMenu onAction={(key) => {
+                            setSelectedPromptTemplate(key === 'builtin' ? '' : key.toString())
+                            setSelectedPromptChannel('')
+                        }}>
+                            {[
+                                <DropdownItem key='builtin' description='Built-in prompts of each video type'>Built-in prompts</DropdownItem>,
+                                ...promptTemplates.flatMap(template => template.versions.map(version =>
+                                    <DropdownItem key={`${template.name}@${version}`} description={template.description}>{`${template.name}@${version}`}</DropdownItem>
+                                ))
+                            ]}
+                        </DropdownMenu>
+                    </Dropdown>
+                </div>
+                {selectedTemplateInfo && selectedTemplateInfo.channels.length > 0 && (
+                    <div className="flex justify-between my-4">
+                        <div>
+                            <p className={title({ size: 'sm' })}>Prompt Channel</p>
+                            <p className={subtitle({ size: 'sm' })}>Select the channel of the prompt template</p>
+                        </div>
+                        <Dropdown>
+                            <DropdownTrigger>
+                                <Button endContent={<FaAngleDown />}>{selectedPromptChannel || 'No channel'}</Button>
+                            </DropdownTrigger>
+
+                            <DropdownMenu onAction={(key) => setSelectedPromptChannel(key === 'none' ? '' : key.toString())}>
+                                {[
+                                    <DropdownItem key='none'>No channel</DropdownItem>,
+                                    ...selectedTemplateInfo.channels.map(channel => <DropdownItem key={channel}>{channel}</DropdownItem>)
+                                ]}
+                            </DropdownMenu>
+                        </Dropdown>
+                    </div>
+                )}
+                {selectedTemplateInfo && (
+                    <div className="flex justify-between my-4">
+                        <div>
+                            <p className={title({ size: 'sm' })}>Prompt Variables</p>
+                            <p className={subtitle({ size: 'sm' })}>{`Override variables (defaults: ${Object.entries(selectedTemplateInfo.variables).map(([name, value]) => `${name}=${value}`).join(', ') || 'none'})`}</p>
+                        </div>
+                        <Input startContent={<FaWrench />} isClearable placeholder="tone=funny, count=5" className="w-96" onChange={(e) => setPromptVariables(e.target.value)} />
+                    </div>
+                )}
             </div>
             <div className="flex items-center gap-2">
                 <FaFileAudio />
@@ -341,17 +511,20 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         <p className={title({ size: 'sm' })}>Choose TTS Provider</p>
                         <p className={subtitle({ size: 'sm' })}>Select the TTS provider</p>
                     </div>
-                    <Dropdown>
-                        <DropdownTrigger>
-                            <Button endContent={<FaAngleDown />}>{selectedTTSProvider.name}</Button>
-                        </DropdownTrigger>
-
-                        <DropdownMenu onAction={(key) => setSelectedTTSProvider(config.ttsOptions.find(provider => provider.type === key)!)}>
-                            {config.ttsOptions.map(provider => <DropdownItem key={provider.type} description={provider.description}>{provider.name}</DropdownItem>)}
-                        </DropdownMenu>
-                    </Dropdown>
+                    {isProvidersError
+                        ? <Chip color='danger' variant='flat'>{isProvidersError}</Chip>
+                        : <Dropdown>
+                            <DropdownTrigger>
+                                <Button isLoading={!selectedTTSProvider} endContent={<FaAngleDown />}>{selectedTTSProvider?.name ?? "Loading providers"}</Button>
+                            </DropdownTrigger>
+
+                            <DropdownMenu onAction={(key) => setSelectedTTSProvider(ttsProviders.find(provider => provider.id === key)!)}>
+                                {ttsProviders.map(provider => <DropdownItem key={provider.id} description={describeProvider(provider)}>{provider.name}</DropdownItem>)}
+                            </DropdownMenu>
+                        </Dropdown>
+                    }
                 </div>
-                {selectedTTSProvider.type == "BuiltinTTS" ? null : <>
+                {hasProviderOption(selectedTTSProvider, 'voiceModel') && (
                     <div className="flex justify-between my-4">
                         <div>
                             <p className={title({ size: 'sm' })}>Voice Model</p>
@@ -359,6 +532,8 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         </div>
                         <Input startContent={<FaWrench />} isClearable placeholder="Enter voice model" className="w-56" onChange={(e) => setTTSVoiceModel(e.target.value)} />
                     </div>
+                )}
+                {hasProviderOption(selectedTTSProvider, 'maleVoice') && (
                     <div className="flex justify-between my-4">
                         <div>
                             <p className={title({ size: 'sm' })}>Male Voice</p>
@@ -366,6 +541,8 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         </div>
                         <Input startContent={<FaRegFileAudio />} isClearable placeholder="Enter male voice" className="w-56" onChange={(e) => setTTSModelMale(e.target.value)} />
                     </div>
+                )}
+                {hasProviderOption(selectedTTSProvider, 'femaleVoice') && (
                     <div className="flex justify-between my-4">
                         <div>
                             <p className={title({ size: 'sm' })}>Female Voice</p>
@@ -373,8 +550,7 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         </div>
                         <Input startContent={<FaRegFileAudio />} isClearable placeholder="Enter female voice" className="w-56" onChange={(e) => setTTSModelFemale(e.target.value)} />
                     </div>
-                </>
-                }
+                )}
             </div>
             <div className="flex items-center gap-2">
                 <FaPhotoVideo />
@@ -387,19 +563,22 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         <p className={title({ size: 'sm' })}>Choose image provider</p>
                         <p className={subtitle({ size: 'sm' })}>Select the image search provider</p>
                     </div>
-                    <Dropdown>
-                        <DropdownTrigger>
-                            <Button startContent={selectedImageType.style == "ai" ? <FaMagic /> : <FaSearch />} endContent={<FaAngleDown />}>{selectedImageType.name}</Button>
-                        </DropdownTrigger>
-
-                        <DropdownMenu onAction={(key) => setSelectedImageType(config.imageTypes.find(provider => provider.type === key)!)}>
-                            {config.imageTypes.map(provider => <DropdownItem key={provider.type} description={
-                                ` ${provider.style === 'ai' ? '(AI generated)' : '(Image search)'} - ${provider.description}`
-                            }>{provider.name}</DropdownItem>)}
-                        </DropdownMenu>
-                    </Dropdown>
+                    {isProvidersError
+                        ? <Chip color='danger' variant='flat'>{isProvidersError}</Chip>
+                        : <Dropdown>
+                            <DropdownTrigger>
+                                <Button isLoading={!selectedImageType} startContent={selectedImageType?.capabilities.style == "AI" ? <FaMagic /> : <FaSearch />} endContent={<FaAngleDown />}>{selectedImageType?.name ?? "Loading providers"}</Button>
+                            </DropdownTrigger>
+
+                            <DropdownMenu onAction={(key) => setSelectedImageType(imageProviders.find(provider => provider.id === key)!)}>
+                                {imageProviders.map(provider => <DropdownItem key={provider.id} description={
+                                    ` ${provider.capabilities.style === 'AI' ? '(AI generated)' : '(Image search)'} - ${describeProvider(provider)}`
+                                }>{provider.name}</DropdownItem>)}
+                            </DropdownMenu>
+                        </Dropdown>
+                    }
                 </div>
-                {selectedImageType.style === 'ai' ?
+                {selectedImageType?.capabilities.style === 'AI' ?
                     <>
                         <div className="flex justify-between my-4">
                             <div>
@@ -630,8 +809,7 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                 <div className="flex justify-between my-4">
                     <div>
                         <p className={title({ size: 'sm' })}>Orientation</p>
-                        <p className={subtitle({ size: 'sm' })}>Select the video orientation</p>
-                        {(selectedOrientation != 'vertical') ? <Chip className="mt-2" color='danger' variant='shadow'>Horizontal orientation may produce issues due to WIP</Chip> : null}
+                        <p className={subtitle({ size: 'sm' })}>Select the video orientation or size (square and portrait for Instagram feed, 720p and 480p for quick drafts)</p>
                     </div>
                     <Dropdown>
                         <DropdownTrigger>
@@ -643,6 +821,36 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         </DropdownMenu>
                     </Dropdown>
                 </div>
+                <div className="flex justify-between my-4">
+                    <div>
+                        <p className={title({ size: 'sm' })}>Encoding</p>
+                        <p className={subtitle({ size: 'sm' })}>Select the encoding profile (shorts for upload, preview for small drafts, archive for high quality, webm for the web)</p>
+                    </div>
+                    <Dropdown>
+                        <DropdownTrigger>
+                            <Button endContent={<FaAngleDown />}>{selectedEncoding}</Button>
+                        </DropdownTrigger>
+
+                        <DropdownMenu onAction={(key) => setSelectedEncoding(key.toString())} >
+                            {config.videoOptions.encodings.map(encoding => <DropdownItem key={encoding}>{encoding}</DropdownItem>)}
+                        </DropdownMenu>
+                    </Dropdown>
+                </div>
+                <div className="flex justify-between my-4">
+                    <div>
+                        <p className={title({ size: 'sm' })}>Language</p>
+                        <p className={subtitle({ size: 'sm' })}>{isLanguagesError || 'Select the language of the script, voices and subtitles'}</p>
+                    </div>
+                    <Dropdown>
+                        <DropdownTrigger>
+                            <Button endContent={<FaAngleDown />}>{languages.find(language => language.code === selectedLanguage)?.name ?? selectedLanguage}</Button>
+                        </DropdownTrigger>
+
+                        <DropdownMenu onAction={(key) => setSelectedLanguage(key.toString())} >
+                            {languages.map(language => <DropdownItem key={language.code}>{language.name}</DropdownItem>)}
+                        </DropdownMenu>
+                    </Dropdown>
+                </div>
             </div>
             <div className="flex items-center gap-2">
                 <FaSlidersH />
@@ -672,9 +880,18 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                         aiType: selectedAIType.type,
                         aiModel: selectedAIModel,
                         openAIEndpoint: openAIEndpoint,
-                        voiceGenType: selectedTTSProvider.type,
-                        imageGenType: selectedImageType.type,
+                        aiCapabilities: selectedAIType.type === 'OpenAICompatibleAIGen' ? { jsonMode: aiJsonMode } : undefined,
+                        promptTemplate: selectedPromptTemplate || undefined,
+                        promptChannel: selectedPromptChannel || undefined,
+                        promptVariables: selectedPromptTemplate ? parsePromptVariables(promptVariables) : undefined,
+                        duration: Number(targetDuration) > 0 ? { seconds: Number(targetDuration) } : undefined,
+                        sources: sourceUrls.trim() ? sourceUrls.split('\n').map((url) => url.trim()).filter((url) => url) : undefined,
+                        showSources: showSources,
+                        voiceGenType: selectedTTSProvider?.id,
+                        imageGenType: selectedImageType?.id,
                         orientation: selectedOrientation,
+                        encoding: { profile: selectedEncoding },
+                        language: selectedLanguage,
                         vidPath: selectedBgVideo,
                         bgPath: selectedBgAudio,
                         useBgMusic: useBgMusic,
@@ -687,9 +904,9 @@ export default function AdvancedOptions({ setAdvancedOptions }: { setAdvancedOpt
                             useMock: miscOptions[config.miscOptions.findIndex(option => option.name === 'useMock')],
                         },
                         ttsOptions: {
-                            voiceModel: ttsVoiceModel,
-                            maleVoice: ttsModelMale,
-                            femaleVoice: ttsModelFemale
+                            voiceModel: hasProviderOption(selectedTTSProvider, 'voiceModel') ? ttsVoiceModel : undefined,
+                            maleVoice: hasProviderOption(selectedTTSProvider, 'maleVoice') ? ttsModelMale : undefined,
+                            femaleVoice: hasProviderOption(selectedTTSProvider, 'femaleVoice') ? ttsModelFemale : undefined
                         },
                         imageOptions: {
                             modelName: aiImageModel,
@@ -17,10 +17,10 @@ import AdvancedOptions from '@/components/options';
 import { subtitle, title } from '@/components/primitives';
 import { ConfirmModal } from '@/components/modal';
 import { BACKEND_ENDPOINT } from '@/config/backend';
-import { defaultVideoOptions, VideoOptions } from '@/config/options';
-import { MessageVideoData, QuizVideoData, RankVideoData, RatherVideoData, TopicVideoData, VideoData } from '@/config/video';
+import { AIUsageReport, defaultVideoOptions, VideoMetadata, VideoOptions } from '@/config/options';
+import { MessageVideoData, QuizVideoData, RankVideoData, RatherVideoData, RegisteredVideoData, TopicVideoData, VideoData, VideoTypeInfo } from '@/config/video';
 
-import { FaAngleDown, FaArrowLeft, FaArrowRight, FaCogs, FaComment, FaCommentAlt, FaImage, FaList, FaMagic, FaNewspaper, FaPhone, FaPlus, FaQuestion, FaQuestionCircle, FaSave, FaSearch, FaTextHeight, FaTrash, FaUpload, FaVolumeUp } from 'react-icons/fa';
+import { FaAngleDown, FaArrowLeft, FaArrowRight, FaCogs, FaComment, FaCommentAlt, FaImage, FaLink, FaList, FaMagic, FaNewspaper, FaPhone, FaPlus, FaPuzzlePiece, FaQuestion, FaQuestionCircle, FaSave, FaSearch, FaTextHeight, FaTrash, FaUpload, FaVolumeUp } from 'react-icons/fa';
 
 const videoTypes = [
     {
@@ -55,10 +55,11 @@ const videoTypes = [
     }
 ];
 
-export function VideoGenerator({ json = null, isAI = false, options = null }: { json?: string | null, isAI?: boolean, options?: VideoOptions | null }) {
+export function VideoGenerator({ json = null, isAI = false, options = null, aiUsage = null, aiMetadata = null }: { json?: string | null, isAI?: boolean, options?: VideoOptions | null, aiUsage?: AIUsageReport | null, aiMetadata?: VideoMetadata | null }) {
     const confirmModal = useDisclosure();
     const emptyDataModal = useDisclosure();
 
+    const [types, setTypes] = useState(videoTypes);
     const [selectedType, setSelectedType] = useState(videoTypes[0]);
     const [formData, setFormData] = useState<VideoData | null>(null);
 
@@ -71,6 +72,19 @@ export function VideoGenerator({ json = null, isAI = false, options = null }: {
     const [isGenerated, setIsGenerated] = useState(false);
     const [videoId, setVideoId] = useState<string | null>(null);
 
+    // Add video types registered on the server (built-in types keep their forms)
+    useEffect(() => {
+        fetch(`${BACKEND_ENDPOINT}/types/video`)
+            .then(res => res.ok ? res.json() : null)
+            .then((data: { types: VideoTypeInfo[] } | null) => {
+                const registered = (data?.types ?? [])
+                    .filter(info => !videoTypes.some(type => type.type === info.type))
+                    .map(info => ({ type: info.type, name: info.label, icon: <FaPuzzlePiece />, description: info.description }));
+                setTypes([...videoTypes, ...registered]);
+            })
+            .catch(() => setTypes(videoTypes));
+    }, []);
+
     function handleGenerateVideo() {
         // Check if advanced options are selected, if not, set it to default values
         if ((options ?? advancedOptions) === defaultVideoOptions) setUsedDefaultOptions(true);
@@ -102,7 +116,9 @@ export function VideoGenerator({ json = null, isAI = false, options = null }: {
             // JSON must be compliant with the API (server type of APIVideoData)
             let json = {
                 data: formData,
-                options: options ?? advancedOptions
+                options: options ?? advancedOptions,
+                usage: aiUsage ?? undefined,
+                metadata: aiMetadata ?? undefined
             }
 
             const postData = JSON.stringify(json);
@@ -151,6 +167,12 @@ export function VideoGenerator({ json = null, isAI = false, options = null }: {
                         setRenderResult(renderResult ? renderResult + '\n' + data.log : data.log);
                     }
 
+                    // Update render result with stage events (skipped stages are unchanged since the last render)
+                    if (data.stage && !(data.stage.cached && data.stage.status == 'end')) {
+                        const stageLog = `[${data.stage.stage}] ` + (data.stage.cached ? 'unchanged, skipped' : data.stage.status == 'start' ? 'started' : 'done');
+                        setRenderResult(renderResult ? renderResult + '\n' + stageLog : stageLog);
+                    }
+
                     // Check if JSON has 'videoPath' field
                     if (data.videoId) {
                         setIsGenerated(true);
@@ -183,7 +205,7 @@ export function VideoGenerator({ json = null, isAI = false, options = null }: {
             case "topic":
                 return <TopicVideoForm setFormData={setFormData} json={json} isAI={isAI} />;
             default:
-                return null;
+                return <RegisteredVideoForm key={type} type={type} setFormData={setFormData} json={json} isAI={isAI} />;
         }
     };
 
@@ -200,8 +222,8 @@ export function VideoGenerator({ json = null, isAI = false, options = null }: {
                             <DropdownTrigger>
                                 <Button startContent={selectedType.icon} endContent={<FaAngleDown />}>{selectedType.name}</Button>
                             </DropdownTrigger>
-                            <DropdownMenu onAction={(key) => setSelectedType(videoTypes.find(type => type.type === key.toString())!)} >
-                                {videoTypes.map(type => <DropdownItem key={type.type} description={type.description} startContent={type.icon}>{type.name}</DropdownItem>)}
+                            <DropdownMenu onAction={(key) => setSelectedType(types.find(type => type.type === key.toString())!)} >
+                                {types.map(type => <DropdownItem key={type.type} description={type.description} startContent={type.icon}>{type.name}</DropdownItem>)}
                             </DropdownMenu>
                         </Dropdown>
                         <p className={subtitle({ size: 'sm' })}>{selectedType.description}</p>
@@ -246,6 +268,18 @@ export function VideoGenerator({ json = null, isAI = false, options = null }: {
 }
 
 export const RenderingOutput = ({ renderResult, genError, isGenerated, videoId }: { renderResult: string | null, genError: string | null, isGenerated: boolean, videoId: string | null }) => {
+    const [metadata, setMetadata] = useState<VideoMetadata | null>(null);
+
+    // Fetch upload metadata of the video (videos made without AI have none)
+    useEffect(() => {
+        if (!isGenerated || !videoId) return;
+
+        fetch(`${BACKEND_ENDPOINT}/getMetadata?id=${videoId}`)
+            .then(res => res.ok ? res.json() : null)
+            .then(data => setMetadata(data?.metadata ?? null))
+            .catch(() => setMetadata(null));
+    }, [isGenerated, videoId]);
+
     return (
         isGenerated
             ?
@@ -256,6 +290,22 @@ export const RenderingOutput = ({ renderResult, genError, isGenerated, videoId }
                     <Code>{"video.mp4"}</Code>
                     <video src={`${BACKEND_ENDPOINT}/getVideo?id=${videoId}`} controls width={300} />
                     <Button color='primary' variant='shadow' startContent={<FaSave />} onClick={() => window.location.href = `${BACKEND_ENDPOINT}/getVideo?id=${videoId}`}>Download Video</Button>
+                    {metadata && <>
+                        <Divider />
+                        <p className={title({ size: 'sm' })}>Upload Metadata</p>
+                        {Object.entries(metadata).map(([platform, platformMetadata]) => (
+                            <Card key={platform} className="w-full max-w-md">
+                                <CardBody className="gap-2">
+                                    <Chip size="sm" variant="flat">{platform}</Chip>
+                                    <p className="font-bold">{platformMetadata.title}</p>
+                                    <p className="text-sm whitespace-pre-wrap">{platformMetadata.description}</p>
+                                    <p className="text-sm text-primary">{platformMetadata.hashtags.join(' ')}</p>
+                                    <Code className="whitespace-pre-wrap">{platformMetadata.pinnedComment}</Code>
+                                </CardBody>
+                            </Card>
+                        ))}
+                        <Button variant='bordered' startContent={<FaSave />} onClick={() => window.location.href = `${BACKEND_ENDPOINT}/getMetadata?id=${videoId}&download=true`}>Download Metadata</Button>
+                    </>}
                     <Button size="sm" startContent={<FaArrowLeft />} onClick={() => window.location.reload()}>Go Back</Button>
                 </div>
             </>
@@ -285,6 +335,58 @@ export const RenderingOutput = ({ renderResult, genError, isGenerated, videoId }
     );
 }
 
+type RegisteredVideoFormProps = {
+    type: string;
+    setFormData: React.Dispatch<React.SetStateAction<VideoData | null>>;
+    json: string | null;
+    isAI: boolean;
+};
+
+/**
+ * Form of a video type registered on the server (fields are edited as JSON)
+ */
+const RegisteredVideoForm: React.FC<RegisteredVideoFormProps> = ({ type, setFormData, json }) => {
+    const [data, setData] = useState('{}');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = () => {
+        try {
+            const fields = JSON.parse(data);
+            const videoData: RegisteredVideoData = { ...fields, type };
+            setError(null);
+            setFormData(videoData);
+        } catch (e: any) {
+            setError('Invalid JSON: ' + (e.message ?? e.toString()));
+        }
+    };
+
+    // Handle JSON if not null on initial load
+    useEffect(() => {
+        if (json) {
+            const { type: _, ...fields } = JSON.parse(json);
+            setData(JSON.stringify(fields, null, 2));
+        }
+    }, []);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col">
+                <div className="flex items-center gap-2">
+                    <FaPuzzlePiece />
+                    <h1 className={title()}>{`Data of ${type} video`}</h1>
+                </div>
+                <p className={subtitle({ size: 'sm' })}>Enter the fields of the video as JSON (the 'type' field is added for you).</p>
+            </div>
+            <Textarea label="JSON" minRows={10} value={data} onChange={(e) => setData(e.target.value)} />
+            {error && <Chip color='danger' variant='flat'>{error}</Chip>}
+            <Divider />
+            <div className="flex justify-center mt-4">
+                <Button color='primary' variant='shadow' size='lg' startContent={<FaSave />} onClick={handleSubmit}>Save Data</Button>
+            </div>
+        </div>
+    );
+};
+
 type MessageVideoFormProps = {
     setFormData: React.Dispatch<React.SetStateAction<VideoData | null>>;
     json: string | null;
@@ -492,6 +594,7 @@ const RankVideoForm: React.FC<RankVideoFormProps> = ({ setFormData, json, isAI }
     const [images, setImages] = useState(['']);
     const [startScript, setStartScript] = useState('');
     const [endScript, setEndScript] = useState('');
+    const [imageAlternates, setImageAlternates] = useState<Record<string, string[]>>();
 
     const handleAddRanking = () => {
         setRankings([...rankings, '']);
@@ -516,6 +619,7 @@ const RankVideoForm: React.FC<RankVideoFormProps> = ({ setFormData, json, isAI }
             images,
             start_script: startScript,
             end_script: endScript,
+            imageAlternates,
         };
         setFormData(data);
     };
@@ -523,12 +627,13 @@ const RankVideoForm: React.FC<RankVideoFormProps> = ({ setFormData, json, isAI }
     // Handle JSON if not null on initial load
     useEffect(() => {
         if (json) {
-            const { title, rankings, images, start_script, end_script } = JSON.parse(json);
+            const { title, rankings, images, start_script, end_script, imageAlternates } = JSON.parse(json);
             if (title) setTitle(title);
             if (rankings) setRankings(rankings);
             if (images) setImages(images);
             if (start_script) setStartScript(start_script);
             if (end_script) setEndScript(end_script);
+            if (imageAlternates) setImageAlternates(imageAlternates);
         }
     }, []);
 
@@ -591,6 +696,7 @@ const RatherVideoForm: React.FC<RatherVideoFormProps> = ({ setFormData, json, is
     const [questions, setQuestions] = useState([{ option1: '', option2: '', p1: 50, p2: 50, image1: '', image2: '' }]);
     const [startScript, setStartScript] = useState('');
     const [endScript, setEndScript] = useState('');
+    const [imageAlternates, setImageAlternates] = useState<Record<string, string[]>>();
 
     const handleAddQuestion = () => {
         setQuestions([...questions, { option1: '', option2: '', p1: 50, p2: 50, image1: '', image2: '' }]);
@@ -609,6 +715,7 @@ const RatherVideoForm: React.FC<RatherVideoFormProps> = ({ setFormData, json, is
             questions,
             start_script: startScript,
             end_script: endScript,
+            imageAlternates,
         };
         setFormData(data);
     };
@@ -616,11 +723,12 @@ const RatherVideoForm: React.FC<RatherVideoFormProps> = ({ setFormData, json, is
     // Handle JSON if not null on initial load
     useEffect(() => {
         if (json) {
-            const { title, questions, start_script, end_script } = JSON.parse(json);
+            const { title, questions, start_script, end_script, imageAlternates } = JSON.parse(json);
             if (title) setTitle(title);
             if (questions) setQuestions(questions);
             if (start_script) setStartScript(start_script);
             if (end_script) setEndScript(end_script);
+            if (imageAlternates) setImageAlternates(imageAlternates);
         }
     }, []);
 
@@ -685,6 +793,9 @@ const TopicVideoForm: React.FC<TopicVideoFormProps> = ({ setFormData, json, isAI
     const [endScript, setEndScript] = useState('');
     const [images, setImages] = useState(['']);
     const [imageOverrides, setImageOverrides] = useState<string[]>([]);
+    const [sources, setSources] = useState<{ title: string, url: string }[]>([]);
+    const [showSources, setShowSources] = useState(false);
+    const [imageAlternates, setImageAlternates] = useState<Record<string, string[]>>();
 
     const [showImageOverrides, setShowImageOverrides] = useState(false);
 
@@ -708,6 +819,9 @@ const TopicVideoForm: React.FC<TopicVideoFormProps> = ({ setFormData, json, isAI
             end_script: endScript,
             images,
             imgOverride: showImageOverrides ? imageOverrides : undefined,
+            sources: sources.length > 0 ? sources : undefined,
+            showSources: sources.length > 0 && showSources ? true : undefined,
+            imageAlternates,
         };
         setFormData(data);
     };
@@ -717,11 +831,14 @@ const TopicVideoForm: React.FC<TopicVideoFormProps> = ({ setFormData, json, isAI
         if (json) {
             console.log(json);
             console.table(JSON.parse(json));
-            const { text, images, start_script, end_script } = JSON.parse(json);
+            const { text, images, start_script, end_script, sources, showSources, imageAlternates } = JSON.parse(json);
             if (text) setText(text);
             if (images) setImages(images);
             if (start_script) setStartScript(start_script);
             if (end_script) setEndScript(end_script);
+            if (sources) setSources(sources);
+            if (showSources) setShowSources(showSources);
+            if (imageAlternates) setImageAlternates(imageAlternates);
         }
     }, []);
 
@@ -793,6 +910,24 @@ const TopicVideoForm: React.FC<TopicVideoFormProps> = ({ setFormData, json, isAI
                     }} />
                     : <Button onClick={handleAddImage} startContent={<FaPlus />}>Add Image</Button>
             }
+            {
+                sources.length > 0 ?
+                    <>
+                        <Divider />
+                        <div className="flex flex-col">
+                            <div className="flex items-center gap-2">
+                                <FaLink />
+                                <h1 className={title()}>Sources</h1>
+                            </div>
+                            <p className={subtitle({ size: 'sm' })}>The script is based on these sources.</p>
+                        </div>
+                        {sources.map((source, index) => (
+                            <p key={index}>[{index + 1}] {source.title} (<a className="underline" href={source.url} target="_blank">{source.url}</a>)</p>
+                        ))}
+                        <Switch isSelected={showSources} onValueChange={setShowSources}>Show source caption in video</Switch>
+                    </>
+                    : null
+            }
             <Divider />
             <div className="flex justify-center mt-4">
                 <Button color='primary' variant='shadow' size='lg' startContent={<FaSave />} onClick={handleSubmit}>Save Data</Button>
@@ -10,12 +10,36 @@ export interface VideoOptions {
     aiModel: string;
     /** OpenAI Endpoint */
     openAIEndpoint?: string;
+    /** AI capability overrides (for OpenAI compatible servers) */
+    aiCapabilities?: {
+        jsonMode?: boolean;
+        systemRole?: boolean;
+        streaming?: boolean;
+    };
+    /** Prompt template (name with optional version, ex. 'quiz@1.1.0') */
+    promptTemplate?: string;
+    /** Channel of prompt template */
+    promptChannel?: string;
+    /** Prompt template variables */
+    promptVariables?: Record<string, string>;
+    /** Target duration of the video (the AI fits the script to it) */
+    duration?: {
+        seconds: number;
+        tolerance?: number;
+        verify?: boolean;
+    };
+    /** Source URLs (web pages or feeds) to ground topic videos in */
+    sources?: string[];
+    /** Show source caption on topic videos */
+    showSources?: boolean;
     /** Voice generation type */
     voiceGenType: string; // TODO: Fix typing
     /** Image generation type */
     imageGenType: string; // TODO: Fix typing
     /** Video orientation */
     orientation: string;
+    /** Language of the video (ex. 'es') */
+    language?: string;
     /** Custom background video path */
     vidPath?: string;
     /** Custom background music path */
@@ -32,8 +56,109 @@ export interface VideoOptions {
     imageOptions?: AIImageGenOptions;
     /** TTS options */
     ttsOptions?: APIVoiceOptions;
+    /** Encoding profile (ex. 'webm') and settings */
+    encoding?: {
+        profile?: string;
+        fps?: number;
+        crf?: number;
+        targetSizeMB?: number;
+    };
 }
 
+/**
+ * TTS or image provider from the server (GET /types/providers)
+ */
+export interface ProviderInfo {
+    /** Provider id (ex. 'ElevenLabs') */
+    id: string;
+    /** Provider name */
+    name: string;
+    /** Short description */
+    description: string;
+    /** Credentials the provider needs */
+    credentials: { name: string, env: string, label: string }[];
+    /** All credentials are set on the server */
+    configured: boolean;
+    /** JSON schema of the provider options */
+    optionsSchema: { properties?: Record<string, unknown> };
+    /** What the provider can do (image providers have a style, TTS providers a speaking rate) */
+    capabilities: { local: boolean, style?: 'AI' | 'Search', speakingRate?: number };
+}
+
+/**
+ * Video language from the server
+ */
+export interface LanguageInfo {
+    /** Language code (ex. 'es') */
+    code: string;
+    /** Language name (ex. 'Spanish') */
+    name: string;
+}
+
+/**
+ * Prompt template from the server
+ */
+export interface PromptTemplateInfo {
+    /** Template name */
+    name: string;
+    /** Latest version */
+    version: string;
+    /** Every version */
+    versions: string[];
+    /** What the template is for */
+    description?: string;
+    /** Channels of the template */
+    channels: string[];
+    /** Default values of variables */
+    variables: Record<string, string | number>;
+}
+
+/**
+ * Usage report of AI requests (tokens, time and cost)
+ * (Note: only the fields shown in the frontend, the rest is sent back as is)
+ */
+export interface AIUsageReport {
+    /** Prompt and completion tokens */
+    totalTokens: number;
+    /** Total wall time in milliseconds */
+    durationMs: number;
+    /** Cost in USD */
+    cost: number;
+}
+
+/**
+ * Duration report from the server (subset shown in the UI)
+ */
+export interface DurationReport {
+    /** Target duration in seconds */
+    target: number;
+    /** Estimated duration in seconds */
+    estimatedSeconds: number;
+    /** Duration of the generated voice in seconds (if verified with TTS) */
+    measuredSeconds?: number;
+    /** Duration is within tolerance of the target */
+    withinTarget: boolean;
+}
+
+/**
+ * Upload metadata of one platform from the server
+ */
+export interface PlatformMetadata {
+    /** Video title */
+    title: string;
+    /** Video description */
+    description: string;
+    /** Hashtags (with '#') */
+    hashtags: string[];
+    /** Text of comment to pin under the video */
+    pinnedComment: string;
+}
+
+/**
+ * Upload metadata of each platform (platform id, ex. 'youtube', to metadata)
+ */
+export type VideoMetadata = Record<string, PlatformMetadata>;
+
 /**
  * Frontend model for internal video options
  */
@@ -24,6 +24,7 @@ export interface RankVideoData {
     images: string[];
     start_script: string;
     end_script: string;
+    imageAlternates?: Record<string, string[]>;
 }
 
 export interface RatherVideoData {
@@ -39,6 +40,7 @@ export interface RatherVideoData {
     }[];
     start_script: string;
     end_script: string;
+    imageAlternates?: Record<string, string[]>;
 }
 
 export interface TopicVideoData {
@@ -49,6 +51,24 @@ export interface TopicVideoData {
     end_script: string;
     images: string[];
     imgOverride?: string[];
+    sources?: { title: string, url: string }[];
+    showSources?: boolean;
+    imageAlternates?: Record<string, string[]>;
 }
 
-export type VideoData = MessageVideoData | QuizVideoData | RankVideoData | RatherVideoData | TopicVideoData;
+/** Data of a video type registered on the server (fields depend on the type) */
+export interface RegisteredVideoData {
+    type: string;
+    [field: string]: unknown;
+}
+
+/** Video type from the server (GET /types/video) */
+export interface VideoTypeInfo {
+    type: string;
+    label: string;
+    description: string;
+    icon?: string;
+    fields: string[];
+}
+
+export type VideoData = MessageVideoData | QuizVideoData | RankVideoData | RatherVideoData | TopicVideoData | RegisteredVideoData;